@@ -1,4 +1,6 @@
-const CACHE_NAME = 'aurora-pms-cache-v1';
+const CACHE_NAME = 'aurora-pms-cache-v2';
+// Bumped whenever the cached endpoints change so the activate step drops responses cached under the old rules
+const API_CACHE_NAME = 'aurora-pms-api-v2';
 const ASSETS = [
   '/',
   '/index.html',
@@ -17,7 +19,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((keys) =>
       Promise.all(
         keys.map((key) => {
-          if (key !== CACHE_NAME) {
+          if (key !== CACHE_NAME && key !== API_CACHE_NAME) {
             return caches.delete(key);
           }
           return undefined;
@@ -27,25 +29,73 @@ self.addEventListener('activate', (event) => {
   );
 });
 
+const isApiRequest = (url) => url.pathname.includes('/api/');
+
+// Only property setup and availability are kept for offline use; guest, folio, payment and audit data never touch the disk
+const CACHEABLE_API_PATHS = [
+  '/api/property/floors',
+  '/api/property/room-types',
+  '/api/property/rooms',
+  '/api/property/taxes',
+  '/api/reservations/availability'
+];
+
+const isCacheableApiRequest = (url) => CACHEABLE_API_PATHS.some((path) => url.pathname.endsWith(path));
+
+// API reads go to the network first so data stays fresh, falling back to the last response while offline
+const networkFirst = (request) =>
+  fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        const clone = response.clone();
+        caches.open(API_CACHE_NAME).then((cache) => cache.put(request, clone));
+      }
+      return response;
+    })
+    .catch(() =>
+      // Without a cached copy the page must still see a network error so it can queue the change
+      caches.match(request, { cacheName: API_CACHE_NAME }).then((cached) => cached || Response.error())
+    );
+
+// Built assets are content-hashed, so a cached copy is always safe to serve
+const cacheFirst = (request) =>
+  caches.match(request).then((cached) => {
+    if (cached) {
+      return cached;
+    }
+
+    return fetch(request)
+      .then((response) => {
+        if (response.ok) {
+          const clone = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, clone));
+        }
+        return response;
+      })
+      .catch(() => caches.match('/index.html'));
+  });
+
 self.addEventListener('fetch', (event) => {
   const { request } = event;
   if (request.method !== 'GET') {
     return;
   }
 
-  event.respondWith(
-    caches.match(request).then((cached) => {
-      if (cached) {
-        return cached;
-      }
+  const url = new URL(request.url);
 
-      return fetch(request)
-        .then((response) => {
-          const clone = response.clone();
-          caches.open(CACHE_NAME).then((cache) => cache.put(request, clone));
-          return response;
-        })
-        .catch(() => caches.match('/index.html'));
-    })
-  );
+  if (isApiRequest(url)) {
+    // Everything else goes straight to the network, so offline it fails and the page queues or reports it
+    if (isCacheableApiRequest(url)) {
+      event.respondWith(networkFirst(request));
+    }
+    return;
+  }
+
+  // Navigations load the app shell, which routes on the client
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  event.respondWith(cacheFirst(request));
 });
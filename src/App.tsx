@@ -12,9 +12,16 @@ import { FrontDeskPage } from './modules/frontdesk/FrontDeskPage';
 import { GuestsPage } from './modules/guests/GuestsPage';
 import { BillingPage } from './modules/billing/BillingPage';
 import { HousekeepingPage } from './modules/housekeeping/HousekeepingPage';
+import { MaintenancePage } from './modules/maintenance/MaintenancePage';
+import { LostFoundPage } from './modules/lost-found/LostFoundPage';
+import { AmenityPostingPage } from './modules/housekeeping/AmenityPostingPage';
+import { KitchenDisplayPage } from './modules/pos/KitchenDisplayPage';
 import { UserManagementPage } from './modules/admin/UserManagementPage';
 import { PosPage } from './modules/pos/PosPage';
+import { PosShiftPage } from './modules/pos/PosShiftPage';
+import { InventoryPage } from './modules/pos/InventoryPage';
 import { RoomsPage } from './modules/rooms/RoomsPage';
+import { ReportsPage } from './modules/reports/ReportsPage';
 import NightAuditRoutes from './modules/night-audit';
 import { 
   OTAConfigurationPage, 
@@ -23,13 +30,6 @@ import {
 } from './modules/admin';
 import OTAManagementPage from './modules/admin/OTAManagementPage';
 
-const ReportsPage = () => (
-  <div>
-    <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
-    <p className="mt-2 text-gray-600">Analytics & Reports coming soon...</p>
-  </div>
-);
-
 const SettingsPage = () => (
   <div>
     <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
@@ -89,8 +89,14 @@ function App() {
             <Route path="/billing" element={<BillingPage />} />
             <Route path="/guests" element={<GuestsPage />} />
             <Route path="/housekeeping" element={<HousekeepingPage />} />
+            <Route path="/amenities" element={<AmenityPostingPage />} />
+            <Route path="/maintenance" element={<MaintenancePage />} />
+            <Route path="/lost-found" element={<LostFoundPage />} />
             <Route element={<ProtectedRoute requiredPermissions={[ 'manage_pos' ]} /> }>
               <Route path="/pos" element={<PosPage />} />
+              <Route path="/kitchen" element={<KitchenDisplayPage />} />
+              <Route path="/pos/shifts" element={<PosShiftPage />} />
+              <Route path="/pos/inventory" element={<InventoryPage />} />
             </Route>
             <Route path="/rooms" element={<RoomsPage />} />
             {/* Advanced Features */}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CreditCard, QrCode, RefreshCw, RotateCcw } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { PAYMENT_INTENT_STATUS_LABELS, usePaymentStore } from '../../stores/paymentStore';
+import { formatCurrency } from '../../utils';
+import type { PaymentIntent } from '../../types';
+
+type BadgeVariant = 'default' | 'success' | 'warning' | 'danger' | 'info' | 'secondary';
+
+const STATUS_BADGES: Record<PaymentIntent['status'], BadgeVariant> = {
+  pending: 'warning',
+  authorized: 'info',
+  captured: 'success',
+  failed: 'danger',
+  cancelled: 'secondary',
+  expired: 'secondary',
+  refunded: 'default',
+};
+
+interface GatewayPaymentsPanelProps {
+  reservationId: string;
+  // Suggested capture for a card hold, usually the balance still due
+  balanceDue?: number;
+}
+
+/**
+ * UPI and card payments taken through the gateway for a stay, with capture, release and refund
+ */
+export function GatewayPaymentsPanel({ reservationId, balanceDue }: GatewayPaymentsPanelProps) {
+  const { refreshIntent, captureIntent, cancelIntent, refundIntent } = usePaymentStore();
+  const allIntents = usePaymentStore((state) => state.intents);
+  const intents = allIntents.filter((intent) => intent.target.type === 'folio' && intent.target.reservationId === reservationId);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    usePaymentStore.getState().hydrateFromBackend(reservationId).catch(() => undefined);
+  }, [reservationId]);
+
+  const run = async (intentId: string, action: () => Promise<unknown>) => {
+    setError(null);
+    setBusyId(intentId);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The gateway did not respond');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCapture = (intent: PaymentIntent) => {
+    const suggested = Math.min(intent.amount, Math.max(balanceDue ?? intent.amount, 0));
+    const entered = prompt(`Amount to capture from the ${formatCurrency(intent.amount)} hold:`, suggested.toFixed(2));
+    if (entered === null) return;
+    run(intent.id, () => captureIntent(intent.id, Number(entered)));
+  };
+
+  const handleRefund = (intent: PaymentIntent) => {
+    const refundable = intent.capturedAmount - intent.refundedAmount;
+    const entered = prompt(`Amount to refund (up to ${formatCurrency(refundable)}):`, refundable.toFixed(2));
+    if (entered === null) return;
+    const reason = prompt('Reason for the refund:');
+    if (!reason) return;
+    run(intent.id, () => refundIntent(intent.id, Number(entered), reason));
+  };
+
+  if (!intents.length) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+      {intents.map((intent) => (
+        <div key={intent.id} className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-gray-200 bg-white p-3 text-sm">
+          <div className="flex items-center gap-3">
+            {intent.method === 'upi' ? <QrCode className="h-5 w-5 text-gray-400" /> : <CreditCard className="h-5 w-5 text-gray-400" />}
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-gray-900">{formatCurrency(intent.capturedAmount || intent.amount)}</span>
+                <Badge variant={STATUS_BADGES[intent.status]}>{PAYMENT_INTENT_STATUS_LABELS[intent.status]}</Badge>
+                {intent.refundedAmount > 0 && intent.status !== 'refunded' && (
+                  <span className="text-xs text-gray-500">{formatCurrency(intent.refundedAmount)} refunded</span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                {intent.description} · {format(parseISO(intent.createdAt), 'dd MMM HH:mm')}
+                {intent.paymentRef && ` · ${intent.paymentRef}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {intent.status === 'pending' && (
+              <>
+                <Button variant="ghost" size="sm" disabled={busyId === intent.id} onClick={() => run(intent.id, () => refreshIntent(intent.id))}>
+                  <RefreshCw className="h-4 w-4 mr-1" /> Check
+                </Button>
+                <Button variant="ghost" size="sm" disabled={busyId === intent.id} onClick={() => run(intent.id, () => cancelIntent(intent.id))}>
+                  Cancel
+                </Button>
+              </>
+            )}
+            {intent.status === 'authorized' && (
+              <>
+                <Button variant="primary" size="sm" disabled={busyId === intent.id} onClick={() => handleCapture(intent)}>
+                  Capture
+                </Button>
+                <Button variant="ghost" size="sm" disabled={busyId === intent.id} onClick={() => run(intent.id, () => cancelIntent(intent.id))}>
+                  Release
+                </Button>
+              </>
+            )}
+            {intent.status === 'captured' && intent.capturedAmount > intent.refundedAmount && (
+              <Button variant="ghost" size="sm" disabled={busyId === intent.id} onClick={() => handleRefund(intent)}>
+                <RotateCcw className="h-4 w-4 mr-1" /> Refund
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, CreditCard, Loader2, QrCode, XCircle } from 'lucide-react';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/Dialog';
+import { Button } from '../ui/Button';
+import { UpiQrCode } from './UpiQrCode';
+import { PAYMENT_INTENT_STATUS_LABELS, usePaymentStore } from '../../stores/paymentStore';
+import { simulateMockPayment } from '../../services/paymentProviders';
+import { cn, formatCurrency } from '../../utils';
+import type { PaymentIntent, PaymentIntentMethod, PaymentTarget } from '../../types';
+
+interface PaymentCollectDialogProps {
+  method: PaymentIntentMethod;
+  amount: number;
+  description: string;
+  target: PaymentTarget;
+  captureMode?: PaymentIntent['captureMode'];
+  onClose: () => void;
+  onComplete?: (intent: PaymentIntent) => void;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Collects one UPI or card payment through the configured gateway; the payment record is written once it confirms
+ */
+export function PaymentCollectDialog({ method, amount, description, target, captureMode, onClose, onComplete }: PaymentCollectDialogProps) {
+  const { createIntent, refreshIntent, cancelIntent } = usePaymentStore();
+  const [intentId, setIntentId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const intent = usePaymentStore((state) => state.intents.find((entry) => entry.id === intentId));
+
+  const isHold = method === 'card' && captureMode === 'manual';
+  const isDone = intent?.status === 'captured' || intent?.status === 'authorized';
+  const isPending = intent?.status === 'pending';
+
+  useEffect(() => {
+    if (!intentId || !isPending) {
+      return undefined;
+    }
+    const timer = window.setInterval(() => {
+      refreshIntent(intentId).catch((err) => setError(err instanceof Error ? err.message : 'Could not reach the gateway'));
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [intentId, isPending, refreshIntent]);
+
+  const start = async () => {
+    setError(null);
+    setIsStarting(true);
+    try {
+      const created = await createIntent({ method, amount, description, target, captureMode });
+      setIntentId(created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start the payment');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const simulate = async (outcome: 'success' | 'failure') => {
+    if (!intent?.providerRef) return;
+    simulateMockPayment(intent.providerRef, outcome);
+    await refreshIntent(intent.id).catch((err) => setError(err instanceof Error ? err.message : 'Could not reach the gateway'));
+  };
+
+  // Closing while the guest is still paying withdraws the request so it cannot be paid later
+  const handleClose = () => {
+    if (intent && isPending) {
+      cancelIntent(intent.id).catch(() => undefined);
+    }
+    if (intent && isDone) {
+      onComplete?.(intent);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="w-[26rem]">
+        <DialogClose onClick={handleClose} />
+        <DialogHeader>
+          <DialogTitle>
+            {isHold ? 'Card Hold' : method === 'upi' ? 'UPI Payment' : 'Card Payment'} · {formatCurrency(amount)}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="mt-4 space-y-4">
+          {error && <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+
+          {!intent && (
+            <p className="text-sm text-gray-600">
+              {method === 'upi'
+                ? 'A QR code for this exact amount will be shown for the guest to scan with any UPI app.'
+                : isHold
+                  ? 'The amount is held on the card and only charged when captured, e.g. against the final bill.'
+                  : 'The amount is sent to the card terminal for the guest to tap, insert or swipe.'}
+            </p>
+          )}
+
+          {intent && (
+            <div className="flex flex-col items-center gap-3 text-center">
+              {method === 'upi' && isPending && intent.upiUri && <UpiQrCode value={intent.upiUri} />}
+              {method === 'card' && isPending && <CreditCard className="h-16 w-16 text-primary-500" />}
+              {isDone && <CheckCircle2 className="h-16 w-16 text-emerald-500" />}
+              {!isPending && !isDone && <XCircle className="h-16 w-16 text-red-500" />}
+              <p
+                className={cn(
+                  'flex items-center gap-2 text-sm font-semibold',
+                  isDone ? 'text-emerald-600' : isPending ? 'text-gray-700' : 'text-red-600'
+                )}
+              >
+                {isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                {PAYMENT_INTENT_STATUS_LABELS[intent.status]}
+              </p>
+              {intent.failureReason && <p className="text-xs text-red-600">{intent.failureReason}</p>}
+              {isDone && intent.paymentRef && <p className="text-xs text-gray-500">Ref {intent.paymentRef}</p>}
+              {isPending && import.meta.env.DEV && intent.provider === 'mock' && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => simulate('success')}>
+                    Simulate {method === 'upi' ? 'paid' : 'approved'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => simulate('failure')}>
+                    Simulate declined
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6">
+          {!intent || (!isPending && !isDone) ? (
+            <Button variant="primary" className="gap-2" onClick={start} isLoading={isStarting}>
+              {method === 'upi' ? <QrCode className="h-4 w-4" /> : <CreditCard className="h-4 w-4" />}
+              {intent ? 'Try Again' : method === 'upi' ? 'Show QR' : 'Send to Terminal'}
+            </Button>
+          ) : (
+            <Button variant={isDone ? 'primary' : 'ghost'} onClick={handleClose}>
+              {isDone ? 'Done' : 'Cancel Payment'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { encodeQr } from '../../utils/qrcode';
+import { cn } from '../../utils';
+
+const QUIET_ZONE = 4;
+
+/**
+ * Scannable QR for a UPI payment link, drawn as one SVG path
+ */
+export function UpiQrCode({ value, className }: { value: string; className?: string }) {
+  const { path, size } = useMemo(() => {
+    const modules = encodeQr(value);
+    const segments: string[] = [];
+    modules.forEach((row, y) =>
+      row.forEach((dark, x) => {
+        if (dark) {
+          segments.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+        }
+      })
+    );
+    return { path: segments.join(''), size: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      shapeRendering="crispEdges"
+      className={cn('h-56 w-56 rounded-lg border border-gray-200 bg-white', className)}
+      role="img"
+      aria-label="UPI payment QR code"
+    >
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { CloudOff, CloudUpload, RefreshCw, TriangleAlert, Check, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useSyncStore } from '../../stores/syncStore';
+import { cn } from '../../utils';
+
+export function SyncStatusIndicator() {
+  const { isOnline, isSyncing, pendingCount, lastSyncedAt, lastError, conflicts, replay, dismissConflict } = useSyncStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const status = !isOnline
+    ? { label: pendingCount ? `Offline · ${pendingCount} queued` : 'Offline', icon: CloudOff, tone: 'bg-red-50 text-red-700 ring-red-600/20' }
+    : isSyncing
+      ? { label: `Syncing ${pendingCount}`, icon: RefreshCw, tone: 'bg-blue-50 text-blue-700 ring-blue-600/20' }
+      : pendingCount
+        ? { label: `${pendingCount} pending`, icon: CloudUpload, tone: 'bg-amber-50 text-amber-800 ring-amber-600/20' }
+        : { label: 'Synced', icon: Check, tone: 'bg-green-50 text-green-700 ring-green-600/20' };
+  const Icon = status.icon;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={cn('flex items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-xs font-medium ring-1 ring-inset', status.tone)}
+        title={lastSyncedAt ? `Last synced ${formatDistanceToNow(new Date(lastSyncedAt), { addSuffix: true })}` : 'Not synced yet'}
+      >
+        <Icon className={cn('h-4 w-4', isSyncing && 'animate-spin')} />
+        <span className="hidden sm:inline">{status.label}</span>
+        {conflicts.length > 0 && (
+          <span className="flex h-4 min-w-[16px] items-center justify-center rounded-full bg-amber-500 px-1 text-[10px] font-semibold text-white">
+            {conflicts.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-11 z-50 w-80 rounded-lg border border-zinc-200 bg-white p-4 shadow-xl">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold text-zinc-900">Sync Status</p>
+            <button onClick={() => setIsOpen(false)} className="text-zinc-400 hover:text-zinc-600">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-zinc-500">
+            {pendingCount
+              ? `${pendingCount} change(s) saved on this device will be sent when the backend is reachable.`
+              : 'All changes are saved on the server.'}
+          </p>
+          {lastError && <p className="mt-2 text-xs text-red-600">{lastError}</p>}
+          {pendingCount > 0 && (
+            <button
+              onClick={() => replay()}
+              disabled={isSyncing}
+              className="mt-3 flex items-center gap-1 text-xs font-medium text-zinc-700 hover:text-zinc-900 disabled:opacity-50"
+            >
+              <RefreshCw className="h-3.5 w-3.5" /> Retry now
+            </button>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="mt-4 space-y-2 border-t border-zinc-200 pt-3">
+              <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">Needs review</p>
+              {conflicts.map((conflict) => (
+                <div key={conflict.id} className="flex items-start gap-2 rounded-md bg-amber-50 p-2 text-xs text-amber-900">
+                  <TriangleAlert className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+                  <div className="flex-1">
+                    <p className="font-medium">{conflict.label}</p>
+                    <p>{conflict.message}</p>
+                  </div>
+                  <button onClick={() => dismissConflict(conflict.id)} className="text-amber-700 hover:text-amber-900">
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
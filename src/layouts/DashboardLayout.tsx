@@ -20,6 +20,12 @@ import {
   Moon,
   Wifi,
   ScrollText,
+  Wrench,
+  PackageSearch,
+  Wine,
+  ChefHat,
+  Banknote,
+  Boxes,
   type LucideIcon
 } from 'lucide-react';
 import { useAuthStore } from '../stores/authStore';
@@ -29,6 +35,11 @@ import { format } from 'date-fns';
 import { AlertBell, AlertCenterPanel, AlertsToaster } from '../components/alerts/AlertCenter';
 import { useAlertStore } from '../stores/alertStore';
 import { PWAInstallPrompt } from '../components/pwa/PWAInstallPrompt';
+import { SyncStatusIndicator } from '../components/pwa/SyncStatusIndicator';
+import { useSyncStore } from '../stores/syncStore';
+import { useReportScheduleStore } from '../stores/reportScheduleStore';
+import { useHousekeepingStore } from '../stores/housekeepingStore';
+import { useMaintenanceStore } from '../stores/maintenanceStore';
 import { GlobalSearch } from '../components/ui/GlobalSearch';
 import { TransactionLogsViewer } from '../components/ui/TransactionLogsViewer';
 
@@ -77,6 +88,27 @@ const navigationConfig: NavItem[] = [
     permission: 'manage_pos',
     roles: ['admin', 'manager', 'front-desk']
   },
+  { 
+    name: 'Kitchen Display', 
+    href: '/kitchen', 
+    icon: ChefHat, 
+    permission: 'manage_pos',
+    roles: ['admin', 'manager', 'front-desk']
+  },
+  { 
+    name: 'Cashier Shift', 
+    href: '/pos/shifts', 
+    icon: Banknote, 
+    permission: 'manage_pos',
+    roles: ['admin', 'manager', 'front-desk']
+  },
+  { 
+    name: 'F&B Inventory', 
+    href: '/pos/inventory', 
+    icon: Boxes, 
+    permission: 'manage_pos',
+    roles: ['admin', 'manager']
+  },
   { 
     name: 'Guests', 
     href: '/guests', 
@@ -91,6 +123,27 @@ const navigationConfig: NavItem[] = [
     permission: 'manage_housekeeping',
     roles: ['admin', 'manager', 'housekeeping']
   },
+  { 
+    name: 'Minibar & Laundry', 
+    href: '/amenities', 
+    icon: Wine, 
+    permission: 'manage_housekeeping',
+    roles: ['admin', 'manager', 'housekeeping']
+  },
+  { 
+    name: 'Maintenance', 
+    href: '/maintenance', 
+    icon: Wrench, 
+    permission: 'manage_rooms',
+    roles: ['admin', 'manager', 'housekeeping']
+  },
+  { 
+    name: 'Lost & Found', 
+    href: '/lost-found', 
+    icon: PackageSearch, 
+    permission: 'view_dashboard',
+    roles: ['admin', 'manager', 'front-desk', 'housekeeping']
+  },
   { 
     name: 'Rooms', 
     href: '/rooms', 
@@ -159,6 +212,10 @@ export function DashboardLayout() {
   const navigate = useNavigate();
   const { user, session, logout, hasPermission } = useAuthStore();
   const evaluateAlerts = useAlertStore((state) => state.evaluateRules);
+  const initializeSync = useSyncStore((state) => state.initialize);
+  const initializeReportSchedules = useReportScheduleStore((state) => state.initialize);
+  const initializeHousekeeping = useHousekeepingStore((state) => state.initialize);
+  const initializeMaintenance = useMaintenanceStore((state) => state.initialize);
   const canViewAlerts = hasPermission('view_alerts' as Permission);
 
   useEffect(() => {
@@ -167,6 +224,18 @@ export function DashboardLayout() {
     }
   }, [canViewAlerts]);
 
+  // Replays changes queued while offline and tracks connectivity
+  useEffect(() => initializeSync(), [initializeSync]);
+
+  // Sends scheduled reports that have come due
+  useEffect(() => initializeReportSchedules(), [initializeReportSchedules]);
+
+  // Opens housekeeping tasks as rooms turn dirty
+  useEffect(() => initializeHousekeeping(), [initializeHousekeeping]);
+
+  // Takes rooms out of order as work orders start
+  useEffect(() => initializeMaintenance(), [initializeMaintenance]);
+
   // Update current time every minute
   useEffect(() => {
     const timer = setInterval(() => {
@@ -381,6 +450,7 @@ export function DashboardLayout() {
           </div>
 
           <div className="flex items-center gap-2">
+            <SyncStatusIndicator />
             {canViewAlerts && <AlertBell onClick={() => setAlertsOpen((prev) => !prev)} />}
             
             {/* Transaction Logs Button */}
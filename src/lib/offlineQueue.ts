@@ -0,0 +1,67 @@
+import { isAxiosError } from 'axios';
+import type { QueuedMutation } from '../types';
+
+const DB_NAME = 'nexus-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Unable to open the offline queue'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('Offline queue operation failed'));
+  });
+};
+
+export const offlineQueue = {
+  async list(): Promise<QueuedMutation[]> {
+    const mutations = await runRequest<QueuedMutation[]>('readonly', (store) => store.getAll());
+    return mutations.sort((a, b) => a.sequence - b.sequence);
+  },
+
+  async put(mutation: QueuedMutation): Promise<void> {
+    await runRequest('readwrite', (store) => store.put(mutation));
+  },
+
+  async remove(id: string): Promise<void> {
+    await runRequest('readwrite', (store) => store.delete(id));
+  },
+
+  async clear(): Promise<void> {
+    await runRequest('readwrite', (store) => store.clear());
+  },
+};
+
+/**
+ * True when the request never reached the backend, as opposed to the backend rejecting it
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  return isAxiosError(error) && !error.response;
+};
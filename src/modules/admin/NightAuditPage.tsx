@@ -3,6 +3,8 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../..
 import { Button } from '../../components/ui/Button';
 import { Badge } from '../../components/ui/Badge';
 import { nightAuditApi } from '../../services/advancedFeaturesApi';
+import { usePOSShiftStore } from '../../stores/posShiftStore';
+import { processAuditNoShows } from '../../stores/nightAuditStore';
 import type { NightAudit, NightAuditStep } from '../../types';
 import {
   CheckCircle as CheckCircleIcon,
@@ -56,10 +58,16 @@ export default function NightAuditPage() {
     try {
       setLoading(true);
       setError(null);
+      const blocker = await usePOSShiftStore.getState().getAuditBlocker();
+      if (blocker) {
+        setError(blocker);
+        return;
+      }
+      await processAuditNoShows();
       await nightAuditApi.startAudit();
       await loadData();
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to start night audit');
+      setError(err.response?.data?.message || err.message || 'Failed to start night audit');
     } finally {
       setLoading(false);
     }
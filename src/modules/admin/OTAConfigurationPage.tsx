@@ -7,6 +7,8 @@ import { Label } from '../../components/ui/Label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../components/ui/Dialog';
 import { otaApi } from '../../services/advancedFeaturesApi';
 import { propertyApi } from '../../services/propertyApi';
+import { useRateCalendarStore } from '../../stores/rateCalendarStore';
+import { useReservationStore } from '../../stores/reservationStore';
 import type { OTAChannel, OTAProvider, RoomType } from '../../types';
 import {
   Plus as PlusIcon,
@@ -83,7 +85,15 @@ export default function OTAConfigurationPage() {
     try {
       const from = new Date().toISOString().split('T')[0];
       const to = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-      await otaApi.syncRates(id, { from, to });
+      const channel = channels.find((entry) => entry.id === id);
+      // Channels must get the rates on the server, including changes made on other terminals
+      await useRateCalendarStore.getState().hydrateFromBackend();
+      const rates = channel
+        ? useRateCalendarStore
+            .getState()
+            .buildChannelRates(channel.mappings, useReservationStore.getState().ratePlans, from, to)
+        : undefined;
+      await otaApi.syncRates(id, { from, to, rates });
       alert('Rates sync initiated successfully');
     } catch (err: any) {
       alert(err.response?.data?.message || 'Rates sync failed');
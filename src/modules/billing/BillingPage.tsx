@@ -1,89 +1,140 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { format } from 'date-fns';
-import { FileText, Plus, Trash2, SplitSquareVertical, Printer } from 'lucide-react';
+import { Ban, FileMinus, FilePlus, FileText, FolderPlus, Plus, SplitSquareVertical, Printer } from 'lucide-react';
 import { Button } from '../../components/ui/Button';
+import { PaymentCollectDialog } from '../../components/payments/PaymentCollectDialog';
+import { GatewayPaymentsPanel } from '../../components/payments/GatewayPaymentsPanel';
+import { SplitBillPanel } from '../frontdesk/components/SplitBillPanel';
 import { Input } from '../../components/ui/Input';
 import { Select } from '../../components/ui/Select';
 import { useReservationStore } from '../../stores/reservationStore';
 import { usePropertyStore } from '../../stores/propertyStore';
-import type { Reservation } from '../../types';
+import { useFolioStore } from '../../stores/folioStore';
+import { useAuthStore } from '../../stores/authStore';
+import { buildTaxLines, summarizeTaxLines, useInvoiceStore, type TaxLineInput } from '../../stores/invoiceStore';
+import type {
+  ChargeCategory,
+  Folio,
+  FolioEntry,
+  GstSupplyType,
+  HotelProfile,
+  PaymentMethod,
+  Reservation,
+  TaxDocument,
+} from '../../types';
 import { cn, formatCurrency } from '../../utils';
+import { GST_STATE_CODES, resolveStateCode, resolveSupplyType, resolveTaxRate } from '../../utils/gst';
 
-const CATEGORY_OPTIONS = [
+const CATEGORY_OPTIONS: { value: ChargeCategory; label: string }[] = [
   { value: 'room', label: 'Room Charge' },
   { value: 'extra-bed', label: 'Extra Bed' },
-  { value: 'food', label: 'Food & Beverage' },
+  { value: 'restaurant', label: 'Food & Beverage' },
+  { value: 'mini-bar', label: 'Mini Bar' },
   { value: 'laundry', label: 'Laundry' },
   { value: 'transport', label: 'Airport Transfer' },
+  { value: 'late-checkout', label: 'Late Checkout' },
   { value: 'other', label: 'Other' },
 ];
 
-const BILL_OPTIONS = [
-  { value: 'primary', label: 'Bill A' },
-  { value: 'secondary', label: 'Bill B' },
-];
-
-const PAYMENT_MODES = [
+const PAYMENT_MODES: { value: PaymentMethod; label: string }[] = [
   { value: 'cash', label: 'Cash' },
   { value: 'card', label: 'Card' },
   { value: 'upi', label: 'UPI' },
   { value: 'bank-transfer', label: 'Bank Transfer' },
 ];
 
-type BillId = 'primary' | 'secondary';
+type LedgerLine = FolioEntry & { balance: number; isVoided: boolean };
 
-type LineItem = {
+type InvoiceLine = {
   id: string;
+  folioId: string;
   description: string;
-  category: string;
+  category: ChargeCategory;
   quantity: number;
   unitAmount: number;
   taxRate: number;
-  bill: BillId;
-  editable: boolean;
-};
-
-type PaymentEntry = {
-  id: string;
-  bill: BillId;
-  mode: string;
   amount: number;
-  reference?: string;
+  taxAmount: number;
 };
 
-interface TotalsByBill {
+type NewCharge = { description: string; category: ChargeCategory; quantity: string; unitAmount: string; taxRate: string };
+
+type NewPayment = { mode: PaymentMethod; amount: string; reference: string };
+
+interface TotalsByFolio {
   subtotal: number;
   tax: number;
+  adjustments: number;
   total: number;
   balance: number;
   payments: number;
   status: 'unpaid' | 'partial' | 'paid';
 }
 
-const splitTax = (totalTax: number) => {
-  const half = Number((totalTax / 2).toFixed(2));
-  return { cgst: half, sgst: totalTax - half };
+const DOCUMENT_TITLES: Record<TaxDocument['type'], string> = {
+  invoice: 'TAX INVOICE',
+  'credit-note': 'CREDIT NOTE',
+  'debit-note': 'DEBIT NOTE',
 };
 
-const generateId = () => Math.random().toString(36).slice(2, 10);
+const toTaxLineInput = (item: InvoiceLine): TaxLineInput => ({
+  description: item.description,
+  category: item.category,
+  quantity: item.quantity,
+  unitAmount: item.unitAmount,
+  taxableAmount: item.amount,
+  taxRate: item.taxRate,
+  sourceEntryId: item.id,
+});
+
+const emptyTotals = (): TotalsByFolio => ({
+  subtotal: 0,
+  tax: 0,
+  adjustments: 0,
+  total: 0,
+  payments: 0,
+  balance: 0,
+  status: 'unpaid',
+});
 
 export function BillingPage() {
-  const { reservations } = useReservationStore();
-  const { taxConfig } = usePropertyStore();
+  const { reservations, getStayRates } = useReservationStore();
+  const { taxConfig, hotelProfile } = usePropertyStore();
+  const { documents, peekNextNumber, issueInvoice, issueNote, hydrateFromBackend: hydrateInvoices } = useInvoiceStore();
+  const { user } = useAuthStore();
+  const {
+    folios: allFolios,
+    entries,
+    ensurePrimaryFolio,
+    openFolio,
+    postRoomCharges,
+    postCharge,
+    postPayment,
+    voidEntry,
+    transferEntry,
+    getLedger,
+    error: ledgerError,
+    hydrateFromBackend: hydrateFolios,
+  } = useFolioStore();
   const [selectedReservationId, setSelectedReservationId] = useState<string | null>(null);
-  const [invoiceNumber, setInvoiceNumber] = useState(() => `INV-${Date.now().toString().slice(-6)}`);
+  const [buyerGstin, setBuyerGstin] = useState('');
+  const [placeOfSupply, setPlaceOfSupply] = useState('');
   const [issueDate, setIssueDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
-  const [lineItems, setLineItems] = useState<LineItem[]>([]);
-  const [payments, setPayments] = useState<PaymentEntry[]>([]);
-  const [activeBill, setActiveBill] = useState<BillId>('primary');
-  const [newPayment, setNewPayment] = useState({ mode: 'cash', amount: '', reference: '' });
-
-  const gstRate = useMemo(() => {
-    if (!taxConfig?.gstEnabled) {
-      return 0;
-    }
-    return (taxConfig.cgst || 0) + (taxConfig.sgst || 0);
-  }, [taxConfig]);
+  const [activeFolioId, setActiveFolioId] = useState<string>('');
+  const [newFolioName, setNewFolioName] = useState('');
+  const [operationError, setOperationError] = useState<string | null>(null);
+  const [newCharge, setNewCharge] = useState<NewCharge>({
+    description: '',
+    category: 'other',
+    quantity: '1',
+    unitAmount: '',
+    taxRate: '',
+  });
+  const [newPayment, setNewPayment] = useState<NewPayment>({ mode: 'cash', amount: '', reference: '' });
+  const [collecting, setCollecting] = useState<{ method: 'card' | 'upi'; amount: number; hold: boolean } | null>(null);
+  const [showSplit, setShowSplit] = useState(false);
+
+  const postedBy = user?.name || 'System';
 
   const checkedInReservations = useMemo(() => {
     return reservations.filter((reservation) => reservation.status === 'checked-in' || reservation.status === 'confirmed');
@@ -93,40 +144,85 @@ export function BillingPage() {
     ? reservations.find((reservation) => reservation.id === selectedReservationId) || null
     : null;
 
-  useEffect(() => {
-    if (!selectedReservation) {
-      setLineItems([]);
-      setPayments([]);
+  // Invoice details start over only when a different reservation is picked, not when its record refreshes
+  const handleSelectReservation = async (reservation: Reservation) => {
+    if (reservation.id === selectedReservationId) {
       return;
     }
-
-    const autoItems = buildAutoItems(selectedReservation, gstRate);
-    setLineItems(autoItems);
-    setPayments([]);
-    setInvoiceNumber(`INV-${selectedReservation.confirmationNumber}`);
+    // The local ledger is only a cache, so pull this stay's postings and invoices before opening a folio for it
+    await Promise.all([
+      hydrateFolios(reservation.id).catch(() => undefined),
+      hydrateInvoices(reservation.id).catch(() => undefined),
+    ]);
+    const primary = ensurePrimaryFolio(reservation.id, `${reservation.guest.firstName} ${reservation.guest.lastName}`.trim());
+    setSelectedReservationId(reservation.id);
+    setActiveFolioId(primary.id);
+    setBuyerGstin('');
+    setPlaceOfSupply(reservation.guest.address?.state || hotelProfile?.state || '');
     setIssueDate(format(new Date(), 'yyyy-MM-dd'));
-  }, [selectedReservation, gstRate]);
+    setOperationError(null);
+  };
 
-  const totals = useMemo(() => {
-    const base: Record<BillId, TotalsByBill> = {
-      primary: { subtotal: 0, tax: 0, total: 0, payments: 0, balance: 0, status: 'unpaid' },
-      secondary: { subtotal: 0, tax: 0, total: 0, payments: 0, balance: 0, status: 'unpaid' },
-    };
+  const folios = useMemo(
+    () => (selectedReservationId ? allFolios.filter((folio) => folio.reservationId === selectedReservationId) : []),
+    [allFolios, selectedReservationId]
+  );
+
+  // `entries` is the store slice the ledger is derived from
+  const ledger = useMemo<LedgerLine[]>(
+    () => (selectedReservationId && entries.length ? getLedger(selectedReservationId) : []),
+    [entries, getLedger, selectedReservationId]
+  );
 
-    lineItems.forEach((item) => {
-      const subtotal = item.quantity * item.unitAmount;
-      const taxAmount = Number(((subtotal * item.taxRate) / 100).toFixed(2));
-      base[item.bill].subtotal += subtotal;
-      base[item.bill].tax += taxAmount;
-      base[item.bill].total += subtotal + taxAmount;
+  const invoiceLines = useMemo<InvoiceLine[]>(() => {
+    return ledger.flatMap((line) => {
+      if (line.type !== 'charge' || line.isVoided || !line.charge) {
+        return [];
+      }
+      const { charge } = line;
+      const quantity = charge.quantity || 1;
+      const taxAmount = charge.taxAmount || 0;
+      return [{
+        id: line.id,
+        folioId: line.folioId,
+        description: charge.description,
+        category: charge.category,
+        quantity,
+        unitAmount: Number((charge.amount / quantity).toFixed(2)),
+        taxRate: charge.taxRate ?? (charge.amount ? Number(((taxAmount / charge.amount) * 100).toFixed(2)) : 0),
+        amount: charge.amount,
+        taxAmount,
+      }];
     });
+  }, [ledger]);
+
+  const payments = useMemo(
+    () => ledger.filter((line) => line.type === 'payment'),
+    [ledger]
+  );
 
-    payments.forEach((payment) => {
-      base[payment.bill].payments += payment.amount;
+  const totals = useMemo(() => {
+    const base: Record<string, TotalsByFolio> = {};
+    folios.forEach((folio) => {
+      base[folio.id] = emptyTotals();
     });
 
-    (['primary', 'secondary'] as BillId[]).forEach((bill) => {
-      const entry = base[bill];
+    ledger
+      .filter((line) => line.type !== 'void' && !line.isVoided)
+      .forEach((line) => {
+        const entry = base[line.folioId] ?? (base[line.folioId] = emptyTotals());
+        if (line.type === 'charge') {
+          entry.subtotal += line.charge?.amount ?? line.amount;
+          entry.tax += line.charge?.taxAmount || 0;
+        } else if (line.type === 'adjustment') {
+          entry.adjustments += line.amount;
+        } else if (line.type === 'payment') {
+          entry.payments += -line.amount;
+        }
+      });
+
+    Object.values(base).forEach((entry) => {
+      entry.total = Number((entry.subtotal + entry.tax + entry.adjustments).toFixed(2));
       entry.balance = Number((entry.total - entry.payments).toFixed(2));
       if (!entry.total) {
         entry.status = 'unpaid';
@@ -142,30 +238,93 @@ export function BillingPage() {
     });
 
     return base;
-  }, [lineItems, payments]);
+  }, [folios, ledger]);
 
-  const handleLineItemChange = (id: string, updates: Partial<LineItem>) => {
-    setLineItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  const activeFolio = folios.find((folio) => folio.id === activeFolioId);
+
+  const reservationDocuments = useMemo(
+    () => (selectedReservationId ? documents.filter((doc) => doc.reservationId === selectedReservationId) : []),
+    [documents, selectedReservationId]
+  );
+
+  // A company folio carries its own GSTIN unless one is typed for this invoice
+  const invoiceGstin = buyerGstin.trim().toUpperCase() || activeFolio?.payerGstin || '';
+  const supplyType = resolveSupplyType(hotelProfile?.gstin, invoiceGstin || placeOfSupply);
+  const nextInvoiceNumber = peekNextNumber('invoice', issueDate);
+
+  const invoicedEntryIds = useMemo(
+    () =>
+      new Set(
+        reservationDocuments
+          .filter((doc) => doc.type === 'invoice')
+          .flatMap((doc) => doc.lines.map((line) => line.sourceEntryId))
+      ),
+    [reservationDocuments]
+  );
+
+  // Charges on the active folio that have not yet appeared on an invoice
+  const pendingLines = useMemo(
+    () => invoiceLines.filter((line) => line.folioId === activeFolioId && !invoicedEntryIds.has(line.id)),
+    [activeFolioId, invoiceLines, invoicedEntryIds]
+  );
+
+  const billedTo = (folio?: Folio) =>
+    folio?.payerName || (selectedReservation ? `${selectedReservation.guest.firstName} ${selectedReservation.guest.lastName}` : '');
+
+  const runLedgerAction = async (action: () => void | Promise<void>) => {
+    setOperationError(null);
+    try {
+      await action();
+    } catch (error) {
+      setOperationError(error instanceof Error ? error.message : 'Unable to update the folio');
+    }
   };
 
-  const handleAddAddOn = () => {
-    setLineItems((prev) => [
-      ...prev,
-      {
-        id: generateId(),
-        description: 'Add-on service',
-        category: 'other',
-        quantity: 1,
-        unitAmount: 0,
-        taxRate: gstRate,
-        bill: activeBill,
-        editable: true,
-      },
-    ]);
+  const handlePostRoomCharges = () => {
+    if (!selectedReservation) return;
+    runLedgerAction(() => {
+      if (!postRoomCharges(selectedReservation, getStayRates(selectedReservation.id), postedBy).length) {
+        throw new Error('Room charges for this stay are already on the folio');
+      }
+    });
   };
 
-  const handleRemoveLine = (id: string) => {
-    setLineItems((prev) => prev.filter((item) => item.id !== id));
+  const handleOpenFolio = () => {
+    if (!selectedReservation) return;
+    runLedgerAction(() => {
+      const folio = openFolio(selectedReservation.id, newFolioName);
+      setActiveFolioId(folio.id);
+      setNewFolioName('');
+    });
+  };
+
+  const handlePostCharge = () => {
+    if (!selectedReservation) return;
+    const quantity = Number(newCharge.quantity) || 0;
+    const unitAmount = Number(newCharge.unitAmount) || 0;
+    const taxRate =
+      newCharge.taxRate === '' ? resolveTaxRate(taxConfig, newCharge.category, unitAmount) : Number(newCharge.taxRate) || 0;
+    if (!newCharge.description.trim() || quantity <= 0 || unitAmount <= 0) {
+      setOperationError('Enter a description, quantity and rate to post a charge.');
+      return;
+    }
+
+    runLedgerAction(() => {
+      const amount = Number((quantity * unitAmount).toFixed(2));
+      postCharge(
+        selectedReservation.id,
+        {
+          description: newCharge.description.trim(),
+          category: newCharge.category,
+          amount,
+          quantity,
+          taxRate,
+          taxAmount: Number(((amount * taxRate) / 100).toFixed(2)),
+        },
+        { folioId: activeFolioId || undefined, source: 'billing', postedBy }
+      );
+      setNewCharge((prev) => ({ ...prev, description: '', quantity: '1', unitAmount: '' }));
+    });
   };
 
   const handleAddPayment = () => {
@@ -173,34 +332,50 @@ export function BillingPage() {
     if (!amountValue || !selectedReservation) {
       return;
     }
-    setPayments((prev) => [
-      ...prev,
-      {
-        id: generateId(),
-        bill: activeBill,
-        mode: newPayment.mode,
-        amount: Number(amountValue.toFixed(2)),
-        reference: newPayment.reference || undefined,
-      },
-    ]);
-    setNewPayment({ mode: newPayment.mode, amount: '', reference: '' });
+    // Without a reference from an external machine, card and UPI are collected through the gateway
+    if ((newPayment.mode === 'card' || newPayment.mode === 'upi') && !newPayment.reference.trim()) {
+      setCollecting({ method: newPayment.mode, amount: amountValue, hold: false });
+      return;
+    }
+    runLedgerAction(() => {
+      postPayment(
+        selectedReservation.id,
+        {
+          method: newPayment.mode,
+          amount: Number(amountValue.toFixed(2)),
+          reference: newPayment.reference || undefined,
+        },
+        { folioId: activeFolioId || undefined, source: 'billing', postedBy }
+      );
+      setNewPayment({ mode: newPayment.mode, amount: '', reference: '' });
+    });
+  };
+
+  const handleVoidEntry = (entryId: string) => {
+    const reason = prompt('Reason for voiding this entry:');
+    if (!reason) {
+      return;
+    }
+    runLedgerAction(() => {
+      voidEntry(entryId, reason, postedBy);
+    });
   };
 
-  const handleRemovePayment = (id: string) => {
-    setPayments((prev) => prev.filter((entry) => entry.id !== id));
+  const handleTransferEntry = (entryId: string, folioId: string) => {
+    runLedgerAction(() => {
+      transferEntry(entryId, folioId, postedBy);
+    });
   };
 
-  const handlePrintBill = () => {
+  const printDocument = (doc: TaxDocument, isDraft = false) => {
     if (!selectedReservation) return;
 
     const printContent = generateBillHTML(
+      doc,
       selectedReservation,
-      lineItems,
-      payments,
-      totals,
-      invoiceNumber,
-      issueDate,
-      gstRate
+      hotelProfile,
+      payments.filter((payment) => !payment.isVoided && (!doc.folioId || payment.folioId === doc.folioId)),
+      isDraft
     );
 
     const printWindow = window.open('', '_blank');
@@ -213,12 +388,101 @@ export function BillingPage() {
     }
   };
 
+  const buildDraftDocument = (): TaxDocument | null => {
+    if (!selectedReservation) return null;
+    const lines = buildTaxLines(pendingLines.map(toTaxLineInput), supplyType);
+    return {
+      id: 'draft',
+      type: 'invoice',
+      number: nextInvoiceNumber,
+      series: '',
+      sequence: 0,
+      financialYear: '',
+      hotelCode: hotelProfile?.hotelCode || '',
+      hotelGstin: hotelProfile?.gstin || '',
+      reservationId: selectedReservation.id,
+      folioId: activeFolioId || undefined,
+      issueDate,
+      billedTo: billedTo(activeFolio),
+      buyerGstin: invoiceGstin || undefined,
+      placeOfSupply,
+      supplyType,
+      lines,
+      ...summarizeTaxLines(lines),
+      createdAt: new Date().toISOString(),
+    };
+  };
+
+  const handlePrintBill = () => {
+    const draft = buildDraftDocument();
+    if (draft) {
+      printDocument(draft, true);
+    }
+  };
+
+  const handleIssueInvoice = () => {
+    if (!selectedReservation) return;
+    if (!confirm('Issue a tax invoice for the pending charges? Issued invoices cannot be edited or deleted.')) {
+      return;
+    }
+    runLedgerAction(async () => {
+      const invoice = await issueInvoice({
+        reservationId: selectedReservation.id,
+        folioId: activeFolioId || undefined,
+        issueDate,
+        billedTo: billedTo(activeFolio),
+        buyerGstin: invoiceGstin || undefined,
+        placeOfSupply,
+        lines: pendingLines.map(toTaxLineInput),
+        issuedBy: postedBy,
+      });
+      printDocument(invoice);
+    });
+  };
+
+  const handleIssueNote = (invoice: TaxDocument, type: 'credit-note' | 'debit-note') => {
+    const label = type === 'credit-note' ? 'credit note' : 'debit note';
+    const reason = prompt(`Reason for the ${label} against ${invoice.number}:`);
+    if (!reason) {
+      return;
+    }
+
+    let lines: TaxLineInput[] | undefined;
+    const amountInput = prompt(
+      type === 'credit-note'
+        ? 'Taxable amount to credit (leave blank to reverse the full invoice):'
+        : 'Additional taxable amount to bill:'
+    );
+    if (amountInput) {
+      const amount = Number(amountInput);
+      if (!amount || amount < 0) {
+        setOperationError('Enter a valid amount for the note.');
+        return;
+      }
+      const baseLine = invoice.lines[0];
+      lines = [{
+        description: reason,
+        category: baseLine?.category ?? 'other',
+        quantity: 1,
+        unitAmount: amount,
+        taxableAmount: amount,
+        taxRate: baseLine?.taxRate ?? resolveTaxRate(taxConfig, 'other', amount),
+      }];
+    } else if (type === 'debit-note') {
+      return;
+    }
+
+    runLedgerAction(async () => {
+      printDocument(await issueNote({ type, invoiceId: invoice.id, reason, lines, issuedBy: postedBy }));
+    });
+  };
+
   return (
     <div className="space-y-6">
       <header className="flex flex-wrap items-center justify-between gap-4">
         <div>
           <h1 className="text-2xl font-bold text-zinc-950">Billing &amp; Invoicing</h1>
-          <p className="mt-1 text-sm text-zinc-500">Post charges, split bills, and generate GST-compliant invoices.</p>
+          <p className="mt-1 text-sm text-zinc-500">Post charges, split folios, and generate GST-compliant invoices.</p>
         </div>
         <div className="flex gap-2">
           <Button 
@@ -229,26 +493,47 @@ export function BillingPage() {
           >
             <Printer className="h-4 w-4" /> Print Bill
           </Button>
-          <Button variant="outline" className="gap-2">
+          <Button
+            variant={showSplit ? 'secondary' : 'outline'}
+            className="gap-2"
+            onClick={() => setShowSplit((value) => !value)}
+            disabled={!selectedReservation}
+          >
             <SplitSquareVertical className="h-4 w-4" /> Split Charges
           </Button>
-          <Button variant="primary" className="gap-2">
-            <FileText className="h-4 w-4" /> Export Invoice
+          <Button
+            variant="primary"
+            className="gap-2"
+            onClick={handleIssueInvoice}
+            disabled={!selectedReservation || !pendingLines.length}
+          >
+            <FileText className="h-4 w-4" /> Issue Invoice
           </Button>
         </div>
       </header>
 
+      {operationError && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {operationError}
+        </div>
+      )}
+      {ledgerError && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {ledgerError}
+        </div>
+      )}
+
       <section className="grid gap-6 xl:grid-cols-[320px,1fr]">
         <div className="space-y-4">
           <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm">
             <p className="text-sm font-semibold text-zinc-900">Select Reservation</p>
-            <p className="mt-1 text-xs text-zinc-500">Auto posts room charges once a guest is checked-in.</p>
+            <p className="mt-1 text-xs text-zinc-500">Room charges can be posted once a guest is checked-in.</p>
 
             <div className="mt-4 space-y-3">
               {checkedInReservations.map((reservation) => (
                 <button
                   key={reservation.id}
-                  onClick={() => setSelectedReservationId(reservation.id)}
+                  onClick={() => handleSelectReservation(reservation)}
                   className={cn(
                     'w-full rounded-xl border px-4 py-3 text-left transition',
                     selectedReservationId === reservation.id
@@ -278,9 +563,10 @@ export function BillingPage() {
             <div className="rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm space-y-3">
               <p className="text-sm font-semibold text-zinc-900">Invoice Details</p>
               <Input
-                label="Invoice Number"
-                value={invoiceNumber}
-                onChange={(event) => setInvoiceNumber(event.target.value)}
+                label="Next Invoice Number"
+                value={nextInvoiceNumber}
+                readOnly
+                helperText="Expected number; the server assigns the next one in the series when the invoice is issued"
               />
               <Input
                 label="Issue Date"
@@ -288,12 +574,44 @@ export function BillingPage() {
                 value={issueDate}
                 onChange={(event) => setIssueDate(event.target.value)}
               />
+              <Input
+                label="Buyer GSTIN"
+                placeholder="Optional, for B2B invoices"
+                value={buyerGstin}
+                onChange={(event) => setBuyerGstin(event.target.value)}
+              />
+              <Select
+                label="Place of Supply"
+                value={resolveStateCode(placeOfSupply) ?? ''}
+                onChange={(event) => setPlaceOfSupply(GST_STATE_CODES[event.target.value] ?? '')}
+                options={[
+                  { value: '', label: 'Select state' },
+                  ...Object.entries(GST_STATE_CODES).map(([code, name]) => ({ value: code, label: `${code} - ${name}` })),
+                ]}
+                helperText={supplyType === 'inter-state' ? 'Inter-state supply: IGST applies' : 'Intra-state supply: CGST + SGST apply'}
+              />
               <Select
-                label="Active Bill"
-                value={activeBill}
-                onChange={(event) => setActiveBill(event.target.value as BillId)}
-                options={BILL_OPTIONS}
+                label="Active Folio"
+                value={activeFolioId}
+                onChange={(event) => setActiveFolioId(event.target.value)}
+                options={folios.map((folio) => ({ value: folio.id, label: folioLabel(folio) }))}
               />
+              {selectedReservation.status === 'checked-in' && (
+                <Button variant="outline" className="w-full gap-2" onClick={handlePostRoomCharges}>
+                  <Plus className="h-4 w-4" /> Post Room Charges
+                </Button>
+              )}
+              <div className="flex items-end gap-2">
+                <Input
+                  label="New Folio"
+                  placeholder="e.g. Company"
+                  value={newFolioName}
+                  onChange={(event) => setNewFolioName(event.target.value)}
+                />
+                <Button variant="secondary" onClick={handleOpenFolio} className="h-10 gap-1" title="Open folio">
+                  <FolderPlus className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
           )}
         </div>
@@ -301,30 +619,69 @@ export function BillingPage() {
         <div className="space-y-6">
           {selectedReservation ? (
             <>
+              {showSplit && <SplitBillPanel reservation={selectedReservation} postedBy={postedBy} />}
+
               <BillBreakdown
-                items={lineItems}
-                onChange={handleLineItemChange}
-                onRemove={handleRemoveLine}
-                onAddAddOn={handleAddAddOn}
+                lines={ledger.filter((line) => line.type !== 'payment')}
+                folios={folios}
+                activeFolio={activeFolio}
+                newCharge={newCharge}
+                onNewChargeChange={setNewCharge}
+                onPostCharge={handlePostCharge}
+                invoicedEntryIds={invoicedEntryIds}
+                onVoid={handleVoidEntry}
+                onTransfer={handleTransferEntry}
               />
 
               <PaymentSection
-                activeBill={activeBill}
+                activeFolio={activeFolio}
+                folios={folios}
                 payments={payments}
                 totals={totals}
                 newPayment={newPayment}
                 onNewPaymentChange={setNewPayment}
                 onAddPayment={handleAddPayment}
-                onRemovePayment={handleRemovePayment}
+                onHoldCard={() => {
+                  const amountValue = Number(newPayment.amount);
+                  if (amountValue > 0) {
+                    setCollecting({ method: 'card', amount: amountValue, hold: true });
+                  }
+                }}
+                onVoidPayment={handleVoidEntry}
               />
 
+              <GatewayPaymentsPanel
+                reservationId={selectedReservation.id}
+                balanceDue={totals[activeFolio?.id ?? '']?.balance}
+              />
+
+              {collecting && (
+                <PaymentCollectDialog
+                  method={collecting.method}
+                  amount={collecting.amount}
+                  captureMode={collecting.hold ? 'manual' : 'auto'}
+                  description={`${collecting.hold ? 'Deposit hold' : 'Payment'} · ${selectedReservation.confirmationNumber}`}
+                  target={{ type: 'folio', reservationId: selectedReservation.id, folioId: activeFolio?.id, source: 'billing' }}
+                  onClose={() => setCollecting(null)}
+                  onComplete={() => setNewPayment({ mode: newPayment.mode, amount: '', reference: '' })}
+                />
+              )}
+
               <InvoicePreview
                 reservation={selectedReservation}
-                invoiceNumber={invoiceNumber}
+                invoiceNumber={nextInvoiceNumber}
                 issueDate={issueDate}
-                items={lineItems}
+                billedTo={billedTo(activeFolio)}
+                items={pendingLines}
+                folios={folios}
                 totals={totals}
-                gstRate={gstRate}
+                supplyType={supplyType}
+              />
+
+              <TaxDocumentList
+                documents={reservationDocuments}
+                onPrint={(doc) => printDocument(doc)}
+                onIssueNote={handleIssueNote}
               />
             </>
           ) : (
@@ -338,100 +695,157 @@ export function BillingPage() {
   );
 }
 
+function folioLabel(folio: Folio) {
+  return folio.payerName && !folio.isPrimary ? `${folio.label} (${folio.payerName})` : folio.label;
+}
+
+const sumTotals = (totals: Record<string, TotalsByFolio>) =>
+  Object.values(totals).reduce(
+    (sum, entry) => ({
+      subtotal: sum.subtotal + entry.subtotal,
+      tax: sum.tax + entry.tax,
+      adjustments: sum.adjustments + entry.adjustments,
+      total: sum.total + entry.total,
+      payments: sum.payments + entry.payments,
+    }),
+    { subtotal: 0, tax: 0, adjustments: 0, total: 0, payments: 0 }
+  );
+
 interface BillBreakdownProps {
-  items: LineItem[];
-  onChange: (id: string, updates: Partial<LineItem>) => void;
-  onRemove: (id: string) => void;
-  onAddAddOn: () => void;
+  lines: LedgerLine[];
+  folios: Folio[];
+  activeFolio?: Folio;
+  newCharge: NewCharge;
+  onNewChargeChange: (value: NewCharge) => void;
+  onPostCharge: () => void;
+  invoicedEntryIds: Set<string | undefined>;
+  onVoid: (id: string) => void;
+  onTransfer: (id: string, folioId: string) => void;
 }
 
-function BillBreakdown({ items, onChange, onRemove, onAddAddOn }: BillBreakdownProps) {
+function BillBreakdown({
+  lines,
+  folios,
+  activeFolio,
+  newCharge,
+  onNewChargeChange,
+  onPostCharge,
+  invoicedEntryIds,
+  onVoid,
+  onTransfer,
+}: BillBreakdownProps) {
+  const folioOptions = folios
+    .filter((folio) => folio.status === 'open')
+    .map((folio) => ({ value: folio.id, label: folio.label }));
+
   return (
     <div className="rounded-2xl border border-gray-200 bg-white shadow-sm">
       <header className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
         <div>
-          <p className="text-sm font-semibold text-gray-900">Bill Breakdown</p>
-          <p className="text-xs text-gray-500">Edit line items and assign them across split bills.</p>
+          <p className="text-sm font-semibold text-gray-900">Folio Ledger</p>
+          <p className="text-xs text-gray-500">
+            Posted charges are never edited; void or transfer them between folios, or credit-note them once invoiced.
+          </p>
         </div>
-        <Button variant="secondary" onClick={onAddAddOn} className="h-9 gap-2">
-          <Plus className="h-4 w-4" /> Add Add-on
-        </Button>
       </header>
 
+      <div className="grid gap-3 border-b border-gray-200 px-6 py-4 md:grid-cols-[1fr,160px,80px,110px,80px,auto]">
+        <Input
+          placeholder="Description"
+          value={newCharge.description}
+          onChange={(event) => onNewChargeChange({ ...newCharge, description: event.target.value })}
+        />
+        <Select
+          value={newCharge.category}
+          onChange={(event) => onNewChargeChange({ ...newCharge, category: event.target.value as ChargeCategory })}
+          options={CATEGORY_OPTIONS}
+        />
+        <Input
+          type="number"
+          min="1"
+          placeholder="Qty"
+          value={newCharge.quantity}
+          onChange={(event) => onNewChargeChange({ ...newCharge, quantity: event.target.value })}
+        />
+        <Input
+          type="number"
+          min="0"
+          placeholder="Rate"
+          value={newCharge.unitAmount}
+          onChange={(event) => onNewChargeChange({ ...newCharge, unitAmount: event.target.value })}
+        />
+        <Input
+          type="number"
+          min="0"
+          placeholder="Tax % (auto)"
+          value={newCharge.taxRate}
+          onChange={(event) => onNewChargeChange({ ...newCharge, taxRate: event.target.value })}
+        />
+        <Button variant="secondary" onClick={onPostCharge} className="h-10 gap-2">
+          <Plus className="h-4 w-4" /> Post{activeFolio ? ` to ${activeFolio.label}` : ''}
+        </Button>
+      </div>
+
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200 text-sm">
           <thead className="bg-gray-50 text-left text-xs font-semibold uppercase text-gray-500">
             <tr>
-              <th className="px-6 py-3">Description</th>
-              <th className="px-3 py-3">Category</th>
-              <th className="px-3 py-3">Bill</th>
-              <th className="px-3 py-3">Qty</th>
-              <th className="px-3 py-3">Rate</th>
-              <th className="px-3 py-3">Tax %</th>
-              <th className="px-6 py-3 text-right">Amount</th>
+              <th className="px-6 py-3">Posted</th>
+              <th className="px-3 py-3">Description</th>
+              <th className="px-3 py-3">Folio</th>
+              <th className="px-3 py-3 text-right">Tax</th>
+              <th className="px-3 py-3 text-right">Amount</th>
+              <th className="px-6 py-3 text-right">Balance</th>
               <th className="px-3 py-3"></th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-100">
-            {items.map((item) => {
-              const amount = item.quantity * item.unitAmount;
+            {lines.map((line) => {
+              const isReversal = line.type === 'void';
+              const isInvoiced = invoicedEntryIds.has(line.id);
+              const canChange = !isReversal && !line.isVoided && !isInvoiced;
               return (
-                <tr key={item.id} className="align-top">
-                  <td className="px-6 py-3">
-                    <Input
-                      value={item.description}
-                      onChange={(event) => onChange(item.id, { description: event.target.value })}
-                    />
-                  </td>
-                  <td className="px-3 py-3">
-                    <Select
-                      value={item.category}
-                      onChange={(event) => onChange(item.id, { category: event.target.value })}
-                      options={CATEGORY_OPTIONS}
-                    />
+                <tr key={line.id} className={cn('align-top', (line.isVoided || isReversal) && 'text-gray-400')}>
+                  <td className="px-6 py-3 text-xs text-gray-500">
+                    {format(new Date(line.postedAt), 'MMM d, HH:mm')}
+                    <p className="uppercase">{line.source}</p>
                   </td>
                   <td className="px-3 py-3">
-                    <Select
-                      value={item.bill}
-                      onChange={(event) => onChange(item.id, { bill: event.target.value as BillId })}
-                      options={BILL_OPTIONS}
-                    />
+                    <p className={cn('font-medium', line.isVoided ? 'line-through' : 'text-gray-900')}>{line.description}</p>
+                    <p className="text-xs text-gray-400">
+                      {line.charge ? line.charge.category.replace('-', ' ') : line.type}
+                      {line.reason && ` • ${line.reason}`}
+                      {isInvoiced && ' • invoiced'}
+                    </p>
                   </td>
                   <td className="px-3 py-3">
-                    <Input
-                      type="number"
-                      min="1"
-                      value={item.quantity}
-                      onChange={(event) => onChange(item.id, { quantity: Number(event.target.value) || 0 })}
-                    />
+                    {canChange && folioOptions.length > 1 ? (
+                      <Select
+                        value={line.folioId}
+                        onChange={(event) => onTransfer(line.id, event.target.value)}
+                        options={folioOptions}
+                      />
+                    ) : (
+                      <span className="text-xs">{folios.find((folio) => folio.id === line.folioId)?.label}</span>
+                    )}
                   </td>
-                  <td className="px-3 py-3">
-                    <Input
-                      type="number"
-                      min="0"
-                      value={item.unitAmount}
-                      onChange={(event) => onChange(item.id, { unitAmount: Number(event.target.value) || 0 })}
-                    />
+                  <td className="px-3 py-3 text-right">
+                    {line.charge?.taxAmount ? formatCurrency(line.charge.taxAmount) : '—'}
                   </td>
-                  <td className="px-3 py-3">
-                    <Input
-                      type="number"
-                      min="0"
-                      value={item.taxRate}
-                      onChange={(event) => onChange(item.id, { taxRate: Number(event.target.value) || 0 })}
-                    />
+                  <td className="px-3 py-3 text-right font-semibold">
+                    {formatCurrency(line.amount)}
                   </td>
-                  <td className="px-6 py-3 text-right font-semibold text-gray-900">
-                    {formatCurrency(amount)}
+                  <td className="px-6 py-3 text-right text-gray-600">
+                    {formatCurrency(line.balance)}
                   </td>
                   <td className="px-3 py-3">
-                    {item.editable && (
+                    {canChange && (
                       <button
-                        onClick={() => onRemove(item.id)}
+                        onClick={() => onVoid(line.id)}
                         className="rounded-lg p-2 text-gray-400 hover:bg-red-50 hover:text-red-600"
-                        title="Remove line"
+                        title="Void entry"
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <Ban className="h-4 w-4" />
                       </button>
                     )}
                   </td>
@@ -439,9 +853,9 @@ function BillBreakdown({ items, onChange, onRemove, onAddAddOn }: BillBreakdownP
               );
             })}
 
-            {!items.length && (
+            {!lines.length && (
               <tr>
-                <td colSpan={8} className="px-6 py-6 text-center text-sm text-gray-500">
+                <td colSpan={7} className="px-6 py-6 text-center text-sm text-gray-500">
                   No charges posted yet.
                 </td>
               </tr>
@@ -454,74 +868,87 @@ function BillBreakdown({ items, onChange, onRemove, onAddAddOn }: BillBreakdownP
 }
 
 interface PaymentSectionProps {
-  activeBill: BillId;
-  payments: PaymentEntry[];
-  totals: Record<BillId, TotalsByBill>;
-  newPayment: { mode: string; amount: string; reference: string };
-  onNewPaymentChange: (value: { mode: string; amount: string; reference: string }) => void;
+  activeFolio?: Folio;
+  folios: Folio[];
+  payments: LedgerLine[];
+  totals: Record<string, TotalsByFolio>;
+  newPayment: NewPayment;
+  onNewPaymentChange: (value: NewPayment) => void;
   onAddPayment: () => void;
-  onRemovePayment: (id: string) => void;
+  onHoldCard: () => void;
+  onVoidPayment: (id: string) => void;
 }
 
 function PaymentSection({
-  activeBill,
+  activeFolio,
+  folios,
   payments,
   totals,
   newPayment,
   onNewPaymentChange,
   onAddPayment,
-  onRemovePayment,
+  onHoldCard,
+  onVoidPayment,
 }: PaymentSectionProps) {
   return (
     <div className="rounded-2xl border border-gray-200 bg-white shadow-sm">
       <header className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
         <div>
           <p className="text-sm font-semibold text-gray-900">Payments</p>
-          <p className="text-xs text-gray-500">Track settlement across split bills.</p>
+          <p className="text-xs text-gray-500">Track settlement across folios.</p>
         </div>
       </header>
 
       <div className="grid gap-4 px-6 py-4 md:grid-cols-2">
-        {(['primary', 'secondary'] as BillId[]).map((bill) => (
-          <div key={bill} className="rounded-xl border border-gray-200 p-4">
-            <p className="text-sm font-semibold text-gray-900">{bill === 'primary' ? 'Bill A' : 'Bill B'}</p>
-            <p className="mt-1 text-xs text-gray-500">Status: {totals[bill].status.toUpperCase()}</p>
-            <dl className="mt-3 space-y-1 text-sm text-gray-600">
-              <div className="flex justify-between">
-                <dt>Subtotal</dt>
-                <dd>{formatCurrency(totals[bill].subtotal)}</dd>
-              </div>
-              <div className="flex justify-between">
-                <dt>GST</dt>
-                <dd>{formatCurrency(totals[bill].tax)}</dd>
-              </div>
-              <div className="flex justify-between font-semibold text-gray-900">
-                <dt>Total</dt>
-                <dd>{formatCurrency(totals[bill].total)}</dd>
-              </div>
-              <div className="flex justify-between text-xs text-gray-500">
-                <dt>Payments</dt>
-                <dd>{formatCurrency(totals[bill].payments)}</dd>
-              </div>
-              <div className="flex justify-between text-xs font-semibold">
-                <dt>Balance</dt>
-                <dd className={totals[bill].balance > 0 ? 'text-amber-600' : 'text-emerald-600'}>
-                  {formatCurrency(totals[bill].balance)}
-                </dd>
-              </div>
-            </dl>
-          </div>
-        ))}
+        {folios.map((folio) => {
+          const folioTotals = totals[folio.id] ?? emptyTotals();
+          return (
+            <div key={folio.id} className="rounded-xl border border-gray-200 p-4">
+              <p className="text-sm font-semibold text-gray-900">{folioLabel(folio)}</p>
+              <p className="mt-1 text-xs text-gray-500">Status: {folioTotals.status.toUpperCase()}</p>
+              <dl className="mt-3 space-y-1 text-sm text-gray-600">
+                <div className="flex justify-between">
+                  <dt>Subtotal</dt>
+                  <dd>{formatCurrency(folioTotals.subtotal)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt>GST</dt>
+                  <dd>{formatCurrency(folioTotals.tax)}</dd>
+                </div>
+                {folioTotals.adjustments !== 0 && (
+                  <div className="flex justify-between">
+                    <dt>Adjustments</dt>
+                    <dd>{formatCurrency(folioTotals.adjustments)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold text-gray-900">
+                  <dt>Total</dt>
+                  <dd>{formatCurrency(folioTotals.total)}</dd>
+                </div>
+                <div className="flex justify-between text-xs text-gray-500">
+                  <dt>Payments</dt>
+                  <dd>{formatCurrency(folioTotals.payments)}</dd>
+                </div>
+                <div className="flex justify-between text-xs font-semibold">
+                  <dt>Balance</dt>
+                  <dd className={folioTotals.balance > 0 ? 'text-amber-600' : 'text-emerald-600'}>
+                    {formatCurrency(folioTotals.balance)}
+                  </dd>
+                </div>
+              </dl>
+            </div>
+          );
+        })}
       </div>
 
       <div className="border-t border-gray-200 px-6 py-4">
         <p className="text-xs font-semibold uppercase text-gray-500">
-          Add Payment ({activeBill === 'primary' ? 'Bill A' : 'Bill B'})
+          Add Payment ({activeFolio?.label ?? 'Guest'})
         </p>
         <div className="mt-3 grid gap-3 md:grid-cols-[160px,1fr,1fr,auto]">
           <Select
             value={newPayment.mode}
-            onChange={(event) => onNewPaymentChange({ ...newPayment, mode: event.target.value })}
+            onChange={(event) => onNewPaymentChange({ ...newPayment, mode: event.target.value as PaymentMethod })}
             options={PAYMENT_MODES}
           />
           <Input
@@ -532,11 +959,18 @@ function PaymentSection({
             onChange={(event) => onNewPaymentChange({ ...newPayment, amount: event.target.value })}
           />
           <Input
-            placeholder="Reference"
+            placeholder={newPayment.mode === 'card' || newPayment.mode === 'upi' ? 'Reference (blank to use gateway)' : 'Reference'}
             value={newPayment.reference}
             onChange={(event) => onNewPaymentChange({ ...newPayment, reference: event.target.value })}
           />
-          <Button onClick={onAddPayment} className="h-10">Add</Button>
+          <div className="flex gap-2">
+            <Button onClick={onAddPayment} className="h-10">Add</Button>
+            {newPayment.mode === 'card' && (
+              <Button variant="outline" onClick={onHoldCard} className="h-10" title="Hold the amount on the card as a deposit">
+                Hold
+              </Button>
+            )}
+          </div>
         </div>
 
         <div className="mt-4 space-y-2">
@@ -544,26 +978,36 @@ function PaymentSection({
             payments.map((payment) => (
               <div
                 key={payment.id}
-                className="flex items-center justify-between rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-600"
+                className={cn(
+                  'flex items-center justify-between rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-600',
+                  payment.isVoided && 'opacity-60'
+                )}
               >
                 <div className="flex items-center gap-2">
                   <span className={cn(
                     'inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold',
-                    payment.bill === 'primary' ? 'bg-primary-100 text-primary-700' : 'bg-purple-100 text-purple-700'
+                    folios.find((folio) => folio.id === payment.folioId)?.isPrimary
+                      ? 'bg-primary-100 text-primary-700'
+                      : 'bg-purple-100 text-purple-700'
                   )}>
-                    {payment.bill === 'primary' ? 'Bill A' : 'Bill B'}
+                    {folios.find((folio) => folio.id === payment.folioId)?.label}
+                  </span>
+                  <span className={cn('font-medium text-gray-900', payment.isVoided && 'line-through')}>
+                    {formatCurrency(payment.payment?.amount ?? -payment.amount)}
                   </span>
-                  <span className="font-medium text-gray-900">{formatCurrency(payment.amount)}</span>
-                  <span>{payment.mode.toUpperCase()}</span>
-                  {payment.reference && <span className="text-xs text-gray-400">Ref: {payment.reference}</span>}
+                  <span>{payment.payment?.method.toUpperCase()}</span>
+                  {payment.payment?.reference && <span className="text-xs text-gray-400">Ref: {payment.payment.reference}</span>}
+                  {payment.isVoided && <span className="text-xs text-red-500">VOIDED</span>}
                 </div>
-                <button
-                  onClick={() => onRemovePayment(payment.id)}
-                  className="rounded-full p-2 text-gray-400 hover:bg-red-50 hover:text-red-600"
-                  title="Remove payment"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </button>
+                {!payment.isVoided && (
+                  <button
+                    onClick={() => onVoidPayment(payment.id)}
+                    className="rounded-full p-2 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                    title="Void payment"
+                  >
+                    <Ban className="h-4 w-4" />
+                  </button>
+                )}
               </div>
             ))
           ) : (
@@ -579,37 +1023,44 @@ interface InvoicePreviewProps {
   reservation: Reservation;
   invoiceNumber: string;
   issueDate: string;
-  items: LineItem[];
-  totals: Record<BillId, TotalsByBill>;
-  gstRate: number;
+  billedTo: string;
+  items: InvoiceLine[];
+  folios: Folio[];
+  totals: Record<string, TotalsByFolio>;
+  supplyType: GstSupplyType;
 }
 
-function InvoicePreview({ reservation, invoiceNumber, issueDate, items, totals, gstRate }: InvoicePreviewProps) {
-  const combinedSubtotal = totals.primary.subtotal + totals.secondary.subtotal;
-  const combinedTax = totals.primary.tax + totals.secondary.tax;
-  const combinedTotal = totals.primary.total + totals.secondary.total;
-  const combinedPayments = totals.primary.payments + totals.secondary.payments;
-  const { cgst, sgst } = splitTax(combinedTax);
+function InvoicePreview({
+  reservation,
+  invoiceNumber,
+  issueDate,
+  billedTo,
+  items,
+  folios,
+  totals,
+  supplyType,
+}: InvoicePreviewProps) {
+  const combined = sumTotals(totals);
+  const lines = buildTaxLines(items.map(toTaxLineInput), supplyType);
+  const draft = summarizeTaxLines(lines);
 
   return (
     <div className="rounded-2xl border border-gray-200 bg-white shadow-sm">
       <header className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
         <div>
           <p className="text-sm font-semibold text-gray-900">Invoice Preview</p>
-          <p className="text-xs text-gray-500">Print-ready layout with GST breakup.</p>
+          <p className="text-xs text-gray-500">Uninvoiced charges on the active folio, with GST breakup.</p>
         </div>
         <div className="text-right text-xs text-gray-500">
-          <p>Invoice #{invoiceNumber}</p>
-          <p>Issued {issueDate}</p>
+          <p>Next invoice #{invoiceNumber}</p>
+          <p>Issue date {issueDate}</p>
         </div>
       </header>
 
       <div className="grid gap-6 px-6 py-6 md:grid-cols-2">
         <div>
           <p className="text-xs font-semibold uppercase text-gray-500">Billed To</p>
-          <p className="mt-1 text-sm font-medium text-gray-900">
-            {reservation.guest.firstName} {reservation.guest.lastName}
-          </p>
+          <p className="mt-1 text-sm font-medium text-gray-900">{billedTo}</p>
           <p className="text-xs text-gray-500">{reservation.guest.email || reservation.guest.phone}</p>
           {reservation.guest.address && (
             <p className="mt-1 text-xs text-gray-500">
@@ -621,7 +1072,7 @@ function InvoicePreview({ reservation, invoiceNumber, issueDate, items, totals,
           <p><span className="font-semibold">Stay:</span> {format(new Date(reservation.checkIn), 'MMM d, yyyy')} - {format(new Date(reservation.checkOut), 'MMM d, yyyy')}</p>
           <p className="mt-1"><span className="font-semibold">Nights:</span> {reservation.nights}</p>
           <p className="mt-1"><span className="font-semibold">Room Type:</span> {reservation.roomTypeId}</p>
-          <p className="mt-1"><span className="font-semibold">Invoice GST:</span> {gstRate}%</p>
+          <p className="mt-1"><span className="font-semibold">Supply:</span> {supplyType === 'inter-state' ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}</p>
         </div>
       </div>
 
@@ -630,23 +1081,35 @@ function InvoicePreview({ reservation, invoiceNumber, issueDate, items, totals,
           <thead className="border-b border-gray-200 text-left text-xs uppercase text-gray-500">
             <tr>
               <th className="pb-2">Description</th>
+              <th className="pb-2">HSN/SAC</th>
               <th className="pb-2 text-right">Qty</th>
               <th className="pb-2 text-right">Rate</th>
-              <th className="pb-2 text-right">Amount</th>
+              <th className="pb-2 text-right">GST %</th>
+              <th className="pb-2 text-right">Taxable</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-100">
-            {items.map((item) => (
-              <tr key={item.id}>
+            {lines.map((line, index) => (
+              <tr key={items[index].id}>
                 <td className="py-2">
-                  <p className="font-medium text-gray-900">{item.description}</p>
-                  <p className="text-xs text-gray-400">{item.category.replace('-', ' ')}</p>
+                  <p className="font-medium text-gray-900">{line.description}</p>
+                  <p className="text-xs text-gray-400">{line.category.replace('-', ' ')}</p>
                 </td>
-                <td className="py-2 text-right">{item.quantity}</td>
-                <td className="py-2 text-right">{formatCurrency(item.unitAmount)}</td>
-                <td className="py-2 text-right">{formatCurrency(item.quantity * item.unitAmount)}</td>
+                <td className="py-2 text-xs text-gray-500">{line.hsnSac}</td>
+                <td className="py-2 text-right">{line.quantity}</td>
+                <td className="py-2 text-right">{formatCurrency(line.unitAmount)}</td>
+                <td className="py-2 text-right">{line.taxRate}%</td>
+                <td className="py-2 text-right">{formatCurrency(line.taxableAmount)}</td>
               </tr>
             ))}
+
+            {!lines.length && (
+              <tr>
+                <td colSpan={6} className="py-4 text-center text-xs text-gray-500">
+                  All charges on this folio have been invoiced.
+                </td>
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -654,27 +1117,39 @@ function InvoicePreview({ reservation, invoiceNumber, issueDate, items, totals,
       <div className="grid gap-4 border-t border-gray-200 px-6 py-6 md:grid-cols-2">
         <div className="rounded-lg bg-gray-50 p-4 text-xs text-gray-500">
           <p className="font-semibold text-gray-700">Payment Summary</p>
-          <p className="mt-2">Total Payments: {formatCurrency(combinedPayments)}</p>
-          <p className="mt-1">Balance Due: {formatCurrency(combinedTotal - combinedPayments)}</p>
-          <p className="mt-2">Bill A: {totals.primary.status.toUpperCase()}</p>
-          <p className="mt-1">Bill B: {totals.secondary.status.toUpperCase()}</p>
+          <p className="mt-2">Total Payments: {formatCurrency(combined.payments)}</p>
+          <p className="mt-1">Balance Due: {formatCurrency(combined.total - combined.payments)}</p>
+          {folios.map((folio) => (
+            <p key={folio.id} className="mt-1">
+              {folio.label}: {(totals[folio.id]?.status ?? 'unpaid').toUpperCase()}
+            </p>
+          ))}
         </div>
         <div className="flex flex-col gap-2 text-sm text-gray-600">
           <div className="flex justify-between">
-            <span>Subtotal</span>
-            <span>{formatCurrency(combinedSubtotal)}</span>
-          </div>
-          <div className="flex justify-between">
-            <span>CGST</span>
-            <span>{formatCurrency(cgst)}</span>
-          </div>
-          <div className="flex justify-between">
-            <span>SGST</span>
-            <span>{formatCurrency(sgst)}</span>
+            <span>Taxable Value</span>
+            <span>{formatCurrency(draft.taxableTotal)}</span>
           </div>
+          {supplyType === 'inter-state' ? (
+            <div className="flex justify-between">
+              <span>IGST</span>
+              <span>{formatCurrency(draft.igstTotal)}</span>
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-between">
+                <span>CGST</span>
+                <span>{formatCurrency(draft.cgstTotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>SGST</span>
+                <span>{formatCurrency(draft.sgstTotal)}</span>
+              </div>
+            </>
+          )}
           <div className="flex justify-between font-semibold text-gray-900">
-            <span>Grand Total</span>
-            <span>{formatCurrency(combinedTotal)}</span>
+            <span>Invoice Total</span>
+            <span>{formatCurrency(draft.grandTotal)}</span>
           </div>
         </div>
       </div>
@@ -682,47 +1157,77 @@ function InvoicePreview({ reservation, invoiceNumber, issueDate, items, totals,
   );
 }
 
-function buildAutoItems(reservation: Reservation, gstRate: number): LineItem[] {
-  const nights = reservation.nights || 1;
-  const baseRate = reservation.ratePerNight || reservation.subtotal / (reservation.nights || 1);
-
-  return [
-    {
-      id: generateId(),
-      description: `Room charges (${nights} night${nights > 1 ? 's' : ''})`,
-      category: 'room',
-      quantity: nights,
-      unitAmount: Number(baseRate.toFixed(2)),
-      taxRate: gstRate,
-      bill: 'primary',
-      editable: false,
-    },
-  ];
+interface TaxDocumentListProps {
+  documents: TaxDocument[];
+  onPrint: (doc: TaxDocument) => void;
+  onIssueNote: (invoice: TaxDocument, type: 'credit-note' | 'debit-note') => void;
+}
+
+function TaxDocumentList({ documents, onPrint, onIssueNote }: TaxDocumentListProps) {
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white shadow-sm">
+      <header className="border-b border-gray-200 px-6 py-4">
+        <p className="text-sm font-semibold text-gray-900">Tax Documents</p>
+        <p className="text-xs text-gray-500">Issued invoices are final; amend them with credit or debit notes.</p>
+      </header>
+
+      <div className="divide-y divide-gray-100">
+        {documents.map((doc) => (
+          <div key={doc.id} className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 text-sm">
+            <div>
+              <p className="font-semibold text-gray-900">
+                {doc.number}
+                <span className="ml-2 text-xs font-medium uppercase text-gray-500">{doc.type.replace('-', ' ')}</span>
+              </p>
+              <p className="text-xs text-gray-500">
+                {format(new Date(doc.issueDate), 'MMM d, yyyy')} • {doc.billedTo} • {formatCurrency(doc.grandTotal)}
+                {doc.referenceNumber && ` • against ${doc.referenceNumber}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => onPrint(doc)} title="Print">
+                <Printer className="h-4 w-4" />
+              </Button>
+              {doc.type === 'invoice' && (
+                <>
+                  <Button variant="outline" size="sm" className="gap-1" onClick={() => onIssueNote(doc, 'credit-note')}>
+                    <FileMinus className="h-4 w-4" /> Credit Note
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-1" onClick={() => onIssueNote(doc, 'debit-note')}>
+                    <FilePlus className="h-4 w-4" /> Debit Note
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {!documents.length && (
+          <p className="px-6 py-6 text-center text-sm text-gray-500">No tax documents issued yet.</p>
+        )}
+      </div>
+    </div>
+  );
 }
 
 function generateBillHTML(
+  doc: TaxDocument,
   reservation: Reservation,
-  lineItems: LineItem[],
-  payments: PaymentEntry[],
-  totals: Record<BillId, TotalsByBill>,
-  invoiceNumber: string,
-  issueDate: string,
-  gstRate: number
+  hotelProfile: HotelProfile | null,
+  payments: LedgerLine[],
+  isDraft: boolean
 ): string {
-  const combinedSubtotal = totals.primary.subtotal + totals.secondary.subtotal;
-  const combinedTax = totals.primary.tax + totals.secondary.tax;
-  const combinedTotal = totals.primary.total + totals.secondary.total;
-  const combinedPayments = totals.primary.payments + totals.secondary.payments;
-  const balance = combinedTotal - combinedPayments;
-
-  const cgst = combinedTax / 2;
-  const sgst = combinedTax / 2;
+  const isInterState = doc.supplyType === 'inter-state';
+  const paidAmount = payments.reduce((sum, payment) => sum + -payment.amount, 0);
+  const balance = doc.grandTotal - paidAmount;
+  const title = isDraft ? 'PROFORMA INVOICE' : DOCUMENT_TITLES[doc.type];
+  const placeCode = resolveStateCode(doc.buyerGstin || doc.placeOfSupply);
 
   return `
     <!DOCTYPE html>
     <html>
     <head>
-      <title>Invoice - ${invoiceNumber}</title>
+      <title>${title} - ${doc.number}</title>
       <style>
         body { font-family: Arial, sans-serif; padding: 40px; max-width: 800px; margin: 0 auto; }
         .header { text-align: center; margin-bottom: 30px; border-bottom: 2px solid #000; padding-bottom: 20px; }
@@ -732,8 +1237,8 @@ function generateBillHTML(
         .info-section { padding: 15px; background: #f9f9f9; border-radius: 8px; }
         .info-section h3 { margin: 0 0 10px 0; font-size: 14px; color: #666; text-transform: uppercase; }
         .table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-        .table th { padding: 12px; text-align: left; border-bottom: 2px solid #000; background: #f5f5f5; font-size: 12px; text-transform: uppercase; }
-        .table td { padding: 10px 12px; border-bottom: 1px solid #ddd; }
+        .table th { padding: 10px; text-align: left; border-bottom: 2px solid #000; background: #f5f5f5; font-size: 11px; text-transform: uppercase; }
+        .table td { padding: 8px 10px; border-bottom: 1px solid #ddd; font-size: 13px; }
         .table .text-right { text-align: right; }
         .totals { margin-top: 20px; }
         .totals-row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
@@ -747,21 +1252,26 @@ function generateBillHTML(
     </head>
     <body>
       <div class="header">
-        <h1>NexusNext</h1>
-        <p style="font-size: 12px; margin-top: 5px;">Hospitality Customized</p>
-        <h2 style="margin-top: 15px;">TAX INVOICE</h2>
+        <h1>${hotelProfile?.name || 'NexusNext'}</h1>
+        ${hotelProfile ? `<p style="font-size: 12px;">${hotelProfile.address}, ${hotelProfile.city}, ${hotelProfile.state} ${hotelProfile.pincode}</p>` : ''}
+        <p style="font-size: 12px;"><strong>GSTIN:</strong> ${doc.hotelGstin || 'N/A'}</p>
+        <h2 style="margin-top: 15px;">${title}</h2>
       </div>
       
       <div class="invoice-info">
         <div class="info-section">
-          <h3>Invoice Details</h3>
-          <p><strong>Invoice #:</strong> ${invoiceNumber}</p>
-          <p><strong>Date:</strong> ${format(new Date(issueDate), 'MMM dd, yyyy')}</p>
+          <h3>Document Details</h3>
+          <p><strong>${isDraft ? 'Provisional #' : 'Number'}:</strong> ${doc.number}</p>
+          <p><strong>Date:</strong> ${format(new Date(doc.issueDate), 'MMM dd, yyyy')}</p>
+          ${doc.referenceNumber ? `<p><strong>Against Invoice:</strong> ${doc.referenceNumber}</p>` : ''}
+          ${doc.reason ? `<p><strong>Reason:</strong> ${doc.reason}</p>` : ''}
           <p><strong>Confirmation:</strong> ${reservation.confirmationNumber}</p>
+          <p><strong>Place of Supply:</strong> ${placeCode ? `${placeCode} - ${GST_STATE_CODES[placeCode]}` : doc.placeOfSupply || 'N/A'}</p>
         </div>
         <div class="info-section">
-          <h3>Guest Information</h3>
-          <p><strong>Name:</strong> ${reservation.guest.firstName} ${reservation.guest.lastName}</p>
+          <h3>Billed To</h3>
+          <p><strong>Name:</strong> ${doc.billedTo}</p>
+          ${doc.buyerGstin ? `<p><strong>GSTIN:</strong> ${doc.buyerGstin}</p>` : ''}
           <p><strong>Email:</strong> ${reservation.guest.email || 'N/A'}</p>
           <p><strong>Phone:</strong> ${reservation.guest.phone || 'N/A'}</p>
         </div>
@@ -779,65 +1289,78 @@ function generateBillHTML(
         <thead>
           <tr>
             <th>Description</th>
+            <th>HSN/SAC</th>
             <th class="text-right">Qty</th>
             <th class="text-right">Rate</th>
-            <th class="text-right">GST</th>
+            <th class="text-right">Taxable</th>
+            ${isInterState
+              ? '<th class="text-right">IGST</th>'
+              : '<th class="text-right">CGST</th><th class="text-right">SGST</th>'}
             <th class="text-right">Amount</th>
           </tr>
         </thead>
         <tbody>
-          ${lineItems.map((item) => {
-            const subtotal = item.quantity * item.unitAmount;
-            const taxAmount = (subtotal * item.taxRate) / 100;
-            const total = subtotal + taxAmount;
-            return `
+          ${doc.lines.map((line) => `
             <tr>
               <td>
-                <strong>${item.description}</strong><br>
-                <span style="font-size: 11px; color: #666;">${item.category.replace('-', ' ')}</span>
+                <strong>${line.description}</strong><br>
+                <span style="font-size: 11px; color: #666;">${line.category.replace('-', ' ')}</span>
               </td>
-              <td class="text-right">${item.quantity}</td>
-              <td class="text-right">${formatCurrency(item.unitAmount)}</td>
-              <td class="text-right">${item.taxRate}%</td>
-              <td class="text-right">${formatCurrency(total)}</td>
+              <td>${line.hsnSac}</td>
+              <td class="text-right">${line.quantity}</td>
+              <td class="text-right">${formatCurrency(line.unitAmount)}</td>
+              <td class="text-right">${formatCurrency(line.taxableAmount)}</td>
+              ${isInterState
+                ? `<td class="text-right">${formatCurrency(line.igst)}<br><span style="font-size: 10px;">${line.taxRate}%</span></td>`
+                : `<td class="text-right">${formatCurrency(line.cgst)}<br><span style="font-size: 10px;">${line.taxRate / 2}%</span></td>
+                   <td class="text-right">${formatCurrency(line.sgst)}<br><span style="font-size: 10px;">${line.taxRate / 2}%</span></td>`}
+              <td class="text-right">${formatCurrency(line.total)}</td>
             </tr>
-            `;
-          }).join('')}
+          `).join('')}
         </tbody>
       </table>
 
       <div class="totals">
         <div class="totals-row">
-          <span>Subtotal:</span>
-          <span>${formatCurrency(combinedSubtotal)}</span>
+          <span>Taxable Value:</span>
+          <span>${formatCurrency(doc.taxableTotal)}</span>
+        </div>
+        ${isInterState ? `
+        <div class="totals-row">
+          <span>IGST:</span>
+          <span>${formatCurrency(doc.igstTotal)}</span>
         </div>
+        ` : `
         <div class="totals-row">
-          <span>CGST (${(gstRate / 2).toFixed(2)}%):</span>
-          <span>${formatCurrency(cgst)}</span>
+          <span>CGST:</span>
+          <span>${formatCurrency(doc.cgstTotal)}</span>
         </div>
         <div class="totals-row">
-          <span>SGST (${(gstRate / 2).toFixed(2)}%):</span>
-          <span>${formatCurrency(sgst)}</span>
+          <span>SGST:</span>
+          <span>${formatCurrency(doc.sgstTotal)}</span>
         </div>
+        `}
         <div class="totals-row grand">
-          <span>Grand Total:</span>
-          <span>${formatCurrency(combinedTotal)}</span>
+          <span>${doc.type === 'credit-note' ? 'Total Credit' : 'Grand Total'}:</span>
+          <span>${formatCurrency(doc.grandTotal)}</span>
         </div>
+        ${doc.type === 'invoice' ? `
         <div class="totals-row">
           <span>Amount Paid:</span>
-          <span>${formatCurrency(combinedPayments)}</span>
+          <span>${formatCurrency(paidAmount)}</span>
         </div>
         <div class="totals-row" style="font-weight: bold; color: ${balance > 0 ? '#dc2626' : '#16a34a'};">
           <span>Balance Due:</span>
           <span>${formatCurrency(balance)}</span>
         </div>
+        ` : ''}
       </div>
 
-      ${payments.length > 0 ? `
+      ${doc.type === 'invoice' && payments.length > 0 ? `
       <div class="info-section" style="margin-top: 30px;">
         <h3>Payment Details</h3>
         ${payments.map((payment) => `
-          <p><strong>${payment.mode.toUpperCase()}:</strong> ${formatCurrency(payment.amount)} ${payment.reference ? `(Ref: ${payment.reference})` : ''}</p>
+          <p><strong>${(payment.payment?.method ?? 'payment').toUpperCase()}:</strong> ${formatCurrency(-payment.amount)} ${payment.payment?.reference ? `(Ref: ${payment.payment.reference})` : ''}</p>
         `).join('')}
       </div>
       ` : ''}
@@ -845,10 +1368,11 @@ function generateBillHTML(
       <div class="footer">
         <p><strong>Thank you for your patronage!</strong></p>
         <p>We look forward to welcoming you again.</p>
-        <p style="margin-top: 15px; font-size: 10px;">This is a computer-generated invoice and does not require a signature.</p>
+        <p style="margin-top: 15px; font-size: 10px;">
+          ${isDraft ? 'This is a provisional bill and not a tax invoice.' : 'This is a computer-generated document and does not require a signature.'}
+        </p>
       </div>
     </body>
     </html>
   `;
 }
-
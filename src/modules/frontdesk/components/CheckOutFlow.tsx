@@ -22,11 +22,24 @@ import { usePropertyStore } from '../../../stores/propertyStore';
 import { useAuthStore } from '../../../stores/authStore';
 import { formatCurrency, cn } from '../../../utils';
 import { generateTransactionReference } from '../../../utils/transactionLogger';
+import { resolveTaxRate } from '../../../utils/gst';
 import { useTransactionLogStore } from '../../../stores/transactionLogStore';
-import type { Reservation, PaymentMethod } from '../../../types';
+import { useFolioStore } from '../../../stores/folioStore';
+import { useInvoiceStore } from '../../../stores/invoiceStore';
+import { useHousekeepingStore } from '../../../stores/housekeepingStore';
+import { SplitBillPanel } from './SplitBillPanel';
+import { PaymentCollectDialog } from '../../../components/payments/PaymentCollectDialog';
+import { GatewayPaymentsPanel } from '../../../components/payments/GatewayPaymentsPanel';
+import type { ChargeItem, Reservation, PaymentMethod, PayerSettlement } from '../../../types';
 
 type CheckoutStep = 'select' | 'review' | 'payment' | 'complete';
 
+interface FolioPaymentInput {
+  mode: string;
+  amount?: string;
+  reference: string;
+}
+
 const PAYMENT_MODES = [
   { value: 'cash', label: 'Cash', icon: Wallet },
   { value: 'card', label: 'Credit/Debit Card', icon: CreditCard },
@@ -35,19 +48,36 @@ const PAYMENT_MODES = [
 ];
 
 export function CheckOutFlow() {
-  const { reservations, checkOut, hydrateFromBackend } = useReservationStore();
+  const { reservations, checkOut, hydrateFromBackend, getStayRates } = useReservationStore();
   const { rooms, updateRoomStatus, taxConfig } = usePropertyStore();
   const { user } = useAuthStore();
   const { logTransaction } = useTransactionLogStore();
+  const {
+    entries: folioEntries,
+    ensurePrimaryFolio,
+    postRoomCharges,
+    postCharge,
+    postAdjustment,
+    postPayment,
+    closeFolios,
+    getLedger,
+    getBalance,
+    folios: allFolios,
+    hydrateFromBackend: hydrateFolios,
+  } = useFolioStore();
+  const { issueFolioInvoice, hydrateFromBackend: hydrateInvoices } = useInvoiceStore();
+  const queueDepartureClean = useHousekeepingStore((state) => state.queueDepartureClean);
+  const hotelProfile = usePropertyStore((state) => state.hotelProfile);
   const [currentStep, setCurrentStep] = useState<CheckoutStep>('select');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [paymentMode, setPaymentMode] = useState('cash');
-  const [paymentAmount, setPaymentAmount] = useState('');
-  const [paymentReference, setPaymentReference] = useState('');
+  const [folioPayments, setFolioPayments] = useState<Record<string, FolioPaymentInput>>({});
+  const [issueInvoices, setIssueInvoices] = useState(true);
+  const [settledPayers, setSettledPayers] = useState<PayerSettlement[]>([]);
   const [additionalCharges, setAdditionalCharges] = useState(0);
   const [discount, setDiscount] = useState(0);
+  const [collecting, setCollecting] = useState<{ folioId: string; method: 'card' | 'upi'; amount: number } | null>(null);
 
   // Get checked-in reservations
   const departures = useMemo(() => {
@@ -81,17 +111,61 @@ export function CheckOutFlow() {
 
   const reservation = selectedReservation;
 
-  const gstRate = taxConfig?.gstEnabled 
-    ? ((taxConfig.cgst || 0) + (taxConfig.sgst || 0))
-    : 0;
-
-  // Calculate totals
-  const roomCharges = reservation?.subtotal || 0;
-  const subtotal = roomCharges + additionalCharges - discount;
-  const finalTax = (subtotal * gstRate) / 100;
-  const grandTotal = subtotal + finalTax;
+  // Pending additional charges and discounts follow the configured GST slab rules
+  const additionalTaxRate = resolveTaxRate(taxConfig, 'other', additionalCharges);
+  const discountTaxRate = resolveTaxRate(taxConfig, 'room', reservation?.ratePerNight ?? 0);
 
-  const handleSelectReservation = (res: Reservation) => {
+  // Totals come from the folio ledger plus any charge/discount not yet posted
+  const ledger = useMemo(
+    () => (reservation && folioEntries.length ? getLedger(reservation.id) : []),
+    [folioEntries, getLedger, reservation]
+  );
+  const postedCharges = ledger.flatMap((line) =>
+    line.type === 'charge' && !line.isVoided && line.charge ? [line.charge] : []
+  );
+  const roomChargeItems = postedCharges.filter((charge) => charge.category === 'room');
+  const extraChargeItems = postedCharges.filter((charge) => charge.category !== 'room');
+  const roomCharges = roomChargeItems.reduce((sum, charge) => sum + charge.amount, 0);
+  const postedAdjustments = ledger
+    .filter((line) => line.type === 'adjustment' && !line.isVoided)
+    .reduce((sum, line) => sum + line.amount, 0);
+  const postedPayments = ledger.flatMap((line) =>
+    line.type === 'payment' && !line.isVoided && line.payment ? [line.payment] : []
+  );
+  const amountPaid = postedPayments.reduce((sum, payment) => sum + payment.amount, 0);
+  const subtotal = postedCharges.reduce((sum, charge) => sum + charge.amount, 0) + additionalCharges - discount;
+  const finalTax =
+    postedCharges.reduce((sum, charge) => sum + (charge.taxAmount || 0), 0) +
+    (additionalCharges * additionalTaxRate) / 100 -
+    (discount * discountTaxRate) / 100;
+  const grandTotal = subtotal + finalTax + postedAdjustments;
+  const amountDue = Math.max(Number((grandTotal - amountPaid).toFixed(2)), 0);
+
+  // Each open folio is one payer and settles on its own
+  const payerFolios = useMemo(
+    () => (reservation ? allFolios.filter((folio) => folio.reservationId === reservation.id && folio.status === 'open') : []),
+    [allFolios, reservation]
+  );
+  const folioBalances = useMemo(
+    () =>
+      Object.fromEntries(
+        payerFolios.map((folio) => [folio.id, reservation && folioEntries.length ? getBalance(reservation.id, folio.id) : 0])
+      ),
+    [payerFolios, folioEntries, getBalance, reservation]
+  );
+  const paymentFor = (folioId: string): FolioPaymentInput & { amount: string } => {
+    const input = folioPayments[folioId] ?? { mode: 'cash', reference: '' };
+    return { ...input, amount: input.amount ?? Math.max(folioBalances[folioId] ?? 0, 0).toFixed(2) };
+  };
+  const updateFolioPayment = (folioId: string, updates: Partial<FolioPaymentInput>) =>
+    setFolioPayments((prev) => ({ ...prev, [folioId]: { ...paymentFor(folioId), ...updates } }));
+  const canIssueInvoices = Boolean(hotelProfile?.gstin);
+
+  const handleSelectReservation = async (res: Reservation) => {
+    // Load postings and invoices made elsewhere first so room nights already on the server are not posted again
+    await Promise.all([hydrateFolios(res.id).catch(() => undefined), hydrateInvoices(res.id).catch(() => undefined)]);
+    ensurePrimaryFolio(res.id, `${res.guest.firstName} ${res.guest.lastName}`.trim());
+    postRoomCharges(res, getStayRates(res.id), user?.name || 'System');
     setSelectedReservation(res);
     setCurrentStep('review');
   };
@@ -101,24 +175,44 @@ export function CheckOutFlow() {
     setCurrentStep('select');
     setAdditionalCharges(0);
     setDiscount(0);
-    setPaymentAmount('');
-    setPaymentReference('');
+    setFolioPayments({});
   };
 
   const handleProceedToPayment = () => {
-    setPaymentAmount(grandTotal.toFixed(2));
-    // Auto-generate transaction reference if not already set
-    if (!paymentReference) {
-      setPaymentReference(generateTransactionReference());
+    if (!reservation) return;
+    const postedBy = user?.name || 'System';
+
+    if (additionalCharges > 0) {
+      postCharge(
+        reservation.id,
+        {
+          description: 'Additional Charges',
+          category: 'other',
+          amount: additionalCharges,
+          taxRate: additionalTaxRate,
+          taxAmount: Number(((additionalCharges * additionalTaxRate) / 100).toFixed(2)),
+        },
+        { source: 'checkout', postedBy }
+      );
+      setAdditionalCharges(0);
     }
+    if (discount > 0) {
+      postAdjustment(reservation.id, -discount * (1 + discountTaxRate / 100), 'Discount', { source: 'checkout', postedBy });
+      setDiscount(0);
+    }
+
+    // Amounts default to each folio's live balance, so only references are seeded here
+    setFolioPayments({});
     setCurrentStep('payment');
   };
 
   const handleProcessCheckout = async () => {
     if (!reservation) return;
-    if (!paymentAmount || parseFloat(paymentAmount) < grandTotal) {
-      alert('Payment amount must cover the total bill');
-      return reservation.id
+    const duePayers = payerFolios.filter((folio) => (folioBalances[folio.id] ?? 0) > 0);
+    const shortPayer = duePayers.find((folio) => (parseFloat(paymentFor(folio.id).amount) || 0) < folioBalances[folio.id]);
+    if (shortPayer) {
+      alert(`Payment for ${shortPayer.label} must cover its balance of ${formatCurrency(folioBalances[shortPayer.id])}`);
+      return;
     }
 
     setIsProcessing(true);
@@ -131,46 +225,98 @@ export function CheckOutFlow() {
         'upi': 'upi',
         'bank-transfer': 'bank-transfer'
       };
+      const postedBy = user?.name || 'System';
+
+      for (const folio of duePayers) {
+        const input = paymentFor(folio.id);
+        const collected = parseFloat(input.amount) || 0;
+        const reference = input.reference || generateTransactionReference();
+        postPayment(
+          reservation.id,
+          {
+            method: paymentMethodMap[input.mode] || 'cash',
+            amount: collected,
+            reference,
+          },
+          { folioId: folio.id, source: 'checkout', postedBy }
+        );
 
-      // Log payment transaction
-      await logTransaction({
-        eventType: 'PAYMENT_RECEIVED',
-        entityType: 'PAYMENT',
-        entityId: paymentReference,
-        description: `Payment received for ${reservation.confirmationNumber} - ${paymentMode.toUpperCase()}`,
-        metadata: {
-          reservationId: reservation.id,
-          guestName: `${reservation.guest.firstName} ${reservation.guest.lastName}`,
-          amount: parseFloat(paymentAmount),
-          paymentMode,
-          reference: paymentReference,
-        },
-      });
+        // Log payment transaction
+        await logTransaction({
+          eventType: 'PAYMENT_RECEIVED',
+          entityType: 'PAYMENT',
+          entityId: reference,
+          description: `Payment received for ${reservation.confirmationNumber} (${folio.label}) - ${input.mode.toUpperCase()}`,
+          metadata: {
+            reservationId: reservation.id,
+            guestName: `${reservation.guest.firstName} ${reservation.guest.lastName}`,
+            folioId: folio.id,
+            payerName: folio.payerName,
+            amount: collected,
+            paymentMode: input.mode,
+            reference,
+          },
+        });
+      }
 
+      // One tax invoice per payer, billed to that payer's name and GSTIN
+      const guestName = `${reservation.guest.firstName} ${reservation.guest.lastName}`.trim();
+      const payers: PayerSettlement[] = [];
+      for (const folio of payerFolios) {
+        const invoice =
+          issueInvoices && canIssueInvoices
+            ? await issueFolioInvoice({
+                reservationId: reservation.id,
+                folioId: folio.id,
+                issueDate: format(new Date(), 'yyyy-MM-dd'),
+                billedTo: folio.payerName || guestName,
+                buyerGstin: folio.payerGstin,
+                placeOfSupply: reservation.guest.address?.state || hotelProfile?.state || '',
+                issuedBy: postedBy,
+              })
+            : null;
+        const folioLedger = getLedger(reservation.id, folio.id).filter((line) => !line.isVoided && line.type !== 'void');
+        payers.push({
+          folioId: folio.id,
+          label: folio.label,
+          payerName: folio.payerName || guestName,
+          payerGstin: folio.payerGstin,
+          charges: Number(
+            folioLedger
+              .filter((line) => line.type === 'charge' || line.type === 'adjustment')
+              .reduce((sum, line) => sum + line.amount, 0)
+              .toFixed(2)
+          ),
+          payments: folioLedger.flatMap((line) => (line.type === 'payment' && line.payment ? [line.payment] : [])),
+          balanceDue: getBalance(reservation.id, folio.id),
+          invoiceNumbers: invoice ? [invoice.number] : [],
+        });
+      }
+
+      // Settle from the ledger so POS and billing postings are carried into the checkout summary
+      const settledLedger = getLedger(reservation.id).filter((line) => !line.isVoided && line.type !== 'void');
       await checkOut({
         reservationId: reservation.id,
         settlement: {
-          roomCharges: reservation.subtotal || 0,
-          additionalCharges: additionalCharges > 0 ? [
-            {
-              id: `charge-${Date.now()}`,
-              description: 'Additional Charges',
-              category: 'other' as const,
-              amount: additionalCharges,
-            }
-          ] : [],
-          taxes: finalTax,
-          discounts: discount,
-          payments: [
-            {
-              method: paymentMethodMap[paymentMode] || 'cash',
-              amount: parseFloat(paymentAmount),
-              reference: paymentReference || undefined,
-              notes: undefined,
-            }
-          ],
-          notes: undefined,
+          roomCharges,
+          additionalCharges: extraChargeItems,
+          taxes: roomChargeItems.reduce((sum, charge) => sum + (charge.taxAmount || 0), 0),
+          discounts: -settledLedger
+            .filter((line) => line.type === 'adjustment')
+            .reduce((sum, line) => sum + line.amount, 0),
+          payments: settledLedger.flatMap((line) =>
+            line.type === 'payment' && line.payment
+              ? [{
+                  method: line.payment.method,
+                  amount: line.payment.amount,
+                  reference: line.payment.reference,
+                  notes: line.payment.notes,
+                }]
+              : []
+          ),
+          notes: payers.length > 1 ? `Split across ${payers.map((payer) => payer.payerName).join(', ')}` : undefined,
         },
+        payers,
         handledBy: user?.name || 'System',
         checkOutTime: new Date().toISOString(),
       });
@@ -186,18 +332,22 @@ export function CheckOutFlow() {
           guestName: `${reservation.guest.firstName} ${reservation.guest.lastName}`,
           rooms: reservation.roomNumbers,
           totalAmount: grandTotal,
-          paymentMode,
-          paymentReference,
+          payers: payers.map((payer) => ({ folioId: payer.folioId, payerName: payer.payerName, invoiceNumbers: payer.invoiceNumbers })),
         },
         previousState: { status: 'checked-in' },
         newState: { status: 'checked-out' },
       });
 
+      closeFolios(reservation.id);
+      setSettledPayers(payers);
+
       // Update room status to dirty
       if (reservation.roomNumbers) {
         for (const roomNumber of reservation.roomNumbers) {
           const room = rooms.find((r) => r.roomNumber === roomNumber);
           if (room) {
+            // Open the departure clean first so it is not duplicated when the room turns dirty
+            queueDepartureClean(room.id, reservation.id);
             await updateRoomStatus(room.id, 'dirty');
             // Log room status change
             await logTransaction({
@@ -229,13 +379,13 @@ export function CheckOutFlow() {
     if (!reservation) return;
     
     const printContent = generateBillHTML(reservation, {
-      additionalCharges,
-      discount,
+      roomCharges,
+      extraCharges: extraChargeItems,
+      adjustments: postedAdjustments,
       subtotal,
       finalTax,
       grandTotal,
-      paymentMode,
-      paymentReference,
+      payers: settledPayers,
     });
 
     const printWindow = window.open('', '_blank');
@@ -253,8 +403,8 @@ export function CheckOutFlow() {
     setCurrentStep('select');
     setAdditionalCharges(0);
     setDiscount(0);
-    setPaymentAmount('');
-    setPaymentReference('');
+    setFolioPayments({});
+    setSettledPayers([]);
     // Refresh reservations to ensure list is up to date
     hydrateFromBackend();
   };
@@ -390,66 +540,129 @@ export function CheckOutFlow() {
   if (currentStep === 'payment') {
     return (
       <div className="space-y-6">
+        <SplitBillPanel reservation={reservation} postedBy={user?.name || 'System'} />
+
         <Card>
           <CardHeader>
             <CardTitle>Payment Collection</CardTitle>
-            <CardDescription>Collect payment for the total amount due</CardDescription>
+            <CardDescription>Collect each payer's balance with its own payment method</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="bg-zinc-50 border border-zinc-200 rounded-lg p-4">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm text-zinc-600">Total Amount Due</span>
-                <span className="text-2xl font-bold text-zinc-900">{formatCurrency(grandTotal)}</span>
+                <span className="text-2xl font-bold text-zinc-900">{formatCurrency(amountDue)}</span>
               </div>
+              {amountPaid > 0 && (
+                <p className="text-xs text-zinc-500">
+                  {formatCurrency(amountPaid)} already settled on the folio
+                </p>
+              )}
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-zinc-900 mb-2">Payment Mode</label>
-              <div className="grid grid-cols-2 gap-3">
-                {PAYMENT_MODES.map((mode) => {
-                  const Icon = mode.icon;
-                  return (
-                    <button
-                      key={mode.value}
-                      onClick={() => setPaymentMode(mode.value)}
-                      className={`flex items-center gap-3 p-4 rounded-lg border-2 transition-all ${
-                        paymentMode === mode.value
-                          ? 'border-zinc-900 bg-zinc-50'
-                          : 'border-zinc-200 hover:border-zinc-300'
-                      }`}
-                    >
-                      <Icon className="h-5 w-5 text-zinc-600" />
-                      <span className="text-sm font-medium text-zinc-900">{mode.label}</span>
-                    </button>
-                  );
-                })}
-              </div>
-            </div>
+            <GatewayPaymentsPanel reservationId={reservation.id} balanceDue={amountDue} />
+
+            {payerFolios.map((folio) => {
+              const balance = folioBalances[folio.id] ?? 0;
+              const payment = paymentFor(folio.id);
+              return (
+                <div key={folio.id} className="rounded-lg border border-zinc-200 p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-semibold text-zinc-900">{folio.label}</p>
+                      <p className="text-xs text-zinc-500">
+                        {folio.payerName || `${reservation.guest.firstName} ${reservation.guest.lastName}`}
+                      </p>
+                    </div>
+                    <span className="text-lg font-bold text-zinc-900">{formatCurrency(Math.max(balance, 0))}</span>
+                  </div>
 
-            <div>
-              <label className="block text-sm font-medium text-zinc-900 mb-2">Payment Amount</label>
-              <Input
-                type="number"
-                value={paymentAmount}
-                onChange={(e) => setPaymentAmount(e.target.value)}
-                placeholder="Enter amount"
-                step="0.01"
+                  {balance > 0 ? (
+                    <>
+                      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                        {PAYMENT_MODES.map((mode) => {
+                          const Icon = mode.icon;
+                          return (
+                            <button
+                              key={mode.value}
+                              onClick={() => updateFolioPayment(folio.id, { mode: mode.value })}
+                              className={`flex items-center gap-2 p-3 rounded-lg border-2 transition-all ${
+                                payment.mode === mode.value
+                                  ? 'border-zinc-900 bg-zinc-50'
+                                  : 'border-zinc-200 hover:border-zinc-300'
+                              }`}
+                            >
+                              <Icon className="h-4 w-4 text-zinc-600" />
+                              <span className="text-sm font-medium text-zinc-900">{mode.label}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                      <div className="grid gap-3 md:grid-cols-2">
+                        <Input
+                          type="number"
+                          label="Payment Amount"
+                          value={payment.amount}
+                          onChange={(e) => updateFolioPayment(folio.id, { amount: e.target.value })}
+                          placeholder="Enter amount"
+                          step="0.01"
+                        />
+                        {payment.mode !== 'cash' && (
+                          <Input
+                            type="text"
+                            label="Reference/Transaction ID (Optional)"
+                            value={payment.reference}
+                            onChange={(e) => updateFolioPayment(folio.id, { reference: e.target.value })}
+                            placeholder="Enter transaction reference"
+                          />
+                        )}
+                      </div>
+                      {(payment.mode === 'card' || payment.mode === 'upi') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setCollecting({ folioId: folio.id, method: payment.mode as 'card' | 'upi', amount: parseFloat(payment.amount) || 0 })
+                          }
+                        >
+                          {payment.mode === 'upi' ? 'Show UPI QR' : 'Send to Card Terminal'}
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-xs text-emerald-600">Settled</p>
+                  )}
+                </div>
+              );
+            })}
+
+            {collecting && (
+              <PaymentCollectDialog
+                method={collecting.method}
+                amount={collecting.amount}
+                description={`Checkout · ${reservation.confirmationNumber}`}
+                target={{ type: 'folio', reservationId: reservation.id, folioId: collecting.folioId, source: 'checkout' }}
+                onClose={() => setCollecting(null)}
+                onComplete={() =>
+                  setFolioPayments((prev) => {
+                    const next = { ...prev };
+                    delete next[collecting.folioId];
+                    return next;
+                  })
+                }
               />
-            </div>
-
-            {(paymentMode === 'card' || paymentMode === 'upi' || paymentMode === 'bank-transfer') && (
-              <div>
-                <label className="block text-sm font-medium text-zinc-900 mb-2">
-                  Reference/Transaction ID (Optional)
-                </label>
-                <Input
-                  type="text"
-                  value={paymentReference}
-                  onChange={(e) => setPaymentReference(e.target.value)}
-                  placeholder="Enter transaction reference"
-                />
-              </div>
             )}
+
+            <label className="flex items-center gap-2 text-sm text-zinc-700">
+              <input
+                type="checkbox"
+                checked={issueInvoices && canIssueInvoices}
+                disabled={!canIssueInvoices}
+                onChange={(e) => setIssueInvoices(e.target.checked)}
+              />
+              Issue a separate tax invoice for each payer
+              {!canIssueInvoices && <span className="text-xs text-zinc-500">(add the property GSTIN to enable)</span>}
+            </label>
           </CardContent>
         </Card>
 
@@ -462,7 +675,7 @@ export function CheckOutFlow() {
             onClick={handleProcessCheckout} 
             variant="primary" 
             className="flex-1"
-            disabled={isProcessing || !paymentAmount}
+            disabled={isProcessing}
           >
             {isProcessing ? 'Processing...' : 'Complete Checkout'}
             <ArrowRight className="h-4 w-4 ml-2" />
@@ -516,6 +729,13 @@ export function CheckOutFlow() {
               <span className="font-medium text-zinc-900">{formatCurrency(roomCharges)}</span>
             </div>
 
+            {extraChargeItems.map((charge) => (
+              <div key={charge.id} className="flex justify-between text-sm">
+                <span className="text-zinc-600">{charge.description}</span>
+                <span className="font-medium text-zinc-900">{formatCurrency(charge.amount)}</span>
+              </div>
+            ))}
+
             <div>
               <label className="block text-sm font-medium text-zinc-900 mb-2">Additional Charges</label>
               <Input
@@ -544,13 +764,31 @@ export function CheckOutFlow() {
                 <span className="font-medium text-zinc-900">{formatCurrency(subtotal)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-zinc-600">Tax ({gstRate}%)</span>
+                <span className="text-zinc-600">Taxes (GST)</span>
                 <span className="font-medium text-zinc-900">{formatCurrency(finalTax)}</span>
               </div>
+              {postedAdjustments !== 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-zinc-600">Adjustments</span>
+                  <span className="font-medium text-zinc-900">{formatCurrency(postedAdjustments)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-lg font-bold pt-2 border-t border-zinc-200">
                 <span className="text-zinc-900">Grand Total</span>
                 <span className="text-zinc-900">{formatCurrency(grandTotal)}</span>
               </div>
+              {amountPaid > 0 && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-zinc-600">Paid to Date</span>
+                    <span className="font-medium text-zinc-900">-{formatCurrency(amountPaid)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm font-semibold">
+                    <span className="text-zinc-900">Balance Due</span>
+                    <span className="text-zinc-900">{formatCurrency(amountDue)}</span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </CardContent>
@@ -573,20 +811,20 @@ export function CheckOutFlow() {
 function generateBillHTML(
   reservation: Reservation,
   billData: {
-    additionalCharges: number;
-    discount: number;
+    roomCharges: number;
+    extraCharges: ChargeItem[];
+    adjustments: number;
     subtotal: number;
     finalTax: number;
     grandTotal: number;
-    paymentMode: string;
-    paymentReference: string;
+    payers: PayerSettlement[];
   }
 ): string {
   return `
     <!DOCTYPE html>
     <html>
     <head>
-      <title>Invoice - ${reservation.confirmationNumber}</title>
+      <title>Receipt - ${reservation.confirmationNumber}</title>
       <style>
         body { font-family: Arial, sans-serif; padding: 40px; }
         .header { text-align: center; margin-bottom: 30px; }
@@ -602,11 +840,11 @@ function generateBillHTML(
       <div class="header">
         <h1>NexusNext</h1>
         <p>Hospitality Customized</p>
-        <h2>Tax Invoice</h2>
+        <h2>Checkout Receipt</h2>
       </div>
       
       <div class="invoice-info">
-        <p><strong>Invoice Number:</strong> INV-${reservation.confirmationNumber}</p>
+        <p><strong>Confirmation:</strong> ${reservation.confirmationNumber}</p>
         <p><strong>Date:</strong> ${format(new Date(), 'MMM dd, yyyy')}</p>
         <p><strong>Guest Name:</strong> ${reservation.guest.firstName} ${reservation.guest.lastName}</p>
         <p><strong>Room(s):</strong> ${reservation.roomNumbers?.join(', ')}</p>
@@ -628,25 +866,17 @@ function generateBillHTML(
           <tr>
             <td>Room Charges</td>
             <td>${reservation.nights}</td>
-            <td>${formatCurrency((reservation.subtotal || 0) / (reservation.nights || 1))}</td>
-            <td>${formatCurrency(reservation.subtotal || 0)}</td>
+            <td>${formatCurrency(billData.roomCharges / (reservation.nights || 1))}</td>
+            <td>${formatCurrency(billData.roomCharges)}</td>
           </tr>
-          ${billData.additionalCharges > 0 ? `
+          ${billData.extraCharges.map((charge) => `
           <tr>
-            <td>Additional Charges</td>
-            <td>1</td>
-            <td>${formatCurrency(billData.additionalCharges)}</td>
-            <td>${formatCurrency(billData.additionalCharges)}</td>
+            <td>${charge.description}</td>
+            <td>${charge.quantity || 1}</td>
+            <td>${formatCurrency(charge.amount / (charge.quantity || 1))}</td>
+            <td>${formatCurrency(charge.amount)}</td>
           </tr>
-          ` : ''}
-          ${billData.discount > 0 ? `
-          <tr>
-            <td>Discount</td>
-            <td>1</td>
-            <td>-${formatCurrency(billData.discount)}</td>
-            <td>-${formatCurrency(billData.discount)}</td>
-          </tr>
-          ` : ''}
+          `).join('')}
           <tr>
             <td colspan="3" style="text-align: right;"><strong>Subtotal:</strong></td>
             <td><strong>${formatCurrency(billData.subtotal)}</strong></td>
@@ -655,6 +885,12 @@ function generateBillHTML(
             <td colspan="3" style="text-align: right;"><strong>Tax:</strong></td>
             <td><strong>${formatCurrency(billData.finalTax)}</strong></td>
           </tr>
+          ${billData.adjustments !== 0 ? `
+          <tr>
+            <td colspan="3" style="text-align: right;"><strong>Adjustments:</strong></td>
+            <td><strong>${formatCurrency(billData.adjustments)}</strong></td>
+          </tr>
+          ` : ''}
           <tr>
             <td colspan="3" style="text-align: right; font-size: 18px;"><strong>Grand Total:</strong></td>
             <td style="font-size: 18px;"><strong>${formatCurrency(billData.grandTotal)}</strong></td>
@@ -662,9 +898,28 @@ function generateBillHTML(
         </tbody>
       </table>
 
+      <table class="table">
+        <thead>
+          <tr>
+            <th>Payer</th>
+            <th>Invoice</th>
+            <th>Payments</th>
+            <th>Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${billData.payers.map((payer) => `
+          <tr>
+            <td>${payer.payerName}${payer.payerGstin ? `<br/><small>GSTIN: ${payer.payerGstin}</small>` : ''}</td>
+            <td>${payer.invoiceNumbers.join(', ') || '-'}</td>
+            <td>${payer.payments.map((payment) => `${payment.method.toUpperCase()}${payment.reference ? ` (${payment.reference})` : ''}`).join('<br/>') || '-'}</td>
+            <td>${formatCurrency(payer.charges)}</td>
+          </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
       <div>
-        <p><strong>Payment Mode:</strong> ${billData.paymentMode.toUpperCase()}</p>
-        ${billData.paymentReference ? `<p><strong>Reference:</strong> ${billData.paymentReference}</p>` : ''}
         <p><strong>Status:</strong> PAID</p>
       </div>
 
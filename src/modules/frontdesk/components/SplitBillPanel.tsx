@@ -0,0 +1,259 @@
+import { useMemo, useState } from 'react';
+import { Plus, Split } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../../components/ui/Card';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import { Badge } from '../../../components/ui/Badge';
+import { useFolioStore } from '../../../stores/folioStore';
+import { useInvoiceStore } from '../../../stores/invoiceStore';
+import { formatCurrency } from '../../../utils';
+import type { ChargeCategory, Reservation } from '../../../types';
+
+const CATEGORY_LABELS: Record<ChargeCategory, string> = {
+  room: 'Room',
+  'extra-bed': 'Extra Bed',
+  restaurant: 'Food & Beverage',
+  'mini-bar': 'Mini Bar',
+  laundry: 'Laundry',
+  transport: 'Transport',
+  'early-checkin': 'Early Check-in',
+  'late-checkout': 'Late Checkout',
+  other: 'Other',
+};
+
+interface SplitBillPanelProps {
+  reservation: Reservation;
+  postedBy: string;
+}
+
+/**
+ * Splits one stay across payers: a folio per payer, with charges routed by category,
+ * moved line by line, or shared by percentage
+ */
+export function SplitBillPanel({ reservation, postedBy }: SplitBillPanelProps) {
+  const {
+    folios: allFolios,
+    entries,
+    routingRules,
+    openFolio,
+    transferEntry,
+    splitEntry,
+    setRoutingRule,
+    getOpenCharges,
+    getBalance,
+  } = useFolioStore();
+  const documents = useInvoiceStore((state) => state.documents);
+  const [newPayer, setNewPayer] = useState({ label: '', payerName: '', payerGstin: '' });
+  const [routeCategory, setRouteCategory] = useState<ChargeCategory>('room');
+  const [routeFolioId, setRouteFolioId] = useState('');
+  const [shares, setShares] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const folios = useMemo(
+    () => allFolios.filter((folio) => folio.reservationId === reservation.id && folio.status === 'open'),
+    [allFolios, reservation.id]
+  );
+  // Invoiced charges stay with the payer they were billed to; only a credit note can move them
+  const openCharges = useMemo(() => {
+    const invoiced = new Set(
+      documents
+        .filter((doc) => doc.type === 'invoice' && doc.reservationId === reservation.id)
+        .flatMap((doc) => doc.lines.map((line) => line.sourceEntryId))
+    );
+    return entries.length ? getOpenCharges(reservation.id).filter(({ entry }) => !invoiced.has(entry.id)) : [];
+  }, [documents, entries, getOpenCharges, reservation.id]);
+  const folioOptions = folios.map((folio) => ({
+    value: folio.id,
+    label: folio.payerName ? `${folio.label} (${folio.payerName})` : folio.label,
+  }));
+  const shareTotal = folios.reduce((sum, folio) => sum + (Number(shares[folio.id]) || 0), 0);
+
+  const run = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the folios');
+    }
+  };
+
+  const handleAddPayer = () => {
+    if (!newPayer.payerName.trim()) {
+      setError('Enter the payer name');
+      return;
+    }
+    const gstin = newPayer.payerGstin.trim().toUpperCase();
+    if (gstin && !/^\d{2}[A-Z0-9]{13}$/.test(gstin)) {
+      setError('GSTIN must be 15 characters starting with the state code');
+      return;
+    }
+    run(() => {
+      openFolio(reservation.id, newPayer.label || newPayer.payerName, newPayer.payerName.trim(), gstin || undefined);
+      setNewPayer({ label: '', payerName: '', payerGstin: '' });
+    });
+  };
+
+  // Moves charges already posted and keeps future postings of the category on the same payer
+  const handleRoute = () => {
+    const target = routeFolioId || folios[0]?.id;
+    if (!target) return;
+    run(() => {
+      openCharges
+        .filter(({ entry, charge }) => charge.category === routeCategory && entry.folioId !== target)
+        .forEach(({ entry }) => transferEntry(entry.id, target, postedBy));
+      setRoutingRule(reservation.id, routeCategory, target);
+    });
+  };
+
+  const toShares = () => {
+    if (Math.abs(shareTotal - 100) > 0.01) {
+      throw new Error('Split percentages must add up to 100');
+    }
+    return folios.map((folio) => ({ folioId: folio.id, percent: Number(shares[folio.id]) || 0 }));
+  };
+
+  const handleSplitLine = (entryId: string) => {
+    run(() => {
+      splitEntry(entryId, toShares(), postedBy);
+    });
+  };
+
+  const handleSplitAll = () => {
+    run(() => {
+      const split = toShares();
+      openCharges.forEach(({ entry }) => splitEntry(entry.id, split, postedBy));
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payers</CardTitle>
+        <CardDescription>Split the stay across payers; each payer settles and is invoiced separately</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="grid gap-3 md:grid-cols-2">
+          {folios.map((folio) => {
+            const routed = routingRules
+              .filter((rule) => rule.reservationId === reservation.id && rule.folioId === folio.id)
+              .map((rule) => CATEGORY_LABELS[rule.category]);
+            return (
+              <div key={folio.id} className="rounded-lg border border-zinc-200 p-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-semibold text-zinc-900">{folio.label}</p>
+                  <span className="text-sm font-semibold text-zinc-900">
+                    {formatCurrency(getBalance(reservation.id, folio.id))}
+                  </span>
+                </div>
+                <p className="text-xs text-zinc-500">
+                  {folio.payerName || `${reservation.guest.firstName} ${reservation.guest.lastName}`}
+                  {folio.payerGstin && ` · GSTIN ${folio.payerGstin}`}
+                </p>
+                {routed.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {routed.map((label) => (
+                      <Badge key={label} variant="info">{label}</Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-2 flex items-center gap-2">
+                  <span className="text-xs text-zinc-500">Share</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={shares[folio.id] ?? ''}
+                    onChange={(e) => setShares((prev) => ({ ...prev, [folio.id]: e.target.value }))}
+                    placeholder="%"
+                    className="h-8 w-24"
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid gap-2 md:grid-cols-[1fr_1fr_1fr_auto] md:items-end">
+          <Input
+            label="Payer"
+            value={newPayer.payerName}
+            onChange={(e) => setNewPayer((prev) => ({ ...prev, payerName: e.target.value }))}
+            placeholder="Company or guest name"
+          />
+          <Input
+            label="Folio label"
+            value={newPayer.label}
+            onChange={(e) => setNewPayer((prev) => ({ ...prev, label: e.target.value }))}
+            placeholder="Company"
+          />
+          <Input
+            label="GSTIN (optional)"
+            value={newPayer.payerGstin}
+            onChange={(e) => setNewPayer((prev) => ({ ...prev, payerGstin: e.target.value }))}
+            placeholder="29ABCDE1234F1Z5"
+          />
+          <Button variant="outline" onClick={handleAddPayer}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Payer
+          </Button>
+        </div>
+
+        {folios.length > 1 && (
+          <>
+            <div className="grid gap-2 md:grid-cols-[1fr_1fr_auto] md:items-end">
+              <Select
+                label="Charges"
+                value={routeCategory}
+                onChange={(e) => setRouteCategory(e.target.value as ChargeCategory)}
+                options={(Object.keys(CATEGORY_LABELS) as ChargeCategory[]).map((category) => ({
+                  value: category,
+                  label: CATEGORY_LABELS[category],
+                }))}
+              />
+              <Select
+                label="Paid by"
+                value={routeFolioId || folios[0]?.id}
+                onChange={(e) => setRouteFolioId(e.target.value)}
+                options={folioOptions}
+              />
+              <Button variant="outline" onClick={handleRoute}>
+                Route Charges
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-zinc-900">Line items</p>
+                <Button size="sm" variant="outline" onClick={handleSplitAll} disabled={!openCharges.length}>
+                  <Split className="h-4 w-4 mr-1" />
+                  Split all by share ({shareTotal}%)
+                </Button>
+              </div>
+              {openCharges.map(({ entry, charge }) => (
+                <div key={entry.id} className="flex items-center gap-3 text-sm">
+                  <span className="flex-1 text-zinc-700">{charge.description}</span>
+                  <span className="w-24 text-right font-medium text-zinc-900">{formatCurrency(entry.amount)}</span>
+                  <div className="w-48">
+                    <Select
+                      value={entry.folioId}
+                      onChange={(e) => run(() => transferEntry(entry.id, e.target.value, postedBy))}
+                      options={folioOptions}
+                    />
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => handleSplitLine(entry.id)} title="Split by share">
+                    <Split className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
 import { format, parseISO } from 'date-fns';
-import { Calendar, BedDouble, Receipt, Clock } from 'lucide-react';
+import { Calendar, BedDouble, Receipt, Clock, PackageSearch } from 'lucide-react';
 import type { Reservation } from '../../../types';
 import { cn } from '../../../utils';
+import { LOST_ITEM_STATUS_LABELS, useLostFoundStore } from '../../../stores/lostFoundStore';
 
 interface GuestTimelineProps {
   stays: Reservation[];
@@ -17,6 +18,8 @@ const statusTone: Record<Reservation['status'], string> = {
 };
 
 export function GuestTimeline({ stays }: GuestTimelineProps) {
+  const { getItemsForStay, matchGuest } = useLostFoundStore();
+
   if (!stays.length) {
     return (
       <div className="rounded-lg border border-dashed border-gray-300 bg-gray-50 p-6 text-center text-sm text-gray-600">
@@ -38,6 +41,7 @@ export function GuestTimeline({ stays }: GuestTimelineProps) {
         const checkOutDate = stay.checkOut ? format(parseISO(stay.checkOut), 'MMM d, yyyy') : 'N/A';
         const badgeTone = statusTone[stay.status] || 'bg-gray-200 text-gray-600';
         const rooms = stay.roomNumbers?.length ? stay.roomNumbers.join(', ') : 'Not assigned';
+        const foundItems = getItemsForStay(stay);
 
         return (
           <div key={stay.id} className="relative pl-8">
@@ -81,6 +85,35 @@ export function GuestTimeline({ stays }: GuestTimelineProps) {
                   Special request: {stay.specialRequests}
                 </p>
               )}
+
+              {foundItems.length > 0 && (
+                <div className="mt-3 space-y-2 border-t border-gray-100 pt-3">
+                  {foundItems.map((item) => (
+                    <div key={item.id} className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                      <span className="flex items-center gap-2 text-gray-600">
+                        <PackageSearch className="h-4 w-4 text-gray-400" />
+                        {item.number} · {item.description} (room {item.roomNumber}) · {LOST_ITEM_STATUS_LABELS[item.status]}
+                      </span>
+                      {item.reservationId ? (
+                        <span className="font-medium text-emerald-700">Matched to this stay</span>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            try {
+                              matchGuest(item.id, stay.id);
+                            } catch (err) {
+                              alert(err instanceof Error ? err.message : 'Unable to match the item');
+                            }
+                          }}
+                          className="font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          Belongs to this guest
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         );
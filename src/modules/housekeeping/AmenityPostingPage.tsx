@@ -0,0 +1,376 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Minus, Plus, Undo2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Select } from '../../components/ui/Select';
+import { Badge } from '../../components/ui/Badge';
+import { useAuthStore } from '../../stores/authStore';
+import { usePropertyStore } from '../../stores/propertyStore';
+import { AMENITY_CATEGORY_LABELS, useAmenityStore } from '../../stores/amenityStore';
+import { useInvoiceStore } from '../../stores/invoiceStore';
+import { cn } from '../../utils';
+import type { AmenityCategory, AmenityItem } from '../../types';
+
+type View = 'count' | 'price-list';
+
+const CATEGORIES: AmenityCategory[] = ['mini-bar', 'laundry'];
+
+const formatCurrency = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+
+export function AmenityPostingPage() {
+  const { user } = useAuthStore();
+  const [view, setView] = useState<View>('count');
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Minibar &amp; Laundry</h1>
+          <p className="mt-1 text-sm text-gray-500">Count what was used in the room and charge it to the guest's bill.</p>
+        </div>
+        {canManage && (
+          <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1">
+            {(['count', 'price-list'] as View[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                className={cn(
+                  'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                  view === key ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                )}
+              >
+                {key === 'count' ? 'Room Count' : 'Price List'}
+              </button>
+            ))}
+          </div>
+        )}
+      </header>
+
+      {view === 'count' || !canManage ? <ConsumptionCounter /> : <PriceList />}
+    </div>
+  );
+}
+
+function ConsumptionCounter() {
+  const { rooms } = usePropertyStore();
+  const { items, postConsumption, reversePosting, getInHouseReservation, getPostings } = useAmenityStore();
+  const { findInvoiceForEntry } = useInvoiceStore();
+  const [roomId, setRoomId] = useState('');
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const occupiedRooms = rooms
+    .filter((room) => room.status === 'occupied')
+    .sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }));
+  const reservation = roomId ? getInHouseReservation(roomId) : undefined;
+  const postings = reservation ? getPostings(reservation.id).filter((posting) => posting.roomId === roomId) : [];
+  const reservationId = reservation?.id;
+
+  // Invoices raised at the front desk decide which postings can still be reversed here
+  useEffect(() => {
+    if (reservationId) {
+      useInvoiceStore.getState().hydrateFromBackend(reservationId).catch(() => undefined);
+    }
+  }, [reservationId]);
+  const activeItems = items.filter((item) => item.isActive);
+
+  const total = activeItems.reduce((sum, item) => sum + (counts[item.id] ?? 0) * item.price, 0);
+
+  const adjust = (item: AmenityItem, delta: number) =>
+    setCounts((prev) => {
+      const next = Math.max((prev[item.id] ?? 0) + delta, 0);
+      return { ...prev, [item.id]: item.stock !== undefined ? Math.min(next, item.stock) : next };
+    });
+
+  const run = (action: () => void) => {
+    setError(null);
+    setNotice(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to post the charges');
+    }
+  };
+
+  const handlePost = () =>
+    run(() => {
+      const posted = postConsumption(
+        roomId,
+        Object.entries(counts).map(([itemId, quantity]) => ({ itemId, quantity }))
+      );
+      setCounts({});
+      setNotice(`${posted.length} charge(s) posted to ${reservation?.guest.firstName ?? 'the guest'}'s bill`);
+    });
+
+  const handleReverse = (postingId: string, itemName: string) => {
+    const reason = prompt(`Why is the ${itemName} charge being reversed?`);
+    if (reason === null) return;
+    run(() => reversePosting(postingId, reason));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="space-y-3 pt-6">
+          <Select
+            label="Room"
+            value={roomId}
+            onChange={(e) => {
+              setRoomId(e.target.value);
+              setCounts({});
+              setNotice(null);
+            }}
+            options={[
+              { value: '', label: occupiedRooms.length ? 'Select occupied room' : 'No occupied rooms' },
+              ...occupiedRooms.map((room) => ({ value: room.id, label: `Room ${room.roomNumber}` })),
+            ]}
+          />
+          {roomId && (
+            <p className="text-sm text-gray-600">
+              {reservation
+                ? `${reservation.guest.firstName} ${reservation.guest.lastName} · ${reservation.confirmationNumber}`
+                : 'No checked-in reservation found for this room'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+      {notice && (
+        <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">{notice}</div>
+      )}
+
+      {reservation &&
+        CATEGORIES.map((category) => (
+          <Card key={category}>
+            <CardHeader>
+              <CardTitle>{AMENITY_CATEGORY_LABELS[category]}</CardTitle>
+            </CardHeader>
+            <CardContent className="divide-y divide-gray-100">
+              {activeItems
+                .filter((item) => item.category === category)
+                .map((item) => (
+                  <div key={item.id} className="flex items-center justify-between gap-3 py-3">
+                    <div>
+                      <p className="font-medium text-gray-900">{item.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatCurrency(item.price)}
+                        {item.stock !== undefined && ` · ${item.stock} in stock`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => adjust(item, -1)}
+                        className="flex h-11 w-11 items-center justify-center rounded-full border border-gray-300 text-gray-700 active:bg-gray-100"
+                        aria-label={`One less ${item.name}`}
+                      >
+                        <Minus className="h-4 w-4" />
+                      </button>
+                      <span className="w-6 text-center text-lg font-semibold text-gray-900">{counts[item.id] ?? 0}</span>
+                      <button
+                        onClick={() => adjust(item, 1)}
+                        className="flex h-11 w-11 items-center justify-center rounded-full border border-primary-300 bg-primary-50 text-primary-700 active:bg-primary-100"
+                        aria-label={`One more ${item.name}`}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+            </CardContent>
+          </Card>
+        ))}
+
+      {reservation && (
+        <div className="sticky bottom-4 flex items-center justify-between gap-3 rounded-xl border border-gray-200 bg-white p-4 shadow-lg">
+          <div>
+            <p className="text-xs text-gray-500">Before tax</p>
+            <p className="text-lg font-bold text-gray-900">{formatCurrency(total)}</p>
+          </div>
+          <Button size="lg" onClick={handlePost} disabled={total <= 0}>
+            Post to Bill
+          </Button>
+        </div>
+      )}
+
+      {postings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Posted this stay</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y divide-gray-100">
+            {postings.map((posting) => {
+              const invoice = findInvoiceForEntry(posting.folioEntryId);
+              return (
+                <div key={posting.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                  <div>
+                    <p className="text-gray-900">
+                      {posting.itemName} x{posting.quantity} · {formatCurrency(posting.unitPrice * posting.quantity)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {posting.postedBy} · {format(parseISO(posting.postedAt), 'dd MMM, HH:mm')}
+                    </p>
+                  </div>
+                  {/* Once the front desk has invoiced the charge only a credit note can take it off the bill */}
+                  {invoice ? (
+                    <Badge variant="secondary">Invoiced {invoice.number}</Badge>
+                  ) : (
+                    <Button variant="ghost" size="sm" onClick={() => handleReverse(posting.id, posting.itemName)}>
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function PriceList() {
+  const { items, addItem, updateItem, restock } = useAmenityStore();
+  const [draft, setDraft] = useState({ name: '', category: 'mini-bar' as AmenityCategory, price: '', stock: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the price list');
+    }
+  };
+
+  const handleAdd = () =>
+    run(() => {
+      addItem({
+        name: draft.name,
+        category: draft.category,
+        price: Number(draft.price) || 0,
+        stock: draft.category === 'mini-bar' ? Number(draft.stock) || 0 : undefined,
+      });
+      setDraft((prev) => ({ ...prev, name: '', price: '', stock: '' }));
+    });
+
+  const handleRestock = (item: AmenityItem) => {
+    const quantity = prompt(`Units of ${item.name} received`);
+    if (quantity === null) return;
+    run(() => restock(item.id, Number(quantity)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Item</CardTitle>
+          <CardDescription>Prices are before tax; GST follows the rules for the category</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-3 md:grid-cols-5">
+            <Input
+              label="Name"
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+            />
+            <Select
+              label="Category"
+              value={draft.category}
+              onChange={(e) => setDraft((prev) => ({ ...prev, category: e.target.value as AmenityCategory }))}
+              options={CATEGORIES.map((category) => ({ value: category, label: AMENITY_CATEGORY_LABELS[category] }))}
+            />
+            <Input
+              type="number"
+              label="Price"
+              value={draft.price}
+              onChange={(e) => setDraft((prev) => ({ ...prev, price: e.target.value }))}
+            />
+            <Input
+              type="number"
+              label="Opening stock"
+              value={draft.stock}
+              disabled={draft.category !== 'mini-bar'}
+              onChange={(e) => setDraft((prev) => ({ ...prev, stock: e.target.value }))}
+            />
+            <div className="flex items-end">
+              <Button onClick={handleAdd} className="w-full">
+                Add
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="overflow-x-auto pt-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-xs uppercase text-gray-500">
+                <th className="py-2 pr-3">Item</th>
+                <th className="py-2 pr-3">Category</th>
+                <th className="py-2 pr-3">Price</th>
+                <th className="py-2 pr-3">Stock</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.id} className={cn('border-b border-gray-100', !item.isActive && 'opacity-50')}>
+                  <td className="py-2 pr-3 font-medium text-gray-900">{item.name}</td>
+                  <td className="py-2 pr-3">
+                    <Badge variant="outline">{AMENITY_CATEGORY_LABELS[item.category]}</Badge>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      defaultValue={item.price}
+                      onBlur={(e) => {
+                        const price = Number(e.target.value);
+                        if (price !== item.price) run(() => updateItem(item.id, { price }));
+                      }}
+                      className="w-24 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    {item.stock !== undefined ? (
+                      <span className={cn(item.stock <= 10 && 'font-semibold text-red-600')}>{item.stock}</span>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="py-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      {item.stock !== undefined && (
+                        <Button variant="outline" size="sm" onClick={() => handleRestock(item)}>
+                          Restock
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => run(() => updateItem(item.id, { isActive: !item.isActive }))}
+                      >
+                        {item.isActive ? 'Hide' : 'Show'}
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,156 +1,178 @@
-import { useEffect, useMemo, useState, type ComponentType } from 'react';
-import { CalendarDays, AlertTriangle, UserPlus, CheckCircle2, Sparkles, ClipboardCheck } from 'lucide-react';
+import { useMemo, useState, type ComponentType } from 'react';
+import { CalendarDays, AlertTriangle, UserPlus, CheckCircle2, Sparkles, ClipboardCheck, Timer, ListChecks, PackageSearch } from 'lucide-react';
 import { Button } from '../../components/ui/Button';
 import { Select } from '../../components/ui/Select';
 import { Badge } from '../../components/ui/Badge';
 import { usePropertyStore } from '../../stores/propertyStore';
-import type { RoomInventory } from '../../types';
+import { TASK_PRIORITY_RANK, useHousekeepingStore } from '../../stores/housekeepingStore';
+import { useAccessControlStore } from '../../stores/accessControlStore';
+import { useLostFoundStore } from '../../stores/lostFoundStore';
+import type { HousekeepingTask, HousekeepingTaskStatus, HousekeepingTaskType } from '../../types';
 import { cn } from '../../utils';
 
-const STAFF_OPTIONS = [
-  { value: '', label: 'Unassigned' },
-  { value: 'Anita', label: 'Anita' },
-  { value: 'Ramesh', label: 'Ramesh' },
-  { value: 'Sonia', label: 'Sonia' },
-  { value: 'Karim', label: 'Karim' },
-];
-
-const STATUS_COLUMNS: Array<{ key: HousekeepingStatus; title: string; helper: string; tone: string }> = [
-  { key: 'dirty', title: 'Dirty', helper: 'Needs cleaning', tone: 'bg-red-50 border-red-200' },
-  { key: 'clean', title: 'Clean', helper: 'Awaiting inspection', tone: 'bg-blue-50 border-blue-200' },
+const STATUS_COLUMNS: Array<{ key: HousekeepingTaskStatus; title: string; helper: string; tone: string }> = [
+  { key: 'pending', title: 'To Do', helper: 'Waiting for an attendant', tone: 'bg-red-50 border-red-200' },
+  { key: 'in-progress', title: 'Cleaning', helper: 'Attendant in the room', tone: 'bg-amber-50 border-amber-200' },
+  { key: 'completed', title: 'Clean', helper: 'Awaiting inspection', tone: 'bg-blue-50 border-blue-200' },
   { key: 'inspected', title: 'Inspected', helper: 'Guest-ready', tone: 'bg-emerald-50 border-emerald-200' },
 ];
 
-type HousekeepingStatus = 'dirty' | 'clean' | 'inspected';
-
-type HousekeepingTask = {
-  id: string;
-  roomId: string;
-  roomNumber: string;
-  roomTypeId: string;
-  floorId: string;
-  status: HousekeepingStatus;
-  assignedTo: string;
-  priority: boolean;
-  maintenance: boolean;
-  lastUpdated: string;
+const NEXT_ACTION_LABELS: Record<HousekeepingTaskStatus, string> = {
+  pending: 'Start Cleaning',
+  'in-progress': 'Mark Clean',
+  completed: 'Mark Inspected',
+  inspected: 'Reset to Dirty',
+};
+
+const TASK_TYPE_LABELS: Record<HousekeepingTaskType, string> = {
+  cleaning: 'Clean',
+  departure: 'Departure Clean',
+  stayover: 'Stayover Service',
+  inspection: 'Arrival Inspection',
+  turndown: 'Turndown',
+  maintenance: 'Maintenance',
+};
+
+const isPriority = (task: HousekeepingTask) => task.priority === 'high' || task.priority === 'urgent';
+
+const nextActionLabel = (task: HousekeepingTask) => {
+  if (task.taskType === 'inspection' && task.status === 'pending') return 'Start Inspection';
+  if (task.taskType === 'inspection' && task.status === 'in-progress') return 'Pass Inspection';
+  return NEXT_ACTION_LABELS[task.status];
 };
 
-const generateId = () => Math.random().toString(36).slice(2, 9);
+const byUrgency = (a: HousekeepingTask, b: HousekeepingTask) =>
+  TASK_PRIORITY_RANK[b.priority] - TASK_PRIORITY_RANK[a.priority] ||
+  a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true });
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '';
 
 export function HousekeepingPage() {
-  const { rooms, updateRoomStatus } = usePropertyStore();
-  const [tasks, setTasks] = useState<HousekeepingTask[]>([]);
+  const { rooms, roomTypes } = usePropertyStore();
+  const users = useAccessControlStore((state) => state.users);
+  const {
+    tasks,
+    getBoard,
+    generateBoard,
+    balanceWorkload,
+    assignTask,
+    setPriority,
+    toggleMaintenance,
+    startTask,
+    completeTask,
+    inspectTask,
+    resetTask,
+  } = useHousekeepingStore();
+  const logFoundItem = useLostFoundStore((state) => state.logFoundItem);
+  const [error, setError] = useState<string | null>(null);
+
+  const board = useMemo(() => {
+    const roomIds = new Set(rooms.map((room) => room.id));
+    return tasks.length ? getBoard().filter((task) => roomIds.has(task.roomId)) : [];
+  }, [tasks, rooms, getBoard]);
+
+  const staff = useMemo(() => users.filter((user) => user.role === 'housekeeping'), [users]);
+  const staffOptions = useMemo(
+    () => [{ value: '', label: 'Unassigned' }, ...staff.map((user) => ({ value: user.id, label: user.name }))],
+    [staff]
+  );
 
-  useEffect(() => {
-    if (!rooms.length) {
-      setTasks([]);
-      return;
-    }
+  // Minutes of open work queued per attendant
+  const workload = useMemo(
+    () =>
+      staff.map((user) => {
+        const open = board.filter(
+          (task) => task.assignedTo === user.id && (task.status === 'pending' || task.status === 'in-progress')
+        );
+        return { user, tasks: open.length, minutes: open.reduce((sum, task) => sum + task.estimatedTime, 0) };
+      }),
+    [staff, board]
+  );
 
-    setTasks((prev) => {
-      const existingMap = new Map(prev.map((task) => [task.roomId, task]));
-      return rooms.map((room) => {
-        const state = existingMap.get(room.id);
-        if (state) {
-          return state;
-        }
-        return createTaskFromRoom(room);
-      });
-    });
-  }, [rooms]);
+  const roomTypeNames = useMemo(() => new Map(roomTypes.map((type) => [type.id, type.name])), [roomTypes]);
 
   const grouped = useMemo(() => {
-    const columns: Record<HousekeepingStatus, HousekeepingTask[]> = {
-      dirty: [],
-      clean: [],
+    const columns: Record<HousekeepingTaskStatus, HousekeepingTask[]> = {
+      pending: [],
+      'in-progress': [],
+      completed: [],
       inspected: [],
     };
 
-    tasks.forEach((task) => {
+    board.forEach((task) => {
       columns[task.status].push(task);
     });
 
-    (Object.keys(columns) as HousekeepingStatus[]).forEach((status) => {
-      columns[status].sort((a, b) => {
-        if (a.priority !== b.priority) {
-          return Number(b.priority) - Number(a.priority);
-        }
-        return a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true });
-      });
+    (Object.keys(columns) as HousekeepingTaskStatus[]).forEach((status) => {
+      columns[status].sort(byUrgency);
     });
 
     return columns;
-  }, [tasks]);
+  }, [board]);
 
   const mobileTasks = useMemo(() => {
-    const priorityOrder: HousekeepingStatus[] = ['dirty', 'clean', 'inspected'];
-    return [...tasks].sort((a, b) => {
+    const priorityOrder = STATUS_COLUMNS.map((column) => column.key);
+    return [...board].sort((a, b) => {
       const statusDelta = priorityOrder.indexOf(a.status) - priorityOrder.indexOf(b.status);
       if (statusDelta !== 0) {
         return statusDelta;
       }
-      if (a.priority !== b.priority) {
-        return Number(b.priority) - Number(a.priority);
-      }
-      return a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true });
+      return byUrgency(a, b);
     });
-  }, [tasks]);
-
-  const handleAssign = (roomId: string, staff: string) => {
-    setTasks((prev) =>
-      prev.map((task) =>
-        task.roomId === roomId ? { ...task, assignedTo: staff, lastUpdated: new Date().toISOString() } : task
-      )
-    );
+  }, [board]);
+
+  const run = async (action: () => unknown) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the task');
+    }
   };
 
-  const handleTogglePriority = (roomId: string) => {
-    setTasks((prev) =>
-      prev.map((task) =>
-        task.roomId === roomId ? { ...task, priority: !task.priority, lastUpdated: new Date().toISOString() } : task
-      )
-    );
-  };
+  const handleAssign = (taskId: string, userId: string) => run(() => assignTask(taskId, userId || null));
 
-  const handleToggleMaintenance = (roomId: string) => {
-    setTasks((prev) =>
-      prev.map((task) => {
-        if (task.roomId !== roomId) {
-          return task;
-        }
-        const nextMaintenance = !task.maintenance;
-        updateRoomStatus(roomId, nextMaintenance ? 'maintenance' : mapStatusToRoomState(task.status));
-        return { ...task, maintenance: nextMaintenance, lastUpdated: new Date().toISOString() };
-      })
-    );
-  };
+  const handleTogglePriority = (task: HousekeepingTask) =>
+    run(() => setPriority(task.id, isPriority(task) ? 'medium' : 'high'));
 
-  const handleStatusAdvance = (roomId: string) => {
-    setTasks((prev) =>
-      prev.map((task) => {
-        if (task.roomId !== roomId) {
-          return task;
-        }
-        const nextStatus = task.status === 'dirty' ? 'clean' : 'inspected';
-        updateRoomStatus(roomId, mapStatusToRoomState(nextStatus));
-        return { ...task, status: nextStatus, lastUpdated: new Date().toISOString() };
-      })
-    );
-  };
+  const handleToggleMaintenance = (taskId: string) => run(() => toggleMaintenance(taskId));
+
+  const handleStatusAdvance = (task: HousekeepingTask) =>
+    run(() => {
+      if (task.status === 'pending') return startTask(task.id);
+      if (task.status === 'in-progress') return completeTask(task.id);
+      if (task.status === 'completed') return inspectTask(task.id);
+      return resetTask(task.id);
+    });
+
+  const handleStatusReset = (taskId: string) => run(() => resetTask(taskId));
 
-  const handleStatusReset = (roomId: string) => {
-    setTasks((prev) =>
-      prev.map((task) => {
-        if (task.roomId !== roomId) {
-          return task;
-        }
-        updateRoomStatus(roomId, 'dirty');
-        return { ...task, status: 'dirty', lastUpdated: new Date().toISOString() };
-      })
-    );
+  const handleLogFound = (task: HousekeepingTask) => {
+    const description = prompt(`What was found in room ${task.roomNumber}?`);
+    if (!description) return;
+    run(() => {
+      const item = logFoundItem({ roomId: task.roomId, description, category: 'other', housekeepingTaskId: task.id });
+      alert(`Logged as ${item.number}. Hand the item to the front desk for storage.`);
+    });
   };
 
+  const handleGenerate = () =>
+    run(() => {
+      const created = generateBoard();
+      if (!created.length) {
+        alert('The board is already up to date for today.');
+      }
+    });
+
+  const handleAssignRoster = () =>
+    run(() => {
+      if (!staff.length) {
+        throw new Error('Add housekeeping staff under user management before assigning the roster');
+      }
+      balanceWorkload();
+    });
+
   return (
     <div className="space-y-6">
       <header className="flex flex-wrap items-center justify-between gap-4">
@@ -159,7 +181,10 @@ export function HousekeepingPage() {
           <p className="mt-1 text-sm text-gray-500">Track room readiness, assign teams, and flag maintenance instantly.</p>
         </div>
         <div className="flex gap-2">
-          <Button variant="secondary" className="gap-2">
+          <Button variant="secondary" className="gap-2" onClick={handleGenerate}>
+            <ListChecks className="h-4 w-4" /> Generate Board
+          </Button>
+          <Button variant="secondary" className="gap-2" onClick={handleAssignRoster}>
             <UserPlus className="h-4 w-4" /> Assign Roster
           </Button>
           <Button variant="outline" className="gap-2">
@@ -168,16 +193,26 @@ export function HousekeepingPage() {
         </div>
       </header>
 
-      <section className="grid gap-4 text-sm text-gray-600 md:grid-cols-3">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <section className="grid gap-4 text-sm text-gray-600 md:grid-cols-4">
         <QuickMetric
           label="Dirty"
-          value={grouped.dirty.length}
+          value={grouped.pending.length}
           tone="bg-red-100 text-red-700"
           icon={AlertTriangle}
         />
         <QuickMetric
           label="In Cleaning"
-          value={grouped.clean.length}
+          value={grouped['in-progress'].length}
+          tone="bg-amber-100 text-amber-700"
+          icon={Timer}
+        />
+        <QuickMetric
+          label="Clean"
+          value={grouped.completed.length}
           tone="bg-blue-100 text-blue-700"
           icon={Sparkles}
         />
@@ -189,6 +224,19 @@ export function HousekeepingPage() {
         />
       </section>
 
+      {workload.length > 0 && (
+        <section className="flex flex-wrap gap-2">
+          {workload.map(({ user, tasks: count, minutes }) => (
+            <div key={user.id} className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-xs text-gray-600 shadow-sm">
+              <p className="font-semibold text-gray-900">{user.name}</p>
+              <p>
+                {count} task(s) · {minutes} min
+              </p>
+            </div>
+          ))}
+        </section>
+      )}
+
       <div className="md:hidden">
         <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Mobile sprint</p>
         <div className="mt-2 space-y-3">
@@ -197,7 +245,6 @@ export function HousekeepingPage() {
               key={task.id}
               task={task}
               onAdvance={handleStatusAdvance}
-              onReset={handleStatusReset}
               onTogglePriority={handleTogglePriority}
             />
           ))}
@@ -209,7 +256,7 @@ export function HousekeepingPage() {
         </div>
       </div>
 
-      <div className="hidden gap-4 md:grid md:grid-cols-3">
+      <div className="hidden gap-4 md:grid md:grid-cols-2 xl:grid-cols-4">
         {STATUS_COLUMNS.map((column) => (
           <div key={column.key} className="flex flex-col gap-3">
             <header className={cn('rounded-2xl border px-4 py-3 shadow-sm', column.tone)}>
@@ -221,11 +268,14 @@ export function HousekeepingPage() {
                 <RoomCard
                   key={task.id}
                   task={task}
+                  roomTypeName={roomTypeNames.get(rooms.find((room) => room.id === task.roomId)?.roomTypeId ?? '')}
+                  staffOptions={staffOptions}
                   onAssign={handleAssign}
                   onTogglePriority={handleTogglePriority}
                   onToggleMaintenance={handleToggleMaintenance}
                   onAdvance={handleStatusAdvance}
                   onReset={handleStatusReset}
+                  onLogFound={handleLogFound}
                 />
               ))}
 
@@ -242,27 +292,26 @@ export function HousekeepingPage() {
   );
 }
 
-function MobileTaskRow({ task, onAdvance, onReset, onTogglePriority }: { task: HousekeepingTask; onAdvance: (roomId: string) => void; onReset: (roomId: string) => void; onTogglePriority: (roomId: string) => void; }) {
-  const nextLabel = task.status === 'inspected' ? 'Reset' : 'Advance';
-  const nextAction = task.status === 'inspected' ? onReset : onAdvance;
-
+function MobileTaskRow({ task, onAdvance, onTogglePriority }: { task: HousekeepingTask; onAdvance: (task: HousekeepingTask) => void; onTogglePriority: (task: HousekeepingTask) => void; }) {
   return (
     <div className="flex items-center justify-between rounded-2xl border border-gray-200 bg-white px-3 py-2 shadow-sm">
       <div className="space-y-1 text-xs text-gray-600">
         <p className="text-sm font-semibold text-gray-900">Room {task.roomNumber}</p>
+        <p>{TASK_TYPE_LABELS[task.taskType]}</p>
         <div className="flex items-center gap-2">
           <StatusBadge status={task.status} />
-          {task.priority && <Badge variant="warning">Priority</Badge>}
+          {isPriority(task) && <Badge variant="warning">Priority</Badge>}
         </div>
+        {task.assignedToName && <p>{task.assignedToName}</p>}
         <button
-          onClick={() => onTogglePriority(task.roomId)}
+          onClick={() => onTogglePriority(task)}
           className="text-[11px] font-semibold uppercase tracking-wide text-primary-600"
         >
-          {task.priority ? 'Unmark priority' : 'Mark priority'}
+          {isPriority(task) ? 'Unmark priority' : 'Mark priority'}
         </button>
       </div>
-      <Button size="sm" variant="secondary" onClick={() => nextAction(task.roomId)}>
-        {nextLabel}
+      <Button size="sm" variant="secondary" onClick={() => onAdvance(task)}>
+        {nextActionLabel(task)}
       </Button>
     </div>
   );
@@ -270,36 +319,39 @@ function MobileTaskRow({ task, onAdvance, onReset, onTogglePriority }: { task: H
 
 interface RoomCardProps {
   task: HousekeepingTask;
-  onAssign: (roomId: string, staff: string) => void;
-  onTogglePriority: (roomId: string) => void;
-  onToggleMaintenance: (roomId: string) => void;
-  onAdvance: (roomId: string) => void;
-  onReset: (roomId: string) => void;
+  roomTypeName?: string;
+  staffOptions: Array<{ value: string; label: string }>;
+  onAssign: (taskId: string, userId: string) => void;
+  onTogglePriority: (task: HousekeepingTask) => void;
+  onToggleMaintenance: (taskId: string) => void;
+  onAdvance: (task: HousekeepingTask) => void;
+  onReset: (taskId: string) => void;
+  onLogFound: (task: HousekeepingTask) => void;
 }
 
-function RoomCard({ task, onAssign, onTogglePriority, onToggleMaintenance, onAdvance, onReset }: RoomCardProps) {
-  const nextLabel = task.status === 'inspected' ? 'Reset to Dirty' : task.status === 'dirty' ? 'Mark Clean' : 'Mark Inspected';
-  const nextAction = task.status === 'inspected' ? onReset : onAdvance;
-
+function RoomCard({ task, roomTypeName, staffOptions, onAssign, onTogglePriority, onToggleMaintenance, onAdvance, onReset, onLogFound }: RoomCardProps) {
   return (
     <div className="rounded-2xl border border-gray-200 bg-white p-4 shadow-sm transition hover:-translate-y-0.5 hover:shadow-lg">
       <div className="flex items-start justify-between gap-2">
         <div>
           <p className="text-sm font-semibold text-gray-900">Room {task.roomNumber}</p>
-          <p className="text-xs text-gray-500">Type: {task.roomTypeId}</p>
+          <p className="text-xs text-gray-500">
+            {TASK_TYPE_LABELS[task.taskType]} · {task.estimatedTime} min
+          </p>
+          {roomTypeName && <p className="text-xs text-gray-500">Type: {roomTypeName}</p>}
         </div>
         <div className="flex flex-col items-end gap-2 text-xs">
           <button
-            onClick={() => onTogglePriority(task.roomId)}
+            onClick={() => onTogglePriority(task)}
             className={cn(
               'rounded-full px-2 py-1 font-semibold',
-              task.priority ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-500'
+              isPriority(task) ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-500'
             )}
           >
             Priority
           </button>
           <button
-            onClick={() => onToggleMaintenance(task.roomId)}
+            onClick={() => onToggleMaintenance(task.id)}
             className={cn(
               'rounded-full px-2 py-1 font-semibold',
               task.maintenance ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-500'
@@ -313,20 +365,28 @@ function RoomCard({ task, onAssign, onTogglePriority, onToggleMaintenance, onAdv
       <div className="mt-3 space-y-3 text-xs text-gray-600">
         <div className="flex items-center gap-2">
           <CalendarDays className="h-4 w-4 text-gray-400" />
-          Updated {new Date(task.lastUpdated).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          Updated {formatTime(task.updatedAt)}
         </div>
+        {(task.startedAt || task.completedAt) && (
+          <div className="flex items-center gap-2">
+            <Timer className="h-4 w-4 text-gray-400" />
+            {task.startedAt && `Started ${formatTime(task.startedAt)}`}
+            {task.completedAt && ` · Finished ${formatTime(task.completedAt)}`}
+          </div>
+        )}
+        {task.inspectedBy && <p>Inspected by {task.inspectedBy}</p>}
         <div>
           <p className="mb-1 font-medium text-gray-700">Assigned To</p>
           <Select
-            value={task.assignedTo}
-            onChange={(event) => onAssign(task.roomId, event.target.value)}
-            options={STAFF_OPTIONS}
+            value={task.assignedTo ?? ''}
+            onChange={(event) => onAssign(task.id, event.target.value)}
+            options={staffOptions}
           />
         </div>
         <div className="flex flex-wrap gap-2">
           <StatusBadge status={task.status} />
           {task.maintenance && <Badge variant="danger">Maintenance</Badge>}
-          {task.priority && <Badge variant="warning">Priority</Badge>}
+          {isPriority(task) && <Badge variant={task.priority === 'urgent' ? 'danger' : 'warning'}>{task.priority === 'urgent' ? 'Urgent' : 'Priority'}</Badge>}
         </div>
       </div>
 
@@ -335,25 +395,31 @@ function RoomCard({ task, onAssign, onTogglePriority, onToggleMaintenance, onAdv
           variant="primary"
           size="sm"
           className="flex-1"
-          onClick={() => nextAction(task.roomId)}
+          onClick={() => onAdvance(task)}
         >
-          {nextLabel}
+          {nextActionLabel(task)}
         </Button>
-        {task.status !== 'dirty' && (
-          <Button variant="ghost" size="sm" className="text-gray-600" onClick={() => onReset(task.roomId)}>
+        {task.status !== 'pending' && task.status !== 'inspected' && (
+          <Button variant="ghost" size="sm" className="text-gray-600" onClick={() => onReset(task.id)}>
             Reset
           </Button>
         )}
+        <Button variant="ghost" size="sm" className="text-gray-600" onClick={() => onLogFound(task)} title="Log found item">
+          <PackageSearch className="h-4 w-4" />
+        </Button>
       </div>
     </div>
   );
 }
 
-function StatusBadge({ status }: { status: HousekeepingStatus }) {
-  if (status === 'dirty') {
+function StatusBadge({ status }: { status: HousekeepingTaskStatus }) {
+  if (status === 'pending') {
     return <Badge variant="danger">Dirty</Badge>;
   }
-  if (status === 'clean') {
+  if (status === 'in-progress') {
+    return <Badge variant="warning">Cleaning</Badge>;
+  }
+  if (status === 'completed') {
     return <Badge variant="info">Clean</Badge>;
   }
   return <Badge variant="success">Inspected</Badge>;
@@ -377,33 +443,3 @@ function QuickMetric({ label, value, tone, icon: Icon }: QuickMetricProps) {
     </div>
   );
 }
-
-function createTaskFromRoom(room: RoomInventory): HousekeepingTask {
-  let status: HousekeepingStatus = 'clean';
-  if (room.status === 'dirty') {
-    status = 'dirty';
-  } else if (room.status === 'vacant') {
-    status = 'clean';
-  } else if (room.status === 'occupied') {
-    status = 'inspected';
-  }
-  return {
-    id: generateId(),
-    roomId: room.id,
-    roomNumber: room.roomNumber,
-    roomTypeId: room.roomTypeId,
-    floorId: room.floorId,
-    status,
-    assignedTo: '',
-    priority: false,
-    maintenance: room.status === 'maintenance',
-    lastUpdated: new Date().toISOString(),
-  };
-}
-
-function mapStatusToRoomState(status: HousekeepingStatus): 'vacant' | 'dirty' | 'maintenance' {
-  if (status === 'dirty') {
-    return 'dirty';
-  }
-  return 'vacant';
-}
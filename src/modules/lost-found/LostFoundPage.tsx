@@ -0,0 +1,454 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, PackageSearch, Send, Truck, UserCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Select } from '../../components/ui/Select';
+import { Badge } from '../../components/ui/Badge';
+import { usePropertyStore } from '../../stores/propertyStore';
+import { LOST_ITEM_STATUS_LABELS, useLostFoundStore, type FoundItemInput } from '../../stores/lostFoundStore';
+import { whatsappApi } from '../../services/advancedFeaturesApi';
+import { lostFoundApi } from '../../services/lostFoundApi';
+import { cn } from '../../utils';
+import { uploadPhotos } from '../../utils/workOrders';
+import type { LostItem, LostItemCategory, LostItemStatus, WhatsAppTemplate } from '../../types';
+
+type Filter = LostItemStatus | 'all';
+
+const FILTERS: Array<{ key: Filter; label: string }> = [
+  { key: 'stored', label: LOST_ITEM_STATUS_LABELS.stored },
+  { key: 'claimed', label: LOST_ITEM_STATUS_LABELS.claimed },
+  { key: 'shipped', label: LOST_ITEM_STATUS_LABELS.shipped },
+  { key: 'disposed', label: LOST_ITEM_STATUS_LABELS.disposed },
+  { key: 'all', label: 'All' },
+];
+
+const CATEGORY_LABELS: Record<LostItemCategory, string> = {
+  electronics: 'Electronics',
+  documents: 'Documents / ID',
+  jewellery: 'Jewellery',
+  clothing: 'Clothing',
+  money: 'Cash / Cards',
+  toiletries: 'Toiletries',
+  other: 'Other',
+};
+
+const CATEGORY_OPTIONS = (Object.keys(CATEGORY_LABELS) as LostItemCategory[]).map((category) => ({
+  value: category,
+  label: CATEGORY_LABELS[category],
+}));
+
+const STATUS_VARIANTS: Record<LostItemStatus, 'warning' | 'success' | 'info' | 'secondary'> = {
+  stored: 'warning',
+  claimed: 'success',
+  shipped: 'info',
+  disposed: 'secondary',
+};
+
+const DISPOSAL_METHODS: Array<NonNullable<LostItem['disposalMethod']>> = ['donated', 'discarded', 'handed-to-police'];
+
+const formatTime = (value: string) => format(parseISO(value), 'dd MMM yyyy, HH:mm');
+
+const emptyForm = (): FoundItemInput => ({
+  roomId: '',
+  description: '',
+  category: 'other',
+  storageLocation: '',
+  photo: undefined,
+});
+
+export function LostFoundPage() {
+  const { items } = useLostFoundStore();
+  const [filter, setFilter] = useState<Filter>('stored');
+  const [isLogging, setIsLogging] = useState(false);
+  const [templates, setTemplates] = useState<WhatsAppTemplate[]>([]);
+
+  useEffect(() => {
+    useLostFoundStore.getState().hydrateFromBackend().catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    whatsappApi
+      .getTemplates()
+      .then((list) => setTemplates(list.filter((template) => template.isActive)))
+      .catch(() => setTemplates([]));
+  }, []);
+
+  const visible = useMemo(
+    () =>
+      items
+        .filter((item) => filter === 'all' || item.status === filter)
+        .sort((a, b) => b.foundAt.localeCompare(a.foundAt)),
+    [items, filter]
+  );
+
+  const storedCount = items.filter((item) => item.status === 'stored').length;
+  const unmatchedCount = items.filter((item) => item.status === 'stored' && !item.guestId).length;
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Lost &amp; Found</h1>
+          <p className="mt-1 text-sm text-gray-500">Items left behind by guests, from the room to their return.</p>
+        </div>
+        {!isLogging && (
+          <Button onClick={() => setIsLogging(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Log Found Item
+          </Button>
+        )}
+      </header>
+
+      <section className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="text-sm font-medium text-zinc-600">In storage</p>
+              <p className="mt-2 text-2xl font-bold text-zinc-950">{storedCount}</p>
+            </div>
+            <PackageSearch className="h-8 w-8 text-gray-400" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="text-sm font-medium text-zinc-600">Waiting for an owner</p>
+              <p className="mt-2 text-2xl font-bold text-zinc-950">{unmatchedCount}</p>
+            </div>
+            <UserCheck className="h-8 w-8 text-gray-400" />
+          </CardContent>
+        </Card>
+      </section>
+
+      {isLogging && <FoundItemForm onDone={() => setIsLogging(false)} />}
+
+      <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1">
+        {FILTERS.map((item) => (
+          <button
+            key={item.key}
+            onClick={() => setFilter(item.key)}
+            className={cn(
+              'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+              filter === item.key ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900'
+            )}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        {visible.map((item) => (
+          <LostItemCard key={item.id} item={item} templates={templates} />
+        ))}
+        {!visible.length && (
+          <div className="rounded-2xl border border-dashed border-gray-300 bg-gray-50 p-6 text-center text-sm text-gray-500">
+            No items here.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FoundItemForm({ onDone }: { onDone: () => void }) {
+  const { rooms } = usePropertyStore();
+  const { logFoundItem } = useLostFoundStore();
+  const [form, setForm] = useState<FoundItemInput>(emptyForm);
+  const [error, setError] = useState<string | null>(null);
+
+  const roomOptions = [
+    { value: '', label: 'Select room' },
+    ...rooms
+      .filter((room) => room.isActive)
+      .sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }))
+      .map((room) => ({ value: room.id, label: `Room ${room.roomNumber}` })),
+  ];
+
+  const handlePhoto = async (files: FileList | null) => {
+    setError(null);
+    try {
+      const [photo] = await uploadPhotos(files, lostFoundApi.uploadPhoto);
+      setForm((prev) => ({ ...prev, photo }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to upload the photo');
+    }
+  };
+
+  const handleSubmit = () => {
+    setError(null);
+    try {
+      logFoundItem(form);
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to log the item');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Log Found Item</CardTitle>
+        <CardDescription>Where it was found and where it is kept now</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Select
+            label="Room"
+            value={form.roomId}
+            onChange={(e) => setForm((prev) => ({ ...prev, roomId: e.target.value }))}
+            options={roomOptions}
+          />
+          <Input
+            label="Item"
+            value={form.description}
+            onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+            placeholder="Black phone charger"
+          />
+          <Select
+            label="Category"
+            value={form.category}
+            onChange={(e) => setForm((prev) => ({ ...prev, category: e.target.value as LostItemCategory }))}
+            options={CATEGORY_OPTIONS}
+          />
+          <Input
+            label="Storage location"
+            value={form.storageLocation ?? ''}
+            onChange={(e) => setForm((prev) => ({ ...prev, storageLocation: e.target.value }))}
+            placeholder="Front office safe, shelf 2"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Photo</label>
+          <input type="file" accept="image/*" onChange={(e) => handlePhoto(e.target.files)} className="text-sm" />
+          {form.photo && <img src={form.photo} alt="Found item" className="mt-2 h-16 w-16 rounded object-cover" />}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onDone}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit}>Log Item</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface LostItemCardProps {
+  item: LostItem;
+  templates: WhatsAppTemplate[];
+}
+
+function LostItemCard({ item, templates }: LostItemCardProps) {
+  const {
+    updateDetails,
+    matchGuest,
+    unmatchGuest,
+    markClaimed,
+    markShipped,
+    markDisposed,
+    notifyGuest,
+    getCandidateStays,
+  } = useLostFoundStore();
+  const [templateId, setTemplateId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const isStored = item.status === 'stored';
+  const candidates = isStored && !item.guestId ? getCandidateStays(item.id) : [];
+
+  const run = async (action: () => unknown) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the item');
+    }
+  };
+
+  const handleClaimed = () => {
+    const claimedBy = prompt(`Who collected ${item.number}?`, item.guestName ?? '');
+    if (claimedBy === null) return;
+    run(() => markClaimed(item.id, claimedBy));
+  };
+
+  const handleShip = () => {
+    const shippingCarrier = prompt('Courier');
+    if (shippingCarrier === null) return;
+    const trackingNumber = prompt('Tracking number') ?? '';
+    const shippingAddress = prompt(`Ship to ${item.guestName} at`);
+    if (shippingAddress === null) return;
+    run(() => markShipped(item.id, { shippingCarrier, trackingNumber, shippingAddress }));
+  };
+
+  const handleDispose = (method: string) => {
+    if (!method || !confirm(`Mark ${item.number} as ${method.replace(/-/g, ' ')}?`)) return;
+    run(() => markDisposed(item.id, method as NonNullable<LostItem['disposalMethod']>));
+  };
+
+  const handleNotify = async () => {
+    setIsSending(true);
+    await run(() => notifyGuest(item.id, templateId));
+    setIsSending(false);
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 pt-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="flex gap-3">
+            {item.photo && (
+              <a href={item.photo} target="_blank" rel="noreferrer">
+                <img src={item.photo} alt={item.description} className="h-16 w-16 rounded object-cover" />
+              </a>
+            )}
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                {item.number} · Room {item.roomNumber}
+              </p>
+              <p className="text-base font-semibold text-gray-900">{item.description}</p>
+              <p className="text-xs text-gray-500">
+                Found by {item.foundBy} on {formatTime(item.foundAt)}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{CATEGORY_LABELS[item.category]}</Badge>
+            <Badge variant={STATUS_VARIANTS[item.status]}>{LOST_ITEM_STATUS_LABELS[item.status]}</Badge>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="grid gap-3 text-sm md:grid-cols-3">
+          {isStored ? (
+            <>
+              <Select
+                label="Category"
+                value={item.category}
+                onChange={(e) => run(() => updateDetails(item.id, { category: e.target.value as LostItemCategory }))}
+                options={CATEGORY_OPTIONS}
+              />
+              <Input
+                label="Storage location"
+                defaultValue={item.storageLocation ?? ''}
+                onBlur={(e) => {
+                  if (e.target.value !== (item.storageLocation ?? '')) {
+                    run(() => updateDetails(item.id, { storageLocation: e.target.value.trim() || undefined }));
+                  }
+                }}
+              />
+            </>
+          ) : (
+            <div>
+              <p className="text-xs text-gray-500">Storage location</p>
+              <p className="font-medium text-gray-900">{item.storageLocation ?? '-'}</p>
+            </div>
+          )}
+          <div>
+            <p className="text-xs text-gray-500">Guest</p>
+            {item.guestName ? (
+              <p className="font-medium text-gray-900">
+                {item.guestName}
+                {item.guestPhone && <span className="block text-xs font-normal text-gray-500">{item.guestPhone}</span>}
+              </p>
+            ) : candidates.length ? (
+              <Select
+                value=""
+                onChange={(e) => e.target.value && run(() => matchGuest(item.id, e.target.value))}
+                options={[
+                  { value: '', label: 'Match to a stay' },
+                  ...candidates.map((stay) => ({
+                    value: stay.id,
+                    label: `${stay.guest.firstName} ${stay.guest.lastName} · ${stay.confirmationNumber}`,
+                  })),
+                ]}
+              />
+            ) : (
+              <p className="text-gray-500">No recent stays in this room</p>
+            )}
+          </div>
+        </div>
+
+        {item.status === 'claimed' && item.claimedBy && (
+          <p className="text-sm text-gray-700">Collected by {item.claimedBy}</p>
+        )}
+        {item.status === 'shipped' && (
+          <p className="text-sm text-gray-700">
+            Shipped via {item.shippingCarrier}
+            {item.trackingNumber && ` · ${item.trackingNumber}`} to {item.shippingAddress}
+          </p>
+        )}
+
+        {isStored && (
+          <div className="flex flex-wrap items-end gap-2">
+            <Button variant="outline" size="sm" onClick={handleClaimed}>
+              <UserCheck className="mr-2 h-4 w-4" />
+              Collected
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleShip} disabled={!item.guestId}>
+              <Truck className="mr-2 h-4 w-4" />
+              Ship
+            </Button>
+            <Select
+              value=""
+              onChange={(e) => handleDispose(e.target.value)}
+              options={[
+                { value: '', label: 'Dispose…' },
+                ...DISPOSAL_METHODS.map((method) => ({
+                  value: method,
+                  label: method.replace(/-/g, ' ').replace(/^\w/, (c) => c.toUpperCase()),
+                })),
+              ]}
+            />
+            {item.guestId && (
+              <Button variant="ghost" size="sm" className="text-gray-600" onClick={() => run(() => unmatchGuest(item.id))}>
+                Unlink guest
+              </Button>
+            )}
+          </div>
+        )}
+
+        {item.guestId && item.guestPhone && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="min-w-[220px]">
+              <Select
+                label="WhatsApp template"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                options={[
+                  { value: '', label: templates.length ? 'Select template' : 'No active templates' },
+                  ...templates.map((template) => ({ value: template.id, label: template.name })),
+                ]}
+              />
+            </div>
+            <Button variant="outline" onClick={handleNotify} disabled={!templateId} isLoading={isSending}>
+              <Send className="mr-2 h-4 w-4" />
+              Notify Guest
+            </Button>
+            {item.lastNotifiedAt && (
+              <p className="text-xs text-gray-500">Last notified {formatTime(item.lastNotifiedAt)}</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-1 border-t border-gray-100 pt-3">
+          {[...item.history].reverse().map((entry) => (
+            <p key={entry.id} className="text-xs text-gray-500">
+              {formatTime(entry.at)} · {entry.action} · {entry.by}
+            </p>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
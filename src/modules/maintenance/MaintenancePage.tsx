@@ -0,0 +1,322 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Wrench, Ban, CheckCircle2, ImagePlus, X } from 'lucide-react';
+import { Card, CardContent } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Select } from '../../components/ui/Select';
+import { Badge } from '../../components/ui/Badge';
+import { useMaintenanceStore } from '../../stores/maintenanceStore';
+import { maintenanceApi } from '../../services/maintenanceApi';
+import { useReservationStore } from '../../stores/reservationStore';
+import { cn } from '../../utils';
+import {
+  WORK_ORDER_CATEGORY_LABELS,
+  WORK_ORDER_PRIORITY_OPTIONS,
+  WORK_ORDER_STATUS_LABELS,
+  uploadPhotos,
+} from '../../utils/workOrders';
+import type { WorkOrder, WorkOrderStatus } from '../../types';
+import { WorkOrderForm } from './components/WorkOrderForm';
+
+type Filter = 'active' | 'out-of-order' | 'closed' | 'all';
+
+const FILTERS: Array<{ key: Filter; label: string }> = [
+  { key: 'active', label: 'Active' },
+  { key: 'out-of-order', label: 'Out of Order' },
+  { key: 'closed', label: 'Closed' },
+  { key: 'all', label: 'All' },
+];
+
+const PRIORITY_VARIANTS: Record<WorkOrder['priority'], 'secondary' | 'info' | 'warning' | 'danger'> = {
+  low: 'secondary',
+  medium: 'info',
+  high: 'warning',
+  urgent: 'danger',
+};
+
+const STATUS_OPTIONS = (['open', 'in-progress', 'on-hold'] as const).map((status) => ({
+  value: status,
+  label: WORK_ORDER_STATUS_LABELS[status],
+}));
+
+const formatDate = (value: string) => format(parseISO(value), 'dd MMM yyyy');
+
+export function MaintenancePage() {
+  const { workOrders, error } = useMaintenanceStore();
+  const [filter, setFilter] = useState<Filter>('active');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const visible = useMemo(() => {
+    const filtered = workOrders.filter((order) => {
+      if (filter === 'active') return order.status !== 'closed';
+      if (filter === 'out-of-order') return order.status !== 'closed' && order.outOfOrder;
+      if (filter === 'closed') return order.status === 'closed';
+      return true;
+    });
+    return filtered.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, [workOrders, filter]);
+
+  const activeCount = workOrders.filter((order) => order.status !== 'closed').length;
+  const outOfOrderCount = new Set(
+    workOrders.filter((order) => order.status !== 'closed' && order.outOfOrder).map((order) => order.roomId)
+  ).size;
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Maintenance</h1>
+          <p className="mt-1 text-sm text-gray-500">Work orders for room faults and out-of-order inventory.</p>
+        </div>
+        {!isCreating && (
+          <Button onClick={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Work Order
+          </Button>
+        )}
+      </header>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <section className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="text-sm font-medium text-zinc-600">Open work orders</p>
+              <p className="mt-2 text-2xl font-bold text-zinc-950">{activeCount}</p>
+            </div>
+            <Wrench className="h-8 w-8 text-gray-400" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="flex items-center justify-between pt-6">
+            <div>
+              <p className="text-sm font-medium text-zinc-600">Rooms out of order</p>
+              <p className="mt-2 text-2xl font-bold text-zinc-950">{outOfOrderCount}</p>
+            </div>
+            <Ban className="h-8 w-8 text-gray-400" />
+          </CardContent>
+        </Card>
+      </section>
+
+      {isCreating && <WorkOrderForm onCreated={() => setIsCreating(false)} onCancel={() => setIsCreating(false)} />}
+
+      <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1">
+        {FILTERS.map((item) => (
+          <button
+            key={item.key}
+            onClick={() => setFilter(item.key)}
+            className={cn(
+              'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+              filter === item.key ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900'
+            )}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        {visible.map((order) => (
+          <WorkOrderCard key={order.id} order={order} />
+        ))}
+        {!visible.length && (
+          <div className="rounded-2xl border border-dashed border-gray-300 bg-gray-50 p-6 text-center text-sm text-gray-500">
+            No work orders here.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function WorkOrderCard({ order }: { order: WorkOrder }) {
+  const { updateWorkOrder, setStatus, addNote, addPhoto, removePhoto, closeWorkOrder, getAssignees } = useMaintenanceStore();
+  const { findRoomConflicts } = useReservationStore();
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const isClosed = order.status === 'closed';
+
+  const assigneeOptions = [
+    { value: '', label: 'Unassigned' },
+    ...getAssignees().map((user) => ({ value: user.id, label: user.name })),
+  ];
+
+  const run = async (action: () => unknown) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the work order');
+    }
+  };
+
+  const handleExtend = (expectedReturnDate: string) =>
+    run(() => {
+      if (order.outOfOrder && expectedReturnDate) {
+        const conflicts = findRoomConflicts(order.roomNumber, order.startDate, expectedReturnDate);
+        if (conflicts.length) {
+          throw new Error(
+            `Room ${order.roomNumber} is booked before then (${conflicts.map((reservation) => reservation.confirmationNumber).join(', ')})`
+          );
+        }
+      }
+      return updateWorkOrder(order.id, { expectedReturnDate: expectedReturnDate || undefined });
+    });
+
+  const handleAddNote = () =>
+    run(() => {
+      addNote(order.id, note);
+      setNote('');
+    });
+
+  const handlePhotos = (files: FileList | null) =>
+    run(async () => {
+      const photos = await uploadPhotos(files, maintenanceApi.uploadPhoto);
+      photos.forEach((photo) => addPhoto(order.id, photo));
+    });
+
+  const handleClose = () => {
+    const resolution = prompt(`How was ${order.number} resolved?`);
+    if (resolution === null) return;
+    run(() => closeWorkOrder(order.id, resolution));
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 pt-6">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+              {order.number} · Room {order.roomNumber}
+            </p>
+            <p className="text-base font-semibold text-gray-900">{order.title}</p>
+            <p className="text-xs text-gray-500">
+              Reported by {order.reportedBy} on {formatDate(order.createdAt)}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{WORK_ORDER_CATEGORY_LABELS[order.category]}</Badge>
+            <Badge variant={PRIORITY_VARIANTS[order.priority]}>
+              {WORK_ORDER_PRIORITY_OPTIONS.find((option) => option.value === order.priority)?.label}
+            </Badge>
+            {order.outOfOrder && <Badge variant="danger">Out of order</Badge>}
+            <Badge variant={isClosed ? 'success' : 'default'}>{WORK_ORDER_STATUS_LABELS[order.status]}</Badge>
+          </div>
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {order.description && <p className="text-sm text-gray-700">{order.description}</p>}
+
+        <div className="grid gap-3 text-sm md:grid-cols-4">
+          <div>
+            <p className="text-xs text-gray-500">From</p>
+            <p className="font-medium text-gray-900">{formatDate(order.startDate)}</p>
+          </div>
+          {isClosed ? (
+            <div>
+              <p className="text-xs text-gray-500">Closed</p>
+              <p className="font-medium text-gray-900">
+                {order.closedAt ? formatDate(order.closedAt) : '-'} {order.closedBy && `by ${order.closedBy}`}
+              </p>
+            </div>
+          ) : (
+            <Input
+              type="date"
+              label="Expected return"
+              value={order.expectedReturnDate ?? ''}
+              min={order.startDate}
+              onChange={(e) => handleExtend(e.target.value)}
+            />
+          )}
+          {isClosed ? (
+            <div>
+              <p className="text-xs text-gray-500">Assigned To</p>
+              <p className="font-medium text-gray-900">{order.assignedToName ?? 'Unassigned'}</p>
+            </div>
+          ) : (
+            <>
+              <Select
+                label="Assigned To"
+                value={order.assignedTo ?? ''}
+                onChange={(e) => run(() => updateWorkOrder(order.id, { assignedTo: e.target.value || undefined }))}
+                options={assigneeOptions}
+              />
+              <Select
+                label="Status"
+                value={order.status}
+                onChange={(e) => run(() => setStatus(order.id, e.target.value as Exclude<WorkOrderStatus, 'closed'>))}
+                options={STATUS_OPTIONS}
+              />
+            </>
+          )}
+        </div>
+
+        {isClosed && order.resolution && (
+          <p className="text-sm text-gray-700">
+            <span className="font-medium">Resolution:</span> {order.resolution}
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          {order.photos.map((photo, index) => (
+            <div key={index} className="relative">
+              <a href={photo} target="_blank" rel="noreferrer">
+                <img src={photo} alt={`${order.number} photo ${index + 1}`} className="h-20 w-20 rounded object-cover" />
+              </a>
+              {!isClosed && (
+                <button
+                  onClick={() => run(() => removePhoto(order.id, index))}
+                  className="absolute -right-2 -top-2 rounded-full bg-white p-0.5 shadow"
+                  title="Remove photo"
+                >
+                  <X className="h-3 w-3 text-gray-600" />
+                </button>
+              )}
+            </div>
+          ))}
+          {!isClosed && (
+            <label className="flex h-20 w-20 cursor-pointer items-center justify-center rounded border border-dashed border-gray-300 text-gray-400 hover:text-gray-600">
+              <ImagePlus className="h-5 w-5" />
+              <input type="file" accept="image/*" multiple className="hidden" onChange={(e) => handlePhotos(e.target.files)} />
+            </label>
+          )}
+        </div>
+
+        {order.notes.length > 0 && (
+          <div className="space-y-2">
+            {order.notes.map((entry) => (
+              <div key={entry.id} className="rounded-lg bg-gray-50 px-3 py-2 text-sm">
+                <p className="text-gray-700">{entry.text}</p>
+                <p className="text-xs text-gray-500">
+                  {entry.author} · {format(parseISO(entry.createdAt), 'dd MMM, HH:mm')}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!isClosed && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1">
+              <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Add a note" />
+            </div>
+            <Button variant="outline" onClick={handleAddNote} disabled={!note.trim()}>
+              Add Note
+            </Button>
+            <Button onClick={handleClose}>
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Close Work Order
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
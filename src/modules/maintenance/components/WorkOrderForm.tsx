@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { format, addDays } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../../components/ui/Card';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import { usePropertyStore } from '../../../stores/propertyStore';
+import { useReservationStore } from '../../../stores/reservationStore';
+import { MAX_WORK_ORDER_PHOTOS, useMaintenanceStore, type WorkOrderInput } from '../../../stores/maintenanceStore';
+import type { WorkOrderCategory } from '../../../types';
+import { maintenanceApi } from '../../../services/maintenanceApi';
+import { WORK_ORDER_CATEGORY_LABELS, WORK_ORDER_PRIORITY_OPTIONS, uploadPhotos } from '../../../utils/workOrders';
+
+interface WorkOrderFormProps {
+  onCreated: () => void;
+  onCancel: () => void;
+}
+
+export function WorkOrderForm({ onCreated, onCancel }: WorkOrderFormProps) {
+  const { rooms } = usePropertyStore();
+  const { findRoomConflicts } = useReservationStore();
+  const { createWorkOrder, getAssignees } = useMaintenanceStore();
+  const [form, setForm] = useState<WorkOrderInput>(() => ({
+    roomId: '',
+    title: '',
+    description: '',
+    category: 'other',
+    priority: 'medium',
+    outOfOrder: false,
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    expectedReturnDate: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
+    assignedTo: undefined,
+    photos: [],
+  }));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const roomOptions = [
+    { value: '', label: 'Select room' },
+    ...rooms
+      .filter((room) => room.isActive)
+      .sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true }))
+      .map((room) => ({ value: room.id, label: `Room ${room.roomNumber}` })),
+  ];
+  const assigneeOptions = [
+    { value: '', label: 'Unassigned' },
+    ...getAssignees().map((user) => ({ value: user.id, label: user.name })),
+  ];
+
+  const handlePhotos = async (files: FileList | null) => {
+    setError(null);
+    try {
+      const photos = await uploadPhotos(files, maintenanceApi.uploadPhoto);
+      setForm((prev) => ({ ...prev, photos: [...(prev.photos ?? []), ...photos].slice(0, MAX_WORK_ORDER_PHOTOS) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to upload the photo');
+    }
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+    const room = rooms.find((item) => item.id === form.roomId);
+    if (!room) {
+      setError('Select the room');
+      return;
+    }
+    // Guests already booked into the room have to be moved before it can go out of order
+    if (form.outOfOrder && form.expectedReturnDate) {
+      const conflicts = findRoomConflicts(room.roomNumber, form.startDate, form.expectedReturnDate);
+      if (conflicts.length) {
+        setError(
+          `Room ${room.roomNumber} is booked for part of this period (${conflicts
+            .map((reservation) => reservation.confirmationNumber)
+            .join(', ')}). Move those reservations first.`
+        );
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await createWorkOrder({
+        ...form,
+        expectedReturnDate: form.expectedReturnDate || undefined,
+      });
+      onCreated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to create the work order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New Work Order</CardTitle>
+        <CardDescription>Record the fault, who is fixing it and how long the room is off sale</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Select
+            label="Room"
+            value={form.roomId}
+            onChange={(e) => setForm((prev) => ({ ...prev, roomId: e.target.value }))}
+            options={roomOptions}
+          />
+          <Input
+            label="Issue"
+            value={form.title}
+            onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+            placeholder="AC not cooling"
+          />
+          <Select
+            label="Category"
+            value={form.category}
+            onChange={(e) => setForm((prev) => ({ ...prev, category: e.target.value as WorkOrderCategory }))}
+            options={(Object.keys(WORK_ORDER_CATEGORY_LABELS) as WorkOrderCategory[]).map((category) => ({
+              value: category,
+              label: WORK_ORDER_CATEGORY_LABELS[category],
+            }))}
+          />
+          <Select
+            label="Priority"
+            value={form.priority}
+            onChange={(e) => setForm((prev) => ({ ...prev, priority: e.target.value as WorkOrderInput['priority'] }))}
+            options={WORK_ORDER_PRIORITY_OPTIONS}
+          />
+          <Select
+            label="Assigned To"
+            value={form.assignedTo ?? ''}
+            onChange={(e) => setForm((prev) => ({ ...prev, assignedTo: e.target.value || undefined }))}
+            options={assigneeOptions}
+          />
+          <div className="flex items-end">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.outOfOrder}
+                onChange={(e) => setForm((prev) => ({ ...prev, outOfOrder: e.target.checked }))}
+                className="rounded"
+              />
+              Take the room out of order
+            </label>
+          </div>
+          <Input
+            type="date"
+            label="Start date"
+            value={form.startDate}
+            onChange={(e) => setForm((prev) => ({ ...prev, startDate: e.target.value }))}
+          />
+          <Input
+            type="date"
+            label="Expected return"
+            value={form.expectedReturnDate ?? ''}
+            min={form.startDate}
+            onChange={(e) => setForm((prev) => ({ ...prev, expectedReturnDate: e.target.value }))}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <textarea
+            value={form.description ?? ''}
+            onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+            rows={3}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Photos ({form.photos?.length ?? 0}/{MAX_WORK_ORDER_PHOTOS})
+          </label>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => handlePhotos(e.target.files)}
+            className="text-sm"
+          />
+          {!!form.photos?.length && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {form.photos.map((photo, index) => (
+                <img key={index} src={photo} alt={`Photo ${index + 1}`} className="h-16 w-16 rounded object-cover" />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} isLoading={isSaving}>
+            Create Work Order
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useNightAuditStore } from '../../stores/nightAuditStore';
 import { useAuthStore } from '../../stores/authStore';
+import { usePOSShiftStore } from '../../stores/posShiftStore';
 import { 
   CheckCircle, 
   XCircle, 
@@ -36,15 +37,33 @@ const NightAuditDashboard: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    // Check for blockers
-    const newBlockers: string[] = [];
-    
-    if (currentAudit?.status === 'IN_PROGRESS') {
-      newBlockers.push('Audit already in progress');
-    }
-    
-    // You can add more blocker checks here (e.g., open bills, pending checkouts)
-    setBlockers(newBlockers);
+    let cancelled = false;
+    // Open drawers are checked on the server, which also sees other terminals
+    const checkBlockers = async () => {
+      const newBlockers: string[] = [];
+
+      if (currentAudit?.status === 'IN_PROGRESS') {
+        newBlockers.push('Audit already in progress');
+      }
+
+      try {
+        const shiftBlocker = await usePOSShiftStore.getState().getAuditBlocker();
+        if (shiftBlocker) {
+          newBlockers.push(shiftBlocker);
+        }
+      } catch {
+        newBlockers.push('Could not check for open POS shifts on the server');
+      }
+
+      // You can add more blocker checks here (e.g., open bills, pending checkouts)
+      if (!cancelled) {
+        setBlockers(newBlockers);
+      }
+    };
+    checkBlockers();
+    return () => {
+      cancelled = true;
+    };
   }, [currentAudit]);
 
   const handleStartAudit = async () => {
@@ -318,7 +337,7 @@ const NightAuditDashboard: React.FC = () => {
               </li>
               <li className="flex items-start">
                 <span className="w-1.5 h-1.5 rounded-full bg-blue-500 mt-1.5 mr-2 flex-shrink-0"></span>
-                Process no-shows
+                Mark no-shows and charge their no-show fees
               </li>
               <li className="flex items-start">
                 <span className="w-1.5 h-1.5 rounded-full bg-blue-500 mt-1.5 mr-2 flex-shrink-0"></span>
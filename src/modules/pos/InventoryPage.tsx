@@ -0,0 +1,582 @@
+import { useState } from 'react';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import { AlertTriangle, BookOpen, ClipboardList, Package, Plus, Scale, Trash2, Truck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Select } from '../../components/ui/Select';
+import { Badge } from '../../components/ui/Badge';
+import { STOCK_UNIT_LABELS, unitsCompatible, useInventoryStore } from '../../stores/inventoryStore';
+import { usePOSStore } from '../../stores/posStore';
+import { cn, formatCurrency } from '../../utils';
+import type { PurchaseReceiptLine, RecipeIngredient, StockItem, StockUnit } from '../../types';
+
+type TabType = 'stock' | 'purchases' | 'recipes' | 'variance';
+
+type Run = (action: () => void) => void;
+
+const TABS: { id: TabType; label: string; icon: typeof Package }[] = [
+  { id: 'stock', label: 'Stock', icon: Package },
+  { id: 'purchases', label: 'Purchases', icon: Truck },
+  { id: 'recipes', label: 'Recipes', icon: BookOpen },
+  { id: 'variance', label: 'Variance', icon: Scale },
+];
+
+const UNIT_OPTIONS = (Object.keys(STOCK_UNIT_LABELS) as StockUnit[]).map((unit) => ({
+  value: unit,
+  label: STOCK_UNIT_LABELS[unit],
+}));
+
+const quantity = (value: number, unit: StockUnit) => `${Number(value.toFixed(3))} ${unit}`;
+
+export function InventoryPage() {
+  const [activeTab, setActiveTab] = useState<TabType>('stock');
+  const [error, setError] = useState<string | null>(null);
+  const stockItems = useInventoryStore((state) => state.stockItems);
+  const lowStock = stockItems.filter((item) => item.isActive && item.onHand <= item.parLevel);
+
+  const run: Run = (action) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="space-y-6 pb-16">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">F&amp;B Inventory</h1>
+          <p className="mt-1 text-sm text-gray-500">Stock drawn down by recipes as orders close, with purchases, wastage and counts.</p>
+        </div>
+        {lowStock.length > 0 && (
+          <Badge variant="warning" className="gap-1">
+            <AlertTriangle className="h-3.5 w-3.5" /> {lowStock.length} below par
+          </Badge>
+        )}
+      </header>
+
+      <div className="flex gap-2 border-b border-zinc-200">
+        {TABS.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => {
+              setActiveTab(tab.id);
+              setError(null);
+            }}
+            className={cn(
+              'px-4 py-2 text-sm font-medium border-b-2 transition-colors',
+              activeTab === tab.id ? 'border-primary-600 text-primary-600' : 'border-transparent text-zinc-600 hover:text-zinc-900'
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <tab.icon className="h-4 w-4" />
+              {tab.label}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+
+      {activeTab === 'stock' && <StockTab run={run} />}
+      {activeTab === 'purchases' && <PurchasesTab run={run} />}
+      {activeTab === 'recipes' && <RecipesTab run={run} />}
+      {activeTab === 'variance' && <VarianceTab />}
+    </div>
+  );
+}
+
+const EMPTY_ITEM = { name: '', unit: 'kg' as StockUnit, onHand: '', parLevel: '', unitCost: '' };
+
+function StockTab({ run }: { run: Run }) {
+  const { stockItems, addStockItem, updateStockItem, recordWastage, recordCount } = useInventoryStore();
+  const [form, setForm] = useState(EMPTY_ITEM);
+  const [adjusting, setAdjusting] = useState<{ item: StockItem; type: 'wastage' | 'count' } | null>(null);
+  const [adjustQuantity, setAdjustQuantity] = useState('');
+  const [adjustNote, setAdjustNote] = useState('');
+
+  const handleAdd = () =>
+    run(() => {
+      addStockItem({
+        name: form.name,
+        unit: form.unit,
+        onHand: Number(form.onHand) || 0,
+        parLevel: Number(form.parLevel) || 0,
+        unitCost: Number(form.unitCost) || 0,
+      });
+      setForm(EMPTY_ITEM);
+    });
+
+  const handleAdjust = () =>
+    run(() => {
+      if (!adjusting) return;
+      if (adjustQuantity === '') {
+        throw new Error(adjusting.type === 'count' ? 'Enter the quantity counted' : 'Enter the quantity wasted');
+      }
+      if (adjusting.type === 'wastage') {
+        recordWastage(adjusting.item.id, Number(adjustQuantity), adjustNote);
+      } else {
+        recordCount(adjusting.item.id, Number(adjustQuantity), adjustNote);
+      }
+      setAdjusting(null);
+      setAdjustQuantity('');
+      setAdjustNote('');
+    });
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle>Add Stock Item</CardTitle>
+          <CardDescription>Recipes can use a smaller unit of the same kind, e.g. grams off a stock kept in kilograms</CardDescription>
+        </CardHeader>
+        <CardContent className="grid items-end gap-3 md:grid-cols-6">
+          <div className="md:col-span-2">
+            <Input label="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Basmati Rice" />
+          </div>
+          <Select label="Unit" value={form.unit} onChange={(e) => setForm({ ...form, unit: e.target.value as StockUnit })} options={UNIT_OPTIONS} />
+          <Input label="Opening stock" type="number" min="0" value={form.onHand} onChange={(e) => setForm({ ...form, onHand: e.target.value })} />
+          <Input label="Par level" type="number" min="0" value={form.parLevel} onChange={(e) => setForm({ ...form, parLevel: e.target.value })} />
+          <Input label="Cost / unit (₹)" type="number" min="0" value={form.unitCost} onChange={(e) => setForm({ ...form, unitCost: e.target.value })} />
+          <Button variant="primary" className="gap-2 md:col-span-6 md:justify-self-end" onClick={handleAdd}>
+            <Plus className="h-4 w-4" /> Add Item
+          </Button>
+        </CardContent>
+      </Card>
+
+      {adjusting && (
+        <Card className="border-0 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle>
+              {adjusting.type === 'wastage' ? 'Record Wastage' : 'Stock Count'} · {adjusting.item.name}
+            </CardTitle>
+            <CardDescription>
+              {adjusting.type === 'wastage'
+                ? 'Spoiled, spilled or returned stock, written off against the reason given'
+                : `Book stock is ${quantity(adjusting.item.onHand, adjusting.item.unit)}; the difference is reported as variance`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-end gap-3">
+            <Input
+              label={`${adjusting.type === 'wastage' ? 'Wasted' : 'Counted'} (${adjusting.item.unit})`}
+              type="number"
+              min="0"
+              value={adjustQuantity}
+              onChange={(e) => setAdjustQuantity(e.target.value)}
+            />
+            <Input
+              label={adjusting.type === 'wastage' ? 'Reason' : 'Note'}
+              value={adjustNote}
+              onChange={(e) => setAdjustNote(e.target.value)}
+              placeholder={adjusting.type === 'wastage' ? 'Expired' : 'Month-end count'}
+            />
+            <Button variant="primary" onClick={handleAdjust}>
+              Save
+            </Button>
+            <Button variant="ghost" onClick={() => setAdjusting(null)}>
+              Cancel
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="border-0 bg-white shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-100 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-semibold uppercase text-gray-500">
+              <tr>
+                <th className="px-6 py-3">Item</th>
+                <th className="px-3 py-3">On hand</th>
+                <th className="px-3 py-3">Par level</th>
+                <th className="px-3 py-3">Avg cost</th>
+                <th className="px-3 py-3">Value</th>
+                <th className="px-3 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {stockItems.map((item) => (
+                <tr key={item.id} className={cn(!item.isActive && 'opacity-50')}>
+                  <td className="px-6 py-3">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{item.name}</span>
+                      {item.isActive && item.onHand <= item.parLevel && <Badge variant="warning">Low</Badge>}
+                    </div>
+                  </td>
+                  <td className={cn('px-3 py-3', item.onHand < 0 ? 'font-semibold text-red-600' : 'text-gray-700')}>
+                    {quantity(item.onHand, item.unit)}
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      type="number"
+                      min="0"
+                      value={item.parLevel}
+                      onChange={(e) => run(() => updateStockItem(item.id, { parLevel: Number(e.target.value) || 0 }))}
+                      className="w-20 rounded-md border border-zinc-300 px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-3 text-gray-700">{formatCurrency(item.unitCost)}</td>
+                  <td className="px-3 py-3 text-gray-700">{formatCurrency(Math.max(item.onHand, 0) * item.unitCost)}</td>
+                  <td className="px-3 py-3">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => setAdjusting({ item, type: 'wastage' })}>
+                        <Trash2 className="h-4 w-4 mr-1" /> Wastage
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setAdjusting({ item, type: 'count' })}>
+                        <ClipboardList className="h-4 w-4 mr-1" /> Count
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => run(() => updateStockItem(item.id, { isActive: !item.isActive }))}>
+                        {item.isActive ? 'Retire' : 'Restore'}
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+const EMPTY_LINE: PurchaseReceiptLine = { stockItemId: '', quantity: 0, unitCost: 0 };
+
+function PurchasesTab({ run }: { run: Run }) {
+  const { stockItems, receipts, receivePurchase } = useInventoryStore();
+  const [supplier, setSupplier] = useState('');
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [lines, setLines] = useState<PurchaseReceiptLine[]>([EMPTY_LINE]);
+
+  const activeItems = stockItems.filter((item) => item.isActive);
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+  const setLine = (index: number, updates: Partial<PurchaseReceiptLine>) =>
+    setLines(lines.map((line, position) => (position === index ? { ...line, ...updates } : line)));
+
+  const handleReceive = () =>
+    run(() => {
+      receivePurchase({ supplier, invoiceNumber, lines });
+      setSupplier('');
+      setInvoiceNumber('');
+      setLines([EMPTY_LINE]);
+    });
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[3fr,2fr]">
+      <Card className="border-0 bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle>Receive Goods</CardTitle>
+          <CardDescription>Received stock is added at the invoice cost and re-averages the item's cost</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-2">
+            <Input label="Supplier" value={supplier} onChange={(e) => setSupplier(e.target.value)} placeholder="Metro Cash & Carry" />
+            <Input label="Invoice no." value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+          </div>
+          {lines.map((line, index) => {
+            const item = stockItems.find((entry) => entry.id === line.stockItemId);
+            return (
+              <div key={index} className="flex items-end gap-2">
+                <Select
+                  label={index === 0 ? 'Item' : undefined}
+                  value={line.stockItemId}
+                  onChange={(e) => setLine(index, { stockItemId: e.target.value })}
+                  options={[{ value: '', label: 'Select item' }, ...activeItems.map((entry) => ({ value: entry.id, label: entry.name }))]}
+                />
+                <Input
+                  label={index === 0 ? 'Quantity' : undefined}
+                  type="number"
+                  min="0"
+                  value={line.quantity || ''}
+                  onChange={(e) => setLine(index, { quantity: Number(e.target.value) || 0 })}
+                  placeholder={item?.unit}
+                />
+                <Input
+                  label={index === 0 ? 'Cost / unit (₹)' : undefined}
+                  type="number"
+                  min="0"
+                  value={line.unitCost || ''}
+                  onChange={(e) => setLine(index, { unitCost: Number(e.target.value) || 0 })}
+                  placeholder={item ? String(item.unitCost) : undefined}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-500"
+                  onClick={() => setLines(lines.length > 1 ? lines.filter((_, position) => position !== index) : [EMPTY_LINE])}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="sm" onClick={() => setLines([...lines, EMPTY_LINE])}>
+              <Plus className="h-4 w-4 mr-1" /> Line
+            </Button>
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-semibold text-gray-900">{formatCurrency(total)}</span>
+              <Button variant="primary" className="gap-2" onClick={handleReceive}>
+                <Truck className="h-4 w-4" /> Receive
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle>Recent Receipts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {receipts.slice(0, 10).map((receipt) => (
+            <div key={receipt.id} className="rounded-lg border border-gray-200 p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900">{receipt.supplier}</span>
+                <span className="font-semibold text-gray-900">{formatCurrency(receipt.total)}</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {receipt.id}
+                {receipt.invoiceNumber && ` · Inv ${receipt.invoiceNumber}`} · {format(parseISO(receipt.receivedAt), 'dd MMM HH:mm')} ·{' '}
+                {receipt.receivedBy}
+              </p>
+              <p className="mt-1 text-xs text-gray-600">
+                {receipt.lines
+                  .map((line) => {
+                    const item = stockItems.find((entry) => entry.id === line.stockItemId);
+                    return item ? `${item.name} ${quantity(line.quantity, item.unit)}` : line.stockItemId;
+                  })
+                  .join(', ')}
+              </p>
+            </div>
+          ))}
+          {!receipts.length && <p className="text-sm text-gray-400">No goods received yet</p>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function RecipesTab({ run }: { run: Run }) {
+  const menu = usePOSStore((state) => state.menu);
+  const { stockItems, recipes, saveRecipe } = useInventoryStore();
+  const [menuItemId, setMenuItemId] = useState(menu[0]?.id ?? '');
+  const [variantId, setVariantId] = useState('');
+  const [draft, setDraft] = useState<RecipeIngredient[] | null>(null);
+
+  const menuItem = menu.find((item) => item.id === menuItemId);
+  const saved = recipes.find((recipe) => recipe.menuItemId === menuItemId && (recipe.variantId ?? '') === variantId);
+  const ingredients = draft ?? saved?.ingredients ?? [];
+  const activeItems = stockItems.filter((item) => item.isActive);
+
+  const selectItem = (id: string) => {
+    setMenuItemId(id);
+    setVariantId('');
+    setDraft(null);
+  };
+
+  const setIngredient = (index: number, updates: Partial<RecipeIngredient>) =>
+    setDraft(ingredients.map((entry, position) => (position === index ? { ...entry, ...updates } : entry)));
+
+  const handleSave = () =>
+    run(() => {
+      saveRecipe(menuItemId, variantId || undefined, ingredients);
+      setDraft(null);
+    });
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr,2fr]">
+      <Card className="border-0 bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle>Menu Items</CardTitle>
+          <CardDescription>Combos draw stock through the items picked for each course</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {menu.map((item) => {
+            const count = recipes.filter((recipe) => recipe.menuItemId === item.id).length;
+            return (
+              <button
+                key={item.id}
+                onClick={() => selectItem(item.id)}
+                className={cn(
+                  'flex w-full items-center justify-between rounded-lg px-3 py-2 text-left text-sm transition',
+                  item.id === menuItemId ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                <span>{item.name}</span>
+                {count ? <Badge variant="success">{count} recipe{count > 1 ? 's' : ''}</Badge> : item.comboSlots?.length ? <Badge variant="secondary">Combo</Badge> : <Badge variant="outline">None</Badge>}
+              </button>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {menuItem && (
+        <Card className="border-0 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle>{menuItem.name}</CardTitle>
+            <CardDescription>Ingredients drawn for one portion; a size without its own recipe uses the base recipe</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {menuItem.variants?.length ? (
+              <div className="max-w-xs">
+                <Select
+                  label="Size"
+                  value={variantId}
+                  onChange={(e) => {
+                    setVariantId(e.target.value);
+                    setDraft(null);
+                  }}
+                  options={[{ value: '', label: 'Base recipe' }, ...menuItem.variants.map((variant) => ({ value: variant.id, label: variant.name }))]}
+                />
+              </div>
+            ) : null}
+            {ingredients.map((ingredient, index) => {
+              const item = stockItems.find((entry) => entry.id === ingredient.stockItemId);
+              const units = UNIT_OPTIONS.filter((option) => !item || unitsCompatible(option.value, item.unit));
+              return (
+                <div key={index} className="flex items-end gap-2">
+                  <Select
+                    label={index === 0 ? 'Stock item' : undefined}
+                    value={ingredient.stockItemId}
+                    onChange={(e) => {
+                      const next = stockItems.find((entry) => entry.id === e.target.value);
+                      setIngredient(index, { stockItemId: e.target.value, unit: next?.unit ?? ingredient.unit });
+                    }}
+                    options={[{ value: '', label: 'Select item' }, ...activeItems.map((entry) => ({ value: entry.id, label: entry.name }))]}
+                  />
+                  <Input
+                    label={index === 0 ? 'Quantity' : undefined}
+                    type="number"
+                    min="0"
+                    value={ingredient.quantity || ''}
+                    onChange={(e) => setIngredient(index, { quantity: Number(e.target.value) || 0 })}
+                  />
+                  <Select
+                    label={index === 0 ? 'Unit' : undefined}
+                    value={ingredient.unit}
+                    onChange={(e) => setIngredient(index, { unit: e.target.value as StockUnit })}
+                    options={units}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-500"
+                    onClick={() => setDraft(ingredients.filter((_, position) => position !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            {!ingredients.length && <p className="text-sm text-gray-400">No recipe yet, so selling this item draws no stock</p>}
+            <div className="flex items-center justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft([...ingredients, { stockItemId: '', quantity: 0, unit: 'g' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Ingredient
+              </Button>
+              <div className="flex gap-2">
+                {draft && (
+                  <Button variant="ghost" onClick={() => setDraft(null)}>
+                    Discard
+                  </Button>
+                )}
+                <Button variant="primary" onClick={handleSave} disabled={!draft}>
+                  Save Recipe
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function VarianceTab() {
+  const { getVarianceReport, movements } = useInventoryStore();
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  // Recomputed as movements come in
+  const report = movements ? getVarianceReport(from, to) : [];
+  const varianceCost = report.reduce((sum, line) => sum + line.varianceCost, 0);
+  const wastageCost = report.reduce((sum, line) => sum + line.wastageCost, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <Input label="From" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        <Input label="To" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+      </div>
+
+      <section className="grid gap-4 md:grid-cols-2">
+        {[
+          { label: 'Unexplained variance', value: varianceCost, tone: varianceCost > 0 ? 'text-red-600' : 'text-gray-900' },
+          { label: 'Wastage written off', value: wastageCost, tone: 'text-gray-900' },
+        ].map((stat) => (
+          <Card key={stat.label} className="border-0 bg-white shadow-sm">
+            <CardContent className="p-4">
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{stat.label}</p>
+              <p className={cn('mt-1 text-2xl font-bold', stat.tone)}>{formatCurrency(stat.value)}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </section>
+
+      <Card className="border-0 bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle>Consumption vs Sales</CardTitle>
+          <CardDescription>Sales usage comes from recipes; stock counts show what actually left the shelf</CardDescription>
+        </CardHeader>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-100 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-semibold uppercase text-gray-500">
+              <tr>
+                <th className="px-6 py-3">Item</th>
+                <th className="px-3 py-3">Purchased</th>
+                <th className="px-3 py-3">Sales usage</th>
+                <th className="px-3 py-3">Wastage</th>
+                <th className="px-3 py-3">Actual usage</th>
+                <th className="px-3 py-3">Variance</th>
+                <th className="px-3 py-3">Variance cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.map((line) => (
+                <tr key={line.stockItemId}>
+                  <td className="px-6 py-3 font-medium text-gray-900">{line.name}</td>
+                  <td className="px-3 py-3 text-gray-700">{quantity(line.purchased, line.unit)}</td>
+                  <td className="px-3 py-3 text-gray-700">{quantity(line.salesUsage, line.unit)}</td>
+                  <td className="px-3 py-3 text-gray-700">{quantity(line.wastage, line.unit)}</td>
+                  <td className="px-3 py-3 text-gray-700">{quantity(line.actualUsage, line.unit)}</td>
+                  <td className={cn('px-3 py-3 font-medium', line.variance > 0 ? 'text-red-600' : line.variance < 0 ? 'text-amber-600' : 'text-gray-700')}>
+                    {line.variance > 0 && '+'}
+                    {quantity(line.variance, line.unit)}
+                    {line.salesUsage > 0 && line.variance !== 0 && (
+                      <span className="ml-1 text-xs text-gray-500">({((line.variance / line.salesUsage) * 100).toFixed(1)}%)</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-3 text-gray-700">{formatCurrency(line.varianceCost)}</td>
+                </tr>
+              ))}
+              {!report.length && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-400">
+                    No stock movements in this period
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from 'react';
+import { differenceInMinutes, format, parseISO } from 'date-fns';
+import { ChefHat, Check, RotateCcw, Timer } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Badge } from '../../components/ui/Badge';
+import { usePOSStore } from '../../stores/posStore';
+import { cn } from '../../utils';
+import type { KOTStation, KOTTicket } from '../../types';
+
+type StationFilter = KOTStation | 'all';
+
+const STATIONS: Array<{ key: StationFilter; label: string }> = [
+  { key: 'all', label: 'All Stations' },
+  { key: 'main', label: 'Main Kitchen' },
+  { key: 'bar', label: 'Bar' },
+  { key: 'dessert', label: 'Dessert' },
+];
+
+// Minutes after which a ticket is flagged as running late, then overdue
+const WARN_AFTER_MINUTES = 10;
+const LATE_AFTER_MINUTES = 20;
+const RECALL_LIMIT = 6;
+const CLOCK_TICK_MS = 15000;
+
+const inStation = (station: StationFilter) => (item: KOTTicket['items'][number]) =>
+  station === 'all' || (item.station ?? 'main') === station;
+
+const ticketLocation = (ticket: KOTTicket) =>
+  ticket.tableLabel ? `Table ${ticket.tableLabel}` : ticket.roomNumber ? `Room ${ticket.roomNumber}` : 'Takeaway';
+
+export function KitchenDisplayPage() {
+  const { kotTickets, updateTicketStatus, bumpItem, bumpStation, recallTicket } = usePOSStore();
+  const [station, setStation] = useState<StationFilter>('all');
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Tickets raised or bumped on other screens are merged in as they change
+  useEffect(() => usePOSStore.getState().watchTickets(), []);
+
+  const stationOnly = station === 'all' ? undefined : station;
+
+  const { live, recent } = useMemo(() => {
+    const relevant = kotTickets.filter((ticket) => ticket.items.some(inStation(station)));
+    const isOpen = (ticket: KOTTicket) => ticket.items.filter(inStation(station)).some((item) => !item.bumpedAt);
+    return {
+      live: relevant.filter(isOpen).sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+      recent: relevant
+        .filter((ticket) => !isOpen(ticket))
+        .sort((a, b) => (b.completedAt ?? b.createdAt).localeCompare(a.completedAt ?? a.createdAt))
+        .slice(0, RECALL_LIMIT),
+    };
+  }, [kotTickets, station]);
+
+  // "All day": everything still to be made at this station, summed across tickets
+  const allDay = useMemo(() => {
+    const counts = new Map<string, number>();
+    live.forEach((ticket) =>
+      ticket.items
+        .filter((item) => inStation(station)(item) && !item.bumpedAt)
+        .forEach((item) => counts.set(item.name, (counts.get(item.name) ?? 0) + item.quantity))
+    );
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [live, station]);
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Kitchen Display</h1>
+          <p className="mt-1 text-sm text-gray-500">Live KOTs by station. Tap an item to bump it.</p>
+        </div>
+        <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1">
+          {STATIONS.map((item) => (
+            <button
+              key={item.key}
+              onClick={() => setStation(item.key)}
+              className={cn(
+                'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                station === item.key ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900'
+              )}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <Card>
+        <CardContent className="flex flex-wrap items-center gap-2 pt-6">
+          <span className="mr-2 text-xs font-semibold uppercase tracking-wide text-gray-500">All day</span>
+          {allDay.length ? (
+            allDay.map(([name, quantity]) => (
+              <Badge key={name} variant="secondary">
+                {quantity} × {name}
+              </Badge>
+            ))
+          ) : (
+            <span className="text-sm text-gray-500">Nothing waiting</span>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {live.map((ticket) => {
+          const minutes = differenceInMinutes(now, parseISO(ticket.createdAt));
+          return (
+            <div
+              key={ticket.id}
+              className={cn(
+                'rounded-2xl border-2 bg-white p-4 shadow-sm',
+                minutes >= LATE_AFTER_MINUTES
+                  ? 'border-red-400'
+                  : minutes >= WARN_AFTER_MINUTES
+                    ? 'border-amber-400'
+                    : 'border-gray-200'
+              )}
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-lg font-bold text-gray-900">{ticket.kotNumber}</p>
+                  <p className="text-sm text-gray-500">{ticketLocation(ticket)}</p>
+                </div>
+                <div className="text-right">
+                  <p
+                    className={cn(
+                      'flex items-center gap-1 text-sm font-semibold',
+                      minutes >= LATE_AFTER_MINUTES
+                        ? 'text-red-600'
+                        : minutes >= WARN_AFTER_MINUTES
+                          ? 'text-amber-600'
+                          : 'text-gray-700'
+                    )}
+                  >
+                    <Timer className="h-4 w-4" />
+                    {minutes} min
+                  </p>
+                  <Badge variant={ticket.status === 'queued' ? 'warning' : 'info'}>{ticket.status}</Badge>
+                </div>
+              </div>
+
+              <ul className="mt-4 space-y-1">
+                {ticket.items.map((item, index) =>
+                  inStation(station)(item) ? (
+                    <li key={index}>
+                      <button
+                        onClick={() => bumpItem(ticket.id, index)}
+                        className={cn(
+                          'flex w-full items-start justify-between rounded-lg px-3 py-2 text-left text-sm transition-colors',
+                          item.bumpedAt ? 'bg-gray-50 text-gray-400 line-through' : 'hover:bg-primary-50'
+                        )}
+                      >
+                        <span className="font-medium">
+                          {item.quantity} × {item.name}
+                          {station === 'all' && item.station && item.station !== 'main' && (
+                            <span className="ml-2 text-xs uppercase text-gray-400">{item.station}</span>
+                          )}
+                          {item.comboName && <span className="block text-xs font-normal text-gray-500">{item.comboName}</span>}
+                          {item.modifiers?.map((modifier) => (
+                            <span key={modifier} className="block text-xs font-semibold text-primary-700">
+                              + {modifier}
+                            </span>
+                          ))}
+                        </span>
+                        {item.notes && <span className="ml-2 text-xs font-medium text-amber-600">{item.notes}</span>}
+                      </button>
+                    </li>
+                  ) : null
+                )}
+              </ul>
+
+              <div className="mt-4 flex gap-2">
+                {ticket.status === 'queued' && (
+                  <Button variant="outline" size="sm" className="flex-1" onClick={() => updateTicketStatus(ticket.id, 'in-progress')}>
+                    <ChefHat className="mr-2 h-4 w-4" />
+                    Start
+                  </Button>
+                )}
+                <Button size="sm" className="flex-1" onClick={() => bumpStation(ticket.id, stationOnly)}>
+                  <Check className="mr-2 h-4 w-4" />
+                  Bump
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+        {!live.length && (
+          <div className="col-span-full rounded-2xl border border-dashed border-gray-300 bg-gray-50 p-10 text-center text-sm text-gray-500">
+            No open tickets for this station.
+          </div>
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recently Bumped</CardTitle>
+            <CardDescription>Recall a ticket to put it back on the screen</CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y divide-gray-100">
+            {recent.map((ticket) => (
+              <div key={ticket.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {ticket.kotNumber} · {ticketLocation(ticket)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {ticket.items
+                      .filter(inStation(station))
+                      .map((item) => `${item.quantity} × ${item.name}`)
+                      .join(', ')}
+                    {ticket.completedAt && ` · done ${format(parseISO(ticket.completedAt), 'HH:mm')}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => recallTicket(ticket.id, stationOnly)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Recall
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
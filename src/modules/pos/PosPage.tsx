@@ -1,15 +1,32 @@
 import { useEffect, useMemo, useState, type ComponentType } from 'react';
-import { Utensils, Coffee, IceCream, Package2, Plus, Minus, Send, Printer, Smartphone, BedDouble, Wallet, Check, XCircle, ListChecks } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Utensils, Coffee, IceCream, Package2, Plus, Minus, Send, Printer, Smartphone, BedDouble, Wallet, Check, XCircle, ListChecks, MoveRight, Merge, Split } from 'lucide-react';
 import { Button } from '../../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../components/ui/Card';
 import { Badge } from '../../components/ui/Badge';
 import { Select } from '../../components/ui/Select';
-import { usePOSStore } from '../../stores/posStore';
+import { outletIdOf, tableSectionOf, usePOSStore } from '../../stores/posStore';
 import { useReservationStore } from '../../stores/reservationStore';
 import { usePropertyStore } from '../../stores/propertyStore';
+import { usePrinterStore } from '../../stores/printerStore';
+import { usePOSShiftStore } from '../../stores/posShiftStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useAccessControlStore } from '../../stores/accessControlStore';
+import { usePaymentStore } from '../../stores/paymentStore';
 import { formatCurrency } from '../../utils';
-import type { POSMenuCategory, POSMenuItem, POSOrder } from '../../types';
+import { calculatePosBill, posLineDetails, posLineName } from '../../utils/receipts';
+import type { PaymentMethod, POSMenuCategory, POSMenuItem, POSOrder, POSTable } from '../../types';
 import { cn } from '../../utils';
+import { PrinterSettings } from './components/PrinterSettings';
+import { ItemOptionsDialog } from './components/ItemOptionsDialog';
+import { FloorPlan } from './components/FloorPlan';
+import { PaymentCollectDialog } from '../../components/payments/PaymentCollectDialog';
+
+const SETTLE_METHODS: Array<{ value: PaymentMethod; label: string }> = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'upi', label: 'UPI' },
+];
 
 const CATEGORY_FILTERS: Array<{ key: POSMenuCategory | 'all'; label: string; icon: ComponentType<{ className?: string }> }> = [
   { key: 'all', label: 'All', icon: Package2 },
@@ -19,15 +36,16 @@ const CATEGORY_FILTERS: Array<{ key: POSMenuCategory | 'all'; label: string; ico
   { key: 'other', label: 'Others', icon: ListChecks },
 ];
 
-const SERVICE_CHARGE = 0.05;
-const TAX_RATE = 0.12;
-
 export function PosPage() {
   const {
-    menu,
-    tables,
-    orders,
-    kotTickets,
+    menu: allMenu,
+    tables: allTables,
+    orders: allOrders,
+    kotTickets: allTickets,
+    outlets,
+    activeOutletId,
+    setActiveOutlet,
+    getOutlet,
     startOrder,
     addItemToOrder,
     adjustQuantity,
@@ -38,13 +56,43 @@ export function PosPage() {
     postToRoom,
     addCharge,
     updateTicketStatus,
+    closeOrder,
+    setCovers,
+    mergeTables,
+    splitTable,
+    moveOrderToTable,
+    assignServer,
   } = usePOSStore();
   const { reservations } = useReservationStore();
   const { rooms } = usePropertyStore();
+  const { printKot, printBill } = usePrinterStore();
+  const userId = useAuthStore((state) => state.user?.id);
+  const users = useAccessControlStore((state) => state.users);
+  // Payments and room charges are taken against the cashier's open drawer
+  const currentShift = usePOSShiftStore((state) =>
+    state.shifts.find((shift) => shift.status === 'open' && shift.userId === userId)
+  );
 
   const [categoryFilter, setCategoryFilter] = useState<POSMenuCategory | 'all'>('all');
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
   const [roomSelection, setRoomSelection] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [optionsItem, setOptionsItem] = useState<POSMenuItem | null>(null);
+  const [settleMethod, setSettleMethod] = useState<PaymentMethod>('cash');
+  const [collecting, setCollecting] = useState<{ method: 'card' | 'upi'; amount: number } | null>(null);
+  const [section, setSection] = useState<string | null>(null);
+  const [tableAction, setTableAction] = useState<'move' | 'merge' | null>(null);
+
+  const outlet = getOutlet(activeOutletId);
+  const menu = useMemo(() => allMenu.filter((item) => outletIdOf(item) === outlet.id), [allMenu, outlet.id]);
+  const tables = useMemo(() => allTables.filter((table) => outletIdOf(table) === outlet.id), [allTables, outlet.id]);
+  const orders = useMemo(() => allOrders.filter((order) => outletIdOf(order) === outlet.id), [allOrders, outlet.id]);
+  const kotTickets = useMemo(() => allTickets.filter((ticket) => outletIdOf(ticket) === outlet.id), [allTickets, outlet.id]);
+
+  const sections = useMemo(() => Array.from(new Set(tables.map(tableSectionOf))), [tables]);
+  const activeSection = section && sections.includes(section) ? section : sections[0];
+  const sectionTables = tables.filter((table) => tableSectionOf(table) === activeSection);
+  const servers = users.filter((user) => user.permissions.includes('manage_pos'));
 
   const checkedInReservations = useMemo(() => {
     return reservations.filter((reservation) => reservation.status === 'checked-in');
@@ -52,12 +100,36 @@ export function PosPage() {
 
   const trackedOrder = useMemo(() => orders.find((order) => order.id === selectedOrderId) ?? orders[0], [orders, selectedOrderId]);
 
+  // Bumps from the kitchen screen update the order lines here
+  useEffect(() => usePOSStore.getState().watchTickets(), []);
+
+  // Card and UPI payments confirmed after this terminal was closed are recorded on its orders
+  useEffect(() => {
+    usePaymentStore.getState().hydrateFromBackend().catch(() => undefined);
+  }, []);
+
   useEffect(() => {
     if (!selectedOrderId && orders.length) {
       setSelectedOrderId(orders[0].id);
     }
   }, [orders, selectedOrderId]);
 
+  const handleOutletChange = (outletId: string) => {
+    setActiveOutlet(outletId);
+    setSelectedOrderId(null);
+    setSection(null);
+    setTableAction(null);
+  };
+
+  const run = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
   const filteredMenu = useMemo(() => {
     if (categoryFilter === 'all') {
       return menu;
@@ -67,24 +139,33 @@ export function PosPage() {
 
   const totals = useMemo(() => {
     if (!trackedOrder) {
-      return { items: 0, service: 0, tax: 0, grand: 0, payments: 0 };
+      return { items: 0, service: 0, taxable: 0, tax: 0, grand: 0, payments: 0 };
     }
-    const items = trackedOrder.items.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
-    const service = Math.round(items * SERVICE_CHARGE);
-    const tax = Math.round((items + service) * TAX_RATE);
-    const payments = trackedOrder.payments.reduce((sum, payment) => sum + payment.amount, 0);
-    const manualCharges = trackedOrder.charges.reduce((sum, charge) => sum + charge.amount, 0);
-    const grand = items + service + tax + manualCharges;
-    return { items, service, tax, grand, payments };
-  }, [trackedOrder]);
+    return calculatePosBill(trackedOrder, outlet);
+  }, [trackedOrder, outlet]);
 
   const activeTickets = kotTickets.slice(0, 4);
 
+  const orderTables = trackedOrder ? tables.filter((table) => table.activeOrderId === trackedOrder.id) : [];
+  const joinedTables = orderTables.filter((table) => table.mergedInto);
+
   const handleTableTap = (tableId: string) => {
     const table = tables.find((entry) => entry.id === tableId);
     if (!table) {
       return;
     }
+    // While moving or merging, the next tap picks the other table
+    if (tableAction && trackedOrder) {
+      run(() => {
+        if (tableAction === 'move') {
+          moveOrderToTable(trackedOrder.id, table.id);
+        } else if (trackedOrder.tableId) {
+          mergeTables(table.id, trackedOrder.tableId);
+        }
+        setTableAction(null);
+      });
+      return;
+    }
     if (table.activeOrderId) {
       setSelectedOrderId(table.activeOrderId);
       return;
@@ -93,13 +174,37 @@ export function PosPage() {
     setSelectedOrderId(order.id);
   };
 
+  // Items with sizes, modifiers or combo courses ask for the choices first
+  const handleMenuTap = (item: POSMenuItem) => {
+    if (!trackedOrder) {
+      return;
+    }
+    if (item.variants?.length || item.modifierGroups?.length || item.comboSlots?.length) {
+      setOptionsItem(item);
+      return;
+    }
+    addItemToOrder(trackedOrder.id, item);
+  };
+
+  // Room service and takeaway counters have no tables, so orders are opened directly
+  const handleNewOrder = () => {
+    const order = startOrder();
+    setSelectedOrderId(order.id);
+  };
+
   const handleRoomPost = () => {
-    if (!trackedOrder || !roomSelection) {
+    if (!trackedOrder || !roomSelection || !currentShift) {
       return;
     }
     const room = rooms.find((entry) => entry.roomNumber === roomSelection);
     const reservation = checkedInReservations.find((entry) => entry.roomNumbers.includes(roomSelection));
-    postToRoom(trackedOrder.id, roomSelection, reservation?.guest?.firstName ?? room?.roomNumber);
+    postToRoom(trackedOrder.id, roomSelection, reservation?.guest?.firstName ?? room?.roomNumber, currentShift.id);
+  };
+
+  // Printing never blocks the order; failures are shown so the ticket can be reprinted
+  const print = (action: () => Promise<void>) => {
+    setError(null);
+    action().catch((error) => setError(error instanceof Error ? error.message : 'Printing failed'));
   };
 
   const handleSendToKitchen = () => {
@@ -109,18 +214,29 @@ export function PosPage() {
     const ticket = sendOrderToKitchen(trackedOrder.id);
     if (ticket) {
       addCharge(trackedOrder.id, { type: 'service', label: 'Smart Service', amount: Math.round(trackedOrder.items.length * 25) });
+      print(() => printKot(ticket.id));
     }
   };
 
   const handleQuickSettle = () => {
-    if (!trackedOrder) {
+    if (!trackedOrder || !currentShift) {
       return;
     }
     const remaining = totals.grand - totals.payments;
     if (remaining <= 0) {
       return;
     }
-    recordPayment(trackedOrder.id, { amount: remaining, method: 'upi', reference: `POS-${Date.now()}` });
+    // Card and UPI go through the gateway, which records the payment once it confirms
+    if (settleMethod === 'card' || settleMethod === 'upi') {
+      setCollecting({ method: settleMethod, amount: Number(remaining.toFixed(2)) });
+      return;
+    }
+    recordPayment(trackedOrder.id, {
+      amount: remaining,
+      method: settleMethod,
+      reference: `POS-${Date.now()}`,
+      shiftId: currentShift.id,
+    });
   };
 
   return (
@@ -131,6 +247,24 @@ export function PosPage() {
           <p className="mt-1 text-sm text-gray-500">Fast, tablet-friendly order entry synced with your PMS.</p>
         </div>
         <div className="flex flex-wrap items-center gap-2 text-xs">
+          {outlets.filter((entry) => entry.isActive).length > 1 && (
+            <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1">
+              {outlets
+                .filter((entry) => entry.isActive)
+                .map((entry) => (
+                  <button
+                    key={entry.id}
+                    onClick={() => handleOutletChange(entry.id)}
+                    className={cn(
+                      'rounded-md px-3 py-1.5 text-xs font-semibold transition',
+                      entry.id === outlet.id ? 'bg-primary-600 text-white shadow' : 'text-gray-600 hover:bg-gray-100'
+                    )}
+                  >
+                    {entry.name}
+                  </button>
+                ))}
+            </div>
+          )}
           <Badge variant="success">Menu {menu.length} items</Badge>
           <Badge variant="info">Tables {tables.length}</Badge>
           <Badge variant="warning">Active orders {orders.length}</Badge>
@@ -143,35 +277,64 @@ export function PosPage() {
           <Card className="border-0 bg-white shadow-sm">
             <CardHeader className="flex items-center justify-between gap-3">
               <div>
-                <CardTitle>Dining Room</CardTitle>
-                <CardDescription>Tap a table to open or resume orders</CardDescription>
+                <CardTitle>{outlet.name}</CardTitle>
+                <CardDescription>
+                  {tables.length ? 'Tap a table to open or resume orders' : 'No tables at this outlet; open orders directly'}
+                </CardDescription>
               </div>
-              <div className="flex flex-wrap gap-2 text-xs">
+              <div className="flex flex-wrap items-center gap-2 text-xs">
                 <Badge variant="success">Vacant</Badge>
                 <Badge variant="warning">Needs Attention</Badge>
                 <Badge variant="default">Reserved</Badge>
+                <Button variant="outline" size="sm" className="gap-2" onClick={handleNewOrder}>
+                  <Plus className="h-4 w-4" /> New Order
+                </Button>
               </div>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-2 gap-3 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
-                {tables.map((table) => (
-                  <button
-                    key={table.id}
-                    onClick={() => handleTableTap(table.id)}
-                    className={cn(
-                      'flex aspect-square flex-col items-center justify-center rounded-2xl border-2 p-3 text-center text-sm font-semibold shadow-sm transition active:scale-95',
-                      table.status === 'vacant' && 'border-emerald-200 bg-emerald-50 text-emerald-700',
-                      table.status === 'occupied' && 'border-primary-200 bg-primary-50 text-primary-700',
-                      table.status === 'reserved' && 'border-amber-200 bg-amber-50 text-amber-700',
-                      table.status === 'needs-assistance' && 'border-red-200 bg-red-50 text-red-700'
-                    )}
-                  >
-                    <span className="text-lg">{table.label}</span>
-                    <span className="mt-1 text-xs font-medium opacity-80">{table.seats} pax</span>
-                    {table.activeOrderId && <span className="mt-2 rounded-full bg-white/70 px-2 py-0.5 text-[10px] font-semibold text-gray-700">Order</span>}
-                  </button>
-                ))}
-              </div>
+              {sections.length > 1 && (
+                <div className="mb-3 inline-flex rounded-lg border border-gray-200 bg-white p-1">
+                  {sections.map((name) => (
+                    <button
+                      key={name}
+                      onClick={() => setSection(name)}
+                      className={cn(
+                        'rounded-md px-3 py-1.5 text-xs font-semibold transition',
+                        name === activeSection ? 'bg-primary-600 text-white shadow' : 'text-gray-600 hover:bg-gray-100'
+                      )}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {tableAction && (
+                <div className="mb-3 flex items-center justify-between rounded-lg border border-primary-200 bg-primary-50 px-4 py-2 text-sm text-primary-700">
+                  <span>
+                    {tableAction === 'move' ? 'Tap a free table to move this order to' : 'Tap the table to join to this order'}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => setTableAction(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+              {tables.length > 0 && (
+                <FloorPlan
+                  tables={sectionTables}
+                  selectedId={trackedOrder?.tableId}
+                  onSelect={(table) => handleTableTap(table.id)}
+                  renderDetail={(table) => {
+                    const order = table.activeOrderId ? orders.find((entry) => entry.id === table.activeOrderId) : undefined;
+                    const primary = table.mergedInto ? tables.find((entry) => entry.id === table.mergedInto) : undefined;
+                    return (
+                      <span className="text-[10px] font-medium leading-tight opacity-80">
+                        {primary ? `with ${primary.label}` : order ? `${order.covers ?? '–'}/${table.seats} pax` : `${table.seats} pax`}
+                        {table.serverName && <span className="block truncate">{table.serverName.split(' ')[0]}</span>}
+                      </span>
+                    );
+                  }}
+                />
+              )}
             </CardContent>
           </Card>
 
@@ -204,7 +367,7 @@ export function PosPage() {
             <CardContent>
               <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4">
                 {filteredMenu.map((item) => (
-                  <MenuTile key={item.id} item={item} onAdd={() => trackedOrder && addItemToOrder(trackedOrder.id, item)} onToggle={() => toggleMenuAvailability(item.id)} />
+                  <MenuTile key={item.id} item={item} onAdd={() => handleMenuTap(item)} onToggle={() => toggleMenuAvailability(item.id)} />
                 ))}
               </div>
             </CardContent>
@@ -219,20 +382,89 @@ export function PosPage() {
                   <CardTitle>Order Composer</CardTitle>
                   <CardDescription>Fast edit, split and post</CardDescription>
                 </div>
-                <Button variant="secondary" size="sm" className="gap-2" onClick={() => trackedOrder && sendOrderToKitchen(trackedOrder.id)} disabled={!trackedOrder || !trackedOrder.items.length}>
-                  <Printer className="h-4 w-4" /> Print KOT
+                <Button variant="secondary" size="sm" className="gap-2" onClick={() => trackedOrder && print(() => printBill(trackedOrder.id))} disabled={!trackedOrder || !trackedOrder.items.length}>
+                  <Printer className="h-4 w-4" /> {trackedOrder?.billPrintCount ? 'Reprint Bill' : 'Print Bill'}
                 </Button>
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
-              <OrderSelector orders={orders} selectedId={trackedOrder?.id} onSelect={setSelectedOrderId} />
+              {!currentShift && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  <Link to="/pos/shifts" className="font-semibold underline">
+                    Open a cashier shift
+                  </Link>{' '}
+                  to take payments or charge orders to rooms.
+                </div>
+              )}
+              {error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+              )}
+              <OrderSelector orders={orders} tables={tables} selectedId={trackedOrder?.id} onSelect={setSelectedOrderId} />
+
+              {trackedOrder && (
+                <div className="space-y-3 rounded-xl border border-gray-200 bg-gray-50 p-3 text-xs text-gray-600">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold uppercase tracking-wide text-gray-500">Covers</span>
+                      <Button variant="ghost" size="sm" onClick={() => setCovers(trackedOrder.id, (trackedOrder.covers ?? 1) - 1)}>
+                        <Minus className="h-4 w-4" />
+                      </Button>
+                      <span className="w-6 text-center text-sm font-semibold text-gray-900">{trackedOrder.covers ?? '–'}</span>
+                      <Button variant="ghost" size="sm" onClick={() => setCovers(trackedOrder.id, (trackedOrder.covers ?? 0) + 1)}>
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {trackedOrder.tableId && (
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" className="gap-1" onClick={() => setTableAction('move')}>
+                          <MoveRight className="h-4 w-4" /> Move
+                        </Button>
+                        <Button variant="outline" size="sm" className="gap-1" onClick={() => setTableAction('merge')}>
+                          <Merge className="h-4 w-4" /> Join Table
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {trackedOrder.tableId && (
+                    <Select
+                      value={trackedOrder.serverId ?? ''}
+                      onChange={(event) => {
+                        const server = servers.find((user) => user.id === event.target.value);
+                        const tableId = trackedOrder.tableId;
+                        if (tableId) {
+                          run(() => assignServer(tableId, server && { id: server.id, name: server.name }));
+                        }
+                      }}
+                      options={[{ value: '', label: 'No server assigned' }, ...servers.map((user) => ({ value: user.id, label: user.name }))]}
+                    />
+                  )}
+                  {joinedTables.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold uppercase tracking-wide text-gray-500">Joined</span>
+                      {joinedTables.map((table) => (
+                        <button
+                          key={table.id}
+                          onClick={() => run(() => splitTable(table.id))}
+                          className="flex items-center gap-1 rounded-full border border-gray-200 bg-white px-2 py-0.5 font-semibold text-gray-700 hover:border-red-200 hover:text-red-600"
+                          title="Split this table off"
+                        >
+                          {table.label} <Split className="h-3 w-3" />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
 
               <div className="space-y-3">
                 {trackedOrder && trackedOrder.items.length ? (
                   trackedOrder.items.map((line) => (
                     <div key={line.id} className="flex items-center justify-between rounded-xl border border-gray-200 bg-gray-50 px-3 py-2">
                       <div>
-                        <p className="text-sm font-semibold text-gray-900">{line.name}</p>
+                        <p className="text-sm font-semibold text-gray-900">{posLineName(line)}</p>
+                        {posLineDetails(line).map((detail) => (
+                          <p key={detail} className="text-xs text-gray-600">{detail}</p>
+                        ))}
                         <p className="text-xs text-gray-500">{formatCurrency(line.unitPrice)}</p>
                       </div>
                       <div className="flex items-center gap-2">
@@ -268,7 +500,7 @@ export function PosPage() {
                   size="sm"
                   className="w-full gap-2"
                   onClick={handleRoomPost}
-                  disabled={!trackedOrder || !trackedOrder.items.length || !roomSelection}
+                  disabled={!trackedOrder || !trackedOrder.items.length || !roomSelection || !currentShift}
                 >
                   <BedDouble className="h-4 w-4" /> Post to Room
                 </Button>
@@ -280,11 +512,13 @@ export function PosPage() {
                   <span className="font-semibold text-gray-900">{formatCurrency(totals.items)}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span>Service (5%)</span>
+                  <span>Service ({outlet.serviceChargePercent}%)</span>
                   <span>{formatCurrency(totals.service)}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span>Tax (12%)</span>
+                  <span>
+                    Tax ({outlet.taxPercent}%{outlet.pricesIncludeTax ? ', included' : ''})
+                  </span>
                   <span>{formatCurrency(totals.tax)}</span>
                 </div>
                 {trackedOrder?.charges.length ? (
@@ -307,13 +541,34 @@ export function PosPage() {
                 </div>
               </div>
 
+              <div className="inline-flex w-full rounded-lg border border-gray-200 bg-white p-1">
+                {SETTLE_METHODS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSettleMethod(option.value)}
+                    className={cn(
+                      'flex-1 rounded-md px-3 py-1.5 text-xs font-semibold transition',
+                      settleMethod === option.value ? 'bg-primary-600 text-white shadow' : 'text-gray-600 hover:bg-gray-100'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
               <div className="flex flex-wrap gap-2">
                 <Button variant="primary" className="flex-1 gap-2" onClick={handleSendToKitchen} disabled={!trackedOrder || !trackedOrder.items.length}>
                   <Send className="h-4 w-4" /> Send to Kitchen
                 </Button>
-                <Button variant="secondary" className="flex-1 gap-2" onClick={handleQuickSettle} disabled={!trackedOrder || totals.grand - totals.payments <= 0}>
-                  <Wallet className="h-4 w-4" /> Close &amp; Pay
-                </Button>
+                {trackedOrder?.status === 'posted' ? (
+                  <Button variant="secondary" className="flex-1 gap-2" onClick={() => closeOrder(trackedOrder.id)}>
+                    <Check className="h-4 w-4" /> Close Order
+                  </Button>
+                ) : (
+                  <Button variant="secondary" className="flex-1 gap-2" onClick={handleQuickSettle} disabled={!trackedOrder || !currentShift || totals.grand - totals.payments <= 0}>
+                    <Wallet className="h-4 w-4" /> Close &amp; Pay
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -346,7 +601,10 @@ export function PosPage() {
                     <ul className="mt-3 space-y-2 text-xs text-gray-600">
                       {ticket.items.map((line, index) => (
                         <li key={index} className="flex justify-between">
-                          <span>{line.quantity} × {line.name}</span>
+                          <span>
+                            {line.quantity} × {line.name}
+                            {line.modifiers?.length ? <span className="text-gray-400"> ({line.modifiers.join(', ')})</span> : null}
+                          </span>
                           {line.notes && <span className="font-medium text-amber-600">{line.notes}</span>}
                         </li>
                       ))}
@@ -358,6 +616,9 @@ export function PosPage() {
                       <Button size="sm" variant="primary" className="flex-1 gap-2" onClick={() => updateTicketStatus(ticket.id, 'completed')}>
                         <Check className="h-4 w-4" /> Complete
                       </Button>
+                      <Button size="sm" variant="ghost" className="gap-2" onClick={() => print(() => printKot(ticket.id))} title={ticket.printCount ? 'Reprint (duplicate)' : 'Print KOT'}>
+                        <Printer className="h-4 w-4" />
+                      </Button>
                     </div>
                   </div>
                 ))
@@ -391,6 +652,30 @@ export function PosPage() {
           </CardContent>
         </Card>
       </section>
+
+      <PrinterSettings />
+
+      {collecting && trackedOrder && currentShift && (
+        <PaymentCollectDialog
+          method={collecting.method}
+          amount={collecting.amount}
+          description={`${outlet.name} order ${trackedOrder.id}`}
+          target={{ type: 'pos', orderId: trackedOrder.id, shiftId: currentShift.id }}
+          onClose={() => setCollecting(null)}
+        />
+      )}
+
+      {optionsItem && trackedOrder && (
+        <ItemOptionsDialog
+          item={optionsItem}
+          menu={allMenu}
+          onClose={() => setOptionsItem(null)}
+          onConfirm={(selection) => {
+            addItemToOrder(trackedOrder.id, optionsItem, selection);
+            setOptionsItem(null);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -402,7 +687,11 @@ function MenuTile({ item, onAdd, onToggle }: { item: POSMenuItem; onAdd: () => v
     >
       <div className="flex items-center justify-between">
         <p className="text-sm font-semibold text-gray-900">{item.name}</p>
-        <span className="text-xs font-semibold text-gray-500">{formatCurrency(item.price)}</span>
+        <span className="text-xs font-semibold text-gray-500">
+          {item.variants?.length
+            ? `from ${formatCurrency(Math.min(...item.variants.map((variant) => variant.price)))}`
+            : formatCurrency(item.price)}
+        </span>
       </div>
       {item.description && <p className="mt-2 text-xs text-gray-500 line-clamp-3">{item.description}</p>}
       {item.tags && item.tags.length ? (
@@ -426,15 +715,16 @@ function MenuTile({ item, onAdd, onToggle }: { item: POSMenuItem; onAdd: () => v
 
 interface OrderSelectorProps {
   orders: POSOrder[];
+  tables: POSTable[];
   selectedId?: string;
   onSelect: (orderId: string) => void;
 }
 
-function OrderSelector({ orders, selectedId, onSelect }: OrderSelectorProps) {
+function OrderSelector({ orders, tables, selectedId, onSelect }: OrderSelectorProps) {
   if (!orders.length) {
     return (
       <div className="rounded-xl border border-dashed border-gray-300 bg-gray-50 p-6 text-center text-sm text-gray-500">
-        Tap a table to begin a new order.
+        {tables.length ? 'Tap a table to begin a new order.' : 'Start a new order to begin.'}
       </div>
     );
   }
@@ -450,7 +740,7 @@ function OrderSelector({ orders, selectedId, onSelect }: OrderSelectorProps) {
             order.id === selectedId ? 'border-primary-300 bg-primary-50 text-primary-700 shadow-md' : 'border-gray-200 bg-white hover:border-primary-200'
           )}
         >
-          <p className="font-semibold">{order.tableId ? `Table ${order.tableId}` : order.roomNumber ? `Room ${order.roomNumber}` : 'Unassigned'}</p>
+          <p className="font-semibold">{order.tableId ? `Table ${tables.find((table) => table.id === order.tableId)?.label ?? order.tableId}` : order.roomNumber ? `Room ${order.roomNumber}` : 'Unassigned'}</p>
           <p className="text-[11px] text-gray-500">{order.items.length} items</p>
           <p className="mt-1 text-[10px] uppercase tracking-wide text-gray-400">{order.status}</p>
         </button>
@@ -0,0 +1,344 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArrowDownCircle, ArrowUpCircle, FileText, Lock, Printer, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Select } from '../../components/ui/Select';
+import { Badge } from '../../components/ui/Badge';
+import { usePOSShiftStore } from '../../stores/posShiftStore';
+import { usePOSStore } from '../../stores/posStore';
+import { usePrinterStore } from '../../stores/printerStore';
+import { useAuthStore } from '../../stores/authStore';
+import { formatCurrency } from '../../utils';
+import type { POSCashMovement, POSShift, POSShiftReport } from '../../types';
+import { ShiftReportView } from './components/ShiftReportView';
+
+export function PosShiftPage() {
+  const { shifts, error: saveError, openShift, addCashMovement, closeShift, getXReport } = usePOSShiftStore();
+  const orders = usePOSStore((state) => state.orders);
+  const { printShiftReport } = usePrinterStore();
+  const { user, hasRole } = useAuthStore();
+  const isManager = hasRole('admin') || hasRole('manager');
+
+  const [error, setError] = useState<string | null>(null);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movement, setMovement] = useState<{ type: POSCashMovement['type']; amount: string; reason: string }>({
+    type: 'cash-out',
+    amount: '',
+    reason: '',
+  });
+  const [closingShiftId, setClosingShiftId] = useState<string | null>(null);
+  const [countedCash, setCountedCash] = useState('');
+  const [closingNotes, setClosingNotes] = useState('');
+  const [viewing, setViewing] = useState<{ shift: POSShift; report: POSShiftReport } | null>(null);
+
+  // Drawers opened on other terminals are listed too, so a manager can close them before the night audit
+  useEffect(() => {
+    usePOSShiftStore.getState().hydrateFromBackend().catch(() => undefined);
+  }, []);
+
+  const currentShift = shifts.find((shift) => shift.status === 'open' && shift.userId === user?.id);
+  const otherOpenShifts = shifts.filter((shift) => shift.status === 'open' && shift.userId !== user?.id);
+  const closedShifts = shifts.filter((shift) => shift.status === 'closed').slice(0, 10);
+  const closingShift = shifts.find((shift) => shift.id === (closingShiftId ?? currentShift?.id) && shift.status === 'open');
+
+  // Live figures for the drawer; the orders subscription re-renders this as payments come in
+  const liveReport = currentShift && orders ? getXReport(currentShift.id) : null;
+
+  const run = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const print = (shift: POSShift, report: POSShiftReport) => {
+    setError(null);
+    printShiftReport(shift, report).catch((err) => setError(err instanceof Error ? err.message : 'Printing failed'));
+  };
+
+  const handleOpen = () =>
+    run(() => {
+      openShift(Number(openingFloat) || 0);
+      setOpeningFloat('');
+    });
+
+  const handleMovement = () =>
+    run(() => {
+      if (!currentShift) return;
+      addCashMovement(currentShift.id, { type: movement.type, amount: Number(movement.amount), reason: movement.reason });
+      setMovement({ ...movement, amount: '', reason: '' });
+    });
+
+  const handleClose = () =>
+    run(() => {
+      if (!closingShift) return;
+      if (countedCash === '') {
+        throw new Error('Count the drawer and enter the cash in hand');
+      }
+      const closed = closeShift(closingShift.id, Number(countedCash), closingNotes);
+      setCountedCash('');
+      setClosingNotes('');
+      setClosingShiftId(null);
+      if (closed.zReport) {
+        setViewing({ shift: closed, report: closed.zReport });
+        print(closed, closed.zReport);
+      }
+    });
+
+  return (
+    <div className="space-y-6 pb-16">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Cashier Shift</h1>
+          <p className="mt-1 text-sm text-gray-500">Open your drawer, record cash movements and close with a Z-report.</p>
+        </div>
+        {currentShift && (
+          <Badge variant="success">
+            Open since {format(parseISO(currentShift.openedAt), 'HH:mm')} · {currentShift.shift} shift
+          </Badge>
+        )}
+      </header>
+
+      {(error || saveError) && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error || saveError}</div>
+      )}
+
+      {!currentShift ? (
+        <Card className="border-0 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle>Open Shift</CardTitle>
+            <CardDescription>Count the float in the drawer before taking payments</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-end gap-3">
+            <Input
+              label="Opening float (₹)"
+              type="number"
+              min="0"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+            />
+            <Button variant="primary" className="gap-2" onClick={handleOpen}>
+              <Wallet className="h-4 w-4" /> Open Shift
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        liveReport && (
+          <>
+            <section className="grid gap-4 md:grid-cols-4">
+              {[
+                { label: 'Opening float', value: liveReport.openingFloat },
+                { label: 'Collected', value: liveReport.collected },
+                { label: 'Cash sales', value: liveReport.cashSales },
+                { label: 'Expected in drawer', value: liveReport.expectedCash },
+              ].map((stat) => (
+                <Card key={stat.label} className="border-0 bg-white shadow-sm">
+                  <CardContent className="p-4">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{stat.label}</p>
+                    <p className="mt-1 text-2xl font-bold text-gray-900">{formatCurrency(stat.value)}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </section>
+
+            <section className="grid gap-4 lg:grid-cols-2">
+              <Card className="border-0 bg-white shadow-sm">
+                <CardHeader>
+                  <CardTitle>Cash In / Out</CardTitle>
+                  <CardDescription>Petty cash, change top-ups and safe drops</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-3 sm:grid-cols-[auto_8rem_1fr_auto] sm:items-end">
+                    <Select
+                      label="Type"
+                      value={movement.type}
+                      onChange={(e) => setMovement({ ...movement, type: e.target.value as POSCashMovement['type'] })}
+                      options={[
+                        { value: 'cash-out', label: 'Cash out' },
+                        { value: 'cash-in', label: 'Cash in' },
+                      ]}
+                    />
+                    <Input
+                      label="Amount"
+                      type="number"
+                      min="0"
+                      value={movement.amount}
+                      onChange={(e) => setMovement({ ...movement, amount: e.target.value })}
+                    />
+                    <Input
+                      label="Reason"
+                      value={movement.reason}
+                      placeholder="Safe drop"
+                      onChange={(e) => setMovement({ ...movement, reason: e.target.value })}
+                    />
+                    <Button variant="outline" onClick={handleMovement}>
+                      Record
+                    </Button>
+                  </div>
+                  <div className="space-y-2">
+                    {currentShift.cashMovements.length ? (
+                      [...currentShift.cashMovements].reverse().map((entry) => (
+                        <div key={entry.id} className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                          <div className="flex items-center gap-2">
+                            {entry.type === 'cash-in' ? (
+                              <ArrowDownCircle className="h-4 w-4 text-emerald-600" />
+                            ) : (
+                              <ArrowUpCircle className="h-4 w-4 text-red-500" />
+                            )}
+                            <span className="text-gray-900">{entry.reason}</span>
+                            <span className="text-xs text-gray-400">{format(parseISO(entry.createdAt), 'HH:mm')}</span>
+                          </div>
+                          <span className="font-medium">
+                            {entry.type === 'cash-in' ? '+' : '-'}
+                            {formatCurrency(entry.amount)}
+                          </span>
+                        </div>
+                      ))
+                    ) : (
+                      <p className="text-sm text-gray-400">No cash movements yet</p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 bg-white shadow-sm">
+                <CardHeader className="flex items-center justify-between gap-3">
+                  <div>
+                    <CardTitle>X-Report</CardTitle>
+                    <CardDescription>Takings so far; the drawer stays open</CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" className="gap-2" onClick={() => setViewing({ shift: currentShift, report: liveReport })}>
+                      <FileText className="h-4 w-4" /> View
+                    </Button>
+                    <Button variant="outline" size="sm" className="gap-2" onClick={() => print(currentShift, getXReport(currentShift.id))}>
+                      <Printer className="h-4 w-4" /> Print
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ShiftReportView shift={currentShift} report={liveReport} />
+                </CardContent>
+              </Card>
+            </section>
+          </>
+        )
+      )}
+
+      {isManager && otherOpenShifts.length > 0 && (
+        <Card className="border-0 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle>Other Open Drawers</CardTitle>
+            <CardDescription>All drawers must be closed before the night audit</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {otherOpenShifts.map((shift) => (
+              <div key={shift.id} className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                <span>
+                  <span className="font-medium text-gray-900">{shift.userName}</span>
+                  <span className="ml-2 text-gray-500">since {format(parseISO(shift.openedAt), 'dd MMM HH:mm')}</span>
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setViewing({ shift, report: getXReport(shift.id) })}>
+                    X-Report
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setClosingShiftId(shift.id)}>
+                    Close
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {closingShift && (
+        <Card className="border-0 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle>Close Shift{closingShift.userId !== user?.id ? ` for ${closingShift.userName}` : ''}</CardTitle>
+            <CardDescription>Count the cash in the drawer; the difference from expected is recorded on the Z-report</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap items-end gap-3">
+            <Input
+              label="Counted cash (₹)"
+              type="number"
+              min="0"
+              value={countedCash}
+              onChange={(e) => setCountedCash(e.target.value)}
+            />
+            <Input label="Notes" value={closingNotes} onChange={(e) => setClosingNotes(e.target.value)} />
+            <Button variant="danger" className="gap-2" onClick={handleClose}>
+              <Lock className="h-4 w-4" /> Close &amp; Print Z-Report
+            </Button>
+            {closingShiftId && (
+              <Button variant="ghost" onClick={() => setClosingShiftId(null)}>
+                Cancel
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {viewing && (
+        <Card className="border-0 bg-white shadow-sm">
+          <CardHeader className="flex items-center justify-between gap-3">
+            <CardTitle>{viewing.report.kind}-Report</CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => print(viewing.shift, viewing.report)}>
+                <Printer className="h-4 w-4" /> Print
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setViewing(null)}>
+                Hide
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ShiftReportView shift={viewing.shift} report={viewing.report} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="border-0 bg-white shadow-sm">
+        <CardHeader>
+          <CardTitle>Closed Shifts</CardTitle>
+          <CardDescription>Z-reports from the most recent closes</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {closedShifts.length ? (
+            closedShifts
+              .filter((shift) => isManager || shift.userId === user?.id)
+              .map((shift) => (
+                <div key={shift.id} className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                  <span>
+                    <span className="font-medium text-gray-900">{shift.userName}</span>
+                    <span className="ml-2 text-gray-500">
+                      {format(parseISO(shift.openedAt), 'dd MMM HH:mm')} – {shift.closedAt && format(parseISO(shift.closedAt), 'HH:mm')}
+                    </span>
+                  </span>
+                  <div className="flex items-center gap-3">
+                    {shift.zReport && <span className="font-medium">{formatCurrency(shift.zReport.collected)}</span>}
+                    {shift.zReport?.variance ? (
+                      <Badge variant={shift.zReport.variance < 0 ? 'danger' : 'warning'}>
+                        {shift.zReport.variance < 0 ? 'Short' : 'Over'} {formatCurrency(Math.abs(shift.zReport.variance))}
+                      </Badge>
+                    ) : null}
+                    {shift.zReport && (
+                      <Button variant="ghost" size="sm" onClick={() => shift.zReport && setViewing({ shift, report: shift.zReport })}>
+                        View
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+          ) : (
+            <p className="text-sm text-gray-400">No closed shifts yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
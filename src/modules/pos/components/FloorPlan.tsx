@@ -0,0 +1,115 @@
+import { useRef, useState, type PointerEvent, type ReactNode } from 'react';
+import { cn } from '../../../utils';
+import type { POSTable } from '../../../types';
+
+interface FloorPlanProps {
+  tables: POSTable[];
+  selectedId?: string;
+  onSelect: (table: POSTable) => void;
+  // Makes tables draggable; called with the new centre once a drag ends
+  onMove?: (tableId: string, x: number, y: number) => void;
+  renderDetail?: (table: POSTable) => ReactNode;
+  className?: string;
+}
+
+const SHAPE_CLASSES: Record<NonNullable<POSTable['shape']>, string> = {
+  square: 'h-20 w-20 rounded-xl',
+  round: 'h-20 w-20 rounded-full',
+  rectangle: 'h-20 w-32 rounded-xl',
+};
+
+const STATUS_CLASSES: Record<POSTable['status'], string> = {
+  vacant: 'border-emerald-200 bg-emerald-50 text-emerald-700',
+  occupied: 'border-primary-200 bg-primary-50 text-primary-700',
+  reserved: 'border-amber-200 bg-amber-50 text-amber-700',
+  'needs-assistance': 'border-red-200 bg-red-50 text-red-700',
+};
+
+const clamp = (value: number) => Math.min(Math.max(value, 5), 95);
+
+// Tables saved before the floor plan existed are laid out in rows until someone places them
+const fallbackPosition = (index: number) => ({ x: 12 + (index % 5) * 19, y: 18 + Math.floor(index / 5) * 28 });
+
+/**
+ * Tables drawn where they stand in the room, coloured by status
+ */
+export function FloorPlan({ tables, selectedId, onSelect, onMove, renderDetail, className }: FloorPlanProps) {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ id: string; x: number; y: number; moved: boolean } | null>(null);
+
+  const pointToPercent = (event: PointerEvent) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return {
+      x: clamp(((event.clientX - rect.left) / rect.width) * 100),
+      y: clamp(((event.clientY - rect.top) / rect.height) * 100),
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLButtonElement>, table: POSTable, x: number, y: number) => {
+    if (!onMove) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ id: table.id, x, y, moved: false });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLButtonElement>) => {
+    if (!drag) return;
+    const point = pointToPercent(event);
+    if (point) {
+      setDrag({ ...drag, ...point, moved: true });
+    }
+  };
+
+  const handlePointerUp = (table: POSTable) => {
+    if (!drag) return;
+    if (drag.moved) {
+      onMove?.(table.id, Math.round(drag.x), Math.round(drag.y));
+    } else {
+      onSelect(table);
+    }
+    setDrag(null);
+  };
+
+  return (
+    <div
+      ref={canvasRef}
+      className={cn(
+        'relative h-[420px] w-full overflow-hidden rounded-2xl border border-dashed border-gray-300 bg-[radial-gradient(circle,_#e5e7eb_1px,_transparent_1px)] [background-size:20px_20px]',
+        className
+      )}
+    >
+      {tables.map((table, index) => {
+        const fallback = fallbackPosition(index);
+        const isDragging = drag?.id === table.id;
+        const x = isDragging ? drag.x : table.x ?? fallback.x;
+        const y = isDragging ? drag.y : table.y ?? fallback.y;
+        return (
+          <button
+            key={table.id}
+            type="button"
+            style={{ left: `${x}%`, top: `${y}%` }}
+            onClick={onMove ? undefined : () => onSelect(table)}
+            onPointerDown={(event) => handlePointerDown(event, table, x, y)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => handlePointerUp(table)}
+            className={cn(
+              'absolute flex -translate-x-1/2 -translate-y-1/2 touch-none select-none flex-col items-center justify-center border-2 text-center text-sm font-semibold shadow-sm transition-shadow',
+              SHAPE_CLASSES[table.shape ?? 'square'],
+              STATUS_CLASSES[table.status],
+              table.mergedInto && 'border-dashed',
+              selectedId === table.id && 'ring-2 ring-primary-500 ring-offset-2',
+              onMove ? 'cursor-move' : 'active:scale-95',
+              isDragging && 'z-10 shadow-lg'
+            )}
+          >
+            <span>{table.label}</span>
+            {renderDetail ? renderDetail(table) : <span className="text-[10px] font-medium opacity-80">{table.seats} pax</span>}
+          </button>
+        );
+      })}
+      {!tables.length && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">No tables in this section</div>
+      )}
+    </div>
+  );
+}
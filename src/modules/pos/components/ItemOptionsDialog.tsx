@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/Dialog';
+import { Button } from '../../../components/ui/Button';
+import { formatCurrency, cn } from '../../../utils';
+import type { POSLineSelection, POSMenuItem, POSModifierGroup } from '../../../types';
+
+interface ItemOptionsDialogProps {
+  item: POSMenuItem;
+  menu: POSMenuItem[];
+  onConfirm: (selection: POSLineSelection) => void;
+  onClose: () => void;
+}
+
+/**
+ * Size, modifier and combo course picker shown before an item with choices goes on the order
+ */
+export function ItemOptionsDialog({ item, menu, onConfirm, onClose }: ItemOptionsDialogProps) {
+  const [variantId, setVariantId] = useState(item.variants?.[0]?.id);
+  const [optionIds, setOptionIds] = useState<string[]>([]);
+  const [comboPicks, setComboPicks] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (item.comboSlots ?? []).flatMap((slot) => {
+        const first = slot.itemIds.find((itemId) => menu.some((entry) => entry.id === itemId && entry.isAvailable));
+        return first ? [[slot.id, first]] : [];
+      })
+    )
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const basePrice = item.variants?.find((variant) => variant.id === variantId)?.price ?? item.price;
+  const price =
+    basePrice +
+    (item.modifierGroups ?? [])
+      .flatMap((group) => group.options)
+      .filter((option) => optionIds.includes(option.id))
+      .reduce((sum, option) => sum + option.priceDelta, 0);
+
+  // Single-choice groups behave like radio buttons; the rest stop at their maximum
+  const toggleOption = (group: POSModifierGroup, optionId: string) => {
+    const groupIds = group.options.map((option) => option.id);
+    setOptionIds((current) => {
+      if (current.includes(optionId)) {
+        return current.filter((entry) => entry !== optionId);
+      }
+      if (group.maxChoices === 1) {
+        return [...current.filter((entry) => !groupIds.includes(entry)), optionId];
+      }
+      if (current.filter((entry) => groupIds.includes(entry)).length >= group.maxChoices) {
+        return current;
+      }
+      return [...current, optionId];
+    });
+  };
+
+  const handleConfirm = () => {
+    setError(null);
+    try {
+      onConfirm({ variantId, modifierOptionIds: optionIds, comboPicks });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add item');
+    }
+  };
+
+  const choiceClass = (active: boolean, disabled?: boolean) =>
+    cn(
+      'rounded-xl border px-3 py-2 text-left text-sm transition',
+      active ? 'border-primary-400 bg-primary-50 font-semibold text-primary-700' : 'border-gray-200 bg-white hover:border-primary-200',
+      disabled && 'cursor-not-allowed opacity-50'
+    );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] w-[32rem] overflow-y-auto">
+        <DialogClose onClick={onClose} />
+        <DialogHeader>
+          <DialogTitle>{item.name}</DialogTitle>
+          {item.description && <DialogDescription>{item.description}</DialogDescription>}
+        </DialogHeader>
+
+        <div className="mt-4 space-y-5">
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {item.variants?.length ? (
+            <section>
+              <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Size</p>
+              <div className="grid grid-cols-2 gap-2">
+                {item.variants.map((variant) => (
+                  <button key={variant.id} onClick={() => setVariantId(variant.id)} className={choiceClass(variant.id === variantId)}>
+                    <span className="block">{variant.name}</span>
+                    <span className="text-xs text-gray-500">{formatCurrency(variant.price)}</span>
+                  </button>
+                ))}
+              </div>
+            </section>
+          ) : null}
+
+          {item.comboSlots?.map((slot) => (
+            <section key={slot.id}>
+              <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Choose {slot.name}</p>
+              <div className="grid grid-cols-2 gap-2">
+                {slot.itemIds.map((itemId) => {
+                  const choice = menu.find((entry) => entry.id === itemId);
+                  if (!choice) return null;
+                  return (
+                    <button
+                      key={itemId}
+                      disabled={!choice.isAvailable}
+                      onClick={() => setComboPicks((current) => ({ ...current, [slot.id]: itemId }))}
+                      className={choiceClass(comboPicks[slot.id] === itemId, !choice.isAvailable)}
+                    >
+                      {choice.name}
+                      {!choice.isAvailable && <span className="block text-xs text-red-500">Sold out</span>}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+
+          {item.modifierGroups?.map((group) => (
+            <section key={group.id}>
+              <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                {group.name}
+                <span className="ml-2 font-normal normal-case text-gray-400">
+                  {group.minChoices > 0 ? 'Required' : 'Optional'}
+                  {group.maxChoices > 1 ? `, up to ${group.maxChoices}` : ''}
+                </span>
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {group.options.map((option) => (
+                  <button
+                    key={option.id}
+                    disabled={option.isAvailable === false}
+                    onClick={() => toggleOption(group, option.id)}
+                    className={choiceClass(optionIds.includes(option.id), option.isAvailable === false)}
+                  >
+                    <span className="block">{option.name}</span>
+                    {option.priceDelta !== 0 && (
+                      <span className="text-xs text-gray-500">
+                        {option.priceDelta > 0 ? '+' : '-'}
+                        {formatCurrency(Math.abs(option.priceDelta))}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleConfirm}>
+            Add · {formatCurrency(price)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
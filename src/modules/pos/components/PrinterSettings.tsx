@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Plus, Printer, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../../components/ui/Card';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import { usePrinterStore } from '../../../stores/printerStore';
+import { usePOSStore } from '../../../stores/posStore';
+import { getMockPrintJobs } from '../../../services/printerTransports';
+import { KOT_STATION_LABELS } from '../../../utils/receipts';
+import type { KOTStation, PaperWidth, PrinterConfig, PrinterTransportKind } from '../../../types';
+
+const TRANSPORT_OPTIONS: Array<{ value: PrinterTransportKind; label: string }> = [
+  { value: 'webusb', label: 'USB (WebUSB)' },
+  { value: 'network', label: 'Network print bridge' },
+  { value: 'download', label: 'Download file' },
+  { value: 'mock', label: 'Preview only (mock)' },
+];
+
+const ADDRESS_HINTS: Partial<Record<PrinterTransportKind, { label: string; placeholder: string }>> = {
+  webusb: { label: 'USB product name (optional)', placeholder: 'TM-T82' },
+  network: { label: 'Bridge URL', placeholder: 'http://192.168.1.50:9100/print' },
+};
+
+const STATIONS = Object.keys(KOT_STATION_LABELS) as KOTStation[];
+
+export function PrinterSettings() {
+  const { printers, addPrinter, updatePrinter, removePrinter, testPrint } = usePrinterStore();
+  const outlets = usePOSStore((state) => state.outlets);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  const run = async (action: () => unknown) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Printer action failed');
+    }
+  };
+
+  const handleAdd = () =>
+    run(() =>
+      addPrinter({ name: `Printer ${printers.length + 1}`, paperWidth: 80, transport: 'mock', stations: [], printsBills: false })
+    );
+
+  const handleTest = (printer: PrinterConfig) =>
+    run(async () => {
+      await testPrint(printer.id);
+      if (printer.transport === 'mock') {
+        setPreview(getMockPrintJobs().at(-1)?.text ?? null);
+      }
+    });
+
+  const toggleStation = (printer: PrinterConfig, station: KOTStation) =>
+    updatePrinter(printer.id, {
+      stations: printer.stations.includes(station)
+        ? printer.stations.filter((entry) => entry !== station)
+        : [...printer.stations, station],
+    });
+
+  // No outlets ticked means the printer serves every outlet
+  const toggleOutlet = (printer: PrinterConfig, outletId: string) => {
+    const current = printer.outletIds ?? [];
+    const next = current.includes(outletId) ? current.filter((entry) => entry !== outletId) : [...current, outletId];
+    updatePrinter(printer.id, { outletIds: next.length ? next : undefined });
+  };
+
+  return (
+    <Card className="border-0 bg-white shadow-sm">
+      <CardHeader className="flex items-center justify-between gap-3">
+        <div>
+          <CardTitle>Receipt Printers</CardTitle>
+          <CardDescription>KOTs print on the printer serving each station; bills on the bill printer</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setPreview(getMockPrintJobs().at(-1)?.text ?? 'Nothing printed yet')}>
+            Last preview
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleAdd}>
+            <Plus className="h-4 w-4" /> Add Printer
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {printers.map((printer) => {
+          const hint = ADDRESS_HINTS[printer.transport];
+          return (
+            <div key={printer.id} className="space-y-3 rounded-xl border border-gray-200 p-4">
+              <div className="grid gap-3 md:grid-cols-4">
+                <Input
+                  label="Name"
+                  value={printer.name}
+                  onChange={(e) => updatePrinter(printer.id, { name: e.target.value })}
+                />
+                <Select
+                  label="Paper"
+                  value={String(printer.paperWidth)}
+                  onChange={(e) => updatePrinter(printer.id, { paperWidth: Number(e.target.value) as PaperWidth })}
+                  options={[
+                    { value: '58', label: '58 mm' },
+                    { value: '80', label: '80 mm' },
+                  ]}
+                />
+                <Select
+                  label="Connection"
+                  value={printer.transport}
+                  onChange={(e) => updatePrinter(printer.id, { transport: e.target.value as PrinterTransportKind })}
+                  options={TRANSPORT_OPTIONS}
+                />
+                {hint && (
+                  <Input
+                    label={hint.label}
+                    value={printer.address ?? ''}
+                    placeholder={hint.placeholder}
+                    onChange={(e) => updatePrinter(printer.id, { address: e.target.value || undefined })}
+                  />
+                )}
+              </div>
+              {outlets.length > 1 && (
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    {printer.outletIds?.length ? 'Outlets' : 'Outlets (all)'}
+                  </span>
+                  {outlets.map((outlet) => (
+                    <label key={outlet.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={printer.outletIds?.includes(outlet.id) ?? false}
+                        onChange={() => toggleOutlet(printer, outlet.id)}
+                        className="rounded"
+                      />
+                      {outlet.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+                {STATIONS.map((station) => (
+                  <label key={station} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={printer.stations.includes(station)}
+                      onChange={() => toggleStation(printer, station)}
+                      className="rounded"
+                    />
+                    {KOT_STATION_LABELS[station]} KOT
+                  </label>
+                ))}
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={printer.printsBills}
+                    onChange={(e) => updatePrinter(printer.id, { printsBills: e.target.checked })}
+                    className="rounded"
+                  />
+                  Bills
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={printer.isActive}
+                    onChange={(e) => updatePrinter(printer.id, { isActive: e.target.checked })}
+                    className="rounded"
+                  />
+                  Active
+                </label>
+                <div className="ml-auto flex gap-2">
+                  <Button variant="outline" size="sm" className="gap-2" onClick={() => handleTest(printer)}>
+                    <Printer className="h-4 w-4" /> Test
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-500"
+                    onClick={() => confirm(`Remove ${printer.name}?`) && removePrinter(printer.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {preview && (
+          <pre className="overflow-x-auto rounded-xl bg-gray-900 p-4 font-mono text-xs leading-5 text-gray-100">{preview}</pre>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import { format, parseISO } from 'date-fns';
+import { formatCurrency, cn } from '../../../utils';
+import { PAYMENT_METHOD_LABELS } from '../../../utils/receipts';
+import type { POSShift, POSShiftReport } from '../../../types';
+
+interface ShiftReportViewProps {
+  shift: POSShift;
+  report: POSShiftReport;
+}
+
+function Breakdown({ title, totals, labels = {} }: { title: string; totals: Partial<Record<string, number>>; labels?: Partial<Record<string, string>> }) {
+  const rows = Object.entries(totals);
+  return (
+    <div>
+      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">{title}</p>
+      {rows.length ? (
+        <div className="space-y-1">
+          {rows.map(([key, amount]) => (
+            <div key={key} className="flex items-center justify-between text-sm">
+              <span className="capitalize text-gray-600">{labels[key] ?? key}</span>
+              <span className="font-medium text-gray-900">{formatCurrency(amount ?? 0)}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">Nothing yet</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * On-screen X or Z report for a cashier shift
+ */
+export function ShiftReportView({ shift, report }: ShiftReportViewProps) {
+  const variance = report.variance ?? 0;
+
+  return (
+    <div className="space-y-5 rounded-xl border border-gray-200 bg-white p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-semibold text-gray-900">
+            {report.kind}-Report · {shift.userName}
+          </p>
+          <p className="text-xs text-gray-500">
+            {format(parseISO(shift.openedAt), 'dd MMM HH:mm')} –{' '}
+            {format(parseISO(shift.closedAt ?? report.generatedAt), 'dd MMM HH:mm')} · {report.orderCount} orders
+          </p>
+        </div>
+        <p className="text-lg font-semibold text-gray-900">{formatCurrency(report.collected)}</p>
+      </div>
+
+      <div className="grid gap-5 md:grid-cols-3">
+        <Breakdown title="By payment method" totals={report.byMethod} labels={PAYMENT_METHOD_LABELS} />
+        <Breakdown title="By outlet" totals={report.byOutlet} />
+        <Breakdown title="By category" totals={report.byCategory} />
+      </div>
+
+      <div className="grid gap-2 rounded-lg bg-gray-50 p-3 text-sm sm:grid-cols-2">
+        <div className="flex justify-between"><span className="text-gray-600">Item sales</span><span>{formatCurrency(report.itemSales)}</span></div>
+        <div className="flex justify-between"><span className="text-gray-600">Service charge</span><span>{formatCurrency(report.serviceCharge)}</span></div>
+        <div className="flex justify-between"><span className="text-gray-600">Tax</span><span>{formatCurrency(report.tax)}</span></div>
+        <div className="flex justify-between"><span className="text-gray-600">Opening float</span><span>{formatCurrency(report.openingFloat)}</span></div>
+        <div className="flex justify-between"><span className="text-gray-600">Cash sales</span><span>{formatCurrency(report.cashSales)}</span></div>
+        <div className="flex justify-between"><span className="text-gray-600">Cash in / out</span><span>{formatCurrency(report.cashIn)} / {formatCurrency(report.cashOut)}</span></div>
+        <div className="flex justify-between font-semibold"><span>Expected cash</span><span>{formatCurrency(report.expectedCash)}</span></div>
+        {report.countedCash !== undefined && (
+          <>
+            <div className="flex justify-between font-semibold"><span>Counted cash</span><span>{formatCurrency(report.countedCash)}</span></div>
+            <div className={cn('flex justify-between font-semibold sm:col-span-2', variance < 0 ? 'text-red-600' : variance > 0 ? 'text-amber-600' : 'text-emerald-600')}>
+              <span>{variance < 0 ? 'Short' : variance > 0 ? 'Over' : 'Balanced'}</span>
+              <span>{formatCurrency(Math.abs(variance))}</span>
+            </div>
+          </>
+        )}
+      </div>
+      {shift.closingNotes && <p className="text-xs text-gray-500">Note: {shift.closingNotes}</p>}
+    </div>
+  );
+}
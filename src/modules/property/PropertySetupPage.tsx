@@ -1,15 +1,18 @@
 import { useEffect, useState } from 'react';
-import { Building2, BedDouble, DoorOpen, Layers, Receipt, UtensilsCrossed } from 'lucide-react';
+import { Building2, BedDouble, CalendarRange, CreditCard, DoorOpen, Layers, Receipt, ShieldCheck, UtensilsCrossed } from 'lucide-react';
 import { HotelProfileSection } from './components/HotelProfileSection.tsx';
 import { RoomTypesSection } from './components/RoomTypesSection.tsx';
+import { RateCalendarSection } from './components/RateCalendarSection.tsx';
+import { RatePoliciesSection } from './components/RatePoliciesSection.tsx';
 import { RoomInventorySection } from './components/RoomInventorySection.tsx';
 import { FloorsSection } from './components/FloorsSection.tsx';
 import { TaxConfigSection } from './components/TaxConfigSection.tsx';
 import { POSManagementSection } from './components/POSManagementSection.tsx';
+import { PaymentGatewaySection } from './components/PaymentGatewaySection.tsx';
 import { usePropertyStore } from '../../stores/propertyStore.ts';
 import { Button } from '../../components/ui/Button.tsx';
 
-type SetupStep = 'profile' | 'room-types' | 'inventory' | 'floors' | 'tax' | 'pos';
+type SetupStep = 'profile' | 'room-types' | 'rates' | 'policies' | 'inventory' | 'floors' | 'tax' | 'payments' | 'pos';
 
 interface Step {
   id: SetupStep;
@@ -20,9 +23,12 @@ interface Step {
 const steps: Step[] = [
   { id: 'profile', name: 'Hotel Profile', icon: Building2 },
   { id: 'room-types', name: 'Room Types', icon: BedDouble },
+  { id: 'rates', name: 'Rate Calendar', icon: CalendarRange },
+  { id: 'policies', name: 'Rate Policies', icon: ShieldCheck },
   { id: 'inventory', name: 'Room Inventory', icon: DoorOpen },
   { id: 'floors', name: 'Floors & Buildings', icon: Layers },
   { id: 'tax', name: 'Tax Configuration', icon: Receipt },
+  { id: 'payments', name: 'Payments', icon: CreditCard },
   { id: 'pos', name: 'POS Management', icon: UtensilsCrossed },
 ];
 
@@ -67,12 +73,18 @@ export function PropertySetupPage() {
         return <HotelProfileSection />;
       case 'room-types':
         return <RoomTypesSection />;
+      case 'rates':
+        return <RateCalendarSection />;
+      case 'policies':
+        return <RatePoliciesSection />;
       case 'inventory':
         return <RoomInventorySection />;
       case 'floors':
         return <FloorsSection />;
       case 'tax':
         return <TaxConfigSection />;
+      case 'payments':
+        return <PaymentGatewaySection />;
       case 'pos':
         return <POSManagementSection />;
       default:
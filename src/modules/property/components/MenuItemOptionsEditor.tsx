@@ -0,0 +1,244 @@
+import { nanoid } from 'nanoid/non-secure';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import type { POSComboSlot, POSMenuItem, POSMenuVariant, POSModifierGroup, POSModifierOption } from '../../../types';
+
+type MenuItemOptions = Pick<POSMenuItem, 'variants' | 'modifierGroups' | 'comboSlots'>;
+
+interface MenuItemOptionsEditorProps {
+  value: MenuItemOptions;
+  comboChoices: POSMenuItem[];
+  onChange: (updates: MenuItemOptions) => void;
+}
+
+/**
+ * Sizes, modifier groups and combo courses for a menu item
+ */
+export function MenuItemOptionsEditor({ value, comboChoices, onChange }: MenuItemOptionsEditorProps) {
+  const variants = value.variants ?? [];
+  const groups = value.modifierGroups ?? [];
+  const slots = value.comboSlots ?? [];
+
+  const setVariant = (variantId: string, updates: Partial<POSMenuVariant>) =>
+    onChange({ variants: variants.map((variant) => (variant.id === variantId ? { ...variant, ...updates } : variant)) });
+
+  const setGroup = (groupId: string, updates: Partial<POSModifierGroup>) =>
+    onChange({ modifierGroups: groups.map((group) => (group.id === groupId ? { ...group, ...updates } : group)) });
+
+  const setOption = (group: POSModifierGroup, optionId: string, updates: Partial<POSModifierOption>) =>
+    setGroup(group.id, {
+      options: group.options.map((option) => (option.id === optionId ? { ...option, ...updates } : option)),
+    });
+
+  const setSlot = (slotId: string, updates: Partial<POSComboSlot>) =>
+    onChange({ comboSlots: slots.map((slot) => (slot.id === slotId ? { ...slot, ...updates } : slot)) });
+
+  const toggleSlotItem = (slot: POSComboSlot, itemId: string) =>
+    setSlot(slot.id, {
+      itemIds: slot.itemIds.includes(itemId) ? slot.itemIds.filter((entry) => entry !== itemId) : [...slot.itemIds, itemId],
+    });
+
+  return (
+    <div className="space-y-5 rounded-lg border border-zinc-200 bg-white p-4">
+      {/* Sizes */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-zinc-900">Sizes</p>
+            <p className="text-xs text-zinc-500">Each size has its own price and replaces the base price</p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ variants: [...variants, { id: nanoid(8), name: '', price: 0 }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Size
+          </Button>
+        </div>
+        {variants.map((variant) => (
+          <div key={variant.id} className="flex items-end gap-2">
+            <Input
+              label="Size"
+              value={variant.name}
+              onChange={(e) => setVariant(variant.id, { name: e.target.value })}
+              placeholder="Large"
+              required
+            />
+            <Input
+              label="Price (₹)"
+              type="number"
+              value={variant.price}
+              onChange={(e) => setVariant(variant.id, { price: Number(e.target.value) || 0 })}
+              min="0"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-red-500"
+              onClick={() => onChange({ variants: variants.filter((entry) => entry.id !== variant.id) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {/* Modifier groups */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-zinc-900">Modifier Groups</p>
+            <p className="text-xs text-zinc-500">Set a minimum above 0 to make a choice required</p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              onChange({
+                modifierGroups: [...groups, { id: nanoid(8), name: '', minChoices: 0, maxChoices: 1, options: [] }],
+              })
+            }
+          >
+            <Plus className="h-4 w-4 mr-1" /> Group
+          </Button>
+        </div>
+        {groups.map((group) => (
+          <div key={group.id} className="space-y-2 rounded-lg border border-zinc-200 p-3">
+            <div className="flex items-end gap-2">
+              <Input
+                label="Group"
+                value={group.name}
+                onChange={(e) => setGroup(group.id, { name: e.target.value })}
+                placeholder="Spice level"
+                required
+              />
+              <Input
+                label="Min"
+                type="number"
+                value={group.minChoices}
+                onChange={(e) => setGroup(group.id, { minChoices: Math.max(Number(e.target.value) || 0, 0) })}
+                min="0"
+              />
+              <Input
+                label="Max"
+                type="number"
+                value={group.maxChoices}
+                onChange={(e) => setGroup(group.id, { maxChoices: Math.max(Number(e.target.value) || 1, 1) })}
+                min="1"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-red-500"
+                onClick={() => onChange({ modifierGroups: groups.filter((entry) => entry.id !== group.id) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {group.options.map((option) => (
+              <div key={option.id} className="flex items-center gap-2 pl-4">
+                <Input
+                  value={option.name}
+                  onChange={(e) => setOption(group, option.id, { name: e.target.value })}
+                  placeholder="Option"
+                  required
+                />
+                <Input
+                  type="number"
+                  value={option.priceDelta}
+                  onChange={(e) => setOption(group, option.id, { priceDelta: Number(e.target.value) || 0 })}
+                  placeholder="+₹"
+                />
+                <label className="flex items-center gap-1 text-xs text-zinc-600">
+                  <input
+                    type="checkbox"
+                    checked={option.isAvailable !== false}
+                    onChange={(e) => setOption(group, option.id, { isAvailable: e.target.checked })}
+                    className="rounded border-zinc-300"
+                  />
+                  Available
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-500"
+                  onClick={() => setGroup(group.id, { options: group.options.filter((entry) => entry.id !== option.id) })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="ml-4"
+              onClick={() => setGroup(group.id, { options: [...group.options, { id: nanoid(8), name: '', priceDelta: 0 }] })}
+            >
+              <Plus className="h-4 w-4 mr-1" /> Option
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {/* Combo courses */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-zinc-900">Combo Courses</p>
+            <p className="text-xs text-zinc-500">The guest picks one item per course; each prints at that item's station</p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ comboSlots: [...slots, { id: nanoid(8), name: '', itemIds: [] }] })}
+          >
+            <Plus className="h-4 w-4 mr-1" /> Course
+          </Button>
+        </div>
+        {slots.map((slot) => (
+          <div key={slot.id} className="space-y-2 rounded-lg border border-zinc-200 p-3">
+            <div className="flex items-end gap-2">
+              <Input
+                label="Course"
+                value={slot.name}
+                onChange={(e) => setSlot(slot.id, { name: e.target.value })}
+                placeholder="main"
+                required
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-red-500"
+                onClick={() => onChange({ comboSlots: slots.filter((entry) => entry.id !== slot.id) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-3 text-sm text-zinc-700">
+              {comboChoices.map((choice) => (
+                <label key={choice.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={slot.itemIds.includes(choice.id)}
+                    onChange={() => toggleSlotItem(slot, choice.id)}
+                    className="rounded border-zinc-300"
+                  />
+                  {choice.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
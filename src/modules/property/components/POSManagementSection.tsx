@@ -1,18 +1,35 @@
 import { useState } from 'react';
-import { Plus, Edit2, UtensilsCrossed, Coffee, IceCream, Package2, Grid3x3 } from 'lucide-react';
+import { Plus, Edit2, UtensilsCrossed, Coffee, IceCream, Package2, Grid3x3, Store } from 'lucide-react';
 import { Button } from '../../../components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/Card';
 import { Input } from '../../../components/ui/Input';
 import { Select } from '../../../components/ui/Select';
 import { Badge } from '../../../components/ui/Badge';
-import { usePOSStore } from '../../../stores/posStore';
+import { MenuItemOptionsEditor } from './MenuItemOptionsEditor';
+import { DEFAULT_OUTLET_ID, DEFAULT_TABLE_SECTION, outletIdOf, tableSectionOf, usePOSStore } from '../../../stores/posStore';
+import { FloorPlan } from '../../pos/components/FloorPlan';
 import { formatCurrency } from '../../../utils';
-import type { POSMenuItem, POSMenuCategory } from '../../../types';
+import type { ChargeCategory, POSMenuItem, POSMenuCategory, POSOutlet, POSOutletKind, POSTable, POSTableShape } from '../../../types';
 
-type TabType = 'menu' | 'tables';
+type TabType = 'menu' | 'tables' | 'outlets';
+
+const OUTLET_KIND_OPTIONS: Array<{ value: POSOutletKind; label: string }> = [
+  { value: 'restaurant', label: 'Restaurant' },
+  { value: 'bar', label: 'Bar' },
+  { value: 'room-service', label: 'Room Service' },
+  { value: 'cafe', label: 'Cafe' },
+];
+
+const FOLIO_CATEGORY_OPTIONS: Array<{ value: ChargeCategory; label: string }> = [
+  { value: 'restaurant', label: 'Restaurant' },
+  { value: 'mini-bar', label: 'Mini Bar' },
+  { value: 'other', label: 'Other' },
+];
 
 export function POSManagementSection() {
   const [activeTab, setActiveTab] = useState<TabType>('menu');
+  const outlets = usePOSStore((state) => state.outlets);
+  const [outletId, setOutletId] = useState(DEFAULT_OUTLET_ID);
 
   return (
     <div className="space-y-6">
@@ -48,20 +65,49 @@ export function POSManagementSection() {
         >
           <div className="flex items-center gap-2">
             <Grid3x3 className="h-4 w-4" />
-            Tables & Dining Rooms
+            Floor Plan
+          </div>
+        </button>
+        <button
+          onClick={() => setActiveTab('outlets')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+            activeTab === 'outlets'
+              ? 'border-primary-600 text-primary-600'
+              : 'border-transparent text-zinc-600 hover:text-zinc-900'
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            <Store className="h-4 w-4" />
+            Outlets
           </div>
         </button>
       </div>
 
+      {/* Menus and tables are kept per outlet */}
+      {activeTab !== 'outlets' && outlets.length > 1 && (
+        <div className="max-w-xs">
+          <Select
+            label="Outlet"
+            value={outletId}
+            onChange={(e) => setOutletId(e.target.value)}
+            options={outlets.map((outlet) => ({ value: outlet.id, label: outlet.name }))}
+          />
+        </div>
+      )}
+
       {/* Tab Content */}
-      {activeTab === 'menu' ? <MenuItemsManager /> : <TablesManager />}
+      {activeTab === 'menu' && <MenuItemsManager key={outletId} outletId={outletId} />}
+      {activeTab === 'tables' && <TablesManager key={outletId} outletId={outletId} />}
+      {activeTab === 'outlets' && <OutletsManager />}
     </div>
   );
 }
 
-function MenuItemsManager() {
-  const { menu, addMenuItem, updateMenuItem, toggleMenuAvailability } = usePOSStore();
+function MenuItemsManager({ outletId }: { outletId: string }) {
+  const { menu: allMenu, addMenuItem, updateMenuItem, toggleMenuAvailability } = usePOSStore();
+  const menu = allMenu.filter((item) => outletIdOf(item) === outletId);
   const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [formData, setFormData] = useState<Partial<POSMenuItem>>({
     name: '',
@@ -76,12 +122,18 @@ function MenuItemsManager() {
     e.preventDefault();
     if (!formData.name || !formData.price) return;
 
-    if (editingId) {
-      updateMenuItem(editingId, formData);
-      setEditingId(null);
-    } else {
-      addMenuItem(formData as Omit<POSMenuItem, 'id'>);
+    setError(null);
+    try {
+      if (editingId) {
+        updateMenuItem(editingId, formData);
+        setEditingId(null);
+      } else {
+        addMenuItem({ ...formData, outletId } as Omit<POSMenuItem, 'id'>);
+      }
       setIsAdding(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save menu item');
+      return;
     }
 
     setFormData({
@@ -103,6 +155,7 @@ function MenuItemsManager() {
   const handleCancel = () => {
     setIsAdding(false);
     setEditingId(null);
+    setError(null);
     setFormData({
       name: '',
       category: 'food',
@@ -140,6 +193,9 @@ function MenuItemsManager() {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+              )}
               <div className="grid grid-cols-2 gap-4">
                 <Input
                   label="Item Name"
@@ -193,6 +249,12 @@ function MenuItemsManager() {
                 onChange={(e) => setFormData({ ...formData, description: e.target.value })}
               />
 
+              <MenuItemOptionsEditor
+                value={formData}
+                comboChoices={menu.filter((item) => item.id !== editingId && !item.comboSlots?.length)}
+                onChange={(updates) => setFormData({ ...formData, ...updates })}
+              />
+
               <div className="flex items-center gap-2">
                 <input
                   type="checkbox"
@@ -255,6 +317,13 @@ function MenuItemsManager() {
                           <span className="text-xs text-zinc-500 capitalize">{item.category}</span>
                           <span className="text-xs text-zinc-400">•</span>
                           <span className="text-xs text-zinc-500">Printer: {item.printerRoute}</span>
+                          {item.variants?.length ? (
+                            <Badge variant="info">{item.variants.length} sizes</Badge>
+                          ) : null}
+                          {item.modifierGroups?.length ? (
+                            <Badge variant="default">{item.modifierGroups.map((group) => group.name).join(', ')}</Badge>
+                          ) : null}
+                          {item.comboSlots?.length ? <Badge variant="warning">Combo</Badge> : null}
                         </div>
                       </div>
                     </div>
@@ -285,41 +354,92 @@ function MenuItemsManager() {
   );
 }
 
-function TablesManager() {
-  const { tables } = usePOSStore();
+const TABLE_SHAPE_OPTIONS: Array<{ value: POSTableShape; label: string }> = [
+  { value: 'square', label: 'Square' },
+  { value: 'round', label: 'Round' },
+  { value: 'rectangle', label: 'Long' },
+];
+
+function TablesManager({ outletId }: { outletId: string }) {
+  const { tables: allTables, addTable, updateTable, deleteTable } = usePOSStore();
+  const tables = allTables.filter((table) => outletIdOf(table) === outletId);
+  const [extraSections, setExtraSections] = useState<string[]>([]);
+  const sections = Array.from(new Set([...tables.map(tableSectionOf), ...extraSections]));
+  const [section, setSection] = useState(sections[0] ?? DEFAULT_TABLE_SECTION);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isAdding, setIsAdding] = useState(false);
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<{ label: string; seats: number; shape: POSTableShape }>({
     label: '',
     seats: 2,
+    shape: 'square',
   });
 
+  const sectionTables = tables.filter((table) => tableSectionOf(table) === section);
+  const selected = tables.find((table) => table.id === selectedId);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // TODO: Implement addTable in posStore
-    console.log('Add table:', formData);
+    if (!formData.label.trim()) return;
+    const table = addTable({ label: formData.label.trim(), seats: formData.seats, shape: formData.shape, section, outletId, x: 50, y: 50 });
+    setSelectedId(table.id);
     setIsAdding(false);
-    setFormData({ label: '', seats: 2 });
+    setFormData({ label: '', seats: 2, shape: 'square' });
+  };
+
+  const handleAddSection = () => {
+    const name = prompt('Section name, e.g. Terrace')?.trim();
+    if (!name) return;
+    setExtraSections((current) => (current.includes(name) ? current : [...current, name]));
+    setSection(name);
+  };
+
+  const handleDelete = (table: POSTable) => {
+    if (table.activeOrderId) {
+      alert(`${table.label} has an open order; move or close it first`);
+      return;
+    }
+    if (confirm(`Remove ${table.label} from the floor plan?`)) {
+      deleteTable(table.id);
+      setSelectedId(null);
+    }
   };
 
   return (
     <div className="space-y-4">
-      {/* Add Button */}
-      {!isAdding && (
-        <Button onClick={() => setIsAdding(true)} variant="outline">
-          <Plus className="h-4 w-4 mr-2" />
-          Add Table
-        </Button>
-      )}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="inline-flex rounded-lg border border-zinc-200 bg-white p-1">
+          {sections.map((name) => (
+            <button
+              key={name}
+              onClick={() => setSection(name)}
+              className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                name === section ? 'bg-primary-600 text-white' : 'text-zinc-600 hover:bg-zinc-100'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+          <button onClick={handleAddSection} className="rounded-md px-3 py-1.5 text-sm font-medium text-zinc-500 hover:bg-zinc-100">
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+        {!isAdding && (
+          <Button onClick={() => setIsAdding(true)} variant="outline">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Table
+          </Button>
+        )}
+      </div>
 
       {/* Add Form */}
       {isAdding && (
         <Card className="border-primary-200 bg-primary-50">
           <CardHeader>
-            <CardTitle>Add New Table</CardTitle>
+            <CardTitle>Add Table to {section}</CardTitle>
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <Input
                   label="Table Label"
                   value={formData.label}
@@ -336,6 +456,12 @@ function TablesManager() {
                   min="1"
                   max="20"
                 />
+                <Select
+                  label="Shape"
+                  value={formData.shape}
+                  onChange={(e) => setFormData({ ...formData, shape: e.target.value as POSTableShape })}
+                  options={TABLE_SHAPE_OPTIONS}
+                />
               </div>
               <div className="flex gap-2">
                 <Button type="submit" variant="primary">Add Table</Button>
@@ -348,32 +474,259 @@ function TablesManager() {
         </Card>
       )}
 
-      {/* Tables List */}
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
-        {tables.map((table) => (
-          <Card key={table.id}>
-            <CardContent className="p-4">
-              <div className="text-center">
-                <Grid3x3 className="h-8 w-8 text-zinc-400 mx-auto mb-2" />
-                <h3 className="font-medium text-zinc-900">{table.label}</h3>
-                <p className="text-sm text-zinc-500 mt-1">{table.seats} seats</p>
-                <Badge variant="default" className="mt-2 capitalize">
-                  {table.status.replace('-', ' ')}
-                </Badge>
-              </div>
+      <div className="grid gap-4 lg:grid-cols-[1fr_18rem]">
+        <div>
+          <FloorPlan
+            tables={sectionTables}
+            selectedId={selected?.id}
+            onSelect={(table) => setSelectedId(table.id)}
+            onMove={(tableId, x, y) => updateTable(tableId, { x, y })}
+          />
+          <p className="mt-2 text-xs text-zinc-500">Drag tables to where they stand in the room; click one to edit it.</p>
+        </div>
+
+        {selected ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>{selected.label}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input
+                label="Label"
+                value={selected.label}
+                onChange={(e) => updateTable(selected.id, { label: e.target.value })}
+              />
+              <Input
+                label="Seats"
+                type="number"
+                min="1"
+                max="20"
+                value={selected.seats}
+                onChange={(e) => updateTable(selected.id, { seats: Math.max(parseInt(e.target.value) || 1, 1) })}
+              />
+              <Select
+                label="Shape"
+                value={selected.shape ?? 'square'}
+                onChange={(e) => updateTable(selected.id, { shape: e.target.value as POSTableShape })}
+                options={TABLE_SHAPE_OPTIONS}
+              />
+              <Select
+                label="Section"
+                value={tableSectionOf(selected)}
+                onChange={(e) => updateTable(selected.id, { section: e.target.value })}
+                options={sections.map((name) => ({ value: name, label: name }))}
+              />
+              <Badge variant="default" className="capitalize">
+                {selected.status.replace('-', ' ')}
+              </Badge>
+              <Button variant="danger" size="sm" className="w-full" onClick={() => handleDelete(selected)}>
+                Remove Table
+              </Button>
             </CardContent>
           </Card>
-        ))}
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Grid3x3 className="h-12 w-12 text-zinc-400 mx-auto mb-3" />
+              <p className="text-sm text-zinc-500">
+                {tables.length ? 'Select a table to edit it.' : 'No tables configured yet. Add your first table to get started.'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
       </div>
+    </div>
+  );
+}
+
+const EMPTY_OUTLET: Omit<POSOutlet, 'id' | 'kotSequence' | 'isActive'> = {
+  name: '',
+  kind: 'restaurant',
+  kotPrefix: '',
+  serviceChargePercent: 0,
+  taxPercent: 5,
+  pricesIncludeTax: false,
+  folioCategory: 'restaurant',
+};
+
+function OutletsManager() {
+  const { outlets, addOutlet, updateOutlet } = usePOSStore();
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_OUTLET);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      if (editingId) {
+        updateOutlet(editingId, formData);
+      } else {
+        addOutlet(formData);
+      }
+      handleCancel();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save outlet');
+    }
+  };
+
+  const handleEdit = (outlet: POSOutlet) => {
+    const { name, kind, kotPrefix, serviceChargePercent, taxPercent, pricesIncludeTax, folioCategory } = outlet;
+    setFormData({ name, kind, kotPrefix, serviceChargePercent, taxPercent, pricesIncludeTax, folioCategory });
+    setEditingId(outlet.id);
+    setIsAdding(true);
+  };
+
+  const handleCancel = () => {
+    setIsAdding(false);
+    setEditingId(null);
+    setFormData(EMPTY_OUTLET);
+  };
+
+  return (
+    <div className="space-y-4">
+      {!isAdding && (
+        <Button onClick={() => setIsAdding(true)} variant="outline">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Outlet
+        </Button>
+      )}
 
-      {tables.length === 0 && (
-        <Card>
-          <CardContent className="py-12 text-center">
-            <Grid3x3 className="h-12 w-12 text-zinc-400 mx-auto mb-3" />
-            <p className="text-sm text-zinc-500">No tables configured yet. Add your first table to get started.</p>
+      {isAdding && (
+        <Card className="border-primary-200 bg-primary-50">
+          <CardHeader>
+            <CardTitle>{editingId ? 'Edit Outlet' : 'Add New Outlet'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+              )}
+              <div className="grid grid-cols-3 gap-4">
+                <Input
+                  label="Outlet Name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+                <Select
+                  label="Type"
+                  value={formData.kind}
+                  onChange={(e) => setFormData({ ...formData, kind: e.target.value as POSOutletKind })}
+                  options={OUTLET_KIND_OPTIONS}
+                />
+                <Input
+                  label="KOT Prefix"
+                  value={formData.kotPrefix}
+                  onChange={(e) => setFormData({ ...formData, kotPrefix: e.target.value })}
+                  placeholder="RST"
+                  maxLength={5}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <Input
+                  label="Service Charge (%)"
+                  type="number"
+                  value={formData.serviceChargePercent}
+                  onChange={(e) => setFormData({ ...formData, serviceChargePercent: Number(e.target.value) || 0 })}
+                  min="0"
+                  max="20"
+                  step="0.5"
+                />
+                <Input
+                  label="GST (%)"
+                  type="number"
+                  value={formData.taxPercent}
+                  onChange={(e) => setFormData({ ...formData, taxPercent: Number(e.target.value) || 0 })}
+                  min="0"
+                  max="28"
+                  step="0.5"
+                />
+                <Select
+                  label="Room Charge Category"
+                  value={formData.folioCategory}
+                  onChange={(e) => setFormData({ ...formData, folioCategory: e.target.value as ChargeCategory })}
+                  options={FOLIO_CATEGORY_OPTIONS}
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="pricesIncludeTax"
+                  checked={formData.pricesIncludeTax}
+                  onChange={(e) => setFormData({ ...formData, pricesIncludeTax: e.target.checked })}
+                  className="rounded border-zinc-300"
+                />
+                <label htmlFor="pricesIncludeTax" className="text-sm text-zinc-700">
+                  Menu prices include GST
+                </label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" variant="primary">
+                  {editingId ? 'Update Outlet' : 'Add Outlet'}
+                </Button>
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
           </CardContent>
         </Card>
       )}
+
+      <div className="grid gap-3">
+        {outlets.map((outlet) => (
+          <Card key={outlet.id} className={!outlet.isActive ? 'opacity-60' : ''}>
+            <CardContent className="p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-start gap-3 flex-1">
+                  <div className="p-2 bg-zinc-100 rounded-lg">
+                    <Store className="h-5 w-5 text-zinc-600" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium text-zinc-900">{outlet.name}</h3>
+                      <Badge variant={outlet.isActive ? 'success' : 'default'}>
+                        {outlet.isActive ? 'Open' : 'Closed'}
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-zinc-500">
+                      <span className="capitalize">{outlet.kind.replace('-', ' ')}</span>
+                      <span className="text-zinc-400">•</span>
+                      <span>
+                        KOT {outlet.kotPrefix}-{String(outlet.kotSequence + 1).padStart(4, '0')} next
+                      </span>
+                      <span className="text-zinc-400">•</span>
+                      <span>Service {outlet.serviceChargePercent}%</span>
+                      <span className="text-zinc-400">•</span>
+                      <span>
+                        GST {outlet.taxPercent}%{outlet.pricesIncludeTax ? ' (included)' : ''}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateOutlet(outlet.id, { isActive: !outlet.isActive })}
+                  >
+                    {outlet.isActive ? 'Close' : 'Open'}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(outlet)}>
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Save } from 'lucide-react';
+import { usePaymentStore } from '../../../stores/paymentStore';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import type { PaymentProviderKind } from '../../../types';
+
+// Simulated payments are offered in development builds only
+const PROVIDER_OPTIONS: { value: PaymentProviderKind; label: string }[] = [
+  { value: 'gateway', label: 'Payment gateway (via backend)' },
+  ...(import.meta.env.DEV ? [{ value: 'mock' as const, label: 'Test mode (simulated payments)' }] : []),
+];
+
+export function PaymentGatewaySection() {
+  const { settings, updateSettings } = usePaymentStore();
+  const [formData, setFormData] = useState({
+    provider: settings.provider,
+    upiVpa: settings.upiVpa,
+    payeeName: settings.payeeName,
+    qrExpiryMinutes: settings.qrExpiryMinutes.toString(),
+  });
+  const [operationError, setOperationError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOperationError(null);
+    setSaved(false);
+    try {
+      updateSettings({
+        provider: formData.provider,
+        upiVpa: formData.upiVpa,
+        payeeName: formData.payeeName.trim(),
+        qrExpiryMinutes: Number.parseInt(formData.qrExpiryMinutes || '0', 10) || 0,
+      });
+      setSaved(true);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update payment settings.';
+      setOperationError(message);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Payments</h2>
+        <p className="text-sm text-gray-500">
+          UPI QR and card terminal collection used at billing, check-out and the POS
+        </p>
+      </div>
+
+      {operationError && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {operationError}
+        </div>
+      )}
+      {saved && (
+        <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          Payment settings saved.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          label="Provider"
+          value={formData.provider}
+          onChange={(e) => setFormData({ ...formData, provider: e.target.value as PaymentProviderKind })}
+          options={PROVIDER_OPTIONS}
+          helperText={
+            formData.provider === 'gateway'
+              ? 'Gateway keys and webhooks are configured on the server'
+              : 'Payments are confirmed with the simulate buttons; nothing is charged'
+          }
+        />
+        <Input
+          label="QR validity (minutes)"
+          type="number"
+          min="1"
+          value={formData.qrExpiryMinutes}
+          onChange={(e) => setFormData({ ...formData, qrExpiryMinutes: e.target.value })}
+          helperText="Unpaid UPI requests expire after this"
+        />
+        <Input
+          label="Hotel UPI ID"
+          placeholder="hotel@okbank"
+          value={formData.upiVpa}
+          onChange={(e) => setFormData({ ...formData, upiVpa: e.target.value })}
+          helperText="Credited when guests scan the QR"
+        />
+        <Input
+          label="Payee name"
+          placeholder="Defaults to the hotel name"
+          value={formData.payeeName}
+          onChange={(e) => setFormData({ ...formData, payeeName: e.target.value })}
+          helperText="Shown in the guest's UPI app"
+        />
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4 border-t">
+        <Button type="submit">
+          <Save className="h-4 w-4 mr-2" />
+          Save Settings
+        </Button>
+      </div>
+    </form>
+  );
+}
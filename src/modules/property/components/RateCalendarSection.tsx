@@ -0,0 +1,330 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Save, Eraser } from 'lucide-react';
+import { addDays, addMonths, eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, startOfMonth, startOfWeek, subMonths } from 'date-fns';
+import { usePropertyStore } from '../../../stores/propertyStore';
+import { useReservationStore } from '../../../stores/reservationStore';
+import { useRateCalendarStore, resolveDefaultRate } from '../../../stores/rateCalendarStore';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import { cn } from '../../../utils';
+
+const WEEKDAYS = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+];
+
+export function RateCalendarSection() {
+  const { roomTypes } = usePropertyStore();
+  const { ratePlans } = useReservationStore();
+  const { entries, error, setRates, clearRates } = useRateCalendarStore();
+  const [roomTypeId, setRoomTypeId] = useState(roomTypes[0]?.id ?? '');
+  const [ratePlanId, setRatePlanId] = useState(ratePlans[0]?.id ?? '');
+  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [operationError, setOperationError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    from: format(new Date(), 'yyyy-MM-dd'),
+    to: format(addDays(new Date(), 6), 'yyyy-MM-dd'),
+    weekdays: WEEKDAYS.map((day) => day.value),
+    rate: '',
+    minStay: '',
+    closedToArrival: false,
+    closedToDeparture: false,
+  });
+
+  useEffect(() => {
+    useRateCalendarStore.getState().hydrateFromBackend().catch(() => undefined);
+  }, []);
+
+  const roomType = roomTypes.find((rt) => rt.id === roomTypeId);
+  const ratePlan = ratePlans.find((rp) => rp.id === ratePlanId);
+  const defaultRate = roomType && ratePlan ? resolveDefaultRate(roomType, ratePlan) : 0;
+
+  const calendarDays = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(currentMonth)),
+    end: endOfWeek(endOfMonth(currentMonth)),
+  });
+
+  const entryFor = (date: Date) => {
+    const key = format(date, 'yyyy-MM-dd');
+    return entries.find((entry) => entry.roomTypeId === roomTypeId && entry.ratePlanId === ratePlanId && entry.date === key);
+  };
+
+  const toggleWeekday = (value: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(value)
+        ? prev.weekdays.filter((day) => day !== value)
+        : [...prev.weekdays, value],
+    }));
+  };
+
+  const handleSelectDate = (date: Date) => {
+    const key = format(date, 'yyyy-MM-dd');
+    const entry = entryFor(date);
+    setFormData((prev) => ({
+      ...prev,
+      from: key,
+      to: key,
+      rate: entry ? entry.rate.toString() : '',
+      minStay: entry?.minStay ? entry.minStay.toString() : '',
+      closedToArrival: entry?.closedToArrival ?? false,
+      closedToDeparture: entry?.closedToDeparture ?? false,
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOperationError(null);
+
+    if (!roomTypeId || !ratePlanId) {
+      setOperationError('Select a room type and rate plan first.');
+      return;
+    }
+    if (formData.to < formData.from) {
+      setOperationError('The end date must be on or after the start date.');
+      return;
+    }
+    if (!formData.weekdays.length) {
+      setOperationError('Select at least one day of the week.');
+      return;
+    }
+
+    const rate = formData.rate ? Number.parseFloat(formData.rate) : undefined;
+    if (rate !== undefined && (Number.isNaN(rate) || rate < 0)) {
+      setOperationError('Rate must be a positive number.');
+      return;
+    }
+    const minStay = formData.minStay ? Number.parseInt(formData.minStay, 10) : undefined;
+
+    const updated = setRates({
+      roomTypeId,
+      ratePlanId,
+      from: formData.from,
+      to: formData.to,
+      weekdays: formData.weekdays.length === WEEKDAYS.length ? undefined : formData.weekdays,
+      rate: rate ?? defaultRate,
+      restrictions: {
+        minStay: minStay && minStay > 1 ? minStay : undefined,
+        closedToArrival: formData.closedToArrival,
+        closedToDeparture: formData.closedToDeparture,
+      },
+    });
+
+    if (!updated.length) {
+      setOperationError('No dates in the selected range match the chosen days.');
+    }
+  };
+
+  const handleClear = () => {
+    if (!confirm('Remove calendar rates and restrictions for the selected range?')) {
+      return;
+    }
+    clearRates(roomTypeId, ratePlanId, formData.from, formData.to);
+  };
+
+  if (!roomTypes.length) {
+    return (
+      <div className="text-center py-12 text-sm text-gray-500">
+        Add room types before configuring the rate calendar.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Rate Calendar</h2>
+          <p className="text-sm text-gray-500">
+            Set per-date rates and stay restrictions. Dates without an entry use the room type base rate less the plan discount.
+          </p>
+        </div>
+      </div>
+
+      {(operationError || error) && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {operationError || error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          label="Room Type"
+          value={roomTypeId}
+          onChange={(e) => setRoomTypeId(e.target.value)}
+          options={roomTypes.map((rt) => ({ value: rt.id, label: `${rt.name} (${rt.shortCode})` }))}
+        />
+        <Select
+          label="Rate Plan"
+          value={ratePlanId}
+          onChange={(e) => setRatePlanId(e.target.value)}
+          options={ratePlans.map((rp) => ({ value: rp.id, label: rp.name }))}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Calendar */}
+        <div className="lg:col-span-2 rounded-lg border border-gray-200 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-gray-50">
+            <h3 className="text-sm font-semibold text-gray-900">{format(currentMonth, 'MMMM yyyy')}</h3>
+            <div className="flex border border-gray-300 rounded-lg overflow-hidden bg-white">
+              <button
+                type="button"
+                onClick={() => setCurrentMonth(subMonths(currentMonth, 1))}
+                className="px-3 py-1.5 hover:bg-gray-50 border-r border-gray-300"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setCurrentMonth(addMonths(currentMonth, 1))}
+                className="px-3 py-1.5 hover:bg-gray-50"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-7 border-b border-gray-200">
+            {WEEKDAYS.map((day) => (
+              <div key={day.value} className="px-2 py-2 text-center text-xs font-semibold text-gray-600 bg-gray-50">
+                {day.label}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {calendarDays.map((day) => {
+              const entry = entryFor(day);
+              const key = format(day, 'yyyy-MM-dd');
+              const isSelected = key >= formData.from && key <= formData.to;
+              return (
+                <button
+                  type="button"
+                  key={key}
+                  onClick={() => handleSelectDate(day)}
+                  className={cn(
+                    'min-h-[72px] border-b border-r border-gray-100 p-1.5 text-left hover:bg-gray-50',
+                    !isSameMonth(day, currentMonth) && 'bg-gray-50 text-gray-400',
+                    isSelected && 'ring-2 ring-inset ring-primary-400'
+                  )}
+                >
+                  <div className="text-xs font-medium">{format(day, 'd')}</div>
+                  <div className={cn('text-xs mt-1', entry ? 'font-semibold text-primary-700' : 'text-gray-500')}>
+                    ₹{(entry?.rate ?? defaultRate).toLocaleString()}
+                  </div>
+                  <div className="flex flex-wrap gap-0.5 mt-0.5">
+                    {entry?.minStay && (
+                      <span className="rounded bg-blue-100 px-1 text-[10px] text-blue-800">MIN{entry.minStay}</span>
+                    )}
+                    {entry?.closedToArrival && (
+                      <span className="rounded bg-red-100 px-1 text-[10px] text-red-800">CTA</span>
+                    )}
+                    {entry?.closedToDeparture && (
+                      <span className="rounded bg-orange-100 px-1 text-[10px] text-orange-800">CTD</span>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Bulk Update */}
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-gray-200 p-4">
+          <h3 className="text-sm font-semibold text-gray-900">Update Range</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="From"
+              type="date"
+              required
+              value={formData.from}
+              onChange={(e) => setFormData({ ...formData, from: e.target.value })}
+            />
+            <Input
+              label="To"
+              type="date"
+              required
+              value={formData.to}
+              min={formData.from}
+              onChange={(e) => setFormData({ ...formData, to: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <p className="mb-2 text-sm font-medium text-gray-900">Apply on</p>
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((day) => (
+                <button
+                  type="button"
+                  key={day.value}
+                  onClick={() => toggleWeekday(day.value)}
+                  className={cn(
+                    'rounded-md px-2 py-1 text-xs font-medium border',
+                    formData.weekdays.includes(day.value)
+                      ? 'bg-zinc-900 text-white border-zinc-900'
+                      : 'bg-white text-gray-600 border-gray-300'
+                  )}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Input
+            label="Rate per Night (₹)"
+            type="number"
+            min="0"
+            step="0.01"
+            value={formData.rate}
+            onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+            placeholder={defaultRate.toString()}
+            helperText="Leave blank to use the default rate"
+          />
+          <Input
+            label="Minimum Stay (nights)"
+            type="number"
+            min="1"
+            value={formData.minStay}
+            onChange={(e) => setFormData({ ...formData, minStay: e.target.value })}
+          />
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.closedToArrival}
+              onChange={(e) => setFormData({ ...formData, closedToArrival: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Closed to arrival
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.closedToDeparture}
+              onChange={(e) => setFormData({ ...formData, closedToDeparture: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Closed to departure
+          </label>
+
+          <div className="flex justify-between gap-2 pt-2 border-t">
+            <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+              <Eraser className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+            <Button type="submit" size="sm">
+              <Save className="h-4 w-4 mr-1" />
+              Apply
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Save } from 'lucide-react';
+import { useReservationStore } from '../../../stores/reservationStore';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  DEFAULT_DEPOSIT_POLICY,
+  POLICY_CHARGE_LABELS,
+  describeCancellationPolicy,
+  describeDepositPolicy,
+} from '../../../utils/policies';
+import type { CancellationPolicy, DepositPolicy, PolicyChargeType, RatePlan } from '../../../types';
+
+const CHARGE_OPTIONS = (Object.keys(POLICY_CHARGE_LABELS) as PolicyChargeType[]).map((value) => ({
+  value,
+  label: POLICY_CHARGE_LABELS[value],
+}));
+
+const toNumber = (value: string) => Number.parseFloat(value || '0') || 0;
+
+export function RatePoliciesSection() {
+  const { ratePlans } = useReservationStore();
+  const [ratePlanId, setRatePlanId] = useState(ratePlans[0]?.id ?? '');
+  const ratePlan = ratePlans.find((plan) => plan.id === ratePlanId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Deposit & Cancellation Policies</h2>
+        <p className="text-sm text-gray-500">
+          Applied to bookings on each rate plan when they are cancelled or marked as a no-show
+        </p>
+      </div>
+
+      <Select
+        label="Rate Plan"
+        value={ratePlanId}
+        onChange={(e) => setRatePlanId(e.target.value)}
+        options={ratePlans.map((plan) => ({ value: plan.id, label: plan.name }))}
+      />
+
+      {ratePlan ? (
+        <RatePolicyForm key={ratePlan.id} ratePlan={ratePlan} />
+      ) : (
+        <p className="text-sm text-gray-500">No rate plans configured.</p>
+      )}
+    </div>
+  );
+}
+
+function RatePolicyForm({ ratePlan }: { ratePlan: RatePlan }) {
+  const { updateRatePlan } = useReservationStore();
+  const deposit = ratePlan.depositPolicy ?? DEFAULT_DEPOSIT_POLICY;
+  const cancellation = ratePlan.cancellationPolicy ?? DEFAULT_CANCELLATION_POLICY;
+  const [formData, setFormData] = useState({
+    depositType: deposit.type,
+    depositPercentage: (deposit.percentage ?? 0).toString(),
+    dueDaysBeforeArrival: deposit.dueDaysBeforeArrival.toString(),
+    freeCancellationHours: cancellation.freeCancellationHours.toString(),
+    nonRefundable: cancellation.nonRefundable,
+    penalty: cancellation.penalty,
+    penaltyPercentage: (cancellation.penaltyPercentage ?? 0).toString(),
+    noShowPenalty: cancellation.noShowPenalty,
+    noShowPercentage: (cancellation.noShowPercentage ?? 0).toString(),
+  });
+  const [operationError, setOperationError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const depositPolicy: DepositPolicy = {
+    type: formData.depositType,
+    percentage: formData.depositType === 'percentage' ? toNumber(formData.depositPercentage) : undefined,
+    dueDaysBeforeArrival: Math.round(toNumber(formData.dueDaysBeforeArrival)),
+  };
+  const cancellationPolicy: CancellationPolicy = {
+    freeCancellationHours: toNumber(formData.freeCancellationHours),
+    nonRefundable: formData.nonRefundable,
+    penalty: formData.penalty,
+    penaltyPercentage: formData.penalty === 'percentage' ? toNumber(formData.penaltyPercentage) : undefined,
+    noShowPenalty: formData.noShowPenalty,
+    noShowPercentage: formData.noShowPenalty === 'percentage' ? toNumber(formData.noShowPercentage) : undefined,
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOperationError(null);
+    setSaved(false);
+
+    const percentages = [depositPolicy.percentage, cancellationPolicy.penaltyPercentage, cancellationPolicy.noShowPercentage];
+    if (percentages.some((value) => value !== undefined && (value <= 0 || value > 100))) {
+      setOperationError('Percentages must be between 1 and 100.');
+      return;
+    }
+    if (depositPolicy.dueDaysBeforeArrival < 0 || cancellationPolicy.freeCancellationHours < 0) {
+      setOperationError('Days and hours before arrival cannot be negative.');
+      return;
+    }
+
+    updateRatePlan(ratePlan.id, { depositPolicy, cancellationPolicy });
+    setSaved(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {operationError && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {operationError}
+        </div>
+      )}
+      {saved && (
+        <div className="rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">
+          Policies saved for {ratePlan.name}.
+        </div>
+      )}
+
+      {/* Deposit */}
+      <div className="space-y-4">
+        <div className="pb-4 border-b">
+          <h3 className="text-sm font-semibold text-gray-900">Advance Deposit</h3>
+          <p className="text-sm text-gray-500">{describeDepositPolicy(depositPolicy)}</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Select
+            label="Deposit"
+            value={formData.depositType}
+            onChange={(e) => setFormData({ ...formData, depositType: e.target.value as PolicyChargeType })}
+            options={CHARGE_OPTIONS}
+          />
+          {formData.depositType === 'percentage' && (
+            <Input
+              label="Deposit (%)"
+              type="number"
+              min="1"
+              max="100"
+              value={formData.depositPercentage}
+              onChange={(e) => setFormData({ ...formData, depositPercentage: e.target.value })}
+            />
+          )}
+          {formData.depositType !== 'none' && (
+            <Input
+              label="Due (days before arrival)"
+              type="number"
+              min="0"
+              value={formData.dueDaysBeforeArrival}
+              onChange={(e) => setFormData({ ...formData, dueDaysBeforeArrival: e.target.value })}
+              helperText="Bookings made later owe it right away"
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Cancellation */}
+      <div className="space-y-4">
+        <div className="pb-4 border-b">
+          <h3 className="text-sm font-semibold text-gray-900">Cancellation & No-Show</h3>
+          <p className="text-sm text-gray-500">{describeCancellationPolicy(cancellationPolicy)}</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Select
+            label="Cancellation penalty"
+            value={formData.penalty}
+            onChange={(e) => setFormData({ ...formData, penalty: e.target.value as PolicyChargeType })}
+            options={CHARGE_OPTIONS}
+          />
+          {formData.penalty === 'percentage' && (
+            <Input
+              label="Penalty (%)"
+              type="number"
+              min="1"
+              max="100"
+              value={formData.penaltyPercentage}
+              onChange={(e) => setFormData({ ...formData, penaltyPercentage: e.target.value })}
+            />
+          )}
+          {formData.penalty !== 'none' && !formData.nonRefundable && (
+            <Input
+              label="Free until (hours before arrival)"
+              type="number"
+              min="0"
+              value={formData.freeCancellationHours}
+              onChange={(e) => setFormData({ ...formData, freeCancellationHours: e.target.value })}
+            />
+          )}
+        </div>
+        {formData.penalty !== 'none' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.nonRefundable}
+              onChange={(e) => setFormData({ ...formData, nonRefundable: e.target.checked })}
+            />
+            Non-refundable: charge the penalty however early the booking is cancelled
+          </label>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Select
+            label="No-show fee"
+            value={formData.noShowPenalty}
+            onChange={(e) => setFormData({ ...formData, noShowPenalty: e.target.value as PolicyChargeType })}
+            options={CHARGE_OPTIONS}
+          />
+          {formData.noShowPenalty === 'percentage' && (
+            <Input
+              label="No-show fee (%)"
+              type="number"
+              min="1"
+              max="100"
+              value={formData.noShowPercentage}
+              onChange={(e) => setFormData({ ...formData, noShowPercentage: e.target.value })}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4 border-t">
+        <Button type="submit">
+          <Save className="h-4 w-4 mr-2" />
+          Save Policies
+        </Button>
+      </div>
+    </form>
+  );
+}
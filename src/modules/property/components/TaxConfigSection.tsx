@@ -1,8 +1,25 @@
 import { useState, useEffect } from 'react';
-import { Save } from 'lucide-react';
+import { nanoid } from 'nanoid/non-secure';
+import { Plus, Save, Trash2 } from 'lucide-react';
 import { usePropertyStore } from '../../../stores/propertyStore';
 import { Button } from '../../../components/ui/Button';
 import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import { INDIAN_HOTEL_TAX_SLABS, resolveTaxRate } from '../../../utils/gst';
+import type { TaxRule } from '../../../types';
+
+const RULE_CATEGORY_OPTIONS: { value: TaxRule['category']; label: string }[] = [
+  { value: 'all', label: 'All charges' },
+  { value: 'room', label: 'Room' },
+  { value: 'extra-bed', label: 'Extra Bed' },
+  { value: 'restaurant', label: 'Food & Beverage' },
+  { value: 'mini-bar', label: 'Mini Bar' },
+  { value: 'laundry', label: 'Laundry' },
+  { value: 'transport', label: 'Transport' },
+  { value: 'late-checkout', label: 'Late Checkout' },
+  { value: 'early-checkin', label: 'Early Check-in' },
+  { value: 'other', label: 'Other' },
+];
 
 export function TaxConfigSection() {
   const { taxConfig, updateTaxConfig } = usePropertyStore();
@@ -15,6 +32,7 @@ export function TaxConfigSection() {
     serviceChargePercentage: '10',
     luxuryTaxEnabled: false,
     luxuryTaxPercentage: '0',
+    taxRules: [] as TaxRule[],
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [operationError, setOperationError] = useState<string | null>(null);
@@ -30,6 +48,7 @@ export function TaxConfigSection() {
         serviceChargePercentage: taxConfig.serviceChargePercentage.toString(),
         luxuryTaxEnabled: taxConfig.luxuryTaxEnabled,
         luxuryTaxPercentage: taxConfig.luxuryTaxPercentage.toString(),
+        taxRules: taxConfig.taxRules ?? [],
       });
       setOperationError(null);
     }
@@ -52,6 +71,7 @@ export function TaxConfigSection() {
         serviceChargePercentage: toNumber(formData.serviceChargePercentage),
         luxuryTaxEnabled: formData.luxuryTaxEnabled,
         luxuryTaxPercentage: toNumber(formData.luxuryTaxPercentage),
+        taxRules: formData.taxRules,
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to update tax configuration.';
@@ -61,10 +81,63 @@ export function TaxConfigSection() {
     }
   };
 
+  const updateRule = (id: string, updates: Partial<TaxRule>) => {
+    setFormData((prev) => ({
+      ...prev,
+      taxRules: prev.taxRules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)),
+    }));
+  };
+
+  const addRule = () => {
+    setFormData((prev) => ({
+      ...prev,
+      taxRules: [
+        ...prev.taxRules,
+        {
+          id: nanoid(8),
+          category: 'room',
+          minTariff: 0,
+          rate: toAmount(prev.cgst) + toAmount(prev.sgst),
+          effectiveFrom: new Date().toISOString().slice(0, 10),
+        },
+      ],
+    }));
+  };
+
+  const loadStandardSlabs = () => {
+    if (formData.taxRules.length && !confirm('Replace the current tax rules with the standard hotel GST slabs?')) {
+      return;
+    }
+    setFormData((prev) => ({
+      ...prev,
+      taxRules: INDIAN_HOTEL_TAX_SLABS.map((rule) => ({ ...rule, id: nanoid(8) })),
+    }));
+  };
+
+  const removeRule = (id: string) => {
+    setFormData((prev) => ({ ...prev, taxRules: prev.taxRules.filter((rule) => rule.id !== id) }));
+  };
+
   const toAmount = (value: string) => Number.parseFloat(value || '0') || 0;
   const sampleBase = 10000;
   const serviceChargeValue = formData.serviceChargeEnabled ? (sampleBase * toAmount(formData.serviceChargePercentage)) / 100 : 0;
-  const gstValue = formData.gstEnabled ? (sampleBase * (toAmount(formData.cgst) + toAmount(formData.sgst))) / 100 : 0;
+  const sampleGstRate = resolveTaxRate(
+    {
+      id: 'preview',
+      gstEnabled: formData.gstEnabled,
+      cgst: toAmount(formData.cgst),
+      sgst: toAmount(formData.sgst),
+      igst: toAmount(formData.igst),
+      serviceChargeEnabled: formData.serviceChargeEnabled,
+      serviceChargePercentage: toAmount(formData.serviceChargePercentage),
+      luxuryTaxEnabled: formData.luxuryTaxEnabled,
+      luxuryTaxPercentage: toAmount(formData.luxuryTaxPercentage),
+      taxRules: formData.taxRules,
+    },
+    'room',
+    sampleBase
+  );
+  const gstValue = formData.gstEnabled ? (sampleBase * sampleGstRate) / 100 : 0;
   const luxuryValue = formData.luxuryTaxEnabled ? (sampleBase * toAmount(formData.luxuryTaxPercentage)) / 100 : 0;
   const totalAmount = sampleBase + serviceChargeValue + gstValue + luxuryValue;
 
@@ -132,6 +205,120 @@ export function TaxConfigSection() {
             />
           </div>
         )}
+
+        {formData.gstEnabled && (
+          <div className="space-y-3 pl-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900">Tariff Slab Rules</h4>
+                <p className="text-xs text-gray-500">
+                  Rates by charge category and per-night or per-unit tariff. Charges without a matching rule use CGST + SGST above.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={loadStandardSlabs}>
+                  Load Hotel Slabs
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={addRule}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Rule
+                </Button>
+              </div>
+            </div>
+
+            {formData.taxRules.length > 0 ? (
+              <div className="overflow-x-auto rounded-lg border border-gray-200">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 text-left text-xs font-semibold uppercase text-gray-500">
+                    <tr>
+                      <th className="px-3 py-2">Category</th>
+                      <th className="px-3 py-2">Tariff From (₹)</th>
+                      <th className="px-3 py-2">Tariff To (₹)</th>
+                      <th className="px-3 py-2">GST %</th>
+                      <th className="px-3 py-2">Effective From</th>
+                      <th className="px-3 py-2">Effective To</th>
+                      <th className="px-3 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {formData.taxRules.map((rule) => (
+                      <tr key={rule.id}>
+                        <td className="px-3 py-2">
+                          <Select
+                            value={rule.category}
+                            onChange={(e) => updateRule(rule.id, { category: e.target.value as TaxRule['category'] })}
+                            options={RULE_CATEGORY_OPTIONS}
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={rule.minTariff}
+                            onChange={(e) => updateRule(rule.id, { minTariff: toAmount(e.target.value) })}
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder="No limit"
+                            value={rule.maxTariff ?? ''}
+                            onChange={(e) =>
+                              updateRule(rule.id, { maxTariff: e.target.value ? toAmount(e.target.value) : undefined })
+                            }
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            step="0.01"
+                            value={rule.rate}
+                            onChange={(e) => updateRule(rule.id, { rate: toAmount(e.target.value) })}
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <Input
+                            type="date"
+                            required
+                            value={rule.effectiveFrom}
+                            onChange={(e) => updateRule(rule.id, { effectiveFrom: e.target.value })}
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <Input
+                            type="date"
+                            value={rule.effectiveTo ?? ''}
+                            min={rule.effectiveFrom}
+                            onChange={(e) => updateRule(rule.id, { effectiveTo: e.target.value || undefined })}
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <button
+                            type="button"
+                            onClick={() => removeRule(rule.id)}
+                            className="rounded-lg p-2 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                            title="Remove rule"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 px-4 py-3 text-xs text-gray-500">
+                No slab rules configured. Every charge is taxed at CGST + SGST.
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Service Charge */}
@@ -220,7 +407,7 @@ export function TaxConfigSection() {
           )}
           {formData.gstEnabled && (
             <div className="flex justify-between text-primary-600">
-              <span>GST (CGST {formData.cgst}% + SGST {formData.sgst}%)</span>
+              <span>GST on a room night ({sampleGstRate}%)</span>
               <span className="font-medium">
                 ₹{gstValue.toFixed(2)}
               </span>
@@ -0,0 +1,323 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  PieChart,
+  Pie,
+  Cell,
+  BarChart,
+  Bar,
+} from 'recharts';
+import { BarChart3, CalendarClock, Download, FileText } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardDescription, CardTitle } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { useReservationStore } from '../../stores/reservationStore';
+import { usePropertyStore } from '../../stores/propertyStore';
+import { useFolioStore } from '../../stores/folioStore';
+import { useAuthStore } from '../../stores/authStore';
+import { cn } from '../../utils';
+import { buildReport, formatReportValue, reportToCsv, reportToHtml, REPORT_TITLES } from '../../utils/reports';
+import type { Report, ReportChart, ReportType } from '../../types';
+import { ReportSchedulesPanel } from './components/ReportSchedulesPanel';
+
+type ViewMode = 'reports' | 'schedules';
+
+const REPORT_TYPES = Object.keys(REPORT_TITLES) as ReportType[];
+
+const CHART_COLORS = ['#18181b', '#71717a', '#22c55e', '#f97316', '#3b82f6', '#a855f7', '#eab308', '#ef4444'];
+
+export function ReportsPage() {
+  const { reservations } = useReservationStore();
+  const { rooms, roomTypes, hotelProfile } = usePropertyStore();
+  const { entries } = useFolioStore();
+  const { user } = useAuthStore();
+
+  const [viewMode, setViewMode] = useState<ViewMode>('reports');
+  const [type, setType] = useState<ReportType>('occupancy');
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  const result = useMemo((): { report: Report | null; error: string | null } => {
+    try {
+      const report = buildReport(
+        type,
+        { from, to },
+        { reservations, rooms, roomTypes, folioEntries: entries },
+        user?.name ?? 'System'
+      );
+      return { report, error: null };
+    } catch (err) {
+      return { report: null, error: err instanceof Error ? err.message : 'Unable to build the report' };
+    }
+  }, [type, from, to, reservations, rooms, roomTypes, entries, user?.name]);
+
+  const { report, error } = result;
+  const fileName = `${type}-${from}-to-${to}`;
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    const blob = new Blob([reportToCsv(report)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The browser print dialog saves the report as PDF
+  const handleExportPdf = () => {
+    if (!report) return;
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(reportToHtml(report, hotelProfile?.name));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+      printWindow.close();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
+          <p className="mt-1 text-sm text-gray-500">Operational and financial reports for any date range</p>
+        </div>
+        <div className="flex gap-3">
+          {viewMode === 'reports' && (
+            <>
+              <Button variant="outline" onClick={handleExportCsv} disabled={!report}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+              <Button variant="outline" onClick={handleExportPdf} disabled={!report}>
+                <FileText className="mr-2 h-4 w-4" />
+                Export PDF
+              </Button>
+            </>
+          )}
+          <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1">
+            <button
+              onClick={() => setViewMode('reports')}
+              className={cn(
+                'inline-flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                viewMode === 'reports' ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900'
+              )}
+            >
+              <BarChart3 className="h-4 w-4" />
+              Reports
+            </button>
+            <button
+              onClick={() => setViewMode('schedules')}
+              className={cn(
+                'inline-flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                viewMode === 'schedules' ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900'
+              )}
+            >
+              <CalendarClock className="h-4 w-4" />
+              Schedules
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {viewMode === 'schedules' && <ReportSchedulesPanel />}
+
+      {viewMode === 'reports' && (
+        <>
+          <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+            <div className="inline-flex flex-wrap rounded-lg border border-gray-200 bg-white p-1">
+              {REPORT_TYPES.map((reportType) => (
+                <button
+                  key={reportType}
+                  onClick={() => setType(reportType)}
+                  className={cn(
+                    'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                    type === reportType ? 'bg-gray-100 text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                  )}
+                >
+                  {REPORT_TITLES[reportType].replace(/ Report$/, '')}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <Input type="date" label="From" value={from} max={to} onChange={(event) => setFrom(event.target.value)} />
+              <Input type="date" label="To" value={to} min={from} onChange={(event) => setTo(event.target.value)} />
+            </div>
+          </div>
+
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {report && (
+            <>
+              <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+                {report.data.summary.map((metric) => (
+                  <Card key={metric.label}>
+                    <CardContent className="pt-6">
+                      <p className="text-sm font-medium text-zinc-600">{metric.label}</p>
+                      <p className="mt-2 text-2xl font-bold text-zinc-950">{formatReportValue(metric.value, metric.format)}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </section>
+
+              {report.data.chart && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{report.title}</CardTitle>
+                    <CardDescription>
+                      {format(parseISO(report.dateRange.from), 'MMM d, yyyy')} – {format(parseISO(report.dateRange.to), 'MMM d, yyyy')}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="h-[320px]">
+                    {report.data.chart.data.length ? (
+                      <ReportChartView chart={report.data.chart} />
+                    ) : (
+                      <EmptyState message="No data for the selected range." />
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Details</CardTitle>
+                  <CardDescription>{report.data.rows.length} row(s)</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {report.data.rows.length ? (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-zinc-200 text-sm">
+                        <thead>
+                          <tr>
+                            {report.data.columns.map((col) => (
+                              <th
+                                key={col.key}
+                                className={cn(
+                                  'px-3 py-2 font-medium text-zinc-500',
+                                  col.format === 'text' ? 'text-left' : 'text-right'
+                                )}
+                              >
+                                {col.label}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-zinc-100">
+                          {report.data.rows.map((row, index) => (
+                            <tr key={index} className="hover:bg-zinc-50">
+                              {report.data.columns.map((col) => (
+                                <td
+                                  key={col.key}
+                                  className={cn(
+                                    'whitespace-nowrap px-3 py-2 text-zinc-700',
+                                    col.format === 'text' ? 'text-left' : 'text-right'
+                                  )}
+                                >
+                                  {formatReportValue(row[col.key], col.format)}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <div className="h-32">
+                      <EmptyState message="Nothing to report for the selected range." />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function ReportChartView({ chart }: { chart: ReportChart }) {
+  if (chart.kind === 'pie') {
+    const series = chart.series[0];
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <PieChart>
+          <Pie data={chart.data} dataKey={series.key} nameKey={chart.xKey} innerRadius={60} outerRadius={110} paddingAngle={4}>
+            {chart.data.map((datum, index) => (
+              <Cell key={String(datum[chart.xKey])} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip />
+          <Legend />
+        </PieChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  if (chart.kind === 'line') {
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chart.data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e4e4e7" />
+          <XAxis dataKey={chart.xKey} stroke="#71717a" style={{ fontSize: '12px' }} />
+          <YAxis stroke="#71717a" style={{ fontSize: '12px' }} />
+          <Tooltip />
+          <Legend />
+          {chart.series.map((series, index) => (
+            <Line
+              key={series.key}
+              type="monotone"
+              dataKey={series.key}
+              name={series.label}
+              stroke={CHART_COLORS[index % CHART_COLORS.length]}
+              strokeWidth={2}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={chart.data}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis dataKey={chart.xKey} stroke="#6b7280" style={{ fontSize: '12px' }} />
+        <YAxis stroke="#6b7280" style={{ fontSize: '12px' }} />
+        <Tooltip />
+        <Legend />
+        {chart.series.map((series, index) => (
+          <Bar
+            key={series.key}
+            dataKey={series.key}
+            name={series.label}
+            fill={CHART_COLORS[index % CHART_COLORS.length]}
+            radius={[4, 4, 0, 0]}
+          />
+        ))}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+function EmptyState({ message }: { message: string }) {
+  return (
+    <div className="flex h-full items-center justify-center rounded-lg border border-dashed border-zinc-300 bg-zinc-50 text-sm text-zinc-500">
+      {message}
+    </div>
+  );
+}
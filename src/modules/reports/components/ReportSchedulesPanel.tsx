@@ -0,0 +1,366 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { nanoid } from 'nanoid/non-secure';
+import { Plus, Send, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardDescription, CardTitle } from '../../../components/ui/Card';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import { Badge } from '../../../components/ui/Badge';
+import { whatsappApi } from '../../../services/advancedFeaturesApi';
+import { hasReportTransport } from '../../../services/reportTransports';
+import { useReportScheduleStore, type ReportScheduleInput } from '../../../stores/reportScheduleStore';
+import { REPORT_TITLES } from '../../../utils/reports';
+import type {
+  ReportDeliveryChannel,
+  ReportDeliveryFormat,
+  ReportRecipient,
+  ReportScheduleFrequency,
+  ReportType,
+  WhatsAppTemplate,
+} from '../../../types';
+
+const FREQUENCY_OPTIONS: { value: ReportScheduleFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily (previous day)' },
+  { value: 'weekly', label: 'Weekly (previous 7 days)' },
+  { value: 'monthly', label: 'Monthly (previous month)' },
+];
+
+const FORMAT_OPTIONS: { value: ReportDeliveryFormat; label: string }[] = [
+  { value: 'text', label: 'Summary only' },
+  { value: 'csv', label: 'Summary + CSV' },
+  { value: 'html', label: 'Summary + printable report' },
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const CHANNEL_LABELS: Record<ReportDeliveryChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+};
+
+const emptyForm = (): ReportScheduleInput => ({
+  name: "Manager's flash",
+  reportType: 'manager-flash',
+  frequency: 'daily',
+  sendTime: '07:00',
+  dayOfWeek: 1,
+  dayOfMonth: 1,
+  format: 'text',
+  recipients: [],
+  whatsappTemplateId: undefined,
+  isActive: true,
+});
+
+export function ReportSchedulesPanel() {
+  const { schedules, deliveries, createSchedule, updateSchedule, deleteSchedule, runSchedule } = useReportScheduleStore();
+  const [templates, setTemplates] = useState<WhatsAppTemplate[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    whatsappApi
+      .getTemplates()
+      .then((items) => setTemplates(items.filter((template) => template.isActive)))
+      .catch(() => setTemplates([]));
+  }, []);
+
+  const handleSendNow = async (id: string) => {
+    setError(null);
+    setRunningId(id);
+    try {
+      const results = await runSchedule(id);
+      const failed = results.filter((delivery) => delivery.status === 'failed');
+      if (failed.length) {
+        setError(`${failed.length} of ${results.length} deliveries failed: ${failed[0].error}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to send the report');
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleToggle = (id: string, isActive: boolean) => {
+    setError(null);
+    try {
+      updateSchedule(id, { isActive });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the schedule');
+    }
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (confirm(`Delete the schedule "${name}"?`)) {
+      deleteSchedule(id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Scheduled Reports</CardTitle>
+            <CardDescription>Reports sent automatically while the PMS is open</CardDescription>
+          </div>
+          {!showForm && (
+            <Button size="sm" onClick={() => setShowForm(true)}>
+              <Plus className="mr-1 h-4 w-4" />
+              New Schedule
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {showForm && (
+            <ScheduleForm
+              templates={templates}
+              onCancel={() => setShowForm(false)}
+              onSubmit={(input) => {
+                createSchedule(input);
+                setShowForm(false);
+              }}
+            />
+          )}
+
+          {schedules.length === 0 && !showForm && (
+            <p className="text-sm text-zinc-500">No scheduled reports yet.</p>
+          )}
+
+          {schedules.map((schedule) => (
+            <div key={schedule.id} className="flex flex-col gap-3 rounded-lg border border-zinc-200 p-4 md:flex-row md:items-center md:justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-zinc-900">{schedule.name}</p>
+                  <Badge variant={schedule.isActive ? 'success' : 'secondary'}>{schedule.isActive ? 'Active' : 'Paused'}</Badge>
+                </div>
+                <p className="text-sm text-zinc-600">
+                  {REPORT_TITLES[schedule.reportType]} · {schedule.frequency}
+                  {schedule.frequency === 'weekly' && ` on ${WEEKDAYS[schedule.dayOfWeek ?? 1]}`}
+                  {schedule.frequency === 'monthly' && ` on day ${schedule.dayOfMonth ?? 1}`} at {schedule.sendTime}
+                </p>
+                <p className="text-xs text-zinc-500">
+                  To {schedule.recipients.map((recipient) => `${recipient.name} (${CHANNEL_LABELS[recipient.channel]})`).join(', ')}
+                </p>
+                <p className="text-xs text-zinc-500">
+                  {schedule.isActive ? `Next run ${format(new Date(schedule.nextRunAt), 'MMM d, h:mm a')}` : 'Paused'}
+                  {schedule.lastRunAt && ` · Last sent ${format(new Date(schedule.lastRunAt), 'MMM d, h:mm a')}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleSendNow(schedule.id)}
+                  isLoading={runningId === schedule.id}
+                  disabled={runningId !== null}
+                >
+                  <Send className="mr-1 h-4 w-4" />
+                  Send now
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleToggle(schedule.id, !schedule.isActive)}>
+                  {schedule.isActive ? 'Pause' : 'Resume'}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(schedule.id, schedule.name)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery History</CardTitle>
+          <CardDescription>Every delivery is also recorded in the transaction log</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length ? (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-zinc-200 text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-500">
+                    <th className="px-3 py-2 font-medium">Sent</th>
+                    <th className="px-3 py-2 font-medium">Report</th>
+                    <th className="px-3 py-2 font-medium">Period</th>
+                    <th className="px-3 py-2 font-medium">Recipient</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-100">
+                  {deliveries.slice(0, 50).map((delivery) => (
+                    <tr key={delivery.id}>
+                      <td className="whitespace-nowrap px-3 py-2 text-zinc-700">{format(new Date(delivery.deliveredAt), 'MMM d, h:mm a')}</td>
+                      <td className="px-3 py-2 text-zinc-700">{delivery.reportTitle}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-zinc-700">
+                        {delivery.dateRange.from === delivery.dateRange.to
+                          ? delivery.dateRange.from
+                          : `${delivery.dateRange.from} – ${delivery.dateRange.to}`}
+                      </td>
+                      <td className="px-3 py-2 text-zinc-700">
+                        {delivery.recipientName} · {CHANNEL_LABELS[delivery.channel]} {delivery.address}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Badge variant={delivery.status === 'sent' ? 'success' : 'danger'}>{delivery.status}</Badge>
+                        {delivery.error && <p className="mt-1 text-xs text-red-600">{delivery.error}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-zinc-500">No reports delivered yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface ScheduleFormProps {
+  templates: WhatsAppTemplate[];
+  onCancel: () => void;
+  onSubmit: (input: ReportScheduleInput) => void;
+}
+
+function ScheduleForm({ templates, onCancel, onSubmit }: ScheduleFormProps) {
+  const [form, setForm] = useState<ReportScheduleInput>(emptyForm);
+  const [recipient, setRecipient] = useState<Omit<ReportRecipient, 'id'>>({ name: '', channel: 'whatsapp', address: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  // Only channels with a registered transport can be picked
+  const channelOptions = (Object.keys(CHANNEL_LABELS) as ReportDeliveryChannel[])
+    .filter((channel) => hasReportTransport(channel))
+    .map((channel) => ({ value: channel, label: CHANNEL_LABELS[channel] }));
+
+  const update = (updates: Partial<ReportScheduleInput>) => setForm((prev) => ({ ...prev, ...updates }));
+
+  const addRecipient = () => {
+    if (!recipient.name.trim() || !recipient.address.trim()) {
+      setError('Enter the recipient name and contact');
+      return;
+    }
+    setError(null);
+    update({ recipients: [...form.recipients, { ...recipient, id: nanoid(8), name: recipient.name.trim(), address: recipient.address.trim() }] });
+    setRecipient((prev) => ({ ...prev, name: '', address: '' }));
+  };
+
+  const handleSubmit = () => {
+    setError(null);
+    try {
+      onSubmit({
+        ...form,
+        dayOfWeek: form.frequency === 'weekly' ? form.dayOfWeek : undefined,
+        dayOfMonth: form.frequency === 'monthly' ? form.dayOfMonth : undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the schedule');
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Input label="Name" value={form.name} onChange={(event) => update({ name: event.target.value })} required />
+        <Select
+          label="Report"
+          value={form.reportType}
+          onChange={(event) => update({ reportType: event.target.value as ReportType })}
+          options={(Object.keys(REPORT_TITLES) as ReportType[]).map((type) => ({ value: type, label: REPORT_TITLES[type] }))}
+        />
+        <Select
+          label="Format"
+          value={form.format}
+          onChange={(event) => update({ format: event.target.value as ReportDeliveryFormat })}
+          options={FORMAT_OPTIONS}
+        />
+        <Select
+          label="Frequency"
+          value={form.frequency}
+          onChange={(event) => update({ frequency: event.target.value as ReportScheduleFrequency })}
+          options={FREQUENCY_OPTIONS}
+        />
+        {form.frequency === 'weekly' && (
+          <Select
+            label="Day"
+            value={String(form.dayOfWeek ?? 1)}
+            onChange={(event) => update({ dayOfWeek: Number(event.target.value) })}
+            options={WEEKDAYS.map((day, index) => ({ value: String(index), label: day }))}
+          />
+        )}
+        {form.frequency === 'monthly' && (
+          <Input
+            label="Day of month"
+            type="number"
+            min={1}
+            max={28}
+            value={form.dayOfMonth ?? 1}
+            onChange={(event) => update({ dayOfMonth: Number(event.target.value) })}
+          />
+        )}
+        <Input label="Send at" type="time" value={form.sendTime} onChange={(event) => update({ sendTime: event.target.value })} />
+        {templates.length > 0 && (
+          <Select
+            label="WhatsApp template"
+            value={form.whatsappTemplateId ?? ''}
+            onChange={(event) => update({ whatsappTemplateId: event.target.value || undefined })}
+            options={[
+              { value: '', label: 'Select template' },
+              ...templates.map((template) => ({ value: template.id, label: template.name })),
+            ]}
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-zinc-900">Recipients</p>
+        {form.recipients.map((item) => (
+          <div key={item.id} className="flex items-center justify-between rounded-md bg-white px-3 py-2 text-sm">
+            <span>
+              {item.name} · {CHANNEL_LABELS[item.channel]} {item.address}
+            </span>
+            <button
+              onClick={() => update({ recipients: form.recipients.filter((entry) => entry.id !== item.id) })}
+              className="text-zinc-400 hover:text-zinc-600"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <div className="grid gap-2 md:grid-cols-[1fr_10rem_1fr_auto] md:items-end">
+          <Input placeholder="Name" value={recipient.name} onChange={(event) => setRecipient((prev) => ({ ...prev, name: event.target.value }))} />
+          <Select
+            value={recipient.channel}
+            onChange={(event) => setRecipient((prev) => ({ ...prev, channel: event.target.value as ReportDeliveryChannel }))}
+            options={channelOptions}
+          />
+          <Input
+            placeholder={recipient.channel === 'email' ? 'owner@example.com' : '+91 98xxxxxxx'}
+            value={recipient.address}
+            onChange={(event) => setRecipient((prev) => ({ ...prev, address: event.target.value }))}
+          />
+          <Button variant="outline" onClick={addRecipient}>
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit}>Save Schedule</Button>
+      </div>
+    </div>
+  );
+}
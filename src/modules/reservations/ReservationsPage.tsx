@@ -1,11 +1,13 @@
 import { useState } from 'react';
-import { Calendar as CalendarIcon, List, Plus } from 'lucide-react';
+import { Calendar as CalendarIcon, GanttChart, List, Plus, Users } from 'lucide-react';
 import { Button } from '../../components/ui/Button';
 import { ReservationListView } from './components/ReservationListView';
 import { ReservationCalendarView } from './components/ReservationCalendarView';
+import { ReservationTapeChartView } from './components/ReservationTapeChartView';
+import { GroupBookingsView } from './components/GroupBookingsView';
 import { CreateReservationModal } from './components/CreateReservationModal';
 
-type ViewMode = 'list' | 'calendar';
+type ViewMode = 'list' | 'calendar' | 'tape' | 'groups';
 
 export function ReservationsPage() {
   const [viewMode, setViewMode] = useState<ViewMode>('list');
@@ -50,6 +52,32 @@ export function ReservationsPage() {
               <CalendarIcon className="h-4 w-4" />
               Calendar
             </button>
+            <button
+              onClick={() => setViewMode('tape')}
+              className={`
+                inline-flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors
+                ${viewMode === 'tape' 
+                  ? 'bg-gray-100 text-gray-900' 
+                  : 'text-gray-600 hover:text-gray-900'
+                }
+              `}
+            >
+              <GanttChart className="h-4 w-4" />
+              Tape Chart
+            </button>
+            <button
+              onClick={() => setViewMode('groups')}
+              className={`
+                inline-flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-colors
+                ${viewMode === 'groups' 
+                  ? 'bg-gray-100 text-gray-900' 
+                  : 'text-gray-600 hover:text-gray-900'
+                }
+              `}
+            >
+              <Users className="h-4 w-4" />
+              Groups
+            </button>
           </div>
           
           <Button onClick={() => setIsCreateModalOpen(true)}>
@@ -60,11 +88,12 @@ export function ReservationsPage() {
       </div>
 
       {/* Content */}
-      {viewMode === 'list' ? (
+      {viewMode === 'list' && (
         <ReservationListView onCreateClick={() => setIsCreateModalOpen(true)} />
-      ) : (
-        <ReservationCalendarView />
       )}
+      {viewMode === 'calendar' && <ReservationCalendarView />}
+      {viewMode === 'tape' && <ReservationTapeChartView />}
+      {viewMode === 'groups' && <GroupBookingsView />}
 
       {/* Create Modal */}
       {isCreateModalOpen && (
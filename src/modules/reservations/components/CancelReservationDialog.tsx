@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Dialog, DialogClose, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/Dialog';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { GatewayPaymentsPanel } from '../../../components/payments/GatewayPaymentsPanel';
+import { useReservationStore } from '../../../stores/reservationStore';
+import { useAuthStore } from '../../../stores/authStore';
+import { formatCurrency } from '../../../utils';
+import type { CancellationDetails, Reservation } from '../../../types';
+
+interface CancelReservationDialogProps {
+  reservation: Reservation;
+  kind: CancellationDetails['kind'];
+  onClose: () => void;
+}
+
+/**
+ * Cancels a booking or marks it a no-show, showing the policy penalty and the refund it leaves before confirming
+ */
+export function CancelReservationDialog({ reservation, kind, onClose }: CancelReservationDialogProps) {
+  const { cancelReservation, markNoShow, previewCancellation } = useReservationStore();
+  const { user } = useAuthStore();
+  const [reason, setReason] = useState('');
+  const [waivePenalty, setWaivePenalty] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CancellationDetails | null>(null);
+
+  const isManager = user?.role === 'admin' || user?.role === 'manager';
+  const preview = result ?? previewCancellation(reservation.id, kind, { waivePenalty });
+  const title = kind === 'no-show' ? 'Mark as No-Show' : 'Cancel Reservation';
+
+  const handleConfirm = async () => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const options = { waivePenalty, handledBy: user?.name };
+      setResult(
+        kind === 'no-show'
+          ? await markNoShow(reservation.id, options)
+          : await cancelReservation(reservation.id, reason.trim() || undefined, options)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${kind === 'no-show' ? 'mark the no-show' : 'cancel the reservation'}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[32rem]">
+        <DialogClose onClick={onClose} />
+        <DialogHeader>
+          <DialogTitle>
+            {title} · {reservation.confirmationNumber}
+          </DialogTitle>
+          <DialogDescription>{preview.policySummary}</DialogDescription>
+        </DialogHeader>
+
+        <div className="mt-4 space-y-4">
+          {error && <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+
+          <div className="space-y-2 rounded-lg bg-gray-50 p-4 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Paid so far</span>
+              <span className="font-medium text-gray-900">{formatCurrency(preview.amountPaid)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">{kind === 'no-show' ? 'No-show fee' : 'Cancellation fee'}</span>
+              <span className="font-medium text-gray-900">{formatCurrency(preview.penalty)}</span>
+            </div>
+            <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+              {preview.outstanding > 0 ? (
+                <>
+                  <span className="text-red-600">Still owed by the guest</span>
+                  <span className="text-red-600">{formatCurrency(preview.outstanding)}</span>
+                </>
+              ) : (
+                <>
+                  <span className="text-gray-900">Refund due</span>
+                  <span className="text-gray-900">{formatCurrency(preview.refundDue)}</span>
+                </>
+              )}
+            </div>
+          </div>
+
+          {!result && (
+            <>
+              {kind === 'cancellation' && (
+                <Input label="Reason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Optional" />
+              )}
+              {isManager && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={waivePenalty} onChange={(e) => setWaivePenalty(e.target.checked)} />
+                  Waive the penalty
+                </label>
+              )}
+            </>
+          )}
+
+          {result && (
+            <>
+              <p className="text-sm text-gray-600">
+                {result.penalty > 0 && 'The fee has been charged to the guest folio. '}
+                {result.refundDue > 0 && 'Refund the balance from Billing, or from a gateway payment below.'}
+                {result.outstanding > 0 && 'Capture a card hold below or collect the balance from Billing.'}
+              </p>
+              <GatewayPaymentsPanel reservationId={reservation.id} balanceDue={result.outstanding} />
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6">
+          {result ? (
+            <Button variant="primary" onClick={onClose}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={onClose}>
+                Keep Reservation
+              </Button>
+              <Button variant="danger" onClick={handleConfirm} isLoading={isSubmitting}>
+                {title}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
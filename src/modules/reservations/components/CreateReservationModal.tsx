@@ -3,12 +3,14 @@ import { X, AlertCircle } from 'lucide-react';
 import { useReservationStore } from '../../../stores/reservationStore';
 import { usePropertyStore } from '../../../stores/propertyStore';
 import { useGuestStore } from '../../../stores/guestStore';
+import { useRateCalendarStore } from '../../../stores/rateCalendarStore';
 import type { BookingSource, OTASource } from '../../../types';
 import { Button } from '../../../components/ui/Button';
 import { Input } from '../../../components/ui/Input';
 import { Select } from '../../../components/ui/Select';
 import { GuestSelector } from './GuestSelector';
 import { PricingBreakdown } from './PricingBreakdown';
+import { describeCancellationPolicy, describeDepositPolicy } from '../../../utils/policies';
 
 interface CreateReservationModalProps {
   onClose: () => void;
@@ -19,6 +21,7 @@ export function CreateReservationModal({ onClose, onSuccess }: CreateReservation
   const { createReservation, ratePlans, checkAvailability } = useReservationStore();
   const { roomTypes } = usePropertyStore();
   const { guests } = useGuestStore();
+  const { validateStay } = useRateCalendarStore();
   
   const [step, setStep] = useState<'details' | 'guest' | 'review'>('details');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -55,6 +58,13 @@ export function CreateReservationModal({ onClose, onSuccess }: CreateReservation
       return false;
     }
 
+    const restriction = validateStay(formData.roomTypeId, formData.ratePlanId, formData.checkIn, formData.checkOut);
+    if (restriction) {
+      setAvailability(null);
+      setError(restriction);
+      return false;
+    }
+
     const result = await checkAvailability(formData.roomTypeId, formData.checkIn, formData.checkOut);
     setAvailability(result);
 
@@ -354,6 +364,10 @@ export function CreateReservationModal({ onClose, onSuccess }: CreateReservation
                       <p className="font-medium text-gray-900">{selectedRatePlan?.name}</p>
                     </div>
                   </div>
+                  <div className="mt-4 space-y-1 border-t border-gray-200 pt-3 text-xs text-gray-600">
+                    <p>{describeDepositPolicy(selectedRatePlan?.depositPolicy)}</p>
+                    <p>{describeCancellationPolicy(selectedRatePlan?.cancellationPolicy)}</p>
+                  </div>
                 </div>
 
                 {/* Pricing Breakdown */}
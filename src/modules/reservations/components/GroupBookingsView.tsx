@@ -0,0 +1,865 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2, Undo2, Users, UserPlus, Wallet } from 'lucide-react';
+import { useGroupStore, getGroupNights } from '../../../stores/groupStore';
+import { useReservationStore } from '../../../stores/reservationStore';
+import { usePropertyStore } from '../../../stores/propertyStore';
+import { useGuestStore } from '../../../stores/guestStore';
+import { useFolioStore } from '../../../stores/folioStore';
+import { masterLedgerKey } from '../../../services/folioApi';
+import type { ChargeCategory, GroupBooking, GroupBookingStatus, GroupBookingType, PaymentMethod } from '../../../types';
+import { Button } from '../../../components/ui/Button';
+import { Input } from '../../../components/ui/Input';
+import { Select } from '../../../components/ui/Select';
+import { Badge } from '../../../components/ui/Badge';
+import { resolveTaxRate } from '../../../utils/gst';
+import { formatCurrency } from '../../../utils';
+
+const statusConfig: Record<GroupBookingStatus, { label: string; variant: 'warning' | 'success' | 'secondary' | 'danger' }> = {
+  tentative: { label: 'Tentative', variant: 'warning' },
+  definite: { label: 'Definite', variant: 'success' },
+  released: { label: 'Block Released', variant: 'secondary' },
+  cancelled: { label: 'Cancelled', variant: 'danger' },
+};
+
+const groupTypeOptions: { value: GroupBookingType; label: string }[] = [
+  { value: 'wedding', label: 'Wedding' },
+  { value: 'corporate', label: 'Corporate' },
+  { value: 'conference', label: 'Conference' },
+  { value: 'tour', label: 'Tour Group' },
+  { value: 'other', label: 'Other' },
+];
+
+const masterChargeCategories: { value: ChargeCategory; label: string }[] = [
+  { value: 'restaurant', label: 'Food & Beverage' },
+  { value: 'transport', label: 'Transport' },
+  { value: 'other', label: 'Banquet / Other' },
+];
+
+const routableCategories: { value: ChargeCategory; label: string }[] = [
+  { value: 'room', label: 'Room' },
+  { value: 'restaurant', label: 'Food & Beverage' },
+  { value: 'mini-bar', label: 'Mini Bar' },
+  { value: 'laundry', label: 'Laundry' },
+  { value: 'transport', label: 'Transport' },
+  { value: 'other', label: 'Other' },
+];
+
+const masterPaymentMethods: { value: PaymentMethod; label: string }[] = [
+  { value: 'bank-transfer', label: 'Bank Transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'upi', label: 'UPI' },
+];
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d');
+
+export function GroupBookingsView() {
+  const { groups, error, releaseExpiredBlocks } = useGroupStore();
+  const [selectedGroupId, setSelectedGroupId] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Blocks past their cutoff are released whenever the group list is opened, once other terminals' changes are in
+  useEffect(() => {
+    useGroupStore
+      .getState()
+      .hydrateFromBackend()
+      .catch(() => undefined)
+      .then(() => releaseExpiredBlocks());
+  }, [releaseExpiredBlocks]);
+
+  const sortedGroups = useMemo(
+    () => [...groups].sort((a, b) => a.checkIn.localeCompare(b.checkIn)),
+    [groups]
+  );
+  const selectedGroup = groups.find((group) => group.id === selectedGroupId) ?? sortedGroups[0];
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+      <div className="space-y-3">
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Group Bookings</h2>
+          <Button size="sm" onClick={() => setIsCreating((value) => !value)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Group
+          </Button>
+        </div>
+
+        {sortedGroups.length === 0 && (
+          <div className="rounded-lg border border-dashed border-gray-300 bg-white p-6 text-center text-sm text-gray-500">
+            No group bookings yet
+          </div>
+        )}
+
+        {sortedGroups.map((group) => {
+          const status = statusConfig[group.status];
+          const isSelected = !isCreating && selectedGroup?.id === group.id;
+          return (
+            <button
+              key={group.id}
+              onClick={() => {
+                setSelectedGroupId(group.id);
+                setIsCreating(false);
+              }}
+              className={`w-full rounded-lg border bg-white p-4 text-left transition-colors ${
+                isSelected ? 'border-primary-500 ring-1 ring-primary-500' : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-900 truncate">{group.name}</span>
+                <Badge variant={status.variant}>{status.label}</Badge>
+              </div>
+              <div className="mt-1 text-xs text-gray-500">
+                {group.code} · {formatDay(group.checkIn)} - {formatDay(group.checkOut)} · Cutoff {formatDay(group.cutoffDate)}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="lg:col-span-2">
+        {isCreating ? (
+          <CreateGroupForm
+            onCancel={() => setIsCreating(false)}
+            onCreated={(group) => {
+              setSelectedGroupId(group.id);
+              setIsCreating(false);
+            }}
+          />
+        ) : selectedGroup ? (
+          <GroupDetail key={selectedGroup.id} group={selectedGroup} />
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+interface CreateGroupFormProps {
+  onCancel: () => void;
+  onCreated: (group: GroupBooking) => void;
+}
+
+function CreateGroupForm({ onCancel, onCreated }: CreateGroupFormProps) {
+  const { createGroup } = useGroupStore();
+  const { ratePlans, checkAvailability } = useReservationStore();
+  const { roomTypes } = usePropertyStore();
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [blockRooms, setBlockRooms] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState({
+    name: '',
+    type: 'wedding' as GroupBookingType,
+    contactName: '',
+    contactPhone: '',
+    contactEmail: '',
+    ratePlanId: ratePlans[0]?.id || '',
+    checkIn: '',
+    checkOut: '',
+    cutoffDate: '',
+    notes: '',
+  });
+
+  const handleSubmit = async () => {
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const blocks = roomTypes
+        .map((roomType) => ({ roomTypeId: roomType.id, rooms: parseInt(blockRooms[roomType.id] || '0') || 0 }))
+        .filter((block) => block.rooms > 0);
+
+      // A block can only hold rooms that are free right now
+      for (const block of blocks) {
+        const availability = await checkAvailability(block.roomTypeId, formData.checkIn, formData.checkOut);
+        if (availability.availableRooms < block.rooms) {
+          const roomType = roomTypes.find((entry) => entry.id === block.roomTypeId);
+          throw new Error(
+            `Only ${availability.availableRooms} ${roomType?.name ?? 'room'} room(s) are free for these dates`
+          );
+        }
+      }
+
+      onCreated(
+        createGroup({
+          ...formData,
+          contactPhone: formData.contactPhone || undefined,
+          contactEmail: formData.contactEmail || undefined,
+          notes: formData.notes || undefined,
+          blocks,
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create group booking');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 bg-white p-6">
+      <h3 className="text-lg font-semibold text-gray-900">New Group Booking</h3>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <Input
+          label="Group Name"
+          required
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="Sharma - Verma Wedding"
+        />
+        <Select
+          label="Group Type"
+          value={formData.type}
+          onChange={(e) => setFormData({ ...formData, type: e.target.value as GroupBookingType })}
+          options={groupTypeOptions}
+        />
+        <Input
+          label="Contact Name"
+          required
+          value={formData.contactName}
+          onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+        />
+        <Input
+          label="Contact Phone"
+          value={formData.contactPhone}
+          onChange={(e) => setFormData({ ...formData, contactPhone: e.target.value })}
+        />
+        <Input
+          label="Contact Email"
+          type="email"
+          value={formData.contactEmail}
+          onChange={(e) => setFormData({ ...formData, contactEmail: e.target.value })}
+        />
+        <Select
+          label="Group Rate Plan"
+          value={formData.ratePlanId}
+          onChange={(e) => setFormData({ ...formData, ratePlanId: e.target.value })}
+          options={ratePlans.map((plan) => ({ value: plan.id, label: plan.name }))}
+        />
+        <Input
+          label="Arrival"
+          type="date"
+          required
+          value={formData.checkIn}
+          onChange={(e) => setFormData({ ...formData, checkIn: e.target.value })}
+        />
+        <Input
+          label="Departure"
+          type="date"
+          required
+          value={formData.checkOut}
+          onChange={(e) => setFormData({ ...formData, checkOut: e.target.value })}
+        />
+        <Input
+          label="Cutoff Date"
+          type="date"
+          required
+          value={formData.cutoffDate}
+          onChange={(e) => setFormData({ ...formData, cutoffDate: e.target.value })}
+          helperText="Rooms not picked up by this date return to general inventory"
+        />
+      </div>
+
+      <div>
+        <h4 className="mb-2 text-sm font-medium text-gray-900">Rooms per night</h4>
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          {roomTypes.map((roomType) => (
+            <Input
+              key={roomType.id}
+              label={roomType.name}
+              type="number"
+              min="0"
+              value={blockRooms[roomType.id] ?? ''}
+              onChange={(e) => setBlockRooms({ ...blockRooms, [roomType.id]: e.target.value })}
+              placeholder="0"
+            />
+          ))}
+        </div>
+      </div>
+
+      <Input
+        label="Notes"
+        value={formData.notes}
+        onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+      />
+
+      <div className="flex justify-end gap-3">
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} isLoading={isSubmitting}>
+          Create Block
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function GroupDetail({ group }: { group: GroupBooking }) {
+  const { setGroupStatus, setBlockRooms, releaseUnpickedRooms, getPickedUp, openMasterFolio } = useGroupStore();
+  const { ratePlans } = useReservationStore();
+  const { roomTypes } = usePropertyStore();
+  const [error, setError] = useState<string | null>(null);
+
+  const nights = getGroupNights(group);
+  const blockedTypes = roomTypes.filter((roomType) => group.blocks.some((block) => block.roomTypeId === roomType.id));
+  const ratePlan = ratePlans.find((plan) => plan.id === group.ratePlanId);
+  const isCancelled = group.status === 'cancelled';
+
+  const runAction = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-gray-400" />
+              <h3 className="text-lg font-semibold text-gray-900">{group.name}</h3>
+              <Badge variant={statusConfig[group.status].variant}>{statusConfig[group.status].label}</Badge>
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              {group.code} · {group.contactName}
+              {group.contactPhone ? ` · ${group.contactPhone}` : ''} · {ratePlan?.name ?? 'Rate plan'}
+            </p>
+            <p className="text-sm text-gray-500">
+              {formatDay(group.checkIn)} - {formatDay(group.checkOut)} · Cutoff {formatDay(group.cutoffDate)}
+            </p>
+          </div>
+          {!isCancelled && (
+            <div className="flex gap-2">
+              {group.status === 'tentative' && (
+                <Button size="sm" onClick={() => runAction(() => setGroupStatus(group.id, 'definite'))}>
+                  Mark Definite
+                </Button>
+              )}
+              {group.status !== 'released' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    if (confirm('Release all rooms that have not been picked up?')) {
+                      runAction(() => releaseUnpickedRooms(group.id));
+                    }
+                  }}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Release Unpicked
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="danger"
+                onClick={() => {
+                  if (confirm('Cancel this group booking?')) {
+                    runAction(() => setGroupStatus(group.id, 'cancelled'));
+                  }
+                }}
+              >
+                Cancel Group
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="mt-6 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-xs font-semibold uppercase text-gray-500">
+                <th className="py-2 pr-4">Room Type</th>
+                {nights.map((date) => (
+                  <th key={date} className="px-2 py-2 text-center">
+                    {formatDay(date)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {blockedTypes.map((roomType) => (
+                <tr key={roomType.id} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{roomType.name}</td>
+                  {nights.map((date) => {
+                    const block = group.blocks.find((item) => item.roomTypeId === roomType.id && item.date === date);
+                    const pickedUp = getPickedUp(group, roomType.id, date);
+                    return (
+                      <td key={date} className="px-2 py-2 text-center">
+                        <input
+                          type="number"
+                          min="0"
+                          disabled={isCancelled}
+                          value={block?.rooms ?? 0}
+                          onChange={(e) =>
+                            runAction(() => setBlockRooms(group.id, roomType.id, date, parseInt(e.target.value) || 0))
+                          }
+                          className="w-14 rounded border border-gray-300 px-1 py-0.5 text-center"
+                        />
+                        <div className="mt-0.5 text-xs text-gray-500">
+                          {pickedUp} picked
+                          {block?.released ? ` · ${block.released} released` : ''}
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <RoomingList group={group} />
+      <MasterFolio group={group} onOpen={() => runAction(() => openMasterFolio(group.id))} />
+    </div>
+  );
+}
+
+function RoomingList({ group }: { group: GroupBooking }) {
+  const { addRoomingEntry, removeRoomingEntry } = useGroupStore();
+  const { reservations, pickUpGroupRooms } = useReservationStore();
+  const { roomTypes, rooms } = usePropertyStore();
+  const { guests } = useGuestStore();
+  const [error, setError] = useState<string | null>(null);
+  const [isPickingUp, setIsPickingUp] = useState(false);
+
+  const blockedTypes = roomTypes.filter((roomType) => group.blocks.some((block) => block.roomTypeId === roomType.id));
+  const [entry, setEntry] = useState({
+    guestId: '',
+    roomTypeId: blockedTypes[0]?.id || '',
+    checkIn: group.checkIn,
+    checkOut: group.checkOut,
+    adults: '2',
+    children: '0',
+    roomNumber: '',
+  });
+
+  const getGuestName = (guestId: string) => {
+    const guest = guests.find((item) => item.id === guestId);
+    return guest ? `${guest.firstName} ${guest.lastName}` : 'Unknown Guest';
+  };
+
+  const handleAdd = () => {
+    setError(null);
+    try {
+      if (!entry.guestId) {
+        throw new Error('Select a guest for the room');
+      }
+      addRoomingEntry(group.id, {
+        guestId: entry.guestId,
+        roomTypeId: entry.roomTypeId,
+        checkIn: entry.checkIn,
+        checkOut: entry.checkOut,
+        adults: parseInt(entry.adults) || 1,
+        children: parseInt(entry.children) || 0,
+        roomNumber: entry.roomNumber || undefined,
+      });
+      setEntry({ ...entry, guestId: '', roomNumber: '' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add rooming list entry');
+    }
+  };
+
+  const handlePickUp = async () => {
+    setError(null);
+    setIsPickingUp(true);
+    try {
+      await pickUpGroupRooms(group.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pick up rooms');
+    } finally {
+      setIsPickingUp(false);
+    }
+  };
+
+  const pendingCount = group.roomingList.filter((item) => !item.reservationId).length;
+  const isCancelled = group.status === 'cancelled';
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 bg-white p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Rooming List</h3>
+        <Button size="sm" onClick={handlePickUp} isLoading={isPickingUp} disabled={!pendingCount || isCancelled}>
+          Pick Up {pendingCount} Room(s)
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {!isCancelled && (
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          <Select
+            label="Guest"
+            value={entry.guestId}
+            onChange={(e) => setEntry({ ...entry, guestId: e.target.value })}
+            options={[
+              { value: '', label: 'Select guest' },
+              ...guests.map((guest) => ({ value: guest.id, label: `${guest.firstName} ${guest.lastName}` })),
+            ]}
+          />
+          <Select
+            label="Room Type"
+            value={entry.roomTypeId}
+            onChange={(e) => setEntry({ ...entry, roomTypeId: e.target.value, roomNumber: '' })}
+            options={blockedTypes.map((roomType) => ({ value: roomType.id, label: roomType.name }))}
+          />
+          <Input
+            label="Arrival"
+            type="date"
+            value={entry.checkIn}
+            min={group.checkIn}
+            max={group.checkOut}
+            onChange={(e) => setEntry({ ...entry, checkIn: e.target.value })}
+          />
+          <Input
+            label="Departure"
+            type="date"
+            value={entry.checkOut}
+            min={group.checkIn}
+            max={group.checkOut}
+            onChange={(e) => setEntry({ ...entry, checkOut: e.target.value })}
+          />
+          <Input
+            label="Adults"
+            type="number"
+            min="1"
+            value={entry.adults}
+            onChange={(e) => setEntry({ ...entry, adults: e.target.value })}
+          />
+          <Input
+            label="Children"
+            type="number"
+            min="0"
+            value={entry.children}
+            onChange={(e) => setEntry({ ...entry, children: e.target.value })}
+          />
+          <Select
+            label="Room"
+            value={entry.roomNumber}
+            onChange={(e) => setEntry({ ...entry, roomNumber: e.target.value })}
+            options={[
+              { value: '', label: 'Assign later' },
+              ...rooms
+                .filter((room) => room.isActive && room.roomTypeId === entry.roomTypeId)
+                .map((room) => ({ value: room.roomNumber, label: room.roomNumber })),
+            ]}
+          />
+          <div className="flex items-end">
+            <Button variant="secondary" onClick={handleAdd} className="w-full">
+              <UserPlus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-xs font-semibold uppercase text-gray-500">
+            <th className="py-2">Guest</th>
+            <th className="py-2">Room Type</th>
+            <th className="py-2">Stay</th>
+            <th className="py-2">Room</th>
+            <th className="py-2">Reservation</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {group.roomingList.length === 0 && (
+            <tr>
+              <td colSpan={6} className="py-4 text-center text-gray-500">
+                Add guests to assign them to the blocked rooms
+              </td>
+            </tr>
+          )}
+          {group.roomingList.map((item) => {
+            const reservation = reservations.find((res) => res.id === item.reservationId);
+            return (
+              <tr key={item.id} className="border-b border-gray-100">
+                <td className="py-2 text-gray-900">{getGuestName(item.guestId)}</td>
+                <td className="py-2 text-gray-600">
+                  {roomTypes.find((roomType) => roomType.id === item.roomTypeId)?.name ?? 'Room'}
+                </td>
+                <td className="py-2 text-gray-600">
+                  {formatDay(item.checkIn)} - {formatDay(item.checkOut)}
+                </td>
+                <td className="py-2 text-gray-600">{reservation?.roomNumbers[0] ?? item.roomNumber ?? '-'}</td>
+                <td className="py-2">
+                  {reservation ? (
+                    <Badge variant="success">{reservation.confirmationNumber}</Badge>
+                  ) : (
+                    <Badge variant="warning">Not picked up</Badge>
+                  )}
+                </td>
+                <td className="py-2 text-right">
+                  {!item.reservationId && (
+                    <button
+                      onClick={() => {
+                        try {
+                          removeRoomingEntry(group.id, item.id);
+                        } catch (err) {
+                          setError(err instanceof Error ? err.message : 'Failed to remove entry');
+                        }
+                      }}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove from rooming list"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface MasterFolioProps {
+  group: GroupBooking;
+  onOpen: () => void;
+}
+
+function MasterFolio({ group, onOpen }: MasterFolioProps) {
+  const { folios, postCharge, postPayment, getLedger, getBalance } = useFolioStore();
+  const { setMasterRouting, settleMasterFolio } = useGroupStore();
+  const { reservations } = useReservationStore();
+  const { taxConfig } = usePropertyStore();
+  const [error, setError] = useState<string | null>(null);
+  const [charge, setCharge] = useState({ description: '', category: 'other' as ChargeCategory, amount: '' });
+  const [payment, setPayment] = useState({ method: 'bank-transfer' as PaymentMethod, amount: '', reference: '' });
+
+  const ledgerKey = masterLedgerKey(group.id);
+  const ledger = getLedger(ledgerKey);
+  const balance = getBalance(ledgerKey);
+  const masterFolio = folios.find((folio) => folio.id === group.masterFolioId);
+  const isSettled = masterFolio?.status === 'closed';
+  const routing = group.masterRouting ?? [];
+
+  // Members' routed charges are posted from whichever terminal handles their stay
+  useEffect(() => {
+    useFolioStore.getState().hydrateFromBackend(masterLedgerKey(group.id)).catch(() => undefined);
+  }, [group.id]);
+
+  const run = (action: () => void, fallback: string) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const handlePost = () =>
+    run(() => {
+      const amount = parseFloat(charge.amount);
+      if (!charge.description.trim() || !amount) {
+        throw new Error('Enter a description and amount');
+      }
+      const taxRate = resolveTaxRate(taxConfig, charge.category, amount);
+      postCharge(
+        ledgerKey,
+        {
+          description: charge.description.trim(),
+          amount,
+          category: charge.category,
+          quantity: 1,
+          taxRate,
+          taxAmount: Number(((amount * taxRate) / 100).toFixed(2)),
+        },
+        { folioId: group.masterFolioId, sourceRef: group.code }
+      );
+      setCharge({ ...charge, description: '', amount: '' });
+    }, 'Failed to post charge');
+
+  const handlePayment = () =>
+    run(() => {
+      const amount = parseFloat(payment.amount);
+      if (!(amount > 0)) {
+        throw new Error('Enter the amount received');
+      }
+      postPayment(
+        ledgerKey,
+        { method: payment.method, amount, reference: payment.reference.trim() || undefined },
+        { folioId: group.masterFolioId, sourceRef: payment.reference.trim() || group.code }
+      );
+      setPayment({ ...payment, amount: '', reference: '' });
+    }, 'Failed to record payment');
+
+  const toggleRouting = (category: ChargeCategory) =>
+    run(
+      () =>
+        setMasterRouting(
+          group.id,
+          routing.includes(category) ? routing.filter((item) => item !== category) : [...routing, category]
+        ),
+      'Failed to update routing'
+    );
+
+  const handleSettle = () => {
+    if (!confirm(`Settle and close the master folio for ${group.name}? Members' routed charges go back to their own folios.`)) {
+      return;
+    }
+    run(() => settleMasterFolio(group.id), 'Failed to settle the master folio');
+  };
+
+  // Charges routed from members' stays carry the stay they came from
+  const memberLabel = (sourceRef?: string) => {
+    const member = sourceRef ? reservations.find((reservation) => reservation.id === sourceRef) : undefined;
+    return member ? `${member.roomNumbers.join(', ') || member.confirmationNumber} · ${member.guest.firstName} ${member.guest.lastName}` : null;
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 bg-white p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Master Folio</h3>
+          <p className="text-sm text-gray-500">Shared charges billed to {group.contactName}</p>
+        </div>
+        {group.masterFolioId ? (
+          <div className="flex items-center gap-3">
+            {isSettled && <Badge variant="success">Settled</Badge>}
+            <div className="text-right">
+              <div className="text-xs text-gray-500">Balance</div>
+              <div className="text-lg font-semibold text-gray-900">{formatCurrency(balance)}</div>
+            </div>
+          </div>
+        ) : (
+          <Button size="sm" onClick={onOpen} disabled={group.status === 'cancelled'}>
+            <Wallet className="h-4 w-4 mr-1" />
+            Open Master Folio
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {group.masterFolioId && !isSettled && (
+        <>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            <div className="md:col-span-2">
+              <Input
+                label="Description"
+                value={charge.description}
+                onChange={(e) => setCharge({ ...charge, description: e.target.value })}
+                placeholder="Sangeet dinner buffet"
+              />
+            </div>
+            <Select
+              label="Category"
+              value={charge.category}
+              onChange={(e) => setCharge({ ...charge, category: e.target.value as ChargeCategory })}
+              options={masterChargeCategories}
+            />
+            <Input
+              label="Amount"
+              type="number"
+              min="0"
+              value={charge.amount}
+              onChange={(e) => setCharge({ ...charge, amount: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handlePost}>
+              Post Charge
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            <Select
+              label="Payment method"
+              value={payment.method}
+              onChange={(e) => setPayment({ ...payment, method: e.target.value as PaymentMethod })}
+              options={masterPaymentMethods}
+            />
+            <Input
+              label="Amount received"
+              type="number"
+              min="0"
+              value={payment.amount}
+              onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+            />
+            <div className="md:col-span-2">
+              <Input
+                label="Reference"
+                value={payment.reference}
+                onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                placeholder="UTR or cheque number"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={handlePayment}>
+              Record Payment
+            </Button>
+            <Button size="sm" variant="secondary" onClick={handleSettle} disabled={balance > 0}>
+              Settle &amp; Close
+            </Button>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-900">Billed to the master folio for every member</p>
+            <p className="text-xs text-gray-500">Charges in these categories on picked-up rooms are routed here</p>
+            <div className="mt-2 flex flex-wrap gap-4">
+              {routableCategories.map((option) => (
+                <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={routing.includes(option.value)}
+                    onChange={() => toggleRouting(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {group.masterFolioId && (
+        <table className="min-w-full text-sm">
+          <tbody>
+            {ledger.length === 0 && (
+              <tr>
+                <td className="py-3 text-center text-gray-500">No charges posted</td>
+              </tr>
+            )}
+            {ledger.map((line) => (
+              <tr key={line.id} className={`border-b border-gray-100 ${line.isVoided ? 'text-gray-400 line-through' : ''}`}>
+                <td className="py-2">{format(new Date(line.postedAt), 'MMM d, HH:mm')}</td>
+                <td className="py-2">
+                  {line.description}
+                  {memberLabel(line.sourceRef) && <p className="text-xs text-gray-500">{memberLabel(line.sourceRef)}</p>}
+                </td>
+                <td className="py-2 text-right">{formatCurrency(line.amount)}</td>
+                <td className="py-2 text-right text-gray-500">{formatCurrency(line.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
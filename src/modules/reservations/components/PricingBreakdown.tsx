@@ -1,5 +1,8 @@
 import { usePropertyStore } from '../../../stores/propertyStore';
 import { useReservationStore } from '../../../stores/reservationStore';
+import { useRateCalendarStore } from '../../../stores/rateCalendarStore';
+import { resolveTaxRate } from '../../../utils/gst';
+import { format, parseISO } from 'date-fns';
 
 interface PricingBreakdownProps {
   roomTypeId: string;
@@ -11,6 +14,7 @@ interface PricingBreakdownProps {
 export function PricingBreakdown({ roomTypeId, ratePlanId, checkIn, checkOut }: PricingBreakdownProps) {
   const { roomTypes, taxConfig } = usePropertyStore();
   const { ratePlans } = useReservationStore();
+  const { getNightlyRates } = useRateCalendarStore();
 
   const roomType = roomTypes.find(rt => rt.id === roomTypeId);
   const ratePlan = ratePlans.find(rp => rp.id === ratePlanId);
@@ -19,17 +23,15 @@ export function PricingBreakdown({ roomTypeId, ratePlanId, checkIn, checkOut }:
     return null;
   }
 
-  // Calculate nights
-  const start = new Date(checkIn);
-  const end = new Date(checkOut);
-  const diffTime = Math.abs(end.getTime() - start.getTime());
-  const nights = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  // Nightly rates come from the rate calendar, falling back to the discounted base rate
+  const nightlyRates = getNightlyRates(roomType, ratePlan, checkIn, checkOut);
+  const nights = nightlyRates.length;
+  if (!nights) {
+    return null;
+  }
 
-  // Calculate pricing
-  const baseRate = roomType.baseRate;
-  const discountAmount = baseRate * (ratePlan.discountPercentage / 100);
-  const ratePerNight = baseRate - discountAmount;
-  const subtotal = ratePerNight * nights;
+  const subtotal = nightlyRates.reduce((sum, night) => sum + night.rate, 0);
+  const hasVariableRates = nightlyRates.some((night) => night.rate !== nightlyRates[0].rate);
 
   // Calculate taxes
   let serviceCharge = 0;
@@ -40,10 +42,16 @@ export function PricingBreakdown({ roomTypeId, ratePlanId, checkIn, checkOut }:
     serviceCharge = subtotal * (taxConfig.serviceChargePercentage / 100);
   }
 
+  // GST is charged per night at the slab matching that night's tariff and date
+  const nightlyGstRates = nightlyRates.map((night) => resolveTaxRate(taxConfig, 'room', night.rate, night.date));
   if (taxConfig?.gstEnabled) {
-    const taxableAmount = subtotal + serviceCharge;
-    gstAmount = taxableAmount * ((taxConfig.cgst + taxConfig.sgst) / 100);
+    const serviceShare = taxConfig.serviceChargeEnabled ? taxConfig.serviceChargePercentage / 100 : 0;
+    gstAmount = nightlyRates.reduce(
+      (sum, night, index) => sum + night.rate * (1 + serviceShare) * (nightlyGstRates[index] / 100),
+      0
+    );
   }
+  const hasMixedGstRates = nightlyGstRates.some((rate) => rate !== nightlyGstRates[0]);
 
   if (taxConfig?.luxuryTaxEnabled) {
     luxuryTax = subtotal * (taxConfig.luxuryTaxPercentage / 100);
@@ -58,16 +66,22 @@ export function PricingBreakdown({ roomTypeId, ratePlanId, checkIn, checkOut }:
       
       <div className="space-y-2 text-sm">
         {/* Room Rate */}
-        <div className="flex justify-between">
-          <span className="text-gray-600">Room Rate (Base)</span>
-          <span className="text-gray-900">₹{baseRate.toLocaleString()} × {nights} night(s)</span>
-        </div>
-
-        {/* Discount */}
-        {ratePlan.discountPercentage > 0 && (
-          <div className="flex justify-between text-green-600">
-            <span>Discount ({ratePlan.discountPercentage}%)</span>
-            <span>- ₹{discountAmount.toLocaleString()}</span>
+        {hasVariableRates ? (
+          nightlyRates.map((night) => (
+            <div key={night.date} className="flex justify-between">
+              <span className="text-gray-600">
+                {format(parseISO(night.date), 'EEE, MMM d')}
+                {night.isOverride && <span className="ml-1 text-xs text-primary-600">(calendar)</span>}
+              </span>
+              <span className="text-gray-900">₹{night.rate.toLocaleString()}</span>
+            </div>
+          ))
+        ) : (
+          <div className="flex justify-between">
+            <span className="text-gray-600">
+              Room Rate{ratePlan.discountPercentage > 0 && !nightlyRates[0].isOverride && ` (${ratePlan.discountPercentage}% off)`}
+            </span>
+            <span className="text-gray-900">₹{nightlyRates[0].rate.toLocaleString()} × {nights} night(s)</span>
           </div>
         )}
 
@@ -89,7 +103,9 @@ export function PricingBreakdown({ roomTypeId, ratePlanId, checkIn, checkOut }:
         {taxConfig?.gstEnabled && gstAmount > 0 && (
           <div className="flex justify-between">
             <span className="text-gray-600">
-              GST (CGST {taxConfig.cgst}% + SGST {taxConfig.sgst}%)
+              {hasMixedGstRates
+                ? 'GST (per-night tariff slabs)'
+                : `GST (CGST ${nightlyGstRates[0] / 2}% + SGST ${nightlyGstRates[0] / 2}%)`}
             </span>
             <span className="text-gray-900">₹{gstAmount.toLocaleString()}</span>
           </div>
@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { useReservationStore } from '../../../stores/reservationStore';
 import { usePropertyStore } from '../../../stores/propertyStore';
+import { useGroupStore } from '../../../stores/groupStore';
+import { useMaintenanceStore } from '../../../stores/maintenanceStore';
 import { Button } from '../../../components/ui/Button';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, addMonths, subMonths, startOfWeek, endOfWeek } from 'date-fns';
 
@@ -9,6 +11,8 @@ export function ReservationCalendarView() {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const { reservations } = useReservationStore();
   const { roomTypes } = usePropertyStore();
+  const { groups, getPickedUp } = useGroupStore();
+  const { workOrders } = useMaintenanceStore();
 
   const monthStart = startOfMonth(currentMonth);
   const monthEnd = endOfMonth(currentMonth);
@@ -20,10 +24,38 @@ export function ReservationCalendarView() {
     return reservations.filter((res) => {
       const checkIn = new Date(res.checkIn);
       const checkOut = new Date(res.checkOut);
-      return date >= checkIn && date < checkOut && res.status !== 'cancelled';
+      return date >= checkIn && date < checkOut && res.status !== 'cancelled' && res.status !== 'no-show';
     });
   };
 
+  // Blocks that still hold rooms on this night, with pickup against the block size
+  const getBlocksForDate = (date: Date) => {
+    const dateKey = format(date, 'yyyy-MM-dd');
+    return groups
+      .filter((group) => group.status !== 'cancelled')
+      .map((group) => {
+        const blocks = group.blocks.filter((block) => block.date === dateKey);
+        return {
+          group,
+          rooms: blocks.reduce((sum, block) => sum + block.rooms - block.released, 0),
+          pickedUp: blocks.reduce((sum, block) => sum + getPickedUp(group, block.roomTypeId, dateKey), 0),
+        };
+      })
+      .filter((entry) => entry.rooms > 0);
+  };
+
+  // Open out-of-order work orders keeping a room off sale on this night
+  const getOutOfOrderForDate = (date: Date) => {
+    const dateKey = format(date, 'yyyy-MM-dd');
+    return workOrders.filter(
+      (order) =>
+        order.outOfOrder &&
+        order.status !== 'closed' &&
+        order.startDate <= dateKey &&
+        (!order.expectedReturnDate || dateKey < order.expectedReturnDate)
+    );
+  };
+
   const goToPreviousMonth = () => setCurrentMonth(subMonths(currentMonth, 1));
   const goToNextMonth = () => setCurrentMonth(addMonths(currentMonth, 1));
   const goToToday = () => setCurrentMonth(new Date());
@@ -78,6 +110,8 @@ export function ReservationCalendarView() {
             const isToday = isSameDay(day, new Date());
             const isCurrentMonth = day.getMonth() === currentMonth.getMonth();
             const dayReservations = getReservationsForDate(day);
+            const dayBlocks = getBlocksForDate(day);
+            const dayOutOfOrder = getOutOfOrderForDate(day);
 
             return (
               <div
@@ -110,6 +144,24 @@ export function ReservationCalendarView() {
                 </div>
                 
                 <div className="space-y-1">
+                  {dayOutOfOrder.map((order) => (
+                    <div
+                      key={order.id}
+                      className="text-xs px-2 py-1 rounded bg-red-100 text-red-800 truncate"
+                      title={`${order.number} - ${order.title}${order.expectedReturnDate ? ` (back ${order.expectedReturnDate})` : ''}`}
+                    >
+                      OOO · {order.roomNumber}
+                    </div>
+                  ))}
+                  {dayBlocks.map(({ group, rooms, pickedUp }) => (
+                    <div
+                      key={group.id}
+                      className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-800 truncate"
+                      title={`${group.name} - ${pickedUp} of ${rooms} blocked room(s) picked up`}
+                    >
+                      {group.code} · {pickedUp}/{rooms}
+                    </div>
+                  ))}
                   {dayReservations.slice(0, 3).map((res) => {
                     const roomType = roomTypes.find(rt => rt.id === res.roomTypeId);
                     return (
@@ -145,6 +197,14 @@ export function ReservationCalendarView() {
             <div className="h-3 w-3 rounded bg-primary-100 border border-primary-300"></div>
             <span className="text-gray-600">Reservation</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-3 rounded bg-amber-100 border border-amber-300"></div>
+            <span className="text-gray-600">Group block (picked up / held)</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-3 rounded bg-red-100 border border-red-300"></div>
+            <span className="text-gray-600">Out of order</span>
+          </div>
         </div>
       </div>
     </div>
@@ -1,13 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Search, Eye, Edit2, XCircle, Plus } from 'lucide-react';
+import { Search, Eye, Edit2, XCircle, Plus, UserX, RotateCcw } from 'lucide-react';
 import { useReservationStore } from '../../../stores/reservationStore';
 import { useGuestStore } from '../../../stores/guestStore';
 import { usePropertyStore } from '../../../stores/propertyStore';
+import { useAuthStore } from '../../../stores/authStore';
 import type { Reservation, ReservationStatus } from '../../../types';
 import { Button } from '../../../components/ui/Button';
 import { Input } from '../../../components/ui/Input';
 import { Select } from '../../../components/ui/Select';
-import { cn } from '../../../utils';
+import { CancelReservationDialog } from './CancelReservationDialog';
+import { cn, formatCurrency } from '../../../utils';
 import { format } from 'date-fns';
 
 const statusConfig: Record<ReservationStatus, { label: string; color: string }> = {
@@ -24,12 +26,15 @@ interface ReservationListViewProps {
 }
 
 export function ReservationListView({ onCreateClick }: ReservationListViewProps) {
-  const { reservations, cancelReservation } = useReservationStore();
+  const { reservations, getDepositStatus, reinstateNoShow } = useReservationStore();
+  const { user } = useAuthStore();
   const { guests } = useGuestStore();
   const { roomTypes } = usePropertyStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [filteredReservations, setFilteredReservations] = useState<Reservation[]>([]);
+  const [cancelling, setCancelling] = useState<{ reservation: Reservation; kind: 'cancellation' | 'no-show' } | null>(null);
+  const today = format(new Date(), 'yyyy-MM-dd');
 
   useEffect(() => {
     let filtered = [...reservations];
@@ -66,17 +71,43 @@ export function ReservationListView({ onCreateClick }: ReservationListViewProps)
     return roomType?.name || 'Unknown Room Type';
   };
 
-  const handleCancelReservation = async (id: string) => {
-    if (confirm('Are you sure you want to cancel this reservation?')) {
-      const reason = prompt('Cancellation reason (optional):');
+  const handleReinstate = async (reservation: Reservation) => {
+    const fee = reservation.cancellationDetails?.penalty ?? 0;
+    const message = fee > 0
+      ? `Reinstate ${reservation.confirmationNumber}? The ${formatCurrency(fee)} no-show fee will be voided.`
+      : `Reinstate ${reservation.confirmationNumber}?`;
+    if (confirm(message)) {
       try {
-        await cancelReservation(id, reason || undefined);
+        await reinstateNoShow(reservation.id, user?.name);
       } catch (error) {
-        alert(error instanceof Error ? error.message : 'Failed to cancel reservation');
+        alert(error instanceof Error ? error.message : 'Failed to reinstate reservation');
       }
     }
   };
 
+  const renderPaymentNote = (reservation: Reservation) => {
+    const outcome = reservation.cancellationDetails;
+    if (outcome) {
+      return (
+        <div className="text-xs text-gray-500">
+          Fee {formatCurrency(outcome.penalty)}
+          {outcome.refundDue > 0 && ` · refund ${formatCurrency(outcome.refundDue)}`}
+          {outcome.outstanding > 0 && ` · owes ${formatCurrency(outcome.outstanding)}`}
+        </div>
+      );
+    }
+    const deposit = getDepositStatus(reservation.id);
+    if (!deposit || deposit.outstanding <= 0) {
+      return <div className="text-xs text-gray-500">{reservation.paymentStatus}</div>;
+    }
+    return (
+      <div className={cn('text-xs', deposit.isOverdue ? 'font-medium text-red-600' : 'text-amber-600')}>
+        Deposit {formatCurrency(deposit.outstanding)} {deposit.isOverdue ? 'overdue since' : 'due'}{' '}
+        {format(new Date(deposit.dueDate), 'MMM dd')}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       {/* Filters */}
@@ -101,6 +132,7 @@ export function ReservationListView({ onCreateClick }: ReservationListViewProps)
               { value: 'checked-in', label: 'Checked In' },
               { value: 'checked-out', label: 'Checked Out' },
               { value: 'cancelled', label: 'Cancelled' },
+              { value: 'no-show', label: 'No Show' },
             ]}
           />
         </div>
@@ -180,7 +212,7 @@ export function ReservationListView({ onCreateClick }: ReservationListViewProps)
                       <div className="text-sm font-semibold text-gray-900">
                         ₹{reservation.totalAmount.toLocaleString()}
                       </div>
-                      <div className="text-xs text-gray-500">{reservation.paymentStatus}</div>
+                      {renderPaymentNote(reservation)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span
@@ -209,14 +241,32 @@ export function ReservationListView({ onCreateClick }: ReservationListViewProps)
                               <Edit2 className="h-4 w-4" />
                             </button>
                             <button
-                              onClick={() => handleCancelReservation(reservation.id)}
+                              onClick={() => setCancelling({ reservation, kind: 'cancellation' })}
                               className="text-red-600 hover:text-red-900"
                               title="Cancel"
                             >
                               <XCircle className="h-4 w-4" />
                             </button>
+                            {reservation.checkIn.slice(0, 10) <= today && (
+                              <button
+                                onClick={() => setCancelling({ reservation, kind: 'no-show' })}
+                                className="text-orange-600 hover:text-orange-900"
+                                title="Mark No-Show"
+                              >
+                                <UserX className="h-4 w-4" />
+                              </button>
+                            )}
                           </>
                         )}
+                        {reservation.status === 'no-show' && (
+                          <button
+                            onClick={() => handleReinstate(reservation)}
+                            className="text-primary-600 hover:text-primary-900"
+                            title="Reinstate"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -226,6 +276,14 @@ export function ReservationListView({ onCreateClick }: ReservationListViewProps)
           </div>
         </div>
       )}
+
+      {cancelling && (
+        <CancelReservationDialog
+          reservation={cancelling.reservation}
+          kind={cancelling.kind}
+          onClose={() => setCancelling(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,349 @@
+import { useMemo, useState } from 'react';
+import type { DragEvent } from 'react';
+import { ChevronLeft, ChevronRight, AlertCircle } from 'lucide-react';
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, isSameDay, isWeekend, parseISO, startOfDay } from 'date-fns';
+import { useReservationStore } from '../../../stores/reservationStore';
+import { usePropertyStore } from '../../../stores/propertyStore';
+import { useHousekeepingStore } from '../../../stores/housekeepingStore';
+import { useTransactionLogStore } from '../../../stores/transactionLogStore';
+import type { Reservation, ReservationStatus, RoomInventory } from '../../../types';
+import { Button } from '../../../components/ui/Button';
+import { cn } from '../../../utils';
+
+const VISIBLE_DAYS = 14;
+const CELL_WIDTH = 88;
+const ROW_HEIGHT = 44;
+
+const barColors: Partial<Record<ReservationStatus, string>> = {
+  pending: 'bg-yellow-100 text-yellow-900 border-yellow-300',
+  confirmed: 'bg-blue-100 text-blue-900 border-blue-300',
+  'checked-in': 'bg-green-100 text-green-900 border-green-300',
+  'checked-out': 'bg-gray-100 text-gray-600 border-gray-300',
+};
+
+const DRAGGABLE_STATUSES: ReservationStatus[] = ['pending', 'confirmed', 'checked-in'];
+
+interface DragState {
+  reservationId: string;
+  // Day index within the bar that the pointer grabbed, so drops keep the bar under the cursor
+  grabOffset: number;
+}
+
+interface DropTarget {
+  roomNumber: string;
+  dayIndex: number;
+}
+
+const toDay = (value: string) => startOfDay(parseISO(value));
+
+export function ReservationTapeChartView() {
+  const [windowStart, setWindowStart] = useState(() => startOfDay(new Date()));
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { reservations, moveReservation, findRoomConflicts } = useReservationStore();
+  const { rooms, roomTypes, updateRoomStatus } = usePropertyStore();
+  const queueDepartureClean = useHousekeepingStore((state) => state.queueDepartureClean);
+  const { logTransaction } = useTransactionLogStore();
+
+  const days = eachDayOfInterval({ start: windowStart, end: addDays(windowStart, VISIBLE_DAYS - 1) });
+  const windowEnd = addDays(windowStart, VISIBLE_DAYS);
+
+  const visibleReservations = reservations.filter(
+    (res) =>
+      res.status !== 'cancelled' &&
+      res.status !== 'no-show' &&
+      toDay(res.checkIn) < windowEnd &&
+      toDay(res.checkOut) > windowStart
+  );
+
+  const sortedRooms = useMemo(
+    () =>
+      [...rooms]
+        .filter((room) => room.isActive)
+        .sort((a, b) => a.roomNumber.localeCompare(b.roomNumber, undefined, { numeric: true })),
+    [rooms]
+  );
+
+  const unassigned = visibleReservations.filter((res) => res.roomNumbers.length === 0);
+
+  const getRoomReservations = (room: RoomInventory) =>
+    visibleReservations.filter((res) => res.roomNumbers.includes(room.roomNumber));
+
+  const getRoomTypeCode = (roomTypeId: string) =>
+    roomTypes.find((rt) => rt.id === roomTypeId)?.shortCode ?? '—';
+
+  const getBarGeometry = (reservation: Reservation) => {
+    const startOffset = differenceInCalendarDays(toDay(reservation.checkIn), windowStart);
+    const endOffset = differenceInCalendarDays(toDay(reservation.checkOut), windowStart);
+    const left = Math.max(startOffset, 0);
+    const right = Math.min(endOffset, VISIBLE_DAYS);
+    return { left: left * CELL_WIDTH, width: Math.max(right - left, 1) * CELL_WIDTH, clippedDays: left - startOffset };
+  };
+
+  const draggedReservation = dragState
+    ? reservations.find((res) => res.id === dragState.reservationId)
+    : undefined;
+
+  const resolveTargetCheckIn = (reservation: Reservation, dayIndex: number, grabOffset: number) =>
+    reservation.status === 'checked-in'
+      ? reservation.checkIn.slice(0, 10)
+      : format(addDays(windowStart, dayIndex - grabOffset), 'yyyy-MM-dd');
+
+  const isDropValid = (target: DropTarget) => {
+    if (!draggedReservation || !dragState) {
+      return false;
+    }
+    const checkIn = resolveTargetCheckIn(draggedReservation, target.dayIndex, dragState.grabOffset);
+    const checkOut = format(addDays(parseISO(checkIn), draggedReservation.nights), 'yyyy-MM-dd');
+    return findRoomConflicts(target.roomNumber, checkIn, checkOut, draggedReservation.id).length === 0;
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, reservation: Reservation) => {
+    const { clippedDays } = getBarGeometry(reservation);
+    const grabOffset = Math.floor(event.nativeEvent.offsetX / CELL_WIDTH) + clippedDays;
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', reservation.id);
+    setDragState({ reservationId: reservation.id, grabOffset });
+    setError(null);
+  };
+
+  const handleDragEnd = () => {
+    setDragState(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, roomNumber: string, dayIndex: number) => {
+    if (!dragState) {
+      return;
+    }
+    event.preventDefault();
+    if (dropTarget?.roomNumber !== roomNumber || dropTarget.dayIndex !== dayIndex) {
+      setDropTarget({ roomNumber, dayIndex });
+    }
+  };
+
+  // A room change mid-stay turns the old room over like a check-out and fills the new one like a check-in
+  const moveInHouseGuest = async (reservation: Reservation, roomNumber: string) => {
+    const changes = [
+      ...reservation.roomNumbers.map((number) => ({ number, status: 'dirty' as const })),
+      { number: roomNumber, status: 'occupied' as const },
+    ];
+    for (const { number, status } of changes) {
+      const room = rooms.find((entry) => entry.roomNumber === number);
+      if (!room) {
+        continue;
+      }
+      if (status === 'dirty') {
+        // Open the departure clean first so it is not duplicated when the room turns dirty
+        queueDepartureClean(room.id, reservation.id);
+      }
+      await updateRoomStatus(room.id, status);
+      await logTransaction({
+        eventType: 'ROOM_STATUS_CHANGED',
+        entityType: 'ROOM',
+        entityId: room.id,
+        description: `Room ${number} marked as ${status} after ${reservation.confirmationNumber} moved to room ${roomNumber}`,
+        metadata: {
+          roomNumber: number,
+          reservationId: reservation.id,
+        },
+        previousState: { status: room.status },
+        newState: { status },
+      });
+    }
+  };
+
+  const handleDrop = async (event: DragEvent<HTMLDivElement>, roomNumber: string, dayIndex: number) => {
+    event.preventDefault();
+    const current = dragState;
+    const reservation = draggedReservation;
+    handleDragEnd();
+
+    if (!current || !reservation) {
+      return;
+    }
+
+    const checkIn = resolveTargetCheckIn(reservation, dayIndex, current.grabOffset);
+    if (reservation.roomNumbers.includes(roomNumber) && checkIn === reservation.checkIn.slice(0, 10)) {
+      return;
+    }
+
+    setIsMoving(true);
+    try {
+      await moveReservation(reservation.id, { roomNumber, checkIn });
+      if (reservation.status === 'checked-in' && !reservation.roomNumbers.includes(roomNumber)) {
+        await moveInHouseGuest(reservation, roomNumber);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move reservation');
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const renderBar = (reservation: Reservation, top = 6) => {
+    const { left, width } = getBarGeometry(reservation);
+    const canDrag = DRAGGABLE_STATUSES.includes(reservation.status) && !isMoving;
+    const guestName = `${reservation.guest.firstName} ${reservation.guest.lastName}`.trim();
+    return (
+      <div
+        key={reservation.id}
+        draggable={canDrag}
+        onDragStart={(event) => handleDragStart(event, reservation)}
+        onDragEnd={handleDragEnd}
+        className={cn(
+          'absolute flex items-center rounded border px-2 text-xs font-medium truncate shadow-sm',
+          barColors[reservation.status] ?? 'bg-gray-100 text-gray-700 border-gray-300',
+          canDrag ? 'cursor-grab active:cursor-grabbing' : 'cursor-default',
+          dragState?.reservationId === reservation.id && 'opacity-50',
+          // Let drops pass through to the cells underneath while a bar is being dragged
+          dragState && 'pointer-events-none'
+        )}
+        style={{ left: left + 2, width: width - 4, top, height: ROW_HEIGHT - 12 }}
+        title={`${reservation.confirmationNumber} · ${guestName} · ${reservation.checkIn.slice(0, 10)} → ${reservation.checkOut.slice(0, 10)}`}
+      >
+        <span className="truncate">
+          {guestName || reservation.confirmationNumber}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {format(windowStart, 'MMM d')} – {format(addDays(windowStart, VISIBLE_DAYS - 1), 'MMM d, yyyy')}
+          </h2>
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" onClick={() => setWindowStart(startOfDay(new Date()))}>
+              Today
+            </Button>
+            <div className="flex border border-gray-300 rounded-lg overflow-hidden">
+              <button
+                onClick={() => setWindowStart(addDays(windowStart, -7))}
+                className="px-3 py-1.5 hover:bg-gray-50 border-r border-gray-300"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setWindowStart(addDays(windowStart, 7))}
+                className="px-3 py-1.5 hover:bg-gray-50"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200 flex items-start gap-2">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Tape Chart Grid */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+        <div style={{ minWidth: 128 + CELL_WIDTH * VISIBLE_DAYS }}>
+          {/* Date Headers */}
+          <div className="flex border-b border-gray-200 bg-gray-50">
+            <div className="w-32 flex-shrink-0 px-3 py-2 text-xs font-semibold text-gray-600 border-r border-gray-200">
+              Room
+            </div>
+            {days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className={cn(
+                  'flex-shrink-0 px-2 py-2 text-center text-xs border-r border-gray-200 last:border-r-0',
+                  isSameDay(day, new Date()) ? 'bg-primary-50 font-semibold text-primary-700' : 'text-gray-600',
+                  isWeekend(day) && !isSameDay(day, new Date()) && 'bg-gray-100'
+                )}
+                style={{ width: CELL_WIDTH }}
+              >
+                <div>{format(day, 'EEE')}</div>
+                <div className="font-semibold">{format(day, 'd MMM')}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Unassigned Stays */}
+          {unassigned.length > 0 && (
+            <div className="flex border-b border-gray-200 bg-amber-50/40">
+              <div className="w-32 flex-shrink-0 px-3 py-2 border-r border-gray-200">
+                <p className="text-sm font-medium text-gray-900">Unassigned</p>
+                <p className="text-xs text-gray-500">{unassigned.length} stay(s)</p>
+              </div>
+              <div className="relative flex-1" style={{ height: ROW_HEIGHT * unassigned.length }}>
+                {unassigned.map((reservation, index) => renderBar(reservation, index * ROW_HEIGHT + 6))}
+              </div>
+            </div>
+          )}
+
+          {/* Room Rows */}
+          {sortedRooms.length === 0 ? (
+            <div className="text-center py-12 text-sm text-gray-500">No rooms configured</div>
+          ) : (
+            sortedRooms.map((room) => (
+              <div key={room.id} className="flex border-b border-gray-200 last:border-b-0">
+                <div className="w-32 flex-shrink-0 px-3 py-1.5 border-r border-gray-200">
+                  <p className="text-sm font-medium text-gray-900">{room.roomNumber}</p>
+                  <p className="text-xs text-gray-500">{getRoomTypeCode(room.roomTypeId)}</p>
+                </div>
+                <div className="relative flex" style={{ height: ROW_HEIGHT }}>
+                  {days.map((day, dayIndex) => {
+                    const isTarget = dropTarget !== null && dropTarget.roomNumber === room.roomNumber && dropTarget.dayIndex === dayIndex;
+                    return (
+                      <div
+                        key={day.toISOString()}
+                        onDragOver={(event) => handleDragOver(event, room.roomNumber, dayIndex)}
+                        onDrop={(event) => void handleDrop(event, room.roomNumber, dayIndex)}
+                        className={cn(
+                          'flex-shrink-0 h-full border-r border-gray-100 last:border-r-0',
+                          isWeekend(day) && 'bg-gray-50',
+                          isTarget && dropTarget && (isDropValid(dropTarget) ? 'bg-green-100' : 'bg-red-100')
+                        )}
+                        style={{ width: CELL_WIDTH }}
+                      />
+                    );
+                  })}
+                  {getRoomReservations(room).map((reservation) => renderBar(reservation))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <div className="flex flex-wrap items-center gap-6 text-sm">
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-3 rounded bg-yellow-100 border border-yellow-300"></div>
+            <span className="text-gray-600">Pending</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-3 rounded bg-blue-100 border border-blue-300"></div>
+            <span className="text-gray-600">Confirmed</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-3 rounded bg-green-100 border border-green-300"></div>
+            <span className="text-gray-600">Checked In</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="h-3 w-3 rounded bg-gray-100 border border-gray-300"></div>
+            <span className="text-gray-600">Checked Out</span>
+          </div>
+          <span className="text-xs text-gray-500">
+            Drag a stay onto another room or date to move it. In-house guests can only change rooms.
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
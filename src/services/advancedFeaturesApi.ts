@@ -13,6 +13,7 @@ import type {
   PropertyFeatureFlags,
   HotelProfile
 } from '../types';
+import type { SyncRatesRequest } from './otaApi';
 
 // ========================================
 // Night Audit API
@@ -89,8 +90,8 @@ export const otaApi = {
     return response.data.data;
   },
 
-  async syncRates(id: string, dateRange: { from: string; to: string }): Promise<OTASyncLog> {
-    const response = await apiClient.post(`/ota/channels/${id}/sync-rates`, dateRange);
+  async syncRates(id: string, payload: SyncRatesRequest): Promise<OTASyncLog> {
+    const response = await apiClient.post(`/ota/channels/${id}/sync-rates`, payload);
     return response.data.data;
   },
 
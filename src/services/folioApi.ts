@@ -0,0 +1,57 @@
+import api from '../lib/apiClient';
+import type { Folio, FolioEntry, FolioRoutingRule } from '../types';
+
+export type FolioLedgerResponse = {
+  folios: Folio[];
+  entries: FolioEntry[];
+  routingRules: FolioRoutingRule[];
+};
+
+const MASTER_LEDGER_PREFIX = 'group:';
+
+// A group's master folio belongs to no reservation; locally it is filed under this key, which can never
+// match a reservation id, and on the server under the group itself
+export const masterLedgerKey = (groupId: string) => `${MASTER_LEDGER_PREFIX}${groupId}`;
+
+const groupIdOf = (reservationId: string) =>
+  reservationId.startsWith(MASTER_LEDGER_PREFIX) ? reservationId.slice(MASTER_LEDGER_PREFIX.length) : undefined;
+
+const ledgerPath = (reservationId: string) => {
+  const groupId = groupIdOf(reservationId);
+  return groupId ? `/groups/${groupId}/folios` : '/folios';
+};
+
+export const folioApi = {
+  async fetchLedger(reservationId?: string): Promise<FolioLedgerResponse> {
+    if (reservationId && groupIdOf(reservationId)) {
+      const response = await api.get<FolioLedgerResponse>(ledgerPath(reservationId));
+      return response.data;
+    }
+    const response = await api.get<FolioLedgerResponse>('/folios', {
+      params: reservationId ? { reservationId } : undefined
+    });
+    return response.data;
+  },
+
+  // Folios are opened on the client, so saving is an upsert keyed by the client id
+  async saveFolio(folio: Folio): Promise<Folio> {
+    const response = await api.put<{ folio: Folio }>(`${ledgerPath(folio.reservationId)}/${folio.id}`, folio);
+    return response.data.folio;
+  },
+
+  // Postings are append-only; replaying the same entry id is a no-op on the server, which also refuses
+  // voids, transfers and splits of charges already on an invoice
+  async postEntry(entry: FolioEntry): Promise<FolioEntry> {
+    const response = await api.put<{ entry: FolioEntry }>(`${ledgerPath(entry.reservationId)}/entries/${entry.id}`, entry);
+    return response.data.entry;
+  },
+
+  async saveRoutingRule(rule: FolioRoutingRule): Promise<FolioRoutingRule> {
+    const response = await api.put<{ routingRule: FolioRoutingRule }>(`/folios/routing-rules/${rule.id}`, rule);
+    return response.data.routingRule;
+  },
+
+  async deleteRoutingRule(ruleId: string): Promise<void> {
+    await api.delete(`/folios/routing-rules/${ruleId}`);
+  }
+};
@@ -0,0 +1,16 @@
+import api from '../lib/apiClient';
+import type { GroupBooking } from '../types';
+
+export const groupApi = {
+  async fetchGroups(): Promise<GroupBooking[]> {
+    const response = await api.get<{ groups: GroupBooking[] }>('/groups');
+    return response.data.groups;
+  },
+
+  // Groups are created on the client, so saving is an upsert keyed by the client id; the server holds
+  // the blocks back from availability for every terminal and channel
+  async saveGroup(group: GroupBooking): Promise<GroupBooking> {
+    const response = await api.put<{ group: GroupBooking }>(`/groups/${group.id}`, group);
+    return response.data.group;
+  }
+};
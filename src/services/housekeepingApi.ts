@@ -0,0 +1,43 @@
+import api from '../lib/apiClient';
+import type { HousekeepingTask, HousekeepingTaskStatus } from '../types';
+
+type HousekeepingTaskResponse = Omit<HousekeepingTask, 'status' | 'maintenance'> & {
+  status: string;
+  maintenance?: boolean;
+};
+
+const TASK_STATUS_MAP: Record<string, HousekeepingTaskStatus> = {
+  PENDING: 'pending',
+  IN_PROGRESS: 'in-progress',
+  COMPLETED: 'completed',
+  INSPECTED: 'inspected'
+};
+
+const TASK_STATUS_REVERSE_MAP: Record<HousekeepingTaskStatus, string> = {
+  pending: 'PENDING',
+  'in-progress': 'IN_PROGRESS',
+  completed: 'COMPLETED',
+  inspected: 'INSPECTED'
+};
+
+const mapTask = (task: HousekeepingTaskResponse): HousekeepingTask => ({
+  ...task,
+  status: TASK_STATUS_MAP[task.status] ?? 'pending',
+  maintenance: task.maintenance ?? false
+});
+
+export const housekeepingApi = {
+  async fetchTasks(): Promise<HousekeepingTask[]> {
+    const response = await api.get<{ tasks: HousekeepingTaskResponse[] }>('/housekeeping/tasks');
+    return response.data.tasks.map(mapTask);
+  },
+
+  // Tasks are created on the client, so saving is an upsert keyed by the client id
+  async saveTask(task: HousekeepingTask): Promise<HousekeepingTask> {
+    const response = await api.put<{ task: HousekeepingTaskResponse }>(`/housekeeping/tasks/${task.id}`, {
+      ...task,
+      status: TASK_STATUS_REVERSE_MAP[task.status]
+    });
+    return mapTask(response.data.task);
+  }
+};
@@ -0,0 +1,22 @@
+import api from '../lib/apiClient';
+import type { TaxDocument } from '../types';
+
+// Everything but the number, which only the server may hand out
+export type TaxDocumentDraft = Omit<TaxDocument, 'number' | 'sequence'>;
+
+export const invoiceApi = {
+  async fetchDocuments(reservationId?: string): Promise<TaxDocument[]> {
+    const response = await api.get<{ documents: TaxDocument[] }>('/tax-documents', {
+      params: reservationId ? { reservationId } : undefined
+    });
+    return response.data.documents;
+  },
+
+  // The server takes the next number in the draft's series inside one transaction, so two terminals can
+  // never issue the same number, and prints it in the same 16-character layout the billing screen previews;
+  // replaying the same id returns the original document
+  async issueDocument(draft: TaxDocumentDraft): Promise<TaxDocument> {
+    const response = await api.put<{ document: TaxDocument }>(`/tax-documents/${draft.id}`, draft);
+    return response.data.document;
+  }
+};
@@ -0,0 +1,26 @@
+import api from '../lib/apiClient';
+import type { LostItem } from '../types';
+
+export const lostFoundApi = {
+  async fetchItems(): Promise<LostItem[]> {
+    const response = await api.get<{ items: LostItem[] }>('/lost-found/items');
+    return response.data.items;
+  },
+
+  // Items are numbered on the client, so saving is an upsert keyed by the client id
+  async saveItem(item: LostItem): Promise<LostItem> {
+    const response = await api.put<{ item: LostItem }>(`/lost-found/items/${item.id}`, item);
+    return response.data.item;
+  },
+
+  // Photos live on the server; items carry only the URL it hands back
+  async uploadPhoto(file: File): Promise<string> {
+    const body = new FormData();
+    body.append('photo', file);
+    // The client defaults to JSON, which would flatten the form and drop the file
+    const response = await api.post<{ url: string }>('/lost-found/photos', body, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data.url;
+  }
+};
@@ -0,0 +1,69 @@
+import api from '../lib/apiClient';
+import type { WorkOrder, WorkOrderStatus } from '../types';
+
+type WorkOrderResponse = Omit<WorkOrder, 'status' | 'photos' | 'notes'> & {
+  status: string;
+  photos?: string[];
+  notes?: WorkOrder['notes'];
+};
+
+const WORK_ORDER_STATUS_MAP: Record<string, WorkOrderStatus> = {
+  OPEN: 'open',
+  IN_PROGRESS: 'in-progress',
+  ON_HOLD: 'on-hold',
+  CLOSED: 'closed'
+};
+
+const WORK_ORDER_STATUS_REVERSE_MAP: Record<WorkOrderStatus, string> = {
+  open: 'OPEN',
+  'in-progress': 'IN_PROGRESS',
+  'on-hold': 'ON_HOLD',
+  closed: 'CLOSED'
+};
+
+// Everything but the number, which only the server may hand out
+export type WorkOrderDraft = Omit<WorkOrder, 'number'>;
+
+const mapWorkOrder = (order: WorkOrderResponse): WorkOrder => ({
+  ...order,
+  status: WORK_ORDER_STATUS_MAP[order.status] ?? 'open',
+  photos: order.photos ?? [],
+  notes: order.notes ?? []
+});
+
+export const maintenanceApi = {
+  async fetchWorkOrders(): Promise<WorkOrder[]> {
+    const response = await api.get<{ workOrders: WorkOrderResponse[] }>('/maintenance/work-orders');
+    return response.data.workOrders.map(mapWorkOrder);
+  },
+
+  // The server takes the next WO number inside one transaction, so two terminals never report the same number;
+  // replaying the same id returns the original order
+  async createWorkOrder(draft: WorkOrderDraft): Promise<WorkOrder> {
+    const response = await api.post<{ workOrder: WorkOrderResponse }>('/maintenance/work-orders', {
+      ...draft,
+      status: WORK_ORDER_STATUS_REVERSE_MAP[draft.status]
+    });
+    return mapWorkOrder(response.data.workOrder);
+  },
+
+  // Later changes keep the id and number the server gave the order
+  async saveWorkOrder(order: WorkOrder): Promise<WorkOrder> {
+    const response = await api.put<{ workOrder: WorkOrderResponse }>(`/maintenance/work-orders/${order.id}`, {
+      ...order,
+      status: WORK_ORDER_STATUS_REVERSE_MAP[order.status]
+    });
+    return mapWorkOrder(response.data.workOrder);
+  },
+
+  // Photos live on the server; work orders carry only the URL it hands back
+  async uploadPhoto(file: File): Promise<string> {
+    const body = new FormData();
+    body.append('photo', file);
+    // The client defaults to JSON, which would flatten the form and drop the file
+    const response = await api.post<{ url: string }>('/maintenance/photos', body, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data.url;
+  }
+};
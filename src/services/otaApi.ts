@@ -92,6 +92,21 @@ export type SyncRequest = {
   to: string;   // YYYY-MM-DD
 };
 
+export type OTARateUpdate = {
+  roomTypeId: string;
+  otaRoomTypeId: string;
+  ratePlanCode: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+  minStay?: number;
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+};
+
+export type SyncRatesRequest = SyncRequest & {
+  rates?: OTARateUpdate[];
+};
+
 export const otaApi = {
   /**
    * Get all OTA channels
@@ -143,8 +158,8 @@ export const otaApi = {
   /**
    * Sync rates to OTA
    */
-  async syncRates(id: string, dateRange: SyncRequest): Promise<OTASyncLogResponse> {
-    const response = await api.post<{ data: OTASyncLogResponse }>(`/ota/channels/${id}/sync-rates`, dateRange);
+  async syncRates(id: string, payload: SyncRatesRequest): Promise<OTASyncLogResponse> {
+    const response = await api.post<{ data: OTASyncLogResponse }>(`/ota/channels/${id}/sync-rates`, payload);
     return response.data.data;
   },
 
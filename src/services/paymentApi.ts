@@ -0,0 +1,12 @@
+import api from '../lib/apiClient';
+import type { PaymentIntent } from '../types';
+
+export const paymentApi = {
+  // Every terminal's payments, with the status and folio posting the gateway webhooks last left them in
+  async fetchIntents(reservationId?: string): Promise<PaymentIntent[]> {
+    const response = await api.get<{ intents: PaymentIntent[] }>('/payments/intents', {
+      params: reservationId ? { reservationId } : undefined
+    });
+    return response.data.intents;
+  }
+};
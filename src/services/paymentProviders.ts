@@ -0,0 +1,163 @@
+import { nanoid } from 'nanoid/non-secure';
+import { apiClient } from '../lib/apiClient';
+import type { PaymentIntent, PaymentIntentMethod, PaymentIntentStatus, PaymentProviderKind, PaymentTarget } from '../types';
+
+export interface PaymentIntentRequest {
+  intentId: string; // sent as the merchant receipt so gateway records can be traced back
+  method: PaymentIntentMethod;
+  captureMode: PaymentIntent['captureMode'];
+  amount: number;
+  description: string;
+  upi?: { vpa: string; payeeName: string };
+  expiresAt?: string;
+  // Lets the backend post a folio payment itself when the webhook confirms it, with no terminal watching
+  target: PaymentTarget;
+  createdBy: string;
+}
+
+export interface ProviderIntent {
+  providerRef: string;
+  upiUri?: string;
+  expiresAt?: string;
+}
+
+export interface ProviderStatus {
+  status: PaymentIntentStatus;
+  paymentRef?: string;
+  capturedAmount?: number;
+  failureReason?: string;
+}
+
+/**
+ * Talks to one payment gateway; every call throws when the gateway cannot be reached or refuses
+ */
+export interface PaymentProvider {
+  kind: PaymentProviderKind;
+  createIntent: (request: PaymentIntentRequest) => Promise<ProviderIntent>;
+  getStatus: (intent: PaymentIntent) => Promise<ProviderStatus>;
+  capture: (intent: PaymentIntent, amount: number) => Promise<ProviderStatus>;
+  cancel: (intent: PaymentIntent) => Promise<ProviderStatus>;
+  refund: (intent: PaymentIntent, amount: number, reason: string) => Promise<{ refundRef: string }>;
+}
+
+const providers = new Map<PaymentProviderKind, PaymentProvider>();
+
+export const registerPaymentProvider = (provider: PaymentProvider) => {
+  providers.set(provider.kind, provider);
+};
+
+export const getPaymentProvider = (kind: PaymentProviderKind) => providers.get(kind);
+
+/**
+ * UPI deep link with the amount fixed, as scanned by any UPI app
+ */
+export const buildUpiUri = ({ vpa, payeeName }: { vpa: string; payeeName: string }, amount: number, reference: string, note: string) => {
+  const params = new URLSearchParams({
+    pa: vpa,
+    pn: payeeName,
+    am: amount.toFixed(2),
+    cu: 'INR',
+    tr: reference,
+    tn: note.slice(0, 50),
+  });
+  return `upi://pay?${params.toString().replace(/\+/g, '%20')}`;
+};
+
+// The backend holds the gateway keys (Razorpay, PayU and the like), keeps every intent and receives the webhooks; the app polls it
+registerPaymentProvider({
+  kind: 'gateway',
+  createIntent: async (request) => {
+    const response = await apiClient.post('/payments/intents', request);
+    return response.data.data;
+  },
+  getStatus: async (intent) => {
+    const response = await apiClient.get(`/payments/intents/${intent.providerRef}`);
+    return response.data.data;
+  },
+  capture: async (intent, amount) => {
+    const response = await apiClient.post(`/payments/intents/${intent.providerRef}/capture`, { amount });
+    return response.data.data;
+  },
+  cancel: async (intent) => {
+    const response = await apiClient.post(`/payments/intents/${intent.providerRef}/cancel`);
+    return response.data.data;
+  },
+  refund: async (intent, amount, reason) => {
+    const response = await apiClient.post(`/payments/intents/${intent.providerRef}/refunds`, { amount, reason });
+    return response.data.data;
+  },
+});
+
+interface MockPayment {
+  captureMode: PaymentIntent['captureMode'];
+  amount: number;
+  status: PaymentIntentStatus;
+  paymentRef?: string;
+  capturedAmount?: number;
+  failureReason?: string;
+}
+
+const mockPayments = new Map<string, MockPayment>();
+
+const mockPayment = (intent: PaymentIntent) => {
+  const payment = intent.providerRef && mockPayments.get(intent.providerRef);
+  if (!payment) {
+    throw new Error('The mock gateway has no record of this payment; it only lives until the page reloads');
+  }
+  return payment;
+};
+
+/**
+ * Stands in for the guest paying or the card terminal responding, for trying flows without a gateway;
+ * does nothing outside development builds, where the mock gateway is not registered
+ */
+export const simulateMockPayment = (providerRef: string, outcome: 'success' | 'failure') => {
+  const payment = mockPayments.get(providerRef);
+  if (!payment || payment.status !== 'pending') {
+    return;
+  }
+  if (outcome === 'failure') {
+    payment.status = 'failed';
+    payment.failureReason = 'Declined by the payer';
+    return;
+  }
+  payment.paymentRef = `pay_${nanoid(14)}`;
+  if (payment.captureMode === 'manual') {
+    payment.status = 'authorized';
+  } else {
+    payment.status = 'captured';
+    payment.capturedAmount = payment.amount;
+  }
+};
+
+// Development builds only, so a production terminal can never mark a payment as received without a gateway
+if (import.meta.env.DEV) {
+  registerPaymentProvider({
+    kind: 'mock',
+    createIntent: async (request) => {
+      const providerRef = `order_${nanoid(14)}`;
+      mockPayments.set(providerRef, { captureMode: request.captureMode, amount: request.amount, status: 'pending' });
+      return {
+        providerRef,
+        upiUri: request.upi && buildUpiUri(request.upi, request.amount, request.intentId, request.description),
+        expiresAt: request.expiresAt,
+      };
+    },
+    getStatus: async (intent) => {
+      const { status, paymentRef, capturedAmount, failureReason } = mockPayment(intent);
+      return { status, paymentRef, capturedAmount, failureReason };
+    },
+    capture: async (intent, amount) => {
+      const payment = mockPayment(intent);
+      payment.status = 'captured';
+      payment.capturedAmount = amount;
+      return { status: payment.status, paymentRef: payment.paymentRef, capturedAmount: amount };
+    },
+    cancel: async (intent) => {
+      const payment = mockPayment(intent);
+      payment.status = 'cancelled';
+      return { status: payment.status };
+    },
+    refund: async () => ({ refundRef: `rfnd_${nanoid(14)}` }),
+  });
+}
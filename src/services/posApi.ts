@@ -0,0 +1,29 @@
+import api from '../lib/apiClient';
+import type { KOTTicket, POSShift } from '../types';
+
+export const posApi = {
+  // Open tickets plus any changed since the given time, so a kitchen screen can poll cheaply
+  async fetchTickets(since?: string): Promise<KOTTicket[]> {
+    const response = await api.get<{ tickets: KOTTicket[] }>('/pos/kot-tickets', {
+      params: since ? { since } : undefined
+    });
+    return response.data.tickets;
+  },
+
+  // Tickets are raised on the POS terminal, so saving is an upsert keyed by the client id
+  async saveTicket(ticket: KOTTicket): Promise<KOTTicket> {
+    const response = await api.put<{ ticket: KOTTicket }>(`/pos/kot-tickets/${ticket.id}`, ticket);
+    return response.data.ticket;
+  },
+
+  async fetchShifts(): Promise<POSShift[]> {
+    const response = await api.get<{ shifts: POSShift[] }>('/pos/shifts');
+    return response.data.shifts;
+  },
+
+  // Drawers are opened on the terminal, so saving is an upsert keyed by the client id
+  async saveShift(shift: POSShift): Promise<POSShift> {
+    const response = await api.put<{ shift: POSShift }>(`/pos/shifts/${shift.id}`, shift);
+    return response.data.shift;
+  }
+};
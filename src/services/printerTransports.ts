@@ -0,0 +1,131 @@
+import type { PrinterConfig, PrinterTransportKind } from '../types';
+
+export interface PrintJob {
+  title: string;
+  bytes: Uint8Array;
+  text: string;
+}
+
+/**
+ * Delivers ESC/POS output to a printer; throws when the printer cannot be reached
+ */
+export interface PrinterTransport {
+  kind: PrinterTransportKind;
+  print: (job: PrintJob, printer: PrinterConfig) => Promise<void>;
+}
+
+const transports = new Map<PrinterTransportKind, PrinterTransport>();
+
+export const registerPrinterTransport = (transport: PrinterTransport) => {
+  transports.set(transport.kind, transport);
+};
+
+export const getPrinterTransport = (kind: PrinterTransportKind) => transports.get(kind);
+
+// WebUSB is not in the DOM typings yet; only the calls used here are described
+interface UsbEndpoint {
+  direction: 'in' | 'out';
+  endpointNumber: number;
+}
+
+interface UsbDevice {
+  productName?: string;
+  opened: boolean;
+  configuration: {
+    interfaces: Array<{ interfaceNumber: number; claimed: boolean; alternate: { endpoints: UsbEndpoint[] } }>;
+  } | null;
+  open: () => Promise<void>;
+  selectConfiguration: (value: number) => Promise<void>;
+  claimInterface: (interfaceNumber: number) => Promise<void>;
+  transferOut: (endpointNumber: number, data: Uint8Array) => Promise<unknown>;
+}
+
+interface Usb {
+  getDevices: () => Promise<UsbDevice[]>;
+  requestDevice: (options: { filters: object[] }) => Promise<UsbDevice>;
+}
+
+// Printers paired earlier are reused; the browser only shows its picker the first time
+const findUsbDevice = async (printer: PrinterConfig) => {
+  const usb = (navigator as Navigator & { usb?: Usb }).usb;
+  if (!usb) {
+    throw new Error('This browser cannot print over USB; use Chrome or Edge, or a print bridge');
+  }
+  const paired = await usb.getDevices();
+  const match = paired.find((device) => !printer.address || device.productName === printer.address) ?? paired[0];
+  return match ?? usb.requestDevice({ filters: [] });
+};
+
+registerPrinterTransport({
+  kind: 'webusb',
+  print: async (job, printer) => {
+    const device = await findUsbDevice(printer);
+    if (!device.opened) {
+      await device.open();
+    }
+    if (!device.configuration) {
+      await device.selectConfiguration(1);
+    }
+    const target = device.configuration?.interfaces
+      .map((item) => ({ item, endpoint: item.alternate.endpoints.find((endpoint) => endpoint.direction === 'out') }))
+      .find((entry) => entry.endpoint);
+    if (!target?.endpoint) {
+      throw new Error(`${printer.name} does not accept print data over USB`);
+    }
+    if (!target.item.claimed) {
+      await device.claimInterface(target.item.interfaceNumber);
+    }
+    await device.transferOut(target.endpoint.endpointNumber, job.bytes);
+  },
+});
+
+// A small service on the LAN forwards the raw bytes to the printer's port 9100
+registerPrinterTransport({
+  kind: 'network',
+  print: async (job, printer) => {
+    if (!printer.address) {
+      throw new Error(`No print bridge URL set for ${printer.name}`);
+    }
+    const response = await fetch(printer.address, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Print-Title': job.title },
+      body: new Blob([job.bytes as BlobPart]),
+    });
+    if (!response.ok) {
+      throw new Error(`${printer.name} print bridge replied ${response.status}`);
+    }
+  },
+});
+
+// Raw ESC/POS file that can be sent to the printer by hand, e.g. with copy /b on Windows
+registerPrinterTransport({
+  kind: 'download',
+  print: async (job) => {
+    const blob = new Blob([job.bytes as BlobPart], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${job.title}.bin`;
+    link.click();
+    URL.revokeObjectURL(url);
+  },
+});
+
+const mockJobs: Array<PrintJob & { printerId: string; printedAt: string }> = [];
+
+/**
+ * Jobs sent to mock printers, for checking layouts without hardware
+ */
+export const getMockPrintJobs = () => [...mockJobs];
+
+export const clearMockPrintJobs = () => {
+  mockJobs.length = 0;
+};
+
+registerPrinterTransport({
+  kind: 'mock',
+  print: async (job, printer) => {
+    mockJobs.push({ ...job, printerId: printer.id, printedAt: new Date().toISOString() });
+    console.info(`[${printer.name}] ${job.title}\n${job.text}`);
+  },
+});
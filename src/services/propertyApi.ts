@@ -5,7 +5,8 @@ import type {
   RoomInventory,
   RoomStatus,
   RoomType,
-  TaxConfiguration
+  TaxConfiguration,
+  TaxRule
 } from '../types';
 
 const ROOM_STATUS_MAP: Record<string, RoomStatus> = {
@@ -76,6 +77,7 @@ type RoomResponse = {
   maxOccupancy?: number;
   hasExtraBed?: boolean;
   isActive?: boolean;
+  lastCleanedAt?: string | null;
 };
 
 type TaxResponse = {
@@ -88,6 +90,7 @@ type TaxResponse = {
   serviceChargePercentage?: number;
   luxuryTaxEnabled?: boolean;
   luxuryTaxPercentage?: number;
+  taxRules?: TaxRule[];
 };
 
 const mapProfile = (profile: PropertyProfileResponse | null | undefined): HotelProfile | null => {
@@ -140,7 +143,7 @@ const mapRoom = (room: RoomResponse): RoomInventory => ({
   maxOccupancy: room.maxOccupancy ?? 2,
   hasExtraBed: room.hasExtraBed ?? false,
   isActive: room.isActive ?? true,
-  lastCleaned: undefined
+  lastCleaned: room.lastCleanedAt ?? undefined
 });
 
 const mapTaxConfig = (tax: TaxResponse | null | undefined): TaxConfiguration | null => {
@@ -157,7 +160,8 @@ const mapTaxConfig = (tax: TaxResponse | null | undefined): TaxConfiguration | n
     serviceChargeEnabled: tax.serviceChargeEnabled ?? false,
     serviceChargePercentage: tax.serviceChargePercentage ?? 0,
     luxuryTaxEnabled: tax.luxuryTaxEnabled ?? false,
-    luxuryTaxPercentage: tax.luxuryTaxPercentage ?? 0
+    luxuryTaxPercentage: tax.luxuryTaxPercentage ?? 0,
+    taxRules: tax.taxRules ?? []
   };
 };
 
@@ -193,6 +197,7 @@ type SaveRoomPayload = {
 
 type UpdateRoomPayload = Partial<Omit<SaveRoomPayload, 'roomNumber'>> & {
   roomNumber?: string;
+  lastCleaned?: string;
 };
 
 type SaveTaxPayload = TaxConfiguration;
@@ -318,7 +323,8 @@ export const propertyApi = {
       buildingId: payload.buildingId,
       maxOccupancy: payload.maxOccupancy,
       hasExtraBed: payload.hasExtraBed,
-      isActive: payload.isActive
+      isActive: payload.isActive,
+      lastCleanedAt: payload.lastCleaned
     });
     return mapRoom(response.data.room);
   },
@@ -341,7 +347,8 @@ export const propertyApi = {
       serviceChargeEnabled: payload.serviceChargeEnabled,
       serviceChargePercentage: payload.serviceChargePercentage,
       luxuryTaxEnabled: payload.luxuryTaxEnabled,
-      luxuryTaxPercentage: payload.luxuryTaxPercentage
+      luxuryTaxPercentage: payload.luxuryTaxPercentage,
+      taxRules: payload.taxRules ?? []
     });
     return mapTaxConfig(response.data.taxes);
   }
@@ -0,0 +1,27 @@
+import api from '../lib/apiClient';
+import type { RateCalendarEntry } from '../types';
+
+export type RateCalendarRange = {
+  roomTypeId: string;
+  ratePlanId: string;
+  from: string;
+  to: string;
+};
+
+export const rateCalendarApi = {
+  async fetchEntries(): Promise<RateCalendarEntry[]> {
+    const response = await api.get<{ entries: RateCalendarEntry[] }>('/rate-calendar');
+    return response.data.entries;
+  },
+
+  // Entries are created on the client; the server upserts them by room type, rate plan and date, so two
+  // terminals editing the same night end up with one entry
+  async saveEntries(entries: RateCalendarEntry[]): Promise<RateCalendarEntry[]> {
+    const response = await api.put<{ entries: RateCalendarEntry[] }>('/rate-calendar', { entries });
+    return response.data.entries;
+  },
+
+  async clearRange(range: RateCalendarRange): Promise<void> {
+    await api.delete('/rate-calendar', { params: range });
+  }
+};
@@ -0,0 +1,44 @@
+import api from '../lib/apiClient';
+import type { ReportSchedule } from '../types';
+
+export type ReportScheduleClaim = {
+  // False when another tab or terminal already took this run
+  claimed: boolean;
+  schedule: ReportSchedule;
+};
+
+export type ReportEmailRequest = {
+  to: string;
+  toName: string;
+  subject: string;
+  body: string;
+  attachment?: { fileName: string; mimeType: string; content: string };
+};
+
+export const reportScheduleApi = {
+  async fetchSchedules(): Promise<ReportSchedule[]> {
+    const response = await api.get<{ schedules: ReportSchedule[] }>('/report-schedules');
+    return response.data.schedules;
+  },
+
+  // Schedules are created on the client, so saving is an upsert keyed by the client id
+  async saveSchedule(schedule: ReportSchedule): Promise<ReportSchedule> {
+    const response = await api.put<{ schedule: ReportSchedule }>(`/report-schedules/${schedule.id}`, schedule);
+    return response.data.schedule;
+  },
+
+  async deleteSchedule(id: string): Promise<void> {
+    await api.delete(`/report-schedules/${id}`);
+  },
+
+  // The server moves nextRunAt on and stamps lastRunAt only if nextRunAt still matches the run being claimed,
+  // so exactly one tab or terminal wins each run
+  async claimRun(id: string, runAt: string, nextRunAt: string): Promise<ReportScheduleClaim> {
+    const response = await api.post<ReportScheduleClaim>(`/report-schedules/${id}/claim`, { runAt, nextRunAt });
+    return response.data;
+  },
+
+  async sendEmail(request: ReportEmailRequest): Promise<void> {
+    await api.post('/reports/email', request);
+  }
+};
@@ -0,0 +1,72 @@
+import { format, parseISO } from 'date-fns';
+import { whatsappApi } from './advancedFeaturesApi';
+import { reportScheduleApi } from './reportScheduleApi';
+import type { Report, ReportDeliveryChannel, ReportRecipient, ReportSchedule } from '../types';
+
+export interface ReportAttachment {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface ReportMessage {
+  schedule: ReportSchedule;
+  report: Report;
+  recipient: ReportRecipient;
+  subject: string;
+  body: string;
+  attachment?: ReportAttachment;
+}
+
+/**
+ * Sends a generated report to one recipient; throws when the delivery fails
+ */
+export interface ReportTransport {
+  channel: ReportDeliveryChannel;
+  send: (message: ReportMessage) => Promise<void>;
+}
+
+const transports = new Map<ReportDeliveryChannel, ReportTransport>();
+
+export const registerReportTransport = (transport: ReportTransport) => {
+  transports.set(transport.channel, transport);
+};
+
+export const getReportTransport = (channel: ReportDeliveryChannel) => transports.get(channel);
+
+export const hasReportTransport = (channel: ReportDeliveryChannel) => transports.has(channel);
+
+const formatRange = (report: Report) => {
+  const from = format(parseISO(report.dateRange.from), 'MMM d, yyyy');
+  const to = format(parseISO(report.dateRange.to), 'MMM d, yyyy');
+  return from === to ? from : `${from} - ${to}`;
+};
+
+// Templates cannot carry files, so WhatsApp recipients get the summary only
+registerReportTransport({
+  channel: 'whatsapp',
+  send: async ({ schedule, report, recipient, body }) => {
+    if (!schedule.whatsappTemplateId) {
+      throw new Error('No WhatsApp template selected for this schedule');
+    }
+    await whatsappApi.sendMessage({
+      templateId: schedule.whatsappTemplateId,
+      recipientPhone: recipient.address,
+      recipientName: recipient.name,
+      parameters: {
+        recipient_name: recipient.name,
+        report_name: report.title,
+        period: formatRange(report),
+        summary: body,
+      },
+    });
+  },
+});
+
+// The server's mailer sends the report; csv and html formats go as an attachment
+registerReportTransport({
+  channel: 'email',
+  send: async ({ recipient, subject, body, attachment }) => {
+    await reportScheduleApi.sendEmail({ to: recipient.address, toName: recipient.name, subject, body, attachment });
+  },
+});
@@ -1,7 +1,7 @@
 
 import api from '../lib/apiClient';
 
-export type ReservationStatusCode = 'DRAFT' | 'CONFIRMED' | 'CHECKED_IN' | 'CHECKED_OUT' | 'CANCELLED';
+export type ReservationStatusCode = 'DRAFT' | 'CONFIRMED' | 'CHECKED_IN' | 'CHECKED_OUT' | 'CANCELLED' | 'NO_SHOW';
 export type ReservationSourceCode = 'DIRECT' | 'OTA' | 'CORPORATE' | 'WALK_IN';
 export type RatePlanCode = 'BAR' | 'CORPORATE' | 'PACKAGE';
 
@@ -83,6 +83,8 @@ export type AvailabilityQuery = {
   arrivalDate: string;
   departureDate: string;
   roomType?: string;
+  // Unpicked block rooms of every other group are held back from the count
+  groupId?: string;
 };
 
 export type AvailabilityResponse = {
@@ -109,7 +111,9 @@ export type AvailabilityResponse = {
     createdAt: string;
     updatedAt: string;
   }>;
+  // Net of the rooms held for group blocks, which are reported separately
   totalAvailable: number;
+  heldForGroups?: number;
 };
 
 export const reservationApi = {
@@ -118,6 +122,11 @@ export const reservationApi = {
     return response.data.reservations;
   },
 
+  async fetchReservation(id: string): Promise<ReservationResponse> {
+    const response = await api.get<{ reservation: ReservationResponse }>(`/reservations/${id}`);
+    return response.data.reservation;
+  },
+
   async createReservation(payload: CreateReservationRequest): Promise<ReservationResponse> {
     const response = await api.post<{ reservation: ReservationResponse }>('/reservations', payload);
     return response.data.reservation;
@@ -4,6 +4,7 @@ import { addMinutes, addDays, isAfter, isBefore, parseISO, startOfDay } from 'da
 import type { AlertItem, AlertRule, AlertCategory } from '../types';
 import { useReservationStore } from './reservationStore';
 import { usePropertyStore } from './propertyStore';
+import { useInventoryStore } from './inventoryStore';
 import { formatCurrency } from '../utils';
 
 interface AlertState {
@@ -54,6 +55,22 @@ const DEFAULT_RULES: AlertRule[] = [
     severity: 'critical',
     isActive: true,
   },
+  {
+    id: 'ALRT-R5',
+    category: 'low-stock',
+    name: 'Low stock',
+    description: 'F&B stock at or below its par level',
+    severity: 'medium',
+    isActive: true,
+  },
+  {
+    id: 'ALRT-R6',
+    category: 'deposit-overdue',
+    name: 'Deposit overdue',
+    description: 'Upcoming bookings whose rate plan deposit was not received by its due date',
+    severity: 'high',
+    isActive: true,
+  },
 ];
 
 const buildAlert = (rule: AlertRule, title: string, message: string): AlertItem => ({
@@ -78,12 +95,14 @@ export const useAlertStore = create<AlertState>()(
 
       evaluateRules: () => {
         const state = get();
-        const activeRules = state.rules.filter((rule) => rule.isActive);
+        // Rules added since the alert settings were saved start out with their defaults
+        const rules = [...state.rules, ...DEFAULT_RULES.filter((rule) => !state.rules.some((entry) => entry.id === rule.id))];
+        const activeRules = rules.filter((rule) => rule.isActive);
         if (!activeRules.length) {
           return;
         }
 
-        const reservations = useReservationStore.getState().reservations;
+        const { reservations, getDepositStatus } = useReservationStore.getState();
         const rooms = usePropertyStore.getState().rooms;
 
         const nextAlerts: AlertItem[] = [];
@@ -176,6 +195,32 @@ export const useAlertStore = create<AlertState>()(
           }
         });
 
+        // Stock at or below par
+        useInventoryStore
+          .getState()
+          .getLowStock()
+          .forEach((item) => {
+            ensureAlert(
+              'low-stock',
+              `Low stock · ${item.name}`,
+              `${item.name} is at or below its par level of ${item.parLevel} ${item.unit}.`
+            );
+          });
+
+        // Rate plan deposits not received by their due date
+        reservations
+          .filter((reservation) => reservation.status === 'pending' || reservation.status === 'confirmed')
+          .forEach((reservation) => {
+            const deposit = getDepositStatus(reservation.id);
+            if (deposit?.isOverdue) {
+              ensureAlert(
+                'deposit-overdue',
+                `Deposit overdue · ${reservation.guest.firstName}`,
+                `Deposit of ${formatCurrency(deposit.outstanding)} for reservation ${reservation.confirmationNumber} was due on ${deposit.dueDate}.`
+              );
+            }
+          });
+
         if (!nextAlerts.length) {
           set({ lastEvaluationAt: new Date().toISOString() });
           return;
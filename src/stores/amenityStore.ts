@@ -0,0 +1,215 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import type { AmenityCategory, AmenityItem, AmenityPosting, Reservation } from '../types';
+import { usePropertyStore } from './propertyStore';
+import { useReservationStore } from './reservationStore';
+import { useFolioStore } from './folioStore';
+import { useAuthStore } from './authStore';
+import { resolveTaxRate } from '../utils/gst';
+
+export interface ConsumptionLine {
+  itemId: string;
+  quantity: number;
+}
+
+interface AmenityState {
+  items: AmenityItem[];
+  postings: AmenityPosting[];
+
+  // Price list
+  addItem: (payload: Omit<AmenityItem, 'id' | 'isActive'>) => AmenityItem;
+  updateItem: (itemId: string, updates: Partial<Omit<AmenityItem, 'id'>>) => void;
+  restock: (itemId: string, quantity: number) => void;
+
+  // Consumption
+  postConsumption: (roomId: string, lines: ConsumptionLine[]) => AmenityPosting[];
+  reversePosting: (postingId: string, reason: string) => void;
+  getInHouseReservation: (roomId: string) => Reservation | undefined;
+  getPostings: (reservationId: string) => AmenityPosting[];
+}
+
+export const AMENITY_CATEGORY_LABELS: Record<AmenityCategory, string> = {
+  'mini-bar': 'Minibar',
+  laundry: 'Laundry',
+};
+
+const DEFAULT_ITEMS: AmenityItem[] = [
+  { id: 'AMN001', name: 'Mineral Water 1L', category: 'mini-bar', price: 60, stock: 120, parLevel: 2, isActive: true },
+  { id: 'AMN002', name: 'Soft Drink', category: 'mini-bar', price: 90, stock: 96, parLevel: 2, isActive: true },
+  { id: 'AMN003', name: 'Fruit Juice', category: 'mini-bar', price: 120, stock: 48, parLevel: 1, isActive: true },
+  { id: 'AMN004', name: 'Potato Chips', category: 'mini-bar', price: 80, stock: 60, parLevel: 1, isActive: true },
+  { id: 'AMN005', name: 'Chocolate Bar', category: 'mini-bar', price: 110, stock: 60, parLevel: 1, isActive: true },
+  { id: 'AMN101', name: 'Shirt', category: 'laundry', price: 80, isActive: true },
+  { id: 'AMN102', name: 'Trousers', category: 'laundry', price: 100, isActive: true },
+  { id: 'AMN103', name: 'Dress / Saree', category: 'laundry', price: 180, isActive: true },
+  { id: 'AMN104', name: 'Undergarment', category: 'laundry', price: 40, isActive: true },
+];
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const validateItem = (item: Pick<AmenityItem, 'name' | 'price'>) => {
+  if (!item.name.trim()) {
+    throw new Error('Item name is required');
+  }
+  if (!(item.price > 0)) {
+    throw new Error('Price must be greater than zero');
+  }
+};
+
+export const useAmenityStore = create<AmenityState>()(
+  persist(
+    (set, get) => {
+      const getItem = (itemId: string) => {
+        const item = get().items.find((entry) => entry.id === itemId);
+        if (!item) {
+          throw new Error('Item not found in the price list');
+        }
+        return item;
+      };
+
+      const adjustStock = (itemId: string, delta: number) =>
+        set((state) => ({
+          items: state.items.map((item) =>
+            item.id === itemId && item.stock !== undefined ? { ...item, stock: item.stock + delta } : item
+          ),
+        }));
+
+      return {
+        items: DEFAULT_ITEMS,
+        postings: [],
+
+        addItem: (payload) => {
+          validateItem(payload);
+          const item: AmenityItem = {
+            ...payload,
+            id: nanoid(8),
+            name: payload.name.trim(),
+            stock: payload.category === 'mini-bar' ? payload.stock ?? 0 : undefined,
+            isActive: true,
+          };
+          set((state) => ({ items: [...state.items, item] }));
+          return item;
+        },
+
+        updateItem: (itemId, updates) => {
+          validateItem({ ...getItem(itemId), ...updates });
+          set((state) => ({
+            items: state.items.map((item) => (item.id === itemId ? { ...item, ...updates } : item)),
+          }));
+        },
+
+        restock: (itemId, quantity) => {
+          const item = getItem(itemId);
+          if (item.category !== 'mini-bar') {
+            throw new Error('Only minibar items carry stock');
+          }
+          if (!Number.isInteger(quantity) || quantity <= 0) {
+            throw new Error('Enter the number of units received');
+          }
+          adjustStock(itemId, quantity);
+        },
+
+        // One folio charge per line so each item shows separately on the checkout bill
+        postConsumption: (roomId, lines) => {
+          const room = usePropertyStore.getState().rooms.find((entry) => entry.id === roomId);
+          if (!room) {
+            throw new Error('Room not found');
+          }
+          const reservation = get().getInHouseReservation(roomId);
+          if (!reservation) {
+            throw new Error(`Room ${room.roomNumber} has no checked-in guest to charge`);
+          }
+          const counted = lines.filter((line) => line.quantity > 0);
+          if (!counted.length) {
+            throw new Error('Count at least one item');
+          }
+
+          const resolved = counted.map((line) => {
+            const item = getItem(line.itemId);
+            if (!Number.isInteger(line.quantity)) {
+              throw new Error(`Enter whole units for ${item.name}`);
+            }
+            if (item.stock !== undefined && item.stock < line.quantity) {
+              throw new Error(`Only ${item.stock} ${item.name} left in stock`);
+            }
+            return { item, quantity: line.quantity };
+          });
+
+          const { taxConfig } = usePropertyStore.getState();
+          const postedBy = useAuthStore.getState().user?.name ?? 'Housekeeping';
+          const postedAt = new Date().toISOString();
+
+          const postings = resolved.map(({ item, quantity }) => {
+            const id = nanoid(12);
+            const amount = round(item.price * quantity);
+            const taxRate = item.taxRate ?? resolveTaxRate(taxConfig, item.category, item.price);
+            const entry = useFolioStore.getState().postCharge(
+              reservation.id,
+              {
+                description: `${AMENITY_CATEGORY_LABELS[item.category]} - ${item.name} x${quantity} (Room ${room.roomNumber})`,
+                category: item.category,
+                amount,
+                quantity,
+                taxRate,
+                taxAmount: round((amount * taxRate) / 100),
+              },
+              { source: 'housekeeping', sourceRef: id, postedBy }
+            );
+            adjustStock(item.id, -quantity);
+
+            const posting: AmenityPosting = {
+              id,
+              itemId: item.id,
+              itemName: item.name,
+              category: item.category,
+              roomId: room.id,
+              roomNumber: room.roomNumber,
+              reservationId: reservation.id,
+              quantity,
+              unitPrice: item.price,
+              folioEntryId: entry.id,
+              postedBy,
+              postedAt,
+            };
+            return posting;
+          });
+
+          set((state) => ({ postings: [...postings, ...state.postings] }));
+          return postings;
+        },
+
+        // Voids the folio charge and puts unopened minibar stock back
+        reversePosting: (postingId, reason) => {
+          const posting = get().postings.find((entry) => entry.id === postingId);
+          if (!posting) {
+            throw new Error('Posting not found');
+          }
+          if (!reason.trim()) {
+            throw new Error('Give a reason for reversing the charge');
+          }
+          const postedBy = useAuthStore.getState().user?.name;
+          // Voided first: the folio refuses charges already on an invoice, and then nothing is restocked
+          useFolioStore.getState().voidEntry(posting.folioEntryId, reason.trim(), postedBy);
+          adjustStock(posting.itemId, posting.quantity);
+          set((state) => ({ postings: state.postings.filter((entry) => entry.id !== postingId) }));
+        },
+
+        getInHouseReservation: (roomId) => {
+          const room = usePropertyStore.getState().rooms.find((entry) => entry.id === roomId);
+          if (!room) {
+            return undefined;
+          }
+          return useReservationStore
+            .getState()
+            .reservations.find((entry) => entry.status === 'checked-in' && entry.roomNumbers.includes(room.roomNumber));
+        },
+
+        getPostings: (reservationId) => get().postings.filter((posting) => posting.reservationId === reservationId),
+      };
+    },
+    {
+      name: 'amenity-storage',
+    }
+  )
+);
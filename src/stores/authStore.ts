@@ -6,6 +6,11 @@ import { useAccessControlStore } from './accessControlStore';
 import { usePropertyStore } from './propertyStore';
 import { useGuestStore } from './guestStore';
 import { useReservationStore } from './reservationStore';
+import { useFolioStore } from './folioStore';
+import { useInvoiceStore } from './invoiceStore';
+import { useGroupStore } from './groupStore';
+import { useRateCalendarStore } from './rateCalendarStore';
+import { useSyncStore } from './syncStore';
 import { useTransactionLogStore } from './transactionLogStore';
 
 type BackendRole =
@@ -203,13 +208,44 @@ const hydrateDomainStores = async () => {
   const hotel = toHotel(propertyProfile ?? null);
   await useGuestStore.getState().hydrateFromBackend();
   await useReservationStore.getState().hydrateFromBackend();
+  await useRateCalendarStore.getState().hydrateFromBackend();
   return hotel;
 };
 
+// Must match the API cache in public/sw.js
+const API_CACHE_NAME = 'aurora-pms-api-v2';
+
+const sessionResets: Array<() => void> = [];
+
+/**
+ * Stores that import this one cannot be reset from here directly, so they register their reset instead
+ */
+export const registerSessionReset = (reset: () => void) => {
+  sessionResets.push(reset);
+};
+
+// Terminals are shared, so nothing one user or hotel saw or queued may be left for the next
 const clearDomainStores = () => {
   usePropertyStore.getState().reset();
   useGuestStore.getState().reset();
   useReservationStore.getState().reset();
+  useFolioStore.getState().reset();
+  useInvoiceStore.getState().reset();
+  useGroupStore.getState().reset();
+  useRateCalendarStore.getState().reset();
+  sessionResets.forEach((reset) => reset());
+  useSyncStore
+    .getState()
+    .clearQueue()
+    .catch((error) => {
+      console.warn('Failed to clear the offline queue', error);
+    });
+  // API responses the service worker kept for offline use must not outlive the session
+  if ('caches' in window) {
+    caches.delete(API_CACHE_NAME).catch((error) => {
+      console.warn('Failed to clear the offline API cache', error);
+    });
+  }
 };
 
 export const useAuthStore = create<AuthState>()(
@@ -0,0 +1,611 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import { addDays, format, parseISO } from 'date-fns';
+import type {
+  ChargeCategory,
+  ChargeItem,
+  Folio,
+  FolioEntry,
+  FolioEntrySource,
+  FolioRoutingRule,
+  NightlyRate,
+  PaymentRecord,
+  Reservation,
+  SyncMutationKind,
+} from '../types';
+import { folioApi } from '../services/folioApi';
+import { isNetworkError } from '../lib/offlineQueue';
+import { usePropertyStore } from './propertyStore';
+import { registerSyncHandler, useSyncStore } from './syncStore';
+import { resolveTaxRate } from '../utils/gst';
+
+interface PostingOptions {
+  folioId?: string;
+  source?: FolioEntrySource;
+  sourceRef?: string;
+  postedBy?: string;
+}
+
+export interface FolioShare {
+  folioId: string;
+  percent: number;
+}
+
+interface LedgerLine extends FolioEntry {
+  balance: number;
+  isVoided: boolean;
+}
+
+interface FolioState {
+  folios: Folio[];
+  entries: FolioEntry[];
+  routingRules: FolioRoutingRule[];
+  error: string | null;
+
+  // Pulls postings made on other terminals; the local copy is only a cache of the server ledger
+  hydrateFromBackend: (reservationId?: string) => Promise<void>;
+  reset: () => void;
+
+  // Folios
+  ensurePrimaryFolio: (reservationId: string, payerName?: string) => Folio;
+  openFolio: (reservationId: string, label: string, payerName?: string, payerGstin?: string) => Folio;
+  renameFolio: (folioId: string, updates: Partial<Pick<Folio, 'label' | 'payerName' | 'payerGstin'>>) => void;
+  closeFolios: (reservationId: string) => void;
+  getFolios: (reservationId: string) => Folio[];
+  reassignReservation: (fromId: string, toId: string) => void;
+
+  // Postings (append-only)
+  postCharge: (reservationId: string, charge: Omit<ChargeItem, 'id'>, options?: PostingOptions) => FolioEntry;
+  postPayment: (
+    reservationId: string,
+    payment: Omit<PaymentRecord, 'id' | 'timestamp'>,
+    options?: PostingOptions
+  ) => FolioEntry;
+  postAdjustment: (reservationId: string, amount: number, description: string, options?: PostingOptions) => FolioEntry;
+  voidEntry: (entryId: string, reason: string, postedBy?: string) => FolioEntry;
+  transferEntry: (entryId: string, targetFolioId: string, postedBy?: string) => FolioEntry;
+  splitEntry: (entryId: string, shares: FolioShare[], postedBy?: string) => FolioEntry[];
+  postRoomCharges: (reservation: Reservation, nightlyRates: NightlyRate[], postedBy?: string) => FolioEntry[];
+
+  // Routing
+  setRoutingRule: (reservationId: string, category: ChargeCategory, folioId: string) => void;
+  removeRoutingRule: (ruleId: string) => void;
+
+  // Queries
+  getLedger: (reservationId: string, folioId?: string) => LedgerLine[];
+  getBalance: (reservationId: string, folioId?: string) => number;
+  getOpenCharges: (reservationId: string, folioId?: string) => Array<{ entry: FolioEntry; charge: ChargeItem }>;
+  getPayments: (reservationId: string, folioId?: string) => PaymentRecord[];
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const chargeTotal = (charge: Pick<ChargeItem, 'amount' | 'taxAmount'>) => round(charge.amount + (charge.taxAmount || 0));
+
+const isActiveFolio = (folio: Folio) => folio.status === 'open';
+
+const formatError = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Changes reach the server one at a time so a posting never arrives before the folio it belongs to
+let pushQueue: Promise<void> = Promise.resolve();
+
+// Tax documents live in the invoice store, which reports the invoice number already covering a charge
+let findInvoiceNumber: (entryId: string) => string | undefined = () => undefined;
+
+export const registerInvoiceLookup = (lookup: (entryId: string) => string | undefined) => {
+  findInvoiceNumber = lookup;
+};
+
+export const useFolioStore = create<FolioState>()(
+  persist(
+    (set, get) => {
+      const requireEntry = (entryId: string) => {
+        const entry = get().entries.find((item) => item.id === entryId);
+        if (!entry) {
+          throw new Error('Folio entry not found');
+        }
+        return entry;
+      };
+
+      const isVoided = (entryId: string) => get().entries.some((item) => item.voidsEntryId === entryId);
+
+      // An invoiced charge can only be reversed by a credit note, which adjusts the folio in turn
+      const requireUninvoiced = (entry: FolioEntry, action: string) => {
+        const invoiceNumber = findInvoiceNumber(entry.id);
+        if (invoiceNumber) {
+          throw new Error(`"${entry.description}" is on invoice ${invoiceNumber} and cannot be ${action}; issue a credit note instead`);
+        }
+      };
+
+      // Explicit folio wins, then a routing rule for the category, then the primary folio
+      const resolveFolioId = (reservationId: string, options?: PostingOptions, category?: ChargeCategory) => {
+        if (options?.folioId) {
+          const folio = get().folios.find((item) => item.id === options.folioId);
+          if (!folio || folio.reservationId !== reservationId) {
+            throw new Error('Folio does not belong to this reservation');
+          }
+          if (!isActiveFolio(folio)) {
+            throw new Error(`Folio "${folio.label}" is closed`);
+          }
+          return folio.id;
+        }
+
+        if (category) {
+          const rule = get().routingRules.find(
+            (item) => item.reservationId === reservationId && item.category === category
+          );
+          const routed = rule && get().folios.find((item) => item.id === rule.folioId && isActiveFolio(item));
+          if (routed) {
+            return routed.id;
+          }
+        }
+
+        return get().ensurePrimaryFolio(reservationId).id;
+      };
+
+      // Sends a change to the backend, or queues it for replay while the backend is unreachable
+      const push = (kind: SyncMutationKind, entityId: string, payload: unknown, label: string, send: () => Promise<unknown>) => {
+        pushQueue = pushQueue
+          .then(async () => {
+            const sync = useSyncStore.getState();
+            if (!sync.shouldQueue()) {
+              try {
+                await send();
+                return;
+              } catch (error) {
+                if (!isNetworkError(error)) {
+                  throw error;
+                }
+              }
+            }
+            await sync.enqueue({ kind, entityId, payload, label });
+          })
+          .catch((error) => {
+            console.error('Failed to save folio change:', error);
+            set({ error: formatError(error, `${label} was not saved on the server`) });
+          });
+      };
+
+      const saveFolio = (folio: Folio) =>
+        push('folio.save', folio.id, folio, `Folio ${folio.label}`, () => folioApi.saveFolio(folio));
+
+      const append = (entry: Omit<FolioEntry, 'id' | 'postedAt'>): FolioEntry => {
+        const record: FolioEntry = {
+          ...entry,
+          id: nanoid(12),
+          amount: round(entry.amount),
+          postedAt: new Date().toISOString(),
+        };
+        set((state) => ({ entries: [...state.entries, record] }));
+        push('folio.entry', record.id, record, record.description, async () => {
+          try {
+            await folioApi.postEntry(record);
+          } catch (error) {
+            // A posting the server refused, such as a void of a charge invoiced elsewhere, comes off the local ledger
+            if (!isNetworkError(error)) {
+              set((state) => ({ entries: state.entries.filter((item) => item.id !== record.id) }));
+            }
+            throw error;
+          }
+        });
+        return record;
+      };
+
+      registerSyncHandler('folio.save', async (mutation) => {
+        await folioApi.saveFolio(mutation.payload as Folio);
+        return {};
+      });
+
+      registerSyncHandler('folio.entry', async (mutation) => {
+        await folioApi.postEntry(mutation.payload as FolioEntry);
+        return {};
+      });
+
+      registerSyncHandler('folio.routing', async (mutation) => {
+        await folioApi.saveRoutingRule(mutation.payload as FolioRoutingRule);
+        return {};
+      });
+
+      registerSyncHandler('folio.routing-delete', async (mutation) => {
+        await folioApi.deleteRoutingRule(mutation.entityId);
+        return {};
+      });
+
+      return {
+        folios: [],
+        entries: [],
+        routingRules: [],
+        error: null,
+
+        reset: () => set({ folios: [], entries: [], routingRules: [], error: null }),
+
+        hydrateFromBackend: async (reservationId) => {
+          try {
+            const remote = await folioApi.fetchLedger(reservationId);
+            // Changes still waiting in the offline queue keep their local copy
+            const pending = new Set(useSyncStore.getState().pendingEntityIds);
+            const inScope = (item: { reservationId: string }) => !reservationId || item.reservationId === reservationId;
+            set((state) => {
+              const folios = new Map(state.folios.map((folio) => [folio.id, folio]));
+              remote.folios.forEach((folio) => {
+                if (!pending.has(folio.id)) {
+                  folios.set(folio.id, folio);
+                }
+              });
+              // Postings never change once made, so the two copies are simply merged
+              const entries = new Map(state.entries.map((entry) => [entry.id, entry]));
+              remote.entries.forEach((entry) => {
+                if (!entries.has(entry.id)) {
+                  entries.set(entry.id, entry);
+                }
+              });
+              const remoteRuleIds = new Set(remote.routingRules.map((rule) => rule.id));
+              return {
+                folios: Array.from(folios.values()),
+                entries: Array.from(entries.values()).sort((a, b) => (a.postedAt < b.postedAt ? -1 : a.postedAt > b.postedAt ? 1 : 0)),
+                routingRules: [
+                  ...state.routingRules.filter((rule) => !inScope(rule) || (pending.has(rule.id) && !remoteRuleIds.has(rule.id))),
+                  ...remote.routingRules,
+                ],
+                error: null,
+              };
+            });
+          } catch (error) {
+            set({ error: formatError(error, 'Failed to load the folio ledger') });
+            throw error;
+          }
+        },
+
+        ensurePrimaryFolio: (reservationId, payerName) => {
+          const existing = get().folios.find((folio) => folio.reservationId === reservationId && folio.isPrimary);
+          if (existing) {
+            return existing;
+          }
+
+          const folio: Folio = {
+            id: nanoid(10),
+            reservationId,
+            label: 'Guest',
+            payerName,
+            isPrimary: true,
+            status: 'open',
+            createdAt: new Date().toISOString(),
+          };
+          set((state) => ({ folios: [...state.folios, folio] }));
+          saveFolio(folio);
+          return folio;
+        },
+
+        openFolio: (reservationId, label, payerName, payerGstin) => {
+          get().ensurePrimaryFolio(reservationId);
+          const folio: Folio = {
+            id: nanoid(10),
+            reservationId,
+            label: label.trim() || `Folio ${get().getFolios(reservationId).length + 1}`,
+            payerName,
+            payerGstin,
+            isPrimary: false,
+            status: 'open',
+            createdAt: new Date().toISOString(),
+          };
+          set((state) => ({ folios: [...state.folios, folio] }));
+          saveFolio(folio);
+          return folio;
+        },
+
+        renameFolio: (folioId, updates) => {
+          set((state) => ({
+            folios: state.folios.map((folio) => (folio.id === folioId ? { ...folio, ...updates } : folio)),
+          }));
+          const folio = get().folios.find((item) => item.id === folioId);
+          if (folio) {
+            saveFolio(folio);
+          }
+        },
+
+        closeFolios: (reservationId) => {
+          const closedAt = new Date().toISOString();
+          const closing = get().folios.filter((folio) => folio.reservationId === reservationId && isActiveFolio(folio));
+          set((state) => ({
+            folios: state.folios.map((folio) =>
+              closing.some((item) => item.id === folio.id) ? { ...folio, status: 'closed', closedAt } : folio
+            ),
+          }));
+          closing.forEach((folio) => saveFolio({ ...folio, status: 'closed', closedAt }));
+        },
+
+        getFolios: (reservationId) => get().folios.filter((folio) => folio.reservationId === reservationId),
+
+        // Moves folios, postings and routing from a reservation created offline to its server id
+        reassignReservation: (fromId, toId) => {
+          const move = <T extends { reservationId: string }>(item: T): T =>
+            item.reservationId === fromId ? { ...item, reservationId: toId } : item;
+          set((state) => ({
+            folios: state.folios.map(move),
+            entries: state.entries.map(move),
+            routingRules: state.routingRules.map(move),
+          }));
+        },
+
+        postCharge: (reservationId, charge, options) => {
+          if (charge.amount < 0) {
+            throw new Error('Charges must be positive; post an adjustment to credit the folio');
+          }
+          const item: ChargeItem = { ...charge, id: nanoid(10) };
+          const folioId = resolveFolioId(reservationId, options, charge.category);
+          // A routing rule may send the charge to another account's folio, such as a group master folio;
+          // it is then booked on that account and remembers the stay it came from
+          const owner = get().folios.find((folio) => folio.id === folioId)?.reservationId ?? reservationId;
+          return append({
+            folioId,
+            reservationId: owner,
+            type: 'charge',
+            description: charge.description,
+            amount: chargeTotal(item),
+            charge: item,
+            source: options?.source ?? 'front-desk',
+            sourceRef: options?.sourceRef ?? (owner !== reservationId ? reservationId : undefined),
+            postedBy: options?.postedBy,
+          });
+        },
+
+        postPayment: (reservationId, payment, options) => {
+          if (payment.amount <= 0) {
+            throw new Error('Payment amount must be greater than zero');
+          }
+          const record: PaymentRecord = {
+            ...payment,
+            id: nanoid(10),
+            timestamp: new Date().toISOString(),
+            collectedBy: payment.collectedBy ?? options?.postedBy,
+          };
+          return append({
+            folioId: resolveFolioId(reservationId, options),
+            reservationId,
+            type: 'payment',
+            description: `Payment - ${payment.method.replace('_', ' ')}`,
+            amount: -payment.amount,
+            payment: record,
+            source: options?.source ?? 'front-desk',
+            sourceRef: options?.sourceRef ?? payment.reference,
+            postedBy: options?.postedBy,
+          });
+        },
+
+        postAdjustment: (reservationId, amount, description, options) => {
+          if (!amount) {
+            throw new Error('Adjustment amount cannot be zero');
+          }
+          return append({
+            folioId: resolveFolioId(reservationId, options),
+            reservationId,
+            type: 'adjustment',
+            description,
+            amount,
+            source: options?.source ?? 'front-desk',
+            sourceRef: options?.sourceRef,
+            postedBy: options?.postedBy,
+          });
+        },
+
+        voidEntry: (entryId, reason, postedBy) => {
+          const entry = requireEntry(entryId);
+          if (entry.type === 'void') {
+            throw new Error('A void entry cannot itself be voided');
+          }
+          if (isVoided(entryId)) {
+            throw new Error('This entry has already been voided');
+          }
+          if (!reason.trim()) {
+            throw new Error('A reason is required to void an entry');
+          }
+          requireUninvoiced(entry, 'voided');
+
+          return append({
+            folioId: entry.folioId,
+            reservationId: entry.reservationId,
+            type: 'void',
+            description: `VOID: ${entry.description}`,
+            amount: -entry.amount,
+            voidsEntryId: entry.id,
+            reason,
+            source: entry.source,
+            sourceRef: entry.sourceRef,
+            postedBy,
+          });
+        },
+
+        // Moves an entry by voiding it and re-posting it on the target folio
+        transferEntry: (entryId, targetFolioId, postedBy) => {
+          const entry = requireEntry(entryId);
+          if (entry.folioId === targetFolioId) {
+            return entry;
+          }
+          requireUninvoiced(entry, 'transferred');
+
+          const target = get().folios.find((folio) => folio.id === targetFolioId);
+          if (!target || target.reservationId !== entry.reservationId) {
+            throw new Error('Folio does not belong to this reservation');
+          }
+          if (!isActiveFolio(target)) {
+            throw new Error(`Folio "${target.label}" is closed`);
+          }
+
+          get().voidEntry(entryId, `Transferred to ${target.label}`, postedBy);
+          return append({
+            folioId: target.id,
+            reservationId: entry.reservationId,
+            type: entry.type,
+            description: entry.description,
+            amount: entry.amount,
+            charge: entry.charge ? { ...entry.charge, id: nanoid(10) } : undefined,
+            payment: entry.payment ? { ...entry.payment, id: nanoid(10) } : undefined,
+            source: entry.source,
+            sourceRef: entry.sourceRef,
+            postedBy,
+          });
+        },
+
+        // Splits a charge across payers by voiding it and re-posting each share on its folio
+        splitEntry: (entryId, shares, postedBy) => {
+          const entry = requireEntry(entryId);
+          if (entry.type !== 'charge' || !entry.charge) {
+            throw new Error('Only charges can be split');
+          }
+          if (isVoided(entryId)) {
+            throw new Error('This entry has already been voided');
+          }
+          // The re-posted shares get new ids, so an invoiced charge would be invoiced a second time
+          requireUninvoiced(entry, 'split');
+          const parts = shares.filter((share) => share.percent > 0);
+          if (parts.length < 2) {
+            throw new Error('Split a charge across at least two folios');
+          }
+          if (Math.abs(parts.reduce((sum, share) => sum + share.percent, 0) - 100) > 0.01) {
+            throw new Error('Split percentages must add up to 100');
+          }
+          const targets = parts.map((share) => {
+            const folio = get().folios.find((item) => item.id === share.folioId);
+            if (!folio || folio.reservationId !== entry.reservationId) {
+              throw new Error('Folio does not belong to this reservation');
+            }
+            if (!isActiveFolio(folio)) {
+              throw new Error(`Folio "${folio.label}" is closed`);
+            }
+            return { folio, percent: share.percent };
+          });
+
+          const { charge } = entry;
+          get().voidEntry(entryId, `Split across ${targets.map(({ folio }) => folio.label).join(', ')}`, postedBy);
+
+          let remainingAmount = charge.amount;
+          let remainingTax = charge.taxAmount ?? 0;
+          return targets.map(({ folio, percent }, index) => {
+            // The last share absorbs rounding so the parts add up to the original charge
+            const isLast = index === targets.length - 1;
+            const amount = isLast ? round(remainingAmount) : round((charge.amount * percent) / 100);
+            const taxAmount = isLast ? round(remainingTax) : round(((charge.taxAmount ?? 0) * percent) / 100);
+            remainingAmount -= amount;
+            remainingTax -= taxAmount;
+
+            const item: ChargeItem = {
+              ...charge,
+              id: nanoid(10),
+              description: `${charge.description} (${percent}%)`,
+              amount,
+              taxAmount,
+            };
+            return append({
+              folioId: folio.id,
+              reservationId: entry.reservationId,
+              type: 'charge',
+              description: item.description,
+              amount: chargeTotal(item),
+              charge: item,
+              source: entry.source,
+              sourceRef: entry.sourceRef,
+              postedBy,
+            });
+          });
+        },
+
+        // Each night is posted at its calendar rate and taxed at that night's slab; the rates are scaled to
+        // the booked subtotal so any discount on the booking is spread across the nights
+        postRoomCharges: (reservation, nightlyRates, postedBy) => {
+          const alreadyPosted = get().entries.some(
+            (entry) =>
+              entry.reservationId === reservation.id &&
+              entry.type === 'charge' &&
+              entry.source === 'system' &&
+              entry.charge?.category === 'room' &&
+              !isVoided(entry.id)
+          );
+          const nights = Math.max(reservation.nights, 1);
+          if (alreadyPosted || reservation.subtotal <= 0) {
+            return [];
+          }
+
+          get().ensurePrimaryFolio(reservation.id, `${reservation.guest.firstName} ${reservation.guest.lastName}`.trim());
+          const taxConfig = usePropertyStore.getState().taxConfig;
+          const arrival = parseISO(reservation.checkIn.slice(0, 10));
+          const rates = Array.from({ length: nights }, (_, index) => nightlyRates[index]?.rate ?? 0);
+          const rateTotal = rates.reduce((sum, rate) => sum + rate, 0);
+          let remaining = reservation.subtotal;
+
+          return rates.map((rate, index) => {
+            // Without calendar rates the nights share the subtotal evenly; the last night absorbs rounding
+            const share = rateTotal > 0 ? (reservation.subtotal * rate) / rateTotal : reservation.subtotal / nights;
+            const amount = index === nights - 1 ? round(remaining) : round(share);
+            remaining -= amount;
+            const night = format(addDays(arrival, index), 'yyyy-MM-dd');
+            const taxRate = resolveTaxRate(taxConfig, 'room', amount, night);
+            return get().postCharge(
+              reservation.id,
+              {
+                description: `Room charge - ${format(addDays(arrival, index), 'MMM d')}`,
+                amount,
+                category: 'room',
+                quantity: 1,
+                taxRate,
+                taxAmount: round((amount * taxRate) / 100),
+              },
+              { source: 'system', sourceRef: `${reservation.confirmationNumber}:${night}`, postedBy }
+            );
+          });
+        },
+
+        setRoutingRule: (reservationId, category, folioId) => {
+          const replaced = get().routingRules.find(
+            (rule) => rule.reservationId === reservationId && rule.category === category
+          );
+          const rule: FolioRoutingRule = { id: replaced?.id ?? nanoid(8), reservationId, category, folioId };
+          set((state) => ({
+            routingRules: [...state.routingRules.filter((item) => item.id !== rule.id), rule],
+          }));
+          push('folio.routing', rule.id, rule, `Routing for ${category}`, () => folioApi.saveRoutingRule(rule));
+        },
+
+        removeRoutingRule: (ruleId) => {
+          set((state) => ({
+            routingRules: state.routingRules.filter((rule) => rule.id !== ruleId),
+          }));
+          push('folio.routing-delete', ruleId, null, 'Remove routing rule', () => folioApi.deleteRoutingRule(ruleId));
+        },
+
+        getLedger: (reservationId, folioId) => {
+          const entries = get().entries.filter(
+            (entry) => entry.reservationId === reservationId && (!folioId || entry.folioId === folioId)
+          );
+          const voided = new Set(entries.map((entry) => entry.voidsEntryId).filter(Boolean));
+          let balance = 0;
+          return entries.map((entry) => {
+            balance = round(balance + entry.amount);
+            return { ...entry, balance, isVoided: voided.has(entry.id) };
+          });
+        },
+
+        getBalance: (reservationId, folioId) => {
+          const ledger = get().getLedger(reservationId, folioId);
+          return ledger.length ? ledger[ledger.length - 1].balance : 0;
+        },
+
+        getOpenCharges: (reservationId, folioId) =>
+          get()
+            .getLedger(reservationId, folioId)
+            .filter((entry) => entry.type === 'charge' && !entry.isVoided && entry.charge)
+            .map((entry) => ({ entry, charge: entry.charge as ChargeItem })),
+
+        getPayments: (reservationId, folioId) =>
+          get()
+            .getLedger(reservationId, folioId)
+            .filter((entry) => entry.type === 'payment' && !entry.isVoided && entry.payment)
+            .map((entry) => entry.payment as PaymentRecord),
+      };
+    },
+    {
+      name: 'folio-storage',
+      partialize: (state) => ({ folios: state.folios, entries: state.entries, routingRules: state.routingRules }),
+    }
+  )
+);
@@ -0,0 +1,461 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import { eachDayOfInterval, format, parseISO, subDays } from 'date-fns';
+import type { ChargeCategory, GroupBooking, GroupBookingStatus, RoomBlock, RoomingListEntry } from '../types';
+import { groupApi } from '../services/groupApi';
+import { masterLedgerKey } from '../services/folioApi';
+import { isNetworkError } from '../lib/offlineQueue';
+import { useFolioStore } from './folioStore';
+import { registerSyncHandler, useSyncStore } from './syncStore';
+
+interface BlockInput {
+  roomTypeId: string;
+  rooms: number;
+}
+
+type CreateGroupInput = Pick<
+  GroupBooking,
+  'name' | 'type' | 'contactName' | 'contactPhone' | 'contactEmail' | 'ratePlanId' | 'checkIn' | 'checkOut' | 'cutoffDate' | 'notes'
+> & {
+  // The same number of rooms is held on every night of the stay; adjust single nights afterwards
+  blocks: BlockInput[];
+};
+
+interface GroupState {
+  groups: GroupBooking[];
+  error: string | null;
+
+  // Blocks made on other terminals must be known before availability is counted offline
+  hydrateFromBackend: () => Promise<void>;
+  reset: () => void;
+  createGroup: (input: CreateGroupInput) => GroupBooking;
+  updateGroup: (groupId: string, updates: Partial<Pick<GroupBooking, 'name' | 'type' | 'contactName' | 'contactPhone' | 'contactEmail' | 'cutoffDate' | 'notes'>>) => void;
+  setGroupStatus: (groupId: string, status: GroupBookingStatus) => void;
+  setBlockRooms: (groupId: string, roomTypeId: string, date: string, rooms: number) => void;
+
+  // Rooming list
+  addRoomingEntry: (groupId: string, entry: Omit<RoomingListEntry, 'id' | 'reservationId'>) => RoomingListEntry;
+  updateRoomingEntry: (groupId: string, entryId: string, updates: Partial<Omit<RoomingListEntry, 'id' | 'reservationId'>>) => void;
+  removeRoomingEntry: (groupId: string, entryId: string) => void;
+  linkReservation: (groupId: string, entryId: string, reservationId: string) => void;
+  unlinkReservation: (reservationId: string) => void;
+  reassignReservation: (fromId: string, toId: string) => void;
+
+  // Inventory
+  releaseUnpickedRooms: (groupId: string) => void;
+  releaseExpiredBlocks: (today?: string) => number;
+  getPickedUp: (group: GroupBooking, roomTypeId: string, date: string) => number;
+  getHeldRooms: (roomTypeId: string, checkIn: string, checkOut: string, excludeGroupId?: string) => number;
+
+  // Billing
+  openMasterFolio: (groupId: string) => string;
+  setMasterRouting: (groupId: string, categories: ChargeCategory[]) => void;
+  settleMasterFolio: (groupId: string) => void;
+}
+
+// Groups in these statuses still hold unpicked rooms out of general inventory
+const HOLDING_STATUSES: GroupBookingStatus[] = ['tentative', 'definite'];
+
+const toDateKey = (value: string) => value.slice(0, 10);
+
+const stayNights = (checkIn: string, checkOut: string): string[] => {
+  const start = parseISO(toDateKey(checkIn));
+  const end = subDays(parseISO(toDateKey(checkOut)), 1);
+  if (end < start) {
+    return [];
+  }
+  return eachDayOfInterval({ start, end }).map((day) => format(day, 'yyyy-MM-dd'));
+};
+
+const coversNight = (entry: Pick<RoomingListEntry, 'checkIn' | 'checkOut'>, date: string) =>
+  toDateKey(entry.checkIn) <= date && date < toDateKey(entry.checkOut);
+
+const blockCapacity = (block: RoomBlock) => Math.max(block.rooms - block.released, 0);
+
+const formatError = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Saves reach the server in the order they were made, so an older copy of a group never lands last
+let pushQueue: Promise<void> = Promise.resolve();
+
+const generateGroupCode = (name: string) => {
+  const initials = name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 3);
+  return `GRP-${initials || 'G'}${nanoid(4).toUpperCase()}`;
+};
+
+export const useGroupStore = create<GroupState>()(
+  persist(
+    (set, get) => {
+      const requireGroup = (groupId: string) => {
+        const group = get().groups.find((item) => item.id === groupId);
+        if (!group) {
+          throw new Error('Group booking not found');
+        }
+        return group;
+      };
+
+      // Points a member's charges in the group's routed categories at the master folio, and drops the rest
+      const applyMasterRouting = (group: GroupBooking, reservationId: string, categories: ChargeCategory[] = group.masterRouting ?? []) => {
+        if (!group.masterFolioId) {
+          return;
+        }
+        const folios = useFolioStore.getState();
+        folios.routingRules
+          .filter(
+            (rule) =>
+              rule.reservationId === reservationId &&
+              rule.folioId === group.masterFolioId &&
+              !categories.includes(rule.category)
+          )
+          .forEach((rule) => folios.removeRoutingRule(rule.id));
+        categories.forEach((category) => folios.setRoutingRule(reservationId, category, group.masterFolioId as string));
+      };
+
+      const memberIds = (group: GroupBooking) =>
+        group.roomingList.flatMap((entry) => (entry.reservationId ? [entry.reservationId] : []));
+
+      // Sends the group to the backend, or queues it for replay while the backend is unreachable
+      const push = (group: GroupBooking) => {
+        pushQueue = pushQueue
+          .then(async () => {
+            const sync = useSyncStore.getState();
+            if (!sync.shouldQueue()) {
+              try {
+                await groupApi.saveGroup(group);
+                return;
+              } catch (error) {
+                if (!isNetworkError(error)) {
+                  throw error;
+                }
+              }
+            }
+            await sync.enqueue({ kind: 'group.save', entityId: group.id, payload: group, label: `Group ${group.code}` });
+          })
+          .catch((error) => {
+            console.error('Failed to save group booking:', error);
+            set({ error: formatError(error, `Group ${group.code} was not saved on the server`) });
+          });
+      };
+
+      const saveGroup = (groupId: string, update: (group: GroupBooking) => GroupBooking) => {
+        set((state) => ({
+          groups: state.groups.map((group) =>
+            group.id === groupId ? { ...update(group), updatedAt: new Date().toISOString() } : group
+          ),
+        }));
+        push(requireGroup(groupId));
+      };
+
+      registerSyncHandler('group.save', async (mutation) => {
+        await groupApi.saveGroup(mutation.payload as GroupBooking);
+        return {};
+      });
+
+      // Every night of the entry must fit inside the block once the other rooming list entries are counted
+      const assertBlockFits = (group: GroupBooking, entry: Omit<RoomingListEntry, 'id'>, excludeEntryId?: string) => {
+        const nights = stayNights(entry.checkIn, entry.checkOut);
+        if (!nights.length) {
+          throw new Error('Check-out must be after check-in');
+        }
+
+        nights.forEach((date) => {
+          const block = group.blocks.find((item) => item.roomTypeId === entry.roomTypeId && item.date === date);
+          if (!block) {
+            throw new Error(`The block does not hold this room type on ${date}`);
+          }
+          const assigned = group.roomingList.filter(
+            (item) => item.id !== excludeEntryId && item.roomTypeId === entry.roomTypeId && coversNight(item, date)
+          ).length;
+          if (assigned + 1 > blockCapacity(block)) {
+            throw new Error(`All ${blockCapacity(block)} blocked room(s) are already assigned on ${date}`);
+          }
+        });
+      };
+
+      return {
+        groups: [],
+        error: null,
+
+        reset: () => set({ groups: [], error: null }),
+
+        hydrateFromBackend: async () => {
+          try {
+            const remote = await groupApi.fetchGroups();
+            // Changes still waiting in the offline queue keep their local copy
+            const pending = new Set(useSyncStore.getState().pendingEntityIds);
+            set((state) => {
+              const merged = new Map(state.groups.map((group) => [group.id, group]));
+              remote.forEach((group) => {
+                const local = merged.get(group.id);
+                if (!local || (!pending.has(group.id) && group.updatedAt > local.updatedAt)) {
+                  merged.set(group.id, group);
+                }
+              });
+              return { groups: Array.from(merged.values()), error: null };
+            });
+          } catch (error) {
+            set({ error: formatError(error, 'Failed to load group bookings') });
+            throw error;
+          }
+        },
+
+        createGroup: (input) => {
+          if (!input.name.trim()) {
+            throw new Error('Group name is required');
+          }
+          if (!input.contactName.trim()) {
+            throw new Error('Group contact is required');
+          }
+          const nights = stayNights(input.checkIn, input.checkOut);
+          if (!nights.length) {
+            throw new Error('Departure must be after arrival');
+          }
+          if (!input.cutoffDate || toDateKey(input.cutoffDate) > toDateKey(input.checkIn)) {
+            throw new Error('Cutoff date must be on or before the arrival date');
+          }
+          const blocks = input.blocks.filter((block) => block.rooms > 0);
+          if (!blocks.length) {
+            throw new Error('Block at least one room');
+          }
+
+          const now = new Date().toISOString();
+          const group: GroupBooking = {
+            id: nanoid(10),
+            code: generateGroupCode(input.name),
+            name: input.name.trim(),
+            type: input.type,
+            contactName: input.contactName,
+            contactPhone: input.contactPhone,
+            contactEmail: input.contactEmail,
+            ratePlanId: input.ratePlanId,
+            checkIn: toDateKey(input.checkIn),
+            checkOut: toDateKey(input.checkOut),
+            cutoffDate: toDateKey(input.cutoffDate),
+            status: 'tentative',
+            blocks: blocks.flatMap((block) =>
+              nights.map((date) => ({ roomTypeId: block.roomTypeId, date, rooms: block.rooms, released: 0 }))
+            ),
+            roomingList: [],
+            notes: input.notes,
+            createdAt: now,
+            updatedAt: now,
+          };
+
+          set((state) => ({ groups: [...state.groups, group] }));
+          push(group);
+          return group;
+        },
+
+        updateGroup: (groupId, updates) => {
+          const group = requireGroup(groupId);
+          if (updates.cutoffDate && toDateKey(updates.cutoffDate) > group.checkIn) {
+            throw new Error('Cutoff date must be on or before the arrival date');
+          }
+          saveGroup(groupId, (current) => ({ ...current, ...updates }));
+        },
+
+        setGroupStatus: (groupId, status) => {
+          const group = requireGroup(groupId);
+          if (status === 'cancelled' && group.roomingList.some((entry) => entry.reservationId)) {
+            throw new Error('Cancel the picked-up reservations before cancelling the group');
+          }
+          saveGroup(groupId, (current) => ({ ...current, status }));
+        },
+
+        setBlockRooms: (groupId, roomTypeId, date, rooms) => {
+          const group = requireGroup(groupId);
+          const assigned = group.roomingList.filter(
+            (entry) => entry.roomTypeId === roomTypeId && coversNight(entry, date)
+          ).length;
+          if (rooms < assigned) {
+            throw new Error(`${assigned} room(s) on ${date} are already on the rooming list`);
+          }
+
+          const exists = group.blocks.some((block) => block.roomTypeId === roomTypeId && block.date === date);
+          saveGroup(groupId, (current) => ({
+            ...current,
+            blocks: exists
+              ? current.blocks.map((block) =>
+                  block.roomTypeId === roomTypeId && block.date === date
+                    ? { ...block, rooms, released: Math.min(block.released, Math.max(rooms - assigned, 0)) }
+                    : block
+                )
+              : [...current.blocks, { roomTypeId, date, rooms, released: 0 }],
+          }));
+        },
+
+        addRoomingEntry: (groupId, input) => {
+          const group = requireGroup(groupId);
+          if (!HOLDING_STATUSES.includes(group.status) && group.status !== 'released') {
+            throw new Error('This group booking is cancelled');
+          }
+          const entry: RoomingListEntry = {
+            ...input,
+            id: nanoid(10),
+            checkIn: toDateKey(input.checkIn),
+            checkOut: toDateKey(input.checkOut),
+          };
+          assertBlockFits(group, entry);
+          saveGroup(groupId, (current) => ({ ...current, roomingList: [...current.roomingList, entry] }));
+          return entry;
+        },
+
+        updateRoomingEntry: (groupId, entryId, updates) => {
+          const group = requireGroup(groupId);
+          const existing = group.roomingList.find((entry) => entry.id === entryId);
+          if (!existing) {
+            throw new Error('Rooming list entry not found');
+          }
+          if (existing.reservationId && (updates.checkIn || updates.checkOut || updates.roomTypeId || updates.guestId)) {
+            throw new Error('Picked-up rooms must be changed on the reservation itself');
+          }
+
+          const next = { ...existing, ...updates };
+          assertBlockFits(group, next, entryId);
+          saveGroup(groupId, (current) => ({
+            ...current,
+            roomingList: current.roomingList.map((entry) => (entry.id === entryId ? next : entry)),
+          }));
+        },
+
+        removeRoomingEntry: (groupId, entryId) => {
+          const group = requireGroup(groupId);
+          if (group.roomingList.some((entry) => entry.id === entryId && entry.reservationId)) {
+            throw new Error('Cancel the reservation before removing a picked-up room');
+          }
+          saveGroup(groupId, (current) => ({
+            ...current,
+            roomingList: current.roomingList.filter((entry) => entry.id !== entryId),
+          }));
+        },
+
+        linkReservation: (groupId, entryId, reservationId) => {
+          saveGroup(groupId, (current) => ({
+            ...current,
+            roomingList: current.roomingList.map((entry) => (entry.id === entryId ? { ...entry, reservationId } : entry)),
+          }));
+          applyMasterRouting(requireGroup(groupId), reservationId);
+        },
+
+        // A cancelled pickup goes back to the rooming list so the room can be picked up again
+        unlinkReservation: (reservationId) => {
+          const group = get().groups.find((item) => item.roomingList.some((entry) => entry.reservationId === reservationId));
+          if (!group) {
+            return;
+          }
+          applyMasterRouting(group, reservationId, []);
+          saveGroup(group.id, (current) => ({
+            ...current,
+            roomingList: current.roomingList.map((entry) =>
+              entry.reservationId === reservationId ? { ...entry, reservationId: undefined } : entry
+            ),
+          }));
+        },
+
+        reassignReservation: (fromId, toId) => {
+          get()
+            .groups.filter((group) => group.roomingList.some((entry) => entry.reservationId === fromId))
+            .forEach((group) =>
+              saveGroup(group.id, (current) => ({
+                ...current,
+                roomingList: current.roomingList.map((entry) =>
+                  entry.reservationId === fromId ? { ...entry, reservationId: toId } : entry
+                ),
+              }))
+            );
+        },
+
+        releaseUnpickedRooms: (groupId) => {
+          requireGroup(groupId);
+          saveGroup(groupId, (current) => ({
+            ...current,
+            status: current.status === 'cancelled' ? current.status : 'released',
+            blocks: current.blocks.map((block) => ({
+              ...block,
+              released: Math.max(block.rooms - get().getPickedUp(current, block.roomTypeId, block.date), 0),
+            })),
+          }));
+        },
+
+        releaseExpiredBlocks: (today = format(new Date(), 'yyyy-MM-dd')) => {
+          const expired = get().groups.filter(
+            (group) => HOLDING_STATUSES.includes(group.status) && group.cutoffDate < today
+          );
+          expired.forEach((group) => get().releaseUnpickedRooms(group.id));
+          return expired.length;
+        },
+
+        getPickedUp: (group, roomTypeId, date) =>
+          group.roomingList.filter(
+            (entry) => entry.reservationId && entry.roomTypeId === roomTypeId && coversNight(entry, date)
+          ).length,
+
+        // Highest number of unpicked block rooms across the nights of the stay
+        getHeldRooms: (roomTypeId, checkIn, checkOut, excludeGroupId) => {
+          const today = format(new Date(), 'yyyy-MM-dd');
+          const holding = get().groups.filter(
+            (group) => group.id !== excludeGroupId && HOLDING_STATUSES.includes(group.status) && group.cutoffDate >= today
+          );
+
+          return stayNights(checkIn, checkOut).reduce((max, date) => {
+            const held = holding.reduce((sum, group) => {
+              const block = group.blocks.find((item) => item.roomTypeId === roomTypeId && item.date === date);
+              return block ? sum + Math.max(blockCapacity(block) - get().getPickedUp(group, roomTypeId, date), 0) : sum;
+            }, 0);
+            return Math.max(max, held);
+          }, 0);
+        },
+
+        openMasterFolio: (groupId) => {
+          const group = requireGroup(groupId);
+          const folios = useFolioStore.getState();
+          const folio = folios.ensurePrimaryFolio(masterLedgerKey(group.id), group.contactName);
+          if (folio.label !== 'Master') {
+            folios.renameFolio(folio.id, { label: 'Master' });
+          }
+          if (group.masterFolioId !== folio.id) {
+            saveGroup(groupId, (current) => ({ ...current, masterFolioId: folio.id }));
+          }
+          return folio.id;
+        },
+
+        setMasterRouting: (groupId, categories) => {
+          const group = requireGroup(groupId);
+          if (!group.masterFolioId) {
+            throw new Error('Open the master folio first');
+          }
+          memberIds(group).forEach((reservationId) => applyMasterRouting(group, reservationId, categories));
+          saveGroup(groupId, (current) => ({ ...current, masterRouting: categories }));
+        },
+
+        // The master folio closes once the organiser has paid it off; members' own folios settle at their check-out
+        settleMasterFolio: (groupId) => {
+          const group = requireGroup(groupId);
+          if (!group.masterFolioId) {
+            throw new Error('This group has no master folio');
+          }
+          const folios = useFolioStore.getState();
+          const balance = folios.getBalance(masterLedgerKey(group.id), group.masterFolioId);
+          if (balance > 0) {
+            throw new Error(`Collect the outstanding ${balance.toFixed(2)} before settling the master folio`);
+          }
+          memberIds(group).forEach((reservationId) => applyMasterRouting(group, reservationId, []));
+          folios.closeFolios(masterLedgerKey(group.id));
+          saveGroup(groupId, (current) => ({ ...current, masterRouting: [] }));
+        },
+      };
+    },
+    {
+      name: 'group-storage',
+      partialize: (state) => ({ groups: state.groups }),
+    }
+  )
+);
+
+export const getGroupNights = (group: Pick<GroupBooking, 'checkIn' | 'checkOut'>) => stayNights(group.checkIn, group.checkOut);
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import type { Guest } from '../types';
 import { guestApi, type GuestDraft, type GuestUpdatePayload } from '../services/guestApi';
+import { createOfflineId, registerSyncHandler, useSyncStore } from './syncStore';
+import { isNetworkError } from '../lib/offlineQueue';
 
 const formatError = (error: unknown, fallback: string) => {
   if (error instanceof Error) {
@@ -56,8 +58,11 @@ export const useGuestStore = create<GuestState>()((set, get) => ({
 
     try {
       console.log('[GuestStore] Fetching guests from backend...');
-      const guests = await guestApi.fetchGuests();
-      console.log('[GuestStore] Received guests:', guests.length);
+      const fetched = await guestApi.fetchGuests();
+      console.log('[GuestStore] Received guests:', fetched.length);
+      // Guests created offline stay listed until the queue creates them on the server
+      const pending = new Set(useSyncStore.getState().pendingEntityIds);
+      const guests = [...fetched, ...get().guests.filter((guest) => pending.has(guest.id))];
       set({ guests, isHydrated: true, isLoading: false });
     } catch (error) {
       set({
@@ -87,18 +92,47 @@ export const useGuestStore = create<GuestState>()((set, get) => ({
 
     set({ isLoading: true, error: null });
 
-    try {
-      const created = await guestApi.createGuest(context, guest);
-      set((state) => ({
-        guests: [...state.guests, created],
-        isLoading: false
-      }));
-      return created;
-    } catch (error) {
-      const message = formatError(error, 'Failed to create guest.');
-      set({ isLoading: false, error: message });
-      throw error instanceof Error ? error : new Error(message);
+    const sync = useSyncStore.getState();
+    if (!sync.shouldQueue()) {
+      try {
+        const created = await guestApi.createGuest(context, guest);
+        set((state) => ({
+          guests: [...state.guests, created],
+          isLoading: false
+        }));
+        return created;
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          const message = formatError(error, 'Failed to create guest.');
+          set({ isLoading: false, error: message });
+          throw error instanceof Error ? error : new Error(message);
+        }
+      }
     }
+
+    // Backend unreachable: keep the guest locally and create it once the connection returns
+    const now = new Date().toISOString();
+    const offlineGuest: Guest = {
+      ...guest,
+      id: createOfflineId('guest'),
+      nationality: guest.nationality ?? '',
+      idType: guest.idType ?? 'passport',
+      idNumber: guest.idNumber ?? '',
+      totalSpent: guest.totalSpent ?? 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await sync.enqueue({
+      kind: 'guest.create',
+      entityId: offlineGuest.id,
+      payload: { context, guest },
+      label: `New guest ${guest.firstName} ${guest.lastName}`.trim()
+    });
+    set((state) => ({
+      guests: [...state.guests, offlineGuest],
+      isLoading: false
+    }));
+    return offlineGuest;
   },
 
   updateGuest: async (id, updates) => {
@@ -135,3 +169,12 @@ export const useGuestStore = create<GuestState>()((set, get) => ({
     );
   }
 }));
+
+registerSyncHandler('guest.create', async (mutation) => {
+  const { context, guest } = mutation.payload as { context: StoreContext; guest: GuestDraft };
+  const created = await guestApi.createGuest(context, guest);
+  useGuestStore.setState((state) => ({
+    guests: state.guests.map((entry) => (entry.id === mutation.entityId ? created : entry))
+  }));
+  return { serverId: created.id };
+});
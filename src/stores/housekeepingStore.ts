@@ -0,0 +1,436 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import { format, parseISO } from 'date-fns';
+import type { HousekeepingTask, HousekeepingTaskType, Reservation, RoomInventory, RoomStatus, User } from '../types';
+import { housekeepingApi } from '../services/housekeepingApi';
+import { usePropertyStore } from './propertyStore';
+import { useReservationStore } from './reservationStore';
+import { useAccessControlStore } from './accessControlStore';
+import { useAuthStore } from './authStore';
+
+export const TASK_ESTIMATED_MINUTES: Record<HousekeepingTaskType, number> = {
+  cleaning: 30,
+  departure: 45,
+  stayover: 20,
+  turndown: 15,
+  inspection: 10,
+  maintenance: 60,
+};
+
+export const TASK_PRIORITY_RANK: Record<HousekeepingTask['priority'], number> = {
+  urgent: 3,
+  high: 2,
+  medium: 1,
+  low: 0,
+};
+
+export type HousekeepingTaskInput = {
+  roomId: string;
+  reservationId?: string;
+  businessDate?: string;
+  taskType?: HousekeepingTaskType;
+  priority?: HousekeepingTask['priority'];
+  estimatedTime?: number;
+  notes?: string;
+};
+
+interface HousekeepingState {
+  tasks: HousekeepingTask[];
+  lastGeneratedFor: string | null;
+  error: string | null;
+
+  initialize: () => () => void;
+  hydrateFromBackend: () => Promise<void>;
+  syncWithRooms: (rooms: RoomInventory[]) => void;
+  generateBoard: (date?: string) => HousekeepingTask[];
+  queueDepartureClean: (roomId: string, reservationId: string) => HousekeepingTask;
+  balanceWorkload: () => number;
+  createTask: (input: HousekeepingTaskInput) => HousekeepingTask;
+  assignTask: (taskId: string, userId: string | null) => HousekeepingTask;
+  setPriority: (taskId: string, priority: HousekeepingTask['priority']) => HousekeepingTask;
+  toggleMaintenance: (taskId: string) => Promise<HousekeepingTask>;
+  startTask: (taskId: string) => HousekeepingTask;
+  completeTask: (taskId: string) => Promise<HousekeepingTask>;
+  inspectTask: (taskId: string) => HousekeepingTask;
+  resetTask: (taskId: string) => Promise<HousekeepingTask>;
+  getStaff: () => User[];
+  getBoard: (date?: string) => HousekeepingTask[];
+}
+
+const GENERATION_CHECK_MS = 60000;
+
+const CLEANING_TASKS: HousekeepingTaskType[] = ['cleaning', 'departure', 'stayover'];
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// Backend stays carry full timestamps, so only the calendar day is compared
+const toDateKey = (value: string) => value.slice(0, 10);
+
+const isOpen = (task: HousekeepingTask) => task.status === 'pending' || task.status === 'in-progress';
+
+const isOpenClean = (task: HousekeepingTask, roomId: string) =>
+  task.roomId === roomId && isOpen(task) && CLEANING_TASKS.includes(task.taskType);
+
+const isVip = (reservation: Reservation) =>
+  reservation.guest.loyaltyTier === 'gold' || reservation.guest.loyaltyTier === 'platinum';
+
+// Early arrivals are only known from what the guest asked for until they check in
+const isEarlyArrival = (reservation: Reservation) =>
+  /early (check[- ]?in|arrival)/i.test(`${reservation.specialRequests ?? ''} ${reservation.notes ?? ''}`);
+
+const arrivingInto = (reservations: Reservation[], roomNumber: string, date: string) =>
+  reservations.find(
+    (reservation) =>
+      toDateKey(reservation.checkIn) === date &&
+      (reservation.status === 'confirmed' || reservation.status === 'pending') &&
+      reservation.roomNumbers.includes(roomNumber)
+  );
+
+// Same-day turnovers go first, ahead of the rest when the next guest is VIP or early
+const departurePriority = (next: Reservation | undefined): HousekeepingTask['priority'] => {
+  if (!next) return 'medium';
+  return isVip(next) || isEarlyArrival(next) ? 'urgent' : 'high';
+};
+
+// Room status a task leaves behind once maintenance is cleared; occupied and out-of-order rooms keep their status
+const roomStatusFor = (task: HousekeepingTask, room: RoomInventory | undefined): RoomStatus => {
+  if (room?.status === 'occupied' || room?.status === 'oos') return room.status;
+  return isOpen(task) ? 'dirty' : 'vacant';
+};
+
+export const useHousekeepingStore = create<HousekeepingState>()(
+  persist(
+    (set, get) => {
+      const getTask = (id: string) => {
+        const task = get().tasks.find((item) => item.id === id);
+        if (!task) {
+          throw new Error('Housekeeping task not found');
+        }
+        return task;
+      };
+
+      // Local state is the source of truth; the backend copy is best effort so the board works offline
+      const save = (task: HousekeepingTask) => {
+        set((state) => ({ tasks: state.tasks.map((item) => (item.id === task.id ? task : item)) }));
+        housekeepingApi.saveTask(task).catch((error) => {
+          console.error('Failed to save housekeeping task:', error);
+        });
+        return task;
+      };
+
+      const update = (id: string, updates: Partial<HousekeepingTask>) =>
+        save({ ...getTask(id), ...updates, updatedAt: new Date().toISOString() });
+
+      const updateRoom = async (roomId: string, updates: Partial<RoomInventory>) => {
+        try {
+          await usePropertyStore.getState().updateRoom(roomId, updates);
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update room status' });
+          throw error;
+        }
+      };
+
+      const findRoom = (roomNumber: string) =>
+        usePropertyStore.getState().rooms.find((room) => room.roomNumber === roomNumber && room.isActive);
+
+      return {
+        tasks: [],
+        lastGeneratedFor: null,
+        error: null,
+
+        // Opens a cleaning task whenever a room turns dirty and builds each day's board once the date rolls over
+        initialize: () => {
+          get().hydrateFromBackend().catch(() => undefined);
+          get().syncWithRooms(usePropertyStore.getState().rooms);
+          const unsubscribe = usePropertyStore.subscribe((state, prev) => {
+            if (state.rooms !== prev.rooms) {
+              get().syncWithRooms(state.rooms);
+            }
+          });
+
+          const check = () => {
+            const { rooms } = usePropertyStore.getState();
+            const { reservations } = useReservationStore.getState();
+            if (get().lastGeneratedFor !== today() && rooms.length && reservations.length) {
+              get().generateBoard();
+            }
+          };
+          const timer = window.setInterval(check, GENERATION_CHECK_MS);
+          check();
+          return () => {
+            unsubscribe();
+            window.clearInterval(timer);
+          };
+        },
+
+        hydrateFromBackend: async () => {
+          try {
+            const remote = await housekeepingApi.fetchTasks();
+            set((state) => {
+              const merged = new Map(state.tasks.map((task) => [task.id, task]));
+              remote.forEach((task) => {
+                const local = merged.get(task.id);
+                if (!local || task.updatedAt > local.updatedAt) {
+                  merged.set(task.id, task);
+                }
+              });
+              return { tasks: Array.from(merged.values()), error: null };
+            });
+          } catch (error) {
+            set({ error: error instanceof Error ? error.message : 'Failed to load housekeeping tasks' });
+            throw error;
+          }
+        },
+
+        syncWithRooms: (rooms) => {
+          const { tasks } = get();
+          rooms
+            .filter((room) => room.isActive && room.status === 'dirty')
+            .filter((room) => !tasks.some((task) => isOpenClean(task, room.id)))
+            .forEach((room) => get().createTask({ roomId: room.id }));
+        },
+
+        // Safe to run repeatedly: rooms that already have the task open for the day are skipped
+        generateBoard: (date = today()) => {
+          const { reservations } = useReservationStore.getState();
+          const arrivals = reservations.filter(
+            (reservation) =>
+              toDateKey(reservation.checkIn) === date && (reservation.status === 'confirmed' || reservation.status === 'pending')
+          );
+
+          const created: HousekeepingTask[] = [];
+          const plan = (roomNumber: string, input: Omit<HousekeepingTaskInput, 'roomId'>) => {
+            const room = findRoom(roomNumber);
+            if (!room) return;
+            const taskType = input.taskType ?? 'cleaning';
+            const exists = get().tasks.some(
+              (task) => task.roomId === room.id && task.taskType === taskType && task.businessDate === date
+            );
+            if (exists) return;
+            // A generic clean opened when the room turned dirty becomes the planned one
+            const generic = taskType !== 'inspection' && get().tasks.find((task) => isOpenClean(task, room.id) && task.taskType === 'cleaning');
+            if (generic) {
+              created.push(update(generic.id, { ...input, estimatedTime: TASK_ESTIMATED_MINUTES[taskType], businessDate: date }));
+              return;
+            }
+            created.push(get().createTask({ ...input, roomId: room.id, businessDate: date }));
+          };
+
+          reservations.forEach((reservation) => {
+            const departing =
+              toDateKey(reservation.checkOut) === date && (reservation.status === 'checked-in' || reservation.status === 'checked-out');
+            const stayingOver =
+              reservation.status === 'checked-in' && toDateKey(reservation.checkIn) < date && toDateKey(reservation.checkOut) > date;
+
+            reservation.roomNumbers.forEach((roomNumber) => {
+              if (departing) {
+                plan(roomNumber, {
+                  taskType: 'departure',
+                  reservationId: reservation.id,
+                  priority: departurePriority(arrivingInto(arrivals, roomNumber, date)),
+                });
+              } else if (stayingOver) {
+                plan(roomNumber, {
+                  taskType: 'stayover',
+                  reservationId: reservation.id,
+                  priority: isVip(reservation) ? 'medium' : 'low',
+                });
+              }
+            });
+          });
+
+          arrivals.forEach((reservation) => {
+            reservation.roomNumbers.forEach((roomNumber) => {
+              plan(roomNumber, {
+                taskType: 'inspection',
+                reservationId: reservation.id,
+                priority: isVip(reservation) || isEarlyArrival(reservation) ? 'high' : 'medium',
+              });
+            });
+          });
+
+          set({ lastGeneratedFor: date });
+          get().balanceWorkload();
+          return created;
+        },
+
+        queueDepartureClean: (roomId, reservationId) => {
+          const room = usePropertyStore.getState().rooms.find((item) => item.id === roomId);
+          if (!room) {
+            throw new Error('Room not found');
+          }
+          const { reservations } = useReservationStore.getState();
+          const input: Omit<HousekeepingTaskInput, 'roomId'> = {
+            taskType: 'departure',
+            reservationId,
+            priority: departurePriority(arrivingInto(reservations, room.roomNumber, today())),
+            estimatedTime: TASK_ESTIMATED_MINUTES.departure,
+          };
+
+          const open = get().tasks.find((task) => isOpenClean(task, roomId));
+          const task = open ? update(open.id, input) : get().createTask({ ...input, roomId });
+          if (!task.assignedTo) {
+            get().balanceWorkload();
+          }
+          return getTask(task.id);
+        },
+
+        // Hands unassigned open tasks, most urgent and longest first, to whoever has the fewest minutes queued
+        balanceWorkload: () => {
+          const staff = get().getStaff();
+          if (!staff.length) {
+            return 0;
+          }
+          const open = get().tasks.filter(isOpen);
+          const load = new Map(staff.map((user) => [user.id, 0]));
+          open.forEach((task) => {
+            if (task.assignedTo && load.has(task.assignedTo)) {
+              load.set(task.assignedTo, (load.get(task.assignedTo) ?? 0) + task.estimatedTime);
+            }
+          });
+
+          const unassigned = open
+            .filter((task) => !task.assignedTo || !load.has(task.assignedTo))
+            .sort(
+              (a, b) =>
+                TASK_PRIORITY_RANK[b.priority] - TASK_PRIORITY_RANK[a.priority] || b.estimatedTime - a.estimatedTime
+            );
+          unassigned.forEach((task) => {
+            const [userId] = Array.from(load.entries()).reduce((lightest, entry) => (entry[1] < lightest[1] ? entry : lightest));
+            load.set(userId, (load.get(userId) ?? 0) + task.estimatedTime);
+            get().assignTask(task.id, userId);
+          });
+          return unassigned.length;
+        },
+
+        createTask: (input) => {
+          const room = usePropertyStore.getState().rooms.find((item) => item.id === input.roomId);
+          if (!room) {
+            throw new Error('Room not found');
+          }
+          const taskType = input.taskType ?? 'cleaning';
+          const now = new Date().toISOString();
+          const task: HousekeepingTask = {
+            id: nanoid(12),
+            roomId: room.id,
+            roomNumber: room.roomNumber,
+            reservationId: input.reservationId,
+            businessDate: input.businessDate ?? today(),
+            taskType,
+            priority: input.priority ?? 'medium',
+            status: 'pending',
+            maintenance: room.status === 'maintenance' || room.status === 'oos',
+            estimatedTime: input.estimatedTime ?? TASK_ESTIMATED_MINUTES[taskType],
+            notes: input.notes,
+            createdAt: now,
+            updatedAt: now,
+          };
+          set((state) => ({ tasks: [...state.tasks, task] }));
+          return save(task);
+        },
+
+        assignTask: (taskId, userId) => {
+          if (!userId) {
+            return update(taskId, { assignedTo: undefined, assignedToName: undefined });
+          }
+          const staff = get().getStaff().find((user) => user.id === userId);
+          if (!staff) {
+            throw new Error('Tasks can only be assigned to housekeeping staff');
+          }
+          return update(taskId, { assignedTo: staff.id, assignedToName: staff.name });
+        },
+
+        setPriority: (taskId, priority) => update(taskId, { priority }),
+
+        toggleMaintenance: async (taskId) => {
+          const task = getTask(taskId);
+          const maintenance = !task.maintenance;
+          const room = usePropertyStore.getState().rooms.find((item) => item.id === task.roomId);
+          await updateRoom(task.roomId, { status: maintenance ? 'maintenance' : roomStatusFor(task, room) });
+          return update(taskId, { maintenance });
+        },
+
+        startTask: (taskId) => {
+          const task = getTask(taskId);
+          if (task.status !== 'pending') {
+            throw new Error(`Room ${task.roomNumber} is already ${task.status}`);
+          }
+          return update(taskId, { status: 'in-progress', startedAt: new Date().toISOString() });
+        },
+
+        completeTask: async (taskId) => {
+          const task = getTask(taskId);
+          if (!isOpen(task)) {
+            throw new Error(`Room ${task.roomNumber} is already ${task.status}`);
+          }
+          const now = new Date().toISOString();
+          const room = usePropertyStore.getState().rooms.find((item) => item.id === task.roomId);
+          if (task.taskType === 'inspection') {
+            if (room?.status === 'dirty') {
+              throw new Error(`Room ${task.roomNumber} must be cleaned before inspection`);
+            }
+            return update(taskId, {
+              status: 'inspected',
+              startedAt: task.startedAt ?? now,
+              completedAt: now,
+              inspectedAt: now,
+              inspectedBy: useAuthStore.getState().user?.name,
+            });
+          }
+          const completed = update(taskId, {
+            status: 'completed',
+            startedAt: task.startedAt ?? now,
+            completedAt: now,
+          });
+          await updateRoom(task.roomId, {
+            status: task.maintenance ? 'maintenance' : roomStatusFor(completed, room),
+            lastCleaned: now,
+          });
+          return completed;
+        },
+
+        inspectTask: (taskId) => {
+          const task = getTask(taskId);
+          if (task.status !== 'completed') {
+            throw new Error(`Room ${task.roomNumber} must be cleaned before inspection`);
+          }
+          return update(taskId, {
+            status: 'inspected',
+            inspectedAt: new Date().toISOString(),
+            inspectedBy: useAuthStore.getState().user?.name,
+          });
+        },
+
+        // Sends the room back for another clean, e.g. when inspection fails
+        resetTask: async (taskId) => {
+          const task = update(taskId, {
+            status: 'pending',
+            startedAt: undefined,
+            completedAt: undefined,
+            inspectedAt: undefined,
+            inspectedBy: undefined,
+          });
+          if (!task.maintenance) {
+            const room = usePropertyStore.getState().rooms.find((item) => item.id === task.roomId);
+            await updateRoom(task.roomId, { status: roomStatusFor(task, room) });
+          }
+          return task;
+        },
+
+        getStaff: () => useAccessControlStore.getState().users.filter((user) => user.role === 'housekeeping'),
+
+        // Open tasks plus whatever was planned or finished on the day
+        getBoard: (date = today()) =>
+          get().tasks.filter(
+            (task) =>
+              isOpen(task) || task.businessDate === date || format(parseISO(task.updatedAt), 'yyyy-MM-dd') === date
+          ),
+      };
+    },
+    {
+      name: 'housekeeping-storage',
+      partialize: (state) => ({ tasks: state.tasks, lastGeneratedFor: state.lastGeneratedFor }),
+    }
+  )
+);
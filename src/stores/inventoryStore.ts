@@ -0,0 +1,383 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import type {
+  MenuRecipe,
+  POSOrder,
+  PurchaseReceipt,
+  RecipeIngredient,
+  StockItem,
+  StockMovement,
+  StockMovementType,
+  StockUnit,
+  StockVarianceLine,
+} from '../types';
+import { useAuthStore } from './authStore';
+
+interface InventoryState {
+  stockItems: StockItem[];
+  recipes: MenuRecipe[];
+  movements: StockMovement[];
+  receipts: PurchaseReceipt[];
+
+  // Stock list
+  addStockItem: (payload: Omit<StockItem, 'id' | 'isActive'>) => StockItem;
+  updateStockItem: (stockItemId: string, updates: Partial<Omit<StockItem, 'id' | 'onHand' | 'unit'>>) => void;
+
+  // Recipes
+  saveRecipe: (menuItemId: string, variantId: string | undefined, ingredients: RecipeIngredient[]) => MenuRecipe | undefined;
+  getRecipe: (menuItemId: string, variantId?: string) => MenuRecipe | undefined;
+
+  // Stock movements
+  receivePurchase: (payload: Pick<PurchaseReceipt, 'supplier' | 'invoiceNumber' | 'lines'>) => PurchaseReceipt;
+  recordWastage: (stockItemId: string, quantity: number, reason: string) => StockMovement;
+  recordCount: (stockItemId: string, counted: number, note?: string) => StockMovement | undefined;
+  consumeOrder: (order: POSOrder) => StockMovement[];
+
+  // Reporting
+  getLowStock: () => StockItem[];
+  getVarianceReport: (from: string, to: string) => StockVarianceLine[];
+}
+
+export const STOCK_UNIT_LABELS: Record<StockUnit, string> = {
+  g: 'Grams',
+  kg: 'Kilograms',
+  ml: 'Millilitres',
+  l: 'Litres',
+  pcs: 'Pieces',
+};
+
+const UNIT_SCALE: Record<StockUnit, { dimension: 'mass' | 'volume' | 'count'; factor: number }> = {
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  ml: { dimension: 'volume', factor: 1 },
+  l: { dimension: 'volume', factor: 1000 },
+  pcs: { dimension: 'count', factor: 1 },
+};
+
+export const unitsCompatible = (from: StockUnit, to: StockUnit) => UNIT_SCALE[from].dimension === UNIT_SCALE[to].dimension;
+
+/**
+ * Converts a quantity between units of the same kind, e.g. 250 ml to 0.25 l
+ */
+export const convertQuantity = (quantity: number, from: StockUnit, to: StockUnit) => {
+  if (!unitsCompatible(from, to)) {
+    throw new Error(`Cannot convert ${from} to ${to}`);
+  }
+  return (quantity * UNIT_SCALE[from].factor) / UNIT_SCALE[to].factor;
+};
+
+const DEFAULT_STOCK: StockItem[] = [
+  { id: 'STK001', name: 'Dosa Batter', unit: 'kg', onHand: 20, parLevel: 5, unitCost: 60, isActive: true },
+  { id: 'STK002', name: 'Paneer', unit: 'kg', onHand: 8, parLevel: 3, unitCost: 320, isActive: true },
+  { id: 'STK003', name: 'Butter', unit: 'kg', onHand: 5, parLevel: 1, unitCost: 480, isActive: true },
+  { id: 'STK004', name: 'Lime', unit: 'pcs', onHand: 80, parLevel: 30, unitCost: 5, isActive: true },
+  { id: 'STK005', name: 'Soda', unit: 'l', onHand: 24, parLevel: 6, unitCost: 40, isActive: true },
+  { id: 'STK006', name: 'Draught Beer', unit: 'l', onHand: 100, parLevel: 30, unitCost: 180, isActive: true },
+  { id: 'STK007', name: 'Gulab Jamun', unit: 'pcs', onHand: 60, parLevel: 20, unitCost: 12, isActive: true },
+  { id: 'STK008', name: 'Peanuts', unit: 'kg', onHand: 4, parLevel: 1, unitCost: 200, isActive: true },
+  { id: 'STK009', name: 'Sandwich Bread', unit: 'pcs', onHand: 120, parLevel: 40, unitCost: 4, isActive: true },
+  { id: 'STK010', name: 'Chicken Breast', unit: 'kg', onHand: 6, parLevel: 2, unitCost: 280, isActive: true },
+];
+
+const seedRecipe = (id: string, menuItemId: string, variantId: string | undefined, ingredients: RecipeIngredient[]): MenuRecipe => ({
+  id,
+  menuItemId,
+  variantId,
+  ingredients,
+  updatedAt: new Date().toISOString(),
+});
+
+const DEFAULT_RECIPES: MenuRecipe[] = [
+  seedRecipe('RCP001', 'MNU001', undefined, [
+    { stockItemId: 'STK001', quantity: 150, unit: 'g' },
+    { stockItemId: 'STK003', quantity: 10, unit: 'g' },
+  ]),
+  seedRecipe('RCP002', 'MNU002', undefined, [
+    { stockItemId: 'STK002', quantity: 200, unit: 'g' },
+    { stockItemId: 'STK003', quantity: 15, unit: 'g' },
+  ]),
+  seedRecipe('RCP101', 'MNU101', 'VAR101R', [
+    { stockItemId: 'STK004', quantity: 1, unit: 'pcs' },
+    { stockItemId: 'STK005', quantity: 250, unit: 'ml' },
+  ]),
+  seedRecipe('RCP102', 'MNU101', 'VAR101L', [
+    { stockItemId: 'STK004', quantity: 2, unit: 'pcs' },
+    { stockItemId: 'STK005', quantity: 400, unit: 'ml' },
+  ]),
+  seedRecipe('RCP201', 'MNU201', undefined, [{ stockItemId: 'STK007', quantity: 2, unit: 'pcs' }]),
+  seedRecipe('RCP301', 'MNU301', 'VAR301P', [{ stockItemId: 'STK006', quantity: 500, unit: 'ml' }]),
+  seedRecipe('RCP302', 'MNU301', 'VAR301J', [{ stockItemId: 'STK006', quantity: 1.8, unit: 'l' }]),
+  seedRecipe('RCP303', 'MNU302', undefined, [{ stockItemId: 'STK008', quantity: 100, unit: 'g' }]),
+  seedRecipe('RCP401', 'MNU401', undefined, [
+    { stockItemId: 'STK009', quantity: 3, unit: 'pcs' },
+    { stockItemId: 'STK010', quantity: 120, unit: 'g' },
+  ]),
+];
+
+const round = (value: number) => Number(value.toFixed(3));
+
+const money = (value: number) => Number(value.toFixed(2));
+
+const validateItem = (item: Pick<StockItem, 'name' | 'parLevel' | 'unitCost'>) => {
+  if (!item.name.trim()) {
+    throw new Error('Stock item name is required');
+  }
+  if (item.parLevel < 0 || item.unitCost < 0) {
+    throw new Error('Par level and cost cannot be negative');
+  }
+};
+
+export const useInventoryStore = create<InventoryState>()(
+  persist(
+    (set, get) => {
+      const getItem = (stockItemId: string) => {
+        const item = get().stockItems.find((entry) => entry.id === stockItemId);
+        if (!item) {
+          throw new Error('Stock item not found');
+        }
+        return item;
+      };
+
+      const buildMovement = (
+        item: StockItem,
+        type: StockMovementType,
+        quantity: number,
+        details: Pick<StockMovement, 'reference' | 'note'> & { unitCost?: number } = {}
+      ): StockMovement => ({
+        id: nanoid(8),
+        stockItemId: item.id,
+        type,
+        quantity: round(quantity),
+        unitCost: details.unitCost ?? item.unitCost,
+        reference: details.reference,
+        note: details.note,
+        createdAt: new Date().toISOString(),
+        createdBy: useAuthStore.getState().user?.name ?? 'System',
+      });
+
+      // Applies movements to on-hand stock; purchases also move the average cost
+      const applyMovements = (entries: StockMovement[]) =>
+        set((state) => ({
+          movements: [...entries, ...state.movements],
+          stockItems: state.stockItems.map((item) =>
+            entries
+              .filter((entry) => entry.stockItemId === item.id)
+              .reduce((current, entry) => {
+                const onHand = round(current.onHand + entry.quantity);
+                if (entry.type !== 'purchase') {
+                  return { ...current, onHand };
+                }
+                const valued = Math.max(current.onHand, 0);
+                const unitCost = money((valued * current.unitCost + entry.quantity * entry.unitCost) / (valued + entry.quantity));
+                return { ...current, onHand, unitCost };
+              }, item)
+          ),
+        }));
+
+      return {
+        stockItems: DEFAULT_STOCK,
+        recipes: DEFAULT_RECIPES,
+        movements: [],
+        receipts: [],
+
+        addStockItem: (payload) => {
+          validateItem(payload);
+          if (payload.onHand < 0) {
+            throw new Error('Opening stock cannot be negative');
+          }
+          const item: StockItem = { ...payload, id: `STK${nanoid(6)}`, name: payload.name.trim(), isActive: true };
+          set((state) => ({ stockItems: [...state.stockItems, item] }));
+          return item;
+        },
+
+        // On-hand stock only changes through purchases, wastage, sales and counts; the unit is fixed once recipes use it
+        updateStockItem: (stockItemId, updates) => {
+          const next = { ...getItem(stockItemId), ...updates };
+          validateItem(next);
+          set((state) => ({
+            stockItems: state.stockItems.map((entry) => (entry.id === stockItemId ? next : entry)),
+          }));
+        },
+
+        // Saving with no ingredients removes the recipe, so the item stops drawing stock
+        saveRecipe: (menuItemId, variantId, ingredients) => {
+          const lines = ingredients.filter((entry) => entry.stockItemId);
+          lines.forEach((entry) => {
+            const item = getItem(entry.stockItemId);
+            if (!(entry.quantity > 0)) {
+              throw new Error(`Enter a quantity for ${item.name}`);
+            }
+            if (!unitsCompatible(entry.unit, item.unit)) {
+              throw new Error(`${item.name} is stocked in ${item.unit}, so the recipe cannot use ${entry.unit}`);
+            }
+          });
+          if (new Set(lines.map((entry) => entry.stockItemId)).size !== lines.length) {
+            throw new Error('Each ingredient can only appear once in a recipe');
+          }
+
+          const existing = get().recipes.find((recipe) => recipe.menuItemId === menuItemId && recipe.variantId === variantId);
+          if (!lines.length) {
+            set((state) => ({ recipes: state.recipes.filter((recipe) => recipe !== existing) }));
+            return undefined;
+          }
+          const recipe: MenuRecipe = {
+            id: existing?.id ?? `RCP${nanoid(6)}`,
+            menuItemId,
+            variantId,
+            ingredients: lines,
+            updatedAt: new Date().toISOString(),
+          };
+          set((state) => ({
+            recipes: existing
+              ? state.recipes.map((entry) => (entry.id === existing.id ? recipe : entry))
+              : [...state.recipes, recipe],
+          }));
+          return recipe;
+        },
+
+        getRecipe: (menuItemId, variantId) => {
+          const { recipes } = get();
+          return (
+            (variantId && recipes.find((recipe) => recipe.menuItemId === menuItemId && recipe.variantId === variantId)) ||
+            recipes.find((recipe) => recipe.menuItemId === menuItemId && !recipe.variantId)
+          );
+        },
+
+        receivePurchase: (payload) => {
+          const lines = payload.lines.filter((line) => line.stockItemId);
+          if (!payload.supplier.trim()) {
+            throw new Error('Enter the supplier');
+          }
+          if (!lines.length) {
+            throw new Error('Add at least one item to the receipt');
+          }
+          lines.forEach((line) => {
+            if (!(line.quantity > 0) || line.unitCost < 0) {
+              throw new Error(`Check the quantity and cost for ${getItem(line.stockItemId).name}`);
+            }
+          });
+
+          const receipt: PurchaseReceipt = {
+            id: `GRN${nanoid(6)}`,
+            supplier: payload.supplier.trim(),
+            invoiceNumber: payload.invoiceNumber?.trim() || undefined,
+            lines,
+            total: money(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0)),
+            receivedAt: new Date().toISOString(),
+            receivedBy: useAuthStore.getState().user?.name ?? 'System',
+          };
+          applyMovements(
+            lines.map((line) =>
+              buildMovement(getItem(line.stockItemId), 'purchase', line.quantity, {
+                unitCost: line.unitCost,
+                reference: receipt.id,
+                note: receipt.supplier,
+              })
+            )
+          );
+          set((state) => ({ receipts: [receipt, ...state.receipts] }));
+          return receipt;
+        },
+
+        recordWastage: (stockItemId, quantity, reason) => {
+          const item = getItem(stockItemId);
+          if (!(quantity > 0)) {
+            throw new Error('Enter the quantity wasted');
+          }
+          if (!reason.trim()) {
+            throw new Error('Enter a reason for the wastage');
+          }
+          const movement = buildMovement(item, 'wastage', -quantity, { note: reason.trim() });
+          applyMovements([movement]);
+          return movement;
+        },
+
+        // A physical count resets the book stock; the difference shows up as variance
+        recordCount: (stockItemId, counted, note) => {
+          const item = getItem(stockItemId);
+          if (counted < 0) {
+            throw new Error('Counted stock cannot be negative');
+          }
+          const difference = round(counted - item.onHand);
+          if (!difference) {
+            return undefined;
+          }
+          const movement = buildMovement(item, 'count', difference, { note: note?.trim() || undefined });
+          applyMovements([movement]);
+          return movement;
+        },
+
+        // Draws the recipe quantities for everything sold on the order, once per order; stock may go negative
+        consumeOrder: (order) => {
+          const state = get();
+          if (state.movements.some((entry) => entry.type === 'sale' && entry.reference === order.id)) {
+            return [];
+          }
+          const usage = new Map<string, number>();
+          const draw = (recipe: MenuRecipe | undefined, portions: number) =>
+            recipe?.ingredients.forEach((ingredient) => {
+              const item = state.stockItems.find((entry) => entry.id === ingredient.stockItemId);
+              if (item) {
+                const quantity = convertQuantity(ingredient.quantity, ingredient.unit, item.unit) * portions;
+                usage.set(item.id, (usage.get(item.id) ?? 0) + quantity);
+              }
+            });
+
+          order.items.forEach((line) => {
+            draw(state.getRecipe(line.itemId, line.variantId), line.quantity);
+            line.comboPicks?.forEach((pick) => draw(state.getRecipe(pick.itemId), line.quantity));
+          });
+
+          const entries = Array.from(usage.entries()).map(([stockItemId, quantity]) =>
+            buildMovement(getItem(stockItemId), 'sale', -quantity, { reference: order.id })
+          );
+          if (entries.length) {
+            applyMovements(entries);
+          }
+          return entries;
+        },
+
+        getLowStock: () => get().stockItems.filter((item) => item.isActive && item.onHand <= item.parLevel),
+
+        // Compares what the recipes say was used against what left the shelf, for movements between the two dates
+        getVarianceReport: (from, to) => {
+          const { stockItems, movements } = get();
+          const inRange = movements.filter((entry) => {
+            const day = entry.createdAt.slice(0, 10);
+            return day >= from && day <= to;
+          });
+
+          return stockItems
+            .map((item) => {
+              const sum = (type: StockMovementType) =>
+                inRange
+                  .filter((entry) => entry.stockItemId === item.id && entry.type === type)
+                  .reduce((total, entry) => total + entry.quantity, 0);
+              const salesUsage = -sum('sale');
+              const wastage = -sum('wastage');
+              const countDifference = sum('count');
+              const actualUsage = salesUsage - countDifference;
+              const variance = round(actualUsage - salesUsage);
+              return {
+                stockItemId: item.id,
+                name: item.name,
+                unit: item.unit,
+                purchased: round(sum('purchase')),
+                salesUsage: round(salesUsage),
+                wastage: round(wastage),
+                wastageCost: money(wastage * item.unitCost),
+                actualUsage: round(actualUsage),
+                variance,
+                varianceCost: money(variance * item.unitCost),
+              };
+            })
+            .filter((line) => line.purchased || line.salesUsage || line.wastage || line.variance);
+        },
+      };
+    },
+    {
+      name: 'inventory-storage',
+    }
+  )
+);
@@ -0,0 +1,332 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import type { ChargeCategory, TaxDocument, TaxDocumentLine, TaxDocumentType } from '../types';
+import { invoiceApi, type TaxDocumentDraft } from '../services/invoiceApi';
+import { isNetworkError } from '../lib/offlineQueue';
+import { usePropertyStore } from './propertyStore';
+import { registerInvoiceLookup, useFolioStore } from './folioStore';
+import { HSN_SAC_CODES, getFinancialYear, resolveSupplyType, splitGst } from '../utils/gst';
+
+export interface TaxLineInput {
+  description: string;
+  category: ChargeCategory;
+  quantity: number;
+  unitAmount: number;
+  taxableAmount: number;
+  taxRate: number;
+  sourceEntryId?: string;
+}
+
+interface IssueInvoiceInput {
+  reservationId: string;
+  folioId?: string;
+  issueDate: string;
+  billedTo: string;
+  buyerGstin?: string;
+  placeOfSupply: string;
+  lines: TaxLineInput[];
+  issuedBy?: string;
+}
+
+interface IssueFolioInvoiceInput {
+  reservationId: string;
+  folioId: string;
+  issueDate: string;
+  billedTo: string;
+  buyerGstin?: string;
+  placeOfSupply: string;
+  issuedBy?: string;
+}
+
+interface IssueNoteInput {
+  type: Exclude<TaxDocumentType, 'invoice'>;
+  invoiceId: string;
+  reason: string;
+  // Omit on a credit note to reverse the full invoice
+  lines?: TaxLineInput[];
+  issueDate?: string;
+  issuedBy?: string;
+}
+
+interface InvoiceState {
+  documents: TaxDocument[];
+  // Last sequence the server handed this terminal per `${hotelCode}|${type}|${financialYear}`; only used to preview numbers
+  counters: Record<string, number>;
+
+  reset: () => void;
+  // Invoices issued on other terminals must be known before charges are invoiced, voided or split
+  hydrateFromBackend: (reservationId?: string) => Promise<void>;
+  peekNextNumber: (type: TaxDocumentType, issueDate: string) => string;
+  issueInvoice: (input: IssueInvoiceInput) => Promise<TaxDocument>;
+  issueFolioInvoice: (input: IssueFolioInvoiceInput) => Promise<TaxDocument | null>;
+  issueNote: (input: IssueNoteInput) => Promise<TaxDocument>;
+  getDocuments: (reservationId: string) => TaxDocument[];
+  getNotesFor: (invoiceId: string) => TaxDocument[];
+  findInvoiceForEntry: (entryId: string) => TaxDocument | undefined;
+}
+
+const SERIES_PREFIX: Record<TaxDocumentType, string> = {
+  invoice: '',
+  'credit-note': 'CN',
+  'debit-note': 'DN',
+};
+
+// GST allows at most 16 characters in an invoice or note number
+const MAX_NUMBER_LENGTH = 16;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const counterKey = (hotelCode: string, type: TaxDocumentType, financialYear: string) =>
+  `${hotelCode}|${type}|${financialYear}`;
+
+// The year is printed as 2526 and the hotel code is shortened to whatever room the 16 characters leave,
+// e.g. HOTEL/2526/00001 for invoices and HOTE/CN2526/0001 for notes
+const formatNumber = (hotelCode: string, type: TaxDocumentType, financialYear: string, sequence: number) => {
+  const suffix = `/${SERIES_PREFIX[type]}${financialYear.slice(2).replace('-', '')}/${String(sequence).padStart(type === 'invoice' ? 5 : 4, '0')}`;
+  const code = hotelCode.slice(0, Math.max(MAX_NUMBER_LENGTH - suffix.length, 0));
+  if (!code) {
+    throw new Error(`Sequence ${sequence} no longer fits the ${MAX_NUMBER_LENGTH}-character GST document number`);
+  }
+  return `${code}${suffix}`;
+};
+
+const requireSupplier = () => {
+  const profile = usePropertyStore.getState().hotelProfile;
+  if (!profile?.gstin) {
+    throw new Error('Add the property GSTIN in Hotel Profile before issuing tax documents');
+  }
+  return { hotelCode: profile.hotelCode || 'HTL', gstin: profile.gstin };
+};
+
+export const buildTaxLines = (lines: TaxLineInput[], supplyType: TaxDocument['supplyType']): TaxDocumentLine[] =>
+  lines.map((line) => {
+    const taxableAmount = round(line.taxableAmount);
+    const { cgst, sgst, igst } = splitGst(taxableAmount, line.taxRate, supplyType);
+    return {
+      description: line.description,
+      category: line.category,
+      hsnSac: HSN_SAC_CODES[line.category],
+      quantity: line.quantity,
+      unitAmount: round(line.unitAmount),
+      taxableAmount,
+      taxRate: line.taxRate,
+      cgst,
+      sgst,
+      igst,
+      total: round(taxableAmount + cgst + sgst + igst),
+      sourceEntryId: line.sourceEntryId,
+    };
+  });
+
+export const summarizeTaxLines = (lines: TaxDocumentLine[]) => ({
+  taxableTotal: round(lines.reduce((sum, line) => sum + line.taxableAmount, 0)),
+  cgstTotal: round(lines.reduce((sum, line) => sum + line.cgst, 0)),
+  sgstTotal: round(lines.reduce((sum, line) => sum + line.sgst, 0)),
+  igstTotal: round(lines.reduce((sum, line) => sum + line.igst, 0)),
+  grandTotal: round(lines.reduce((sum, line) => sum + line.total, 0)),
+});
+
+export const useInvoiceStore = create<InvoiceState>()(
+  persist(
+    (set, get) => {
+      // Numbers are allocated by the server when a document is issued, keeping each series gap-free across terminals
+      const issue = async (draft: TaxDocumentDraft) => {
+        let document: TaxDocument;
+        try {
+          document = await invoiceApi.issueDocument(draft);
+        } catch (error) {
+          if (isNetworkError(error)) {
+            throw new Error('Tax documents are numbered by the server; reconnect before issuing', { cause: error });
+          }
+          throw error;
+        }
+        const key = counterKey(document.hotelCode, document.type, document.financialYear);
+        set((state) => ({
+          documents: [...state.documents.filter((doc) => doc.id !== document.id), document],
+          counters: { ...state.counters, [key]: Math.max(state.counters[key] ?? 0, document.sequence) },
+        }));
+        return document;
+      };
+
+      return {
+        documents: [],
+        counters: {},
+
+        reset: () => set({ documents: [], counters: {} }),
+
+        // Issued documents never change, so the server copy simply joins the local one
+        hydrateFromBackend: async (reservationId) => {
+          const remote = await invoiceApi.fetchDocuments(reservationId);
+          set((state) => {
+            const documents = new Map(state.documents.map((doc) => [doc.id, doc]));
+            const counters = { ...state.counters };
+            remote.forEach((doc) => {
+              documents.set(doc.id, doc);
+              const key = counterKey(doc.hotelCode, doc.type, doc.financialYear);
+              counters[key] = Math.max(counters[key] ?? 0, doc.sequence);
+            });
+            return { documents: Array.from(documents.values()), counters };
+          });
+        },
+
+        peekNextNumber: (type, issueDate) => {
+          const hotelCode = usePropertyStore.getState().hotelProfile?.hotelCode || 'HTL';
+          const financialYear = getFinancialYear(issueDate);
+          const sequence = (get().counters[counterKey(hotelCode, type, financialYear)] ?? 0) + 1;
+          return formatNumber(hotelCode, type, financialYear, sequence);
+        },
+
+        issueInvoice: async (input) => {
+          const supplier = requireSupplier();
+          const billable = input.lines.filter((line) => line.taxableAmount > 0);
+          if (!billable.length) {
+            throw new Error('There are no charges to invoice');
+          }
+
+          const placeOfSupply = input.buyerGstin || input.placeOfSupply;
+          const supplyType = resolveSupplyType(supplier.gstin, placeOfSupply);
+          const lines = buildTaxLines(billable, supplyType);
+          const financialYear = getFinancialYear(input.issueDate);
+
+          return issue({
+            id: nanoid(12),
+            type: 'invoice',
+            series: `${supplier.hotelCode}/${financialYear}`,
+            financialYear,
+            hotelCode: supplier.hotelCode,
+            hotelGstin: supplier.gstin,
+            reservationId: input.reservationId,
+            folioId: input.folioId,
+            issueDate: input.issueDate,
+            billedTo: input.billedTo,
+            buyerGstin: input.buyerGstin || undefined,
+            placeOfSupply: input.placeOfSupply,
+            supplyType,
+            lines,
+            ...summarizeTaxLines(lines),
+            issuedBy: input.issuedBy,
+            createdAt: new Date().toISOString(),
+          });
+        },
+
+        // Invoices every charge on the folio that no earlier invoice has covered; null when nothing is left
+        issueFolioInvoice: async ({ folioId, ...input }) => {
+          await get().hydrateFromBackend(input.reservationId);
+          const invoiced = new Set(
+            get()
+              .getDocuments(input.reservationId)
+              .filter((doc) => doc.type === 'invoice')
+              .flatMap((doc) => doc.lines.map((line) => line.sourceEntryId))
+          );
+          const lines: TaxLineInput[] = useFolioStore
+            .getState()
+            .getOpenCharges(input.reservationId, folioId)
+            .filter(({ entry }) => !invoiced.has(entry.id))
+            .map(({ entry, charge }) => {
+              const quantity = charge.quantity || 1;
+              const taxAmount = charge.taxAmount || 0;
+              return {
+                description: charge.description,
+                category: charge.category,
+                quantity,
+                unitAmount: round(charge.amount / quantity),
+                taxableAmount: charge.amount,
+                taxRate: charge.taxRate ?? (charge.amount ? round((taxAmount / charge.amount) * 100) : 0),
+                sourceEntryId: entry.id,
+              };
+            });
+          if (!lines.some((line) => line.taxableAmount > 0)) {
+            return null;
+          }
+          return get().issueInvoice({ ...input, folioId, lines });
+        },
+
+        issueNote: async ({ type, invoiceId, reason, lines: lineInput, issueDate, issuedBy }) => {
+          const invoice = get().documents.find((doc) => doc.id === invoiceId && doc.type === 'invoice');
+          if (!invoice) {
+            throw new Error('Original invoice not found');
+          }
+          if (!reason.trim()) {
+            throw new Error('A reason is required for credit and debit notes');
+          }
+
+          const noteLines = lineInput
+            ? buildTaxLines(lineInput.filter((line) => line.taxableAmount > 0), invoice.supplyType)
+            : type === 'credit-note'
+              ? invoice.lines
+              : [];
+          if (!noteLines.length) {
+            throw new Error('Add at least one line to the note');
+          }
+
+          const totals = summarizeTaxLines(noteLines);
+          if (type === 'credit-note') {
+            const credited = get()
+              .getNotesFor(invoice.id)
+              .filter((doc) => doc.type === 'credit-note')
+              .reduce((sum, doc) => sum + doc.grandTotal, 0);
+            if (round(credited + totals.grandTotal) > invoice.grandTotal) {
+              throw new Error(`Credit notes cannot exceed the invoice total of ${invoice.grandTotal.toFixed(2)}`);
+            }
+          }
+
+          const date = issueDate ?? new Date().toISOString().slice(0, 10);
+          const financialYear = getFinancialYear(date);
+
+          // The note is issued to the same parties as the invoice it amends
+          const note = await issue({
+            id: nanoid(12),
+            hotelCode: invoice.hotelCode,
+            hotelGstin: invoice.hotelGstin,
+            reservationId: invoice.reservationId,
+            folioId: invoice.folioId,
+            billedTo: invoice.billedTo,
+            buyerGstin: invoice.buyerGstin,
+            placeOfSupply: invoice.placeOfSupply,
+            supplyType: invoice.supplyType,
+            type,
+            series: `${invoice.hotelCode}/${SERIES_PREFIX[type]}/${financialYear}`,
+            financialYear,
+            referenceDocumentId: invoice.id,
+            referenceNumber: invoice.number,
+            reason,
+            issueDate: date,
+            lines: noteLines,
+            ...totals,
+            issuedBy,
+            createdAt: new Date().toISOString(),
+          });
+
+          // While the folio is open the note also moves its balance, which is how an invoiced charge is reversed
+          const folio = useFolioStore
+            .getState()
+            .folios.find((item) => item.id === invoice.folioId && item.status === 'open');
+          if (folio) {
+            useFolioStore.getState().postAdjustment(
+              invoice.reservationId,
+              type === 'credit-note' ? -note.grandTotal : note.grandTotal,
+              `${type === 'credit-note' ? 'Credit' : 'Debit'} note ${note.number}: ${reason}`,
+              { folioId: folio.id, source: 'billing', sourceRef: note.id, postedBy: issuedBy }
+            );
+          }
+          return note;
+        },
+
+        getDocuments: (reservationId) => get().documents.filter((doc) => doc.reservationId === reservationId),
+
+        getNotesFor: (invoiceId) => get().documents.filter((doc) => doc.referenceDocumentId === invoiceId),
+
+        findInvoiceForEntry: (entryId) =>
+          get().documents.find(
+            (doc) => doc.type === 'invoice' && doc.lines.some((line) => line.sourceEntryId === entryId)
+          ),
+      };
+    },
+    {
+      name: 'invoice-storage',
+    }
+  )
+);
+
+registerInvoiceLookup((entryId) => useInvoiceStore.getState().findInvoiceForEntry(entryId)?.number);
@@ -0,0 +1,281 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import { addDays, format, parseISO } from 'date-fns';
+import type { LostItem, LostItemStatus, Reservation } from '../types';
+import { whatsappApi } from '../services/advancedFeaturesApi';
+import { lostFoundApi } from '../services/lostFoundApi';
+import { usePropertyStore } from './propertyStore';
+import { useReservationStore } from './reservationStore';
+import { useAuthStore } from './authStore';
+import { useTransactionLogStore } from './transactionLogStore';
+
+export type FoundItemInput = Pick<LostItem, 'roomId' | 'description' | 'category' | 'storageLocation' | 'photo' | 'housekeepingTaskId'>;
+
+export type ShippingDetails = Required<Pick<LostItem, 'shippingCarrier' | 'trackingNumber' | 'shippingAddress'>>;
+
+interface LostFoundState {
+  items: LostItem[];
+  error: string | null;
+
+  // Items logged on other terminals, such as a housekeeper's tablet, show up at the front desk
+  hydrateFromBackend: () => Promise<void>;
+  logFoundItem: (input: FoundItemInput) => LostItem;
+  updateDetails: (itemId: string, updates: Partial<Pick<LostItem, 'description' | 'category' | 'storageLocation'>>) => LostItem;
+  matchGuest: (itemId: string, reservationId: string) => LostItem;
+  unmatchGuest: (itemId: string) => LostItem;
+  markClaimed: (itemId: string, claimedBy: string) => LostItem;
+  markShipped: (itemId: string, shipping: ShippingDetails) => LostItem;
+  markDisposed: (itemId: string, method: NonNullable<LostItem['disposalMethod']>) => LostItem;
+  notifyGuest: (itemId: string, templateId: string) => Promise<LostItem>;
+  getCandidateStays: (itemId: string) => Reservation[];
+  getItemsForStay: (reservation: Reservation) => LostItem[];
+}
+
+export const LOST_ITEM_STATUS_LABELS: Record<LostItemStatus, string> = {
+  stored: 'In storage',
+  claimed: 'Collected',
+  shipped: 'Shipped',
+  disposed: 'Disposed',
+};
+
+// Items usually turn up in the departure clean, so stays that ended a few days before still count
+const MATCH_WINDOW_DAYS = 3;
+
+const toDateKey = (value: string) => value.slice(0, 10);
+
+const foundDuring = (item: LostItem, reservation: Reservation) => {
+  const foundDay = format(parseISO(item.foundAt), 'yyyy-MM-dd');
+  const windowEnd = format(addDays(parseISO(toDateKey(reservation.checkOut)), MATCH_WINDOW_DAYS), 'yyyy-MM-dd');
+  return (
+    reservation.roomNumbers.includes(item.roomNumber) &&
+    toDateKey(reservation.checkIn) <= foundDay &&
+    foundDay <= windowEnd
+  );
+};
+
+export const useLostFoundStore = create<LostFoundState>()(
+  persist(
+    (set, get) => {
+      const getItem = (id: string) => {
+        const item = get().items.find((entry) => entry.id === id);
+        if (!item) {
+          throw new Error('Lost and found item not found');
+        }
+        return item;
+      };
+
+      const currentUser = () => useAuthStore.getState().user?.name ?? 'System';
+
+      // Local state is the source of truth; the backend copy is best effort like work orders
+      const save = (item: LostItem) => {
+        set((state) => ({
+          items: state.items.some((entry) => entry.id === item.id)
+            ? state.items.map((entry) => (entry.id === item.id ? item : entry))
+            : [item, ...state.items],
+        }));
+        lostFoundApi.saveItem(item).catch((error) => {
+          console.error('Failed to save lost and found item:', error);
+        });
+        return item;
+      };
+
+      // Every change is kept in the item history for the register
+      const update = (id: string, updates: Partial<LostItem>, action: string) => {
+        const now = new Date().toISOString();
+        const current = getItem(id);
+        return save({
+          ...current,
+          ...updates,
+          history: [...current.history, { id: nanoid(8), action, by: currentUser(), at: now }],
+          updatedAt: now,
+        });
+      };
+
+      const requireStored = (item: LostItem) => {
+        if (item.status !== 'stored') {
+          throw new Error(`${item.number} is already ${LOST_ITEM_STATUS_LABELS[item.status].toLowerCase()}`);
+        }
+      };
+
+      const nextNumber = () => {
+        const highest = get().items.reduce((max, item) => Math.max(max, Number(item.number.replace(/\D/g, '')) || 0), 0);
+        return `LF-${String(highest + 1).padStart(4, '0')}`;
+      };
+
+      return {
+        items: [],
+        error: null,
+
+        hydrateFromBackend: async () => {
+          try {
+            const remote = await lostFoundApi.fetchItems();
+            set((state) => {
+              const merged = new Map(state.items.map((item) => [item.id, item]));
+              remote.forEach((item) => {
+                const local = merged.get(item.id);
+                if (!local || item.updatedAt > local.updatedAt) {
+                  merged.set(item.id, item);
+                }
+              });
+              return { items: Array.from(merged.values()), error: null };
+            });
+          } catch (error) {
+            set({ error: error instanceof Error ? error.message : 'Failed to load lost and found items' });
+            throw error;
+          }
+        },
+
+        logFoundItem: (input) => {
+          if (!input.description.trim()) {
+            throw new Error('Describe the item');
+          }
+          const room = usePropertyStore.getState().rooms.find((entry) => entry.id === input.roomId);
+          if (!room) {
+            throw new Error('Room not found');
+          }
+          const now = new Date().toISOString();
+          const foundBy = currentUser();
+          return save({
+            ...input,
+            id: nanoid(12),
+            number: nextNumber(),
+            description: input.description.trim(),
+            storageLocation: input.storageLocation?.trim() || undefined,
+            roomId: room.id,
+            roomNumber: room.roomNumber,
+            foundAt: now,
+            foundBy,
+            status: 'stored',
+            history: [{ id: nanoid(8), action: `Found in room ${room.roomNumber}`, by: foundBy, at: now }],
+            createdAt: now,
+            updatedAt: now,
+          });
+        },
+
+        updateDetails: (itemId, updates) => {
+          if (updates.description !== undefined && !updates.description.trim()) {
+            throw new Error('Describe the item');
+          }
+          return update(itemId, updates, 'Details updated');
+        },
+
+        matchGuest: (itemId, reservationId) => {
+          requireStored(getItem(itemId));
+          const reservation = useReservationStore.getState().reservations.find((entry) => entry.id === reservationId);
+          if (!reservation) {
+            throw new Error('Reservation not found');
+          }
+          const guestName = `${reservation.guest.firstName} ${reservation.guest.lastName}`.trim();
+          return update(
+            itemId,
+            {
+              guestId: reservation.guest.id,
+              guestName,
+              guestPhone: reservation.guest.phone,
+              reservationId: reservation.id,
+            },
+            `Matched to ${guestName} (${reservation.confirmationNumber})`
+          );
+        },
+
+        unmatchGuest: (itemId) => {
+          const item = getItem(itemId);
+          requireStored(item);
+          return update(
+            itemId,
+            { guestId: undefined, guestName: undefined, guestPhone: undefined, reservationId: undefined },
+            `Unlinked from ${item.guestName ?? 'guest'}`
+          );
+        },
+
+        markClaimed: (itemId, claimedBy) => {
+          requireStored(getItem(itemId));
+          if (!claimedBy.trim()) {
+            throw new Error('Record who collected the item');
+          }
+          return update(itemId, { status: 'claimed', claimedBy: claimedBy.trim() }, `Collected by ${claimedBy.trim()}`);
+        },
+
+        markShipped: (itemId, shipping) => {
+          const item = getItem(itemId);
+          requireStored(item);
+          if (!item.guestId) {
+            throw new Error('Match the item to a guest before shipping it');
+          }
+          if (!shipping.shippingCarrier.trim() || !shipping.shippingAddress.trim()) {
+            throw new Error('Carrier and address are required to ship an item');
+          }
+          return update(
+            itemId,
+            { ...shipping, status: 'shipped' },
+            `Shipped via ${shipping.shippingCarrier}${shipping.trackingNumber ? ` (${shipping.trackingNumber})` : ''}`
+          );
+        },
+
+        markDisposed: (itemId, method) => {
+          requireStored(getItem(itemId));
+          return update(itemId, { status: 'disposed', disposalMethod: method }, `Disposed: ${method.replace(/-/g, ' ')}`);
+        },
+
+        notifyGuest: async (itemId, templateId) => {
+          const item = getItem(itemId);
+          if (!item.guestId || !item.guestPhone) {
+            throw new Error('Match the item to a guest with a phone number first');
+          }
+          const hotelName = usePropertyStore.getState().hotelProfile?.name || 'NexusNext';
+          await whatsappApi.sendMessage({
+            templateId,
+            recipientPhone: item.guestPhone,
+            recipientName: item.guestName,
+            parameters: {
+              guest_name: item.guestName ?? '',
+              item: item.description,
+              reference: item.number,
+              status: LOST_ITEM_STATUS_LABELS[item.status],
+              tracking: item.trackingNumber ?? '',
+              hotel_name: hotelName,
+            },
+            relatedEntityType: 'GUEST',
+            relatedEntityId: item.guestId,
+          });
+
+          await useTransactionLogStore.getState().logTransaction({
+            eventType: 'WHATSAPP_SENT',
+            entityType: 'GUEST',
+            entityId: item.guestId,
+            description: `Lost and found update for ${item.number} sent to ${item.guestName}`,
+            metadata: { itemNumber: item.number, status: item.status, templateId },
+          });
+          return update(itemId, { lastNotifiedAt: new Date().toISOString() }, 'Guest notified on WhatsApp');
+        },
+
+        getCandidateStays: (itemId) => {
+          const item = getItem(itemId);
+          return useReservationStore
+            .getState()
+            .reservations.filter(
+              (reservation) =>
+                (reservation.status === 'checked-in' || reservation.status === 'checked-out') && foundDuring(item, reservation)
+            )
+            .sort((a, b) => b.checkOut.localeCompare(a.checkOut));
+        },
+
+        // Items already matched to the stay plus unmatched ones found in its room around the same time
+        getItemsForStay: (reservation) =>
+          get().items.filter(
+            (item) =>
+              item.reservationId === reservation.id ||
+              (!item.reservationId && item.status === 'stored' && foundDuring(item, reservation))
+          ),
+      };
+    },
+    {
+      name: 'lost-found-storage',
+      // Photos attached before uploads existed are data URLs that would fill the storage quota; the server keeps them
+      partialize: (state) => ({
+        items: state.items.map((item) => (item.photo?.startsWith('data:') ? { ...item, photo: undefined } : item)),
+      }),
+    }
+  )
+);
@@ -0,0 +1,357 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import { eachDayOfInterval, format, parseISO, subDays } from 'date-fns';
+import type { RoomStatus, User, WorkOrder, WorkOrderStatus } from '../types';
+import { maintenanceApi } from '../services/maintenanceApi';
+import { isNetworkError } from '../lib/offlineQueue';
+import { usePropertyStore } from './propertyStore';
+import { useAccessControlStore } from './accessControlStore';
+import { useAuthStore } from './authStore';
+import { useTransactionLogStore } from './transactionLogStore';
+import { registerSyncHandler, useSyncStore } from './syncStore';
+
+export type WorkOrderInput = Pick<
+  WorkOrder,
+  'roomId' | 'title' | 'description' | 'category' | 'priority' | 'outOfOrder' | 'startDate' | 'expectedReturnDate' | 'assignedTo'
+> & {
+  photos?: string[];
+};
+
+interface MaintenanceState {
+  workOrders: WorkOrder[];
+  error: string | null;
+
+  initialize: () => () => void;
+  hydrateFromBackend: () => Promise<void>;
+  createWorkOrder: (input: WorkOrderInput) => Promise<WorkOrder>;
+  updateWorkOrder: (id: string, updates: Partial<WorkOrderInput>) => Promise<WorkOrder>;
+  setStatus: (id: string, status: Exclude<WorkOrderStatus, 'closed'>) => WorkOrder;
+  addNote: (id: string, text: string) => WorkOrder;
+  addPhoto: (id: string, photo: string) => WorkOrder;
+  removePhoto: (id: string, index: number) => WorkOrder;
+  closeWorkOrder: (id: string, resolution: string) => Promise<WorkOrder>;
+  applyRoomStatuses: (date?: string) => Promise<void>;
+  getOutOfOrderOrders: (roomId: string, checkIn: string, checkOut: string) => WorkOrder[];
+  getBlockedRooms: (roomTypeId: string, checkIn: string, checkOut: string) => number;
+  getAssignees: () => User[];
+}
+
+const CHECK_INTERVAL_MS = 60000;
+export const MAX_WORK_ORDER_PHOTOS = 5;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const toDateKey = (value: string) => value.slice(0, 10);
+
+const formatError = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Saves reach the server in the order they were made, so an older copy of an order never lands last
+let pushQueue: Promise<void> = Promise.resolve();
+
+const isActive = (order: WorkOrder) => order.status !== 'closed';
+
+// Nights the order keeps the room out of inventory; an open order without a return date blocks indefinitely
+const coversNight = (order: WorkOrder, date: string) =>
+  order.outOfOrder && isActive(order) && order.startDate <= date && (!order.expectedReturnDate || date < order.expectedReturnDate);
+
+const stayNights = (checkIn: string, checkOut: string): string[] => {
+  const start = parseISO(toDateKey(checkIn));
+  const end = subDays(parseISO(toDateKey(checkOut)), 1);
+  if (end < start) {
+    return [];
+  }
+  return eachDayOfInterval({ start, end }).map((day) => format(day, 'yyyy-MM-dd'));
+};
+
+const validateWorkOrder = (order: WorkOrderInput) => {
+  if (!order.title.trim()) {
+    throw new Error('Describe the issue in the title');
+  }
+  if (!order.startDate) {
+    throw new Error('Start date is required');
+  }
+  if (order.outOfOrder && !order.expectedReturnDate) {
+    throw new Error('Out-of-order rooms need an expected return date');
+  }
+  if (order.expectedReturnDate && order.expectedReturnDate <= order.startDate) {
+    throw new Error('Expected return date must be after the start date');
+  }
+  if ((order.photos?.length ?? 0) > MAX_WORK_ORDER_PHOTOS) {
+    throw new Error(`Attach up to ${MAX_WORK_ORDER_PHOTOS} photos`);
+  }
+};
+
+export const useMaintenanceStore = create<MaintenanceState>()(
+  persist(
+    (set, get) => {
+      const getOrder = (id: string) => {
+        const order = get().workOrders.find((item) => item.id === id);
+        if (!order) {
+          throw new Error('Work order not found');
+        }
+        return order;
+      };
+
+      // Sends the order to the backend, or queues it for replay while the backend is unreachable
+      const push = (order: WorkOrder) => {
+        pushQueue = pushQueue
+          .then(async () => {
+            const sync = useSyncStore.getState();
+            if (!sync.shouldQueue()) {
+              try {
+                await maintenanceApi.saveWorkOrder(order);
+                return;
+              } catch (error) {
+                if (!isNetworkError(error)) {
+                  throw error;
+                }
+              }
+            }
+            await sync.enqueue({ kind: 'maintenance.save', entityId: order.id, payload: order, label: `Work order ${order.number}` });
+          })
+          .catch((error) => {
+            console.error('Failed to save work order:', error);
+            set({ error: formatError(error, `${order.number} was not saved on the server`) });
+          });
+      };
+
+      const save = (order: WorkOrder) => {
+        set((state) => ({
+          workOrders: state.workOrders.some((item) => item.id === order.id)
+            ? state.workOrders.map((item) => (item.id === order.id ? order : item))
+            : [order, ...state.workOrders],
+        }));
+        push(order);
+        return order;
+      };
+
+      registerSyncHandler('maintenance.save', async (mutation) => {
+        await maintenanceApi.saveWorkOrder(mutation.payload as WorkOrder);
+        return {};
+      });
+
+      const update = (id: string, updates: Partial<WorkOrder>) =>
+        save({ ...getOrder(id), ...updates, updatedAt: new Date().toISOString() });
+
+      const currentUser = () => useAuthStore.getState().user?.name ?? 'System';
+
+      const resolveAssignee = (userId: string | undefined) => {
+        if (!userId) {
+          return { assignedTo: undefined, assignedToName: undefined };
+        }
+        const user = get().getAssignees().find((item) => item.id === userId);
+        if (!user) {
+          throw new Error('Assignee not found');
+        }
+        return { assignedTo: user.id, assignedToName: user.name };
+      };
+
+      const setRoomStatus = async (roomId: string, status: RoomStatus, reason: string) => {
+        const room = usePropertyStore.getState().rooms.find((item) => item.id === roomId);
+        if (!room || room.status === status) {
+          return;
+        }
+        try {
+          await usePropertyStore.getState().updateRoomStatus(roomId, status);
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update room status' });
+          throw error;
+        }
+        await useTransactionLogStore.getState().logTransaction({
+          eventType: 'ROOM_STATUS_CHANGED',
+          entityType: 'ROOM',
+          entityId: roomId,
+          description: `Room ${room.roomNumber} marked as ${status}: ${reason}`,
+          metadata: { roomNumber: room.roomNumber },
+          previousState: { status: room.status },
+          newState: { status },
+        });
+      };
+
+      return {
+        workOrders: [],
+        error: null,
+
+        // Takes rooms out of order as scheduled work orders reach their start date
+        initialize: () => {
+          get().hydrateFromBackend().catch(() => undefined);
+          const check = () => {
+            get().applyRoomStatuses().catch(() => undefined);
+          };
+          const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+          check();
+          return () => window.clearInterval(timer);
+        },
+
+        hydrateFromBackend: async () => {
+          try {
+            const remote = await maintenanceApi.fetchWorkOrders();
+            // Changes still waiting in the offline queue keep their local copy
+            const pending = new Set(useSyncStore.getState().pendingEntityIds);
+            set((state) => {
+              const merged = new Map(state.workOrders.map((order) => [order.id, order]));
+              remote.forEach((order) => {
+                const local = merged.get(order.id);
+                if (!local || (!pending.has(order.id) && order.updatedAt > local.updatedAt)) {
+                  merged.set(order.id, order);
+                }
+              });
+              return { workOrders: Array.from(merged.values()), error: null };
+            });
+          } catch (error) {
+            set({ error: formatError(error, 'Failed to load work orders') });
+            throw error;
+          }
+        },
+
+        createWorkOrder: async (input) => {
+          validateWorkOrder(input);
+          const room = usePropertyStore.getState().rooms.find((item) => item.id === input.roomId);
+          if (!room) {
+            throw new Error('Room not found');
+          }
+          const now = new Date().toISOString();
+          let order: WorkOrder;
+          try {
+            order = await maintenanceApi.createWorkOrder({
+              ...input,
+              ...resolveAssignee(input.assignedTo),
+              id: nanoid(12),
+              roomNumber: room.roomNumber,
+              title: input.title.trim(),
+              description: input.description?.trim() || undefined,
+              status: 'open',
+              photos: input.photos ?? [],
+              notes: [],
+              reportedBy: currentUser(),
+              createdAt: now,
+              updatedAt: now,
+            });
+          } catch (error) {
+            if (isNetworkError(error)) {
+              throw new Error('Work orders are numbered by the server; reconnect before reporting one', { cause: error });
+            }
+            throw error;
+          }
+          set((state) => ({ workOrders: [order, ...state.workOrders.filter((item) => item.id !== order.id)] }));
+          await get().applyRoomStatuses();
+          return order;
+        },
+
+        updateWorkOrder: async (id, updates) => {
+          const current = getOrder(id);
+          if (current.status === 'closed') {
+            throw new Error(`${current.number} is closed`);
+          }
+          const merged = { ...current, ...updates };
+          validateWorkOrder(merged);
+          const order = update(id, {
+            ...updates,
+            ...('assignedTo' in updates ? resolveAssignee(updates.assignedTo) : {}),
+          });
+          await get().applyRoomStatuses();
+          return order;
+        },
+
+        setStatus: (id, status) => {
+          const order = getOrder(id);
+          if (order.status === 'closed') {
+            throw new Error(`${order.number} is closed`);
+          }
+          return update(id, { status });
+        },
+
+        addNote: (id, text) => {
+          if (!text.trim()) {
+            throw new Error('Note cannot be empty');
+          }
+          const note = { id: nanoid(8), text: text.trim(), author: currentUser(), createdAt: new Date().toISOString() };
+          return update(id, { notes: [...getOrder(id).notes, note] });
+        },
+
+        addPhoto: (id, photo) => {
+          const order = getOrder(id);
+          if (order.photos.length >= MAX_WORK_ORDER_PHOTOS) {
+            throw new Error(`Attach up to ${MAX_WORK_ORDER_PHOTOS} photos`);
+          }
+          return update(id, { photos: [...order.photos, photo] });
+        },
+
+        removePhoto: (id, index) =>
+          update(id, { photos: getOrder(id).photos.filter((_, photoIndex) => photoIndex !== index) }),
+
+        // The room goes back to inventory once no other order holds it, via housekeeping for a clean after the works
+        closeWorkOrder: async (id, resolution) => {
+          const current = getOrder(id);
+          if (current.status === 'closed') {
+            throw new Error(`${current.number} is already closed`);
+          }
+          const order = update(id, {
+            status: 'closed',
+            resolution: resolution.trim() || undefined,
+            closedAt: new Date().toISOString(),
+            closedBy: currentUser(),
+          });
+
+          const room = usePropertyStore.getState().rooms.find((item) => item.id === order.roomId);
+          if (!room || (room.status !== 'oos' && room.status !== 'maintenance')) {
+            return order;
+          }
+          const date = today();
+          if (get().workOrders.some((item) => item.roomId === order.roomId && coversNight(item, date))) {
+            return order;
+          }
+          await setRoomStatus(order.roomId, 'dirty', `${order.number} closed`);
+          return order;
+        },
+
+        // Orders that do not take the room out of order leave it sellable; occupied rooms wait for the guest to leave
+        applyRoomStatuses: async (date = today()) => {
+          const { rooms } = usePropertyStore.getState();
+          for (const room of rooms) {
+            if (room.status === 'occupied' || room.status === 'oos') continue;
+            const order = get().workOrders.find((item) => item.roomId === room.id && coversNight(item, date));
+            if (order) {
+              await setRoomStatus(room.id, 'oos', `${order.number} ${order.title}`);
+            }
+          }
+        },
+
+        getOutOfOrderOrders: (roomId, checkIn, checkOut) => {
+          const nights = stayNights(checkIn, checkOut);
+          return get().workOrders.filter(
+            (order) => order.roomId === roomId && nights.some((night) => coversNight(order, night))
+          );
+        },
+
+        getBlockedRooms: (roomTypeId, checkIn, checkOut) => {
+          const roomIds = new Set(
+            usePropertyStore
+              .getState()
+              .rooms.filter((room) => room.roomTypeId === roomTypeId && room.isActive)
+              .map((room) => room.id)
+          );
+          const orders = get().workOrders.filter((order) => roomIds.has(order.roomId));
+
+          return stayNights(checkIn, checkOut).reduce((max, night) => {
+            const blocked = new Set(orders.filter((order) => coversNight(order, night)).map((order) => order.roomId));
+            return Math.max(max, blocked.size);
+          }, 0);
+        },
+
+        getAssignees: () => useAccessControlStore.getState().users.filter((user) => user.role !== 'guest'),
+      };
+    },
+    {
+      name: 'maintenance-storage',
+      // Photos attached before uploads existed are data URLs that would fill the storage quota; the server keeps them
+      partialize: (state) => ({
+        workOrders: state.workOrders.map((order) => ({
+          ...order,
+          photos: order.photos.filter((photo) => !photo.startsWith('data:')),
+        })),
+      }),
+    }
+  )
+);
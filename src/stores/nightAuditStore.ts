@@ -1,5 +1,8 @@
 import { create } from 'zustand';
+import { format, subHours } from 'date-fns';
 import { nightAuditApi, type NightAuditResponse } from '../services/nightAuditApi';
+import { usePOSShiftStore } from './posShiftStore';
+import { useReservationStore } from './reservationStore';
 
 type NightAuditStore = {
   audits: NightAuditResponse[];
@@ -18,6 +21,27 @@ type NightAuditStore = {
   resetError: () => void;
 };
 
+// Audits run in the small hours still close the previous day
+const AUDIT_DAY_CUTOFF_HOURS = 6;
+
+export const getClosingBusinessDate = () => format(subHours(new Date(), AUDIT_DAY_CUTOFF_HOURS), 'yyyy-MM-dd');
+
+/**
+ * Charges the no-show fee on arrivals that never checked in; the fee lives on local folios,
+ * so this runs before the server's PROCESS_NO_SHOWS step rolls the date. Every arrival is tried,
+ * and any that failed hold the audit back so their fee is not lost with the old business date
+ */
+export const processAuditNoShows = async (businessDate?: string) => {
+  const run = await useReservationStore
+    .getState()
+    .processNoShows(businessDate ?? getClosingBusinessDate(), 'Night Audit');
+  if (run.failures.length) {
+    const failed = run.failures.map(({ reservation, error }) => `${reservation.confirmationNumber} (${error})`);
+    throw new Error(`No-shows could not be processed for ${failed.join('; ')}. Resolve them and run the audit again.`);
+  }
+  return run.processed;
+};
+
 export const useNightAuditStore = create<NightAuditStore>((set) => ({
   audits: [],
   currentAudit: null,
@@ -79,6 +103,12 @@ export const useNightAuditStore = create<NightAuditStore>((set) => ({
   startAudit: async (businessDate?: string) => {
     set({ isLoading: true, error: null });
     try {
+      // Cashier takings must be counted before the business date rolls over
+      const blocker = await usePOSShiftStore.getState().getAuditBlocker();
+      if (blocker) {
+        throw new Error(blocker);
+      }
+      await processAuditNoShows(businessDate);
       const audit = await nightAuditApi.startAudit({ businessDate });
       set({ 
         currentAudit: audit, 
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { otaApi, type OTAChannelResponse, type OTASyncLogResponse, type OTAReservationImportResponse, type CreateOTAChannelRequest, type UpdateOTAChannelRequest, type SyncRequest } from '../services/otaApi';
+import { useRateCalendarStore } from './rateCalendarStore';
+import { useReservationStore } from './reservationStore';
 
 type OTAStore = {
   channels: OTAChannelResponse[];
@@ -23,7 +25,7 @@ type OTAStore = {
   resetError: () => void;
 };
 
-export const useOTAStore = create<OTAStore>((set) => ({
+export const useOTAStore = create<OTAStore>((set, get) => ({
   channels: [],
   currentChannel: null,
   syncLogs: [],
@@ -132,7 +134,13 @@ export const useOTAStore = create<OTAStore>((set) => ({
   syncRates: async (id: string, dateRange: SyncRequest) => {
     set({ isLoading: true, error: null });
     try {
-      const syncLog = await otaApi.syncRates(id, dateRange);
+      const channel = get().channels.find((entry) => entry.id === id);
+      const rates = channel
+        ? useRateCalendarStore
+            .getState()
+            .buildChannelRates(channel.mappings, useReservationStore.getState().ratePlans, dateRange.from, dateRange.to)
+        : undefined;
+      const syncLog = await otaApi.syncRates(id, { ...dateRange, rates });
       set((state) => ({
         syncLogs: [syncLog, ...state.syncLogs],
         isLoading: false
@@ -0,0 +1,329 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import { addMinutes, isAfter, parseISO } from 'date-fns';
+import type { PaymentGatewaySettings, PaymentIntent, PaymentIntentMethod, PaymentRefund, PaymentTarget } from '../types';
+import { getPaymentProvider, type ProviderStatus } from '../services/paymentProviders';
+import { paymentApi } from '../services/paymentApi';
+import { useFolioStore } from './folioStore';
+import { usePOSStore } from './posStore';
+import { usePropertyStore } from './propertyStore';
+import { registerSessionReset, useAuthStore } from './authStore';
+
+export interface PaymentIntentInput {
+  method: PaymentIntentMethod;
+  amount: number;
+  description: string;
+  target: PaymentTarget;
+  captureMode?: PaymentIntent['captureMode'];
+}
+
+interface PaymentState {
+  settings: PaymentGatewaySettings;
+  intents: PaymentIntent[];
+
+  reset: () => void;
+  // Holds and payments started on other terminals, so any terminal can capture or release them
+  hydrateFromBackend: (reservationId?: string) => Promise<void>;
+  updateSettings: (updates: Partial<PaymentGatewaySettings>) => void;
+
+  // Collection
+  createIntent: (input: PaymentIntentInput) => Promise<PaymentIntent>;
+  refreshIntent: (intentId: string) => Promise<PaymentIntent>;
+  captureIntent: (intentId: string, amount?: number) => Promise<PaymentIntent>;
+  cancelIntent: (intentId: string) => Promise<PaymentIntent>;
+  refundIntent: (intentId: string, amount: number, reason: string) => Promise<PaymentRefund>;
+
+  // Queries
+  getReservationIntents: (reservationId: string) => PaymentIntent[];
+  getHolds: (reservationId: string) => PaymentIntent[];
+}
+
+export const PAYMENT_INTENT_STATUS_LABELS: Record<PaymentIntent['status'], string> = {
+  pending: 'Awaiting payment',
+  authorized: 'Card hold',
+  captured: 'Paid',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  refunded: 'Refunded',
+};
+
+const DEFAULT_SETTINGS: PaymentGatewaySettings = {
+  provider: 'gateway',
+  upiVpa: '',
+  payeeName: '',
+  qrExpiryMinutes: 10,
+};
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const isOpen = (intent: PaymentIntent) => intent.status === 'pending' || intent.status === 'authorized';
+
+export const usePaymentStore = create<PaymentState>()(
+  persist(
+    (set, get) => {
+      const getIntent = (intentId: string) => {
+        const intent = get().intents.find((entry) => entry.id === intentId);
+        if (!intent) {
+          throw new Error('Payment not found');
+        }
+        return intent;
+      };
+
+      const providerFor = (intent: Pick<PaymentIntent, 'provider'>) => {
+        const provider = getPaymentProvider(intent.provider);
+        if (!provider) {
+          throw new Error(`No payment provider registered for "${intent.provider}"`);
+        }
+        return provider;
+      };
+
+      const saveIntent = (intentId: string, updates: Partial<PaymentIntent>) => {
+        set((state) => ({
+          intents: state.intents.map((entry) =>
+            entry.id === intentId ? { ...entry, ...updates, updatedAt: new Date().toISOString() } : entry
+          ),
+        }));
+        return getIntent(intentId);
+      };
+
+      // A confirmed payment is written to the folio or POS order once, carrying the gateway's payment id.
+      // The backend posts gateway captures to the folio from the webhook, so a closed tab cannot lose one and
+      // this terminal only pulls the posting; test-mode payments never reach the backend and are posted here.
+      // POS orders live on the terminal that rang them up, so only that terminal records their payment
+      const settle = (intent: PaymentIntent) => {
+        if (intent.postedAt || intent.status !== 'captured' || !(intent.capturedAmount > 0)) {
+          return intent;
+        }
+        const reference = intent.paymentRef ?? intent.providerRef ?? intent.id;
+        const method = intent.method === 'upi' ? 'upi' : 'card';
+        const { target } = intent;
+        if (target.type === 'folio' && intent.provider !== 'mock') {
+          useFolioStore.getState().hydrateFromBackend(target.reservationId).catch(() => undefined);
+          return saveIntent(intent.id, { postedAt: new Date().toISOString() });
+        }
+        if (target.type === 'pos' && !usePOSStore.getState().orders.some((order) => order.id === target.orderId)) {
+          return intent;
+        }
+        if (target.type === 'folio') {
+          useFolioStore.getState().postPayment(
+            target.reservationId,
+            { method, amount: intent.capturedAmount, reference, notes: intent.description },
+            { folioId: target.folioId, source: target.source, postedBy: intent.createdBy }
+          );
+        } else {
+          usePOSStore.getState().recordPayment(target.orderId, {
+            method,
+            amount: intent.capturedAmount,
+            reference,
+            shiftId: target.shiftId,
+          });
+        }
+        return saveIntent(intent.id, { postedAt: new Date().toISOString() });
+      };
+
+      const applyStatus = (intent: PaymentIntent, update: ProviderStatus) =>
+        settle(
+          saveIntent(intent.id, {
+            status: update.status,
+            paymentRef: update.paymentRef ?? intent.paymentRef,
+            capturedAmount:
+              update.status === 'captured' ? round(update.capturedAmount ?? intent.amount) : intent.capturedAmount,
+            failureReason: update.failureReason,
+          })
+        );
+
+      return {
+        settings: DEFAULT_SETTINGS,
+        intents: [],
+
+        // Gateway settings belong to the terminal; only the session's payments are dropped
+        reset: () => set({ intents: [] }),
+
+        hydrateFromBackend: async (reservationId) => {
+          const remote = await paymentApi.fetchIntents(reservationId);
+          set((state) => {
+            const intents = new Map(state.intents.map((intent) => [intent.id, intent]));
+            // A POS capture this terminal already recorded stays recorded
+            remote.forEach((intent) =>
+              intents.set(intent.id, { ...intent, postedAt: intent.postedAt ?? intents.get(intent.id)?.postedAt })
+            );
+            return {
+              intents: Array.from(intents.values()).sort((a, b) => (a.createdAt < b.createdAt ? 1 : a.createdAt > b.createdAt ? -1 : 0)),
+            };
+          });
+          // POS captures confirmed while this terminal was closed are recorded on its orders now
+          remote.forEach((intent) => settle(getIntent(intent.id)));
+        },
+
+        updateSettings: (updates) => {
+          const next = { ...get().settings, ...updates };
+          if (next.provider === 'mock' && !import.meta.env.DEV) {
+            throw new Error('Test mode is only available in development builds');
+          }
+          if (next.upiVpa && !/^[\w.-]+@[\w.-]+$/.test(next.upiVpa.trim())) {
+            throw new Error('Enter the UPI ID as name@bank');
+          }
+          if (!(next.qrExpiryMinutes > 0)) {
+            throw new Error('QR codes need to stay valid for at least a minute');
+          }
+          set({ settings: { ...next, upiVpa: next.upiVpa.trim() } });
+        },
+
+        // UPI is always collected outright; cards may be held for a deposit and captured later
+        createIntent: async (input) => {
+          const { settings } = get();
+          if (!(input.amount > 0)) {
+            throw new Error('Enter an amount above zero');
+          }
+          // Test mode saved by a development build never carries over to a production one
+          const provider = settings.provider === 'mock' && !import.meta.env.DEV ? 'gateway' : settings.provider;
+          const captureMode = input.method === 'card' ? input.captureMode ?? 'auto' : 'auto';
+          const payeeName = settings.payeeName || usePropertyStore.getState().hotelProfile?.name || 'Hotel';
+          if (input.method === 'upi' && provider === 'mock' && !settings.upiVpa) {
+            throw new Error('Set the hotel UPI ID under Property Setup > Payments first');
+          }
+
+          const id = `PAY${nanoid(10)}`;
+          const createdBy = useAuthStore.getState().user?.name ?? 'System';
+          const amount = round(input.amount);
+          const expiresAt =
+            input.method === 'upi' ? addMinutes(new Date(), settings.qrExpiryMinutes).toISOString() : undefined;
+          const created = await providerFor({ provider }).createIntent({
+            intentId: id,
+            method: input.method,
+            captureMode,
+            amount,
+            description: input.description,
+            upi: input.method === 'upi' ? { vpa: settings.upiVpa, payeeName } : undefined,
+            expiresAt,
+            target: input.target,
+            createdBy,
+          });
+
+          const now = new Date().toISOString();
+          const intent: PaymentIntent = {
+            id,
+            provider,
+            providerRef: created.providerRef,
+            method: input.method,
+            captureMode,
+            status: 'pending',
+            amount,
+            capturedAmount: 0,
+            refundedAmount: 0,
+            description: input.description,
+            target: input.target,
+            upiUri: created.upiUri,
+            refunds: [],
+            createdAt: now,
+            updatedAt: now,
+            expiresAt: created.expiresAt ?? expiresAt,
+            createdBy,
+          };
+          set((state) => ({ intents: [intent, ...state.intents] }));
+          return intent;
+        },
+
+        // Polled while the guest pays; a UPI request past its expiry is given up on
+        refreshIntent: async (intentId) => {
+          const intent = getIntent(intentId);
+          if (intent.status !== 'pending') {
+            return intent;
+          }
+          const update = await providerFor(intent).getStatus(intent);
+          if (update.status === 'pending' && intent.expiresAt && isAfter(new Date(), parseISO(intent.expiresAt))) {
+            return saveIntent(intentId, { status: 'expired' });
+          }
+          return applyStatus(getIntent(intentId), update);
+        },
+
+        captureIntent: async (intentId, amount) => {
+          const intent = getIntent(intentId);
+          if (intent.status !== 'authorized') {
+            throw new Error('Only a card hold can be captured');
+          }
+          const value = round(amount ?? intent.amount);
+          if (!(value > 0) || value > intent.amount) {
+            throw new Error(`Capture between ₹1 and the ₹${intent.amount.toFixed(2)} held`);
+          }
+          const update = await providerFor(intent).capture(intent, value);
+          return applyStatus(getIntent(intentId), { ...update, capturedAmount: update.capturedAmount ?? value });
+        },
+
+        // Withdraws a QR or terminal request, or releases a card hold
+        cancelIntent: async (intentId) => {
+          const intent = getIntent(intentId);
+          if (!isOpen(intent)) {
+            throw new Error('This payment is already complete');
+          }
+          const update = await providerFor(intent).cancel(intent);
+          return applyStatus(getIntent(intentId), update);
+        },
+
+        // Money goes back through the gateway; the folio or order is charged back by the same amount
+        refundIntent: async (intentId, amount, reason) => {
+          const intent = getIntent(intentId);
+          const refundable = round(intent.capturedAmount - intent.refundedAmount);
+          if (intent.status !== 'captured' || refundable <= 0) {
+            throw new Error('Nothing left to refund on this payment');
+          }
+          const value = round(amount);
+          if (!(value > 0) || value > refundable) {
+            throw new Error(`Refund up to ₹${refundable.toFixed(2)}`);
+          }
+          if (!reason.trim()) {
+            throw new Error('Enter a reason for the refund');
+          }
+
+          const { refundRef } = await providerFor(intent).refund(intent, value, reason.trim());
+          const refund: PaymentRefund = {
+            id: nanoid(8),
+            amount: value,
+            reason: reason.trim(),
+            providerRef: refundRef,
+            createdAt: new Date().toISOString(),
+            createdBy: useAuthStore.getState().user?.name ?? 'System',
+          };
+          const { target } = intent;
+          if (target.type === 'folio') {
+            useFolioStore.getState().postAdjustment(target.reservationId, value, `Refund - ${refund.reason}`, {
+              folioId: target.folioId,
+              source: target.source,
+              sourceRef: refundRef,
+              postedBy: refund.createdBy,
+            });
+          } else {
+            usePOSStore.getState().recordPayment(target.orderId, {
+              method: intent.method === 'upi' ? 'upi' : 'card',
+              amount: -value,
+              reference: refundRef,
+              shiftId: target.shiftId,
+            });
+          }
+          const refundedAmount = round(intent.refundedAmount + value);
+          saveIntent(intentId, {
+            refunds: [...intent.refunds, refund],
+            refundedAmount,
+            status: refundedAmount >= intent.capturedAmount ? 'refunded' : intent.status,
+          });
+          return refund;
+        },
+
+        getReservationIntents: (reservationId) =>
+          get().intents.filter((intent) => intent.target.type === 'folio' && intent.target.reservationId === reservationId),
+
+        getHolds: (reservationId) =>
+          get()
+            .getReservationIntents(reservationId)
+            .filter((intent) => intent.status === 'authorized'),
+      };
+    },
+    {
+      name: 'payment-gateway-storage',
+    }
+  )
+);
+
+registerSessionReset(() => usePaymentStore.getState().reset());
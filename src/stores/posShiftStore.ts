@@ -0,0 +1,282 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import type { POSCashMovement, POSMenuCategory, POSShift, POSShiftReport, PaymentMethod } from '../types';
+import { calculatePosBill } from '../utils/receipts';
+import { posApi } from '../services/posApi';
+import { isNetworkError } from '../lib/offlineQueue';
+import { outletIdOf, usePOSStore } from './posStore';
+import { useAuthStore } from './authStore';
+import { registerSyncHandler, useSyncStore } from './syncStore';
+
+interface POSShiftState {
+  shifts: POSShift[];
+  error: string | null;
+
+  hydrateFromBackend: () => Promise<void>;
+
+  openShift: (openingFloat: number) => POSShift;
+  addCashMovement: (shiftId: string, movement: Pick<POSCashMovement, 'type' | 'amount' | 'reason'>) => POSCashMovement;
+  closeShift: (shiftId: string, countedCash: number, notes?: string) => POSShift;
+  getCurrentShift: () => POSShift | undefined;
+  getOpenShifts: () => POSShift[];
+  getXReport: (shiftId: string) => POSShiftReport;
+  // Asks the server, so drawers left open on other terminals also hold up the night audit
+  getAuditBlocker: () => Promise<string | null>;
+}
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const formatError = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Saves reach the server in the order they were made, so a closed drawer is never reopened by an older copy
+let pushQueue: Promise<void> = Promise.resolve();
+
+const add = <K extends string>(totals: Partial<Record<K, number>>, key: K, amount: number) => {
+  totals[key] = (totals[key] ?? 0) + amount;
+};
+
+const roundAll = <T extends Partial<Record<string, number>>>(totals: T): T =>
+  Object.fromEntries(Object.entries(totals).map(([key, value]) => [key, round(value ?? 0)])) as T;
+
+// Sales are counted from the payments taken in the shift; an order paid across shifts is split by what each collected
+const buildReport = (shift: POSShift, kind: POSShiftReport['kind'], countedCash?: number): POSShiftReport => {
+  const pos = usePOSStore.getState();
+  const byMethod: Partial<Record<PaymentMethod, number>> = {};
+  const byOutlet: Record<string, number> = {};
+  const byCategory: Partial<Record<POSMenuCategory, number>> = {};
+  let orderCount = 0;
+  let itemSales = 0;
+  let serviceCharge = 0;
+  let tax = 0;
+  let collected = 0;
+
+  pos.orders.forEach((order) => {
+    const taken = order.payments.filter((payment) => payment.shiftId === shift.id);
+    if (!taken.length) {
+      return;
+    }
+    const outlet = pos.getOutlet(outletIdOf(order));
+    const bill = calculatePosBill(order, outlet);
+    const amount = taken.reduce((sum, payment) => sum + payment.amount, 0);
+    const share = amount / Math.max(bill.grand, bill.payments, amount);
+
+    orderCount += 1;
+    collected += amount;
+    itemSales += bill.items * share;
+    serviceCharge += bill.service * share;
+    tax += bill.tax * share;
+    taken.forEach((payment) => add(byMethod, payment.method, payment.amount));
+    add(byOutlet, outlet.name, amount);
+    order.items.forEach((line) => {
+      const category = pos.menu.find((item) => item.id === line.itemId)?.category ?? 'other';
+      add(byCategory, category, line.quantity * line.unitPrice * share);
+    });
+  });
+
+  const cashIn = shift.cashMovements.filter((entry) => entry.type === 'cash-in').reduce((sum, entry) => sum + entry.amount, 0);
+  const cashOut = shift.cashMovements.filter((entry) => entry.type === 'cash-out').reduce((sum, entry) => sum + entry.amount, 0);
+  const cashSales = byMethod.cash ?? 0;
+  const expectedCash = round(shift.openingFloat + cashSales + cashIn - cashOut);
+
+  return {
+    kind,
+    generatedAt: new Date().toISOString(),
+    orderCount,
+    itemSales: round(itemSales),
+    serviceCharge: round(serviceCharge),
+    tax: round(tax),
+    collected: round(collected),
+    byMethod: roundAll(byMethod),
+    byOutlet: roundAll(byOutlet),
+    byCategory: roundAll(byCategory),
+    openingFloat: shift.openingFloat,
+    cashIn: round(cashIn),
+    cashOut: round(cashOut),
+    cashSales: round(cashSales),
+    expectedCash,
+    countedCash,
+    variance: countedCash === undefined ? undefined : round(countedCash - expectedCash),
+  };
+};
+
+export const usePOSShiftStore = create<POSShiftState>()(
+  persist(
+    (set, get) => {
+      const getShift = (shiftId: string) => {
+        const shift = get().shifts.find((entry) => entry.id === shiftId);
+        if (!shift) {
+          throw new Error('Shift not found');
+        }
+        return shift;
+      };
+
+      const requireOpen = (shift: POSShift) => {
+        if (shift.status !== 'open') {
+          throw new Error('This shift is already closed');
+        }
+      };
+
+      // Sends the shift to the backend, or queues it for replay while the backend is unreachable
+      const push = (shift: POSShift) => {
+        pushQueue = pushQueue
+          .then(async () => {
+            const sync = useSyncStore.getState();
+            if (!sync.shouldQueue()) {
+              try {
+                await posApi.saveShift(shift);
+                return;
+              } catch (error) {
+                if (!isNetworkError(error)) {
+                  throw error;
+                }
+              }
+            }
+            await sync.enqueue({ kind: 'pos.shift-save', entityId: shift.id, payload: shift, label: `POS shift of ${shift.userName}` });
+          })
+          .catch((error) => {
+            console.error('Failed to save POS shift:', error);
+            set({ error: formatError(error, `The POS shift of ${shift.userName} was not saved on the server`) });
+          });
+      };
+
+      const save = (shift: POSShift) => {
+        set((state) => ({
+          shifts: state.shifts.some((item) => item.id === shift.id)
+            ? state.shifts.map((item) => (item.id === shift.id ? shift : item))
+            : [shift, ...state.shifts],
+        }));
+        push(shift);
+        return shift;
+      };
+
+      registerSyncHandler('pos.shift-save', async (mutation) => {
+        await posApi.saveShift(mutation.payload as POSShift);
+        return {};
+      });
+
+      // A drawer closed here stays closed even if the server has not heard about it yet, and changes still
+      // waiting in the offline queue keep their local copy
+      const mergeShifts = (remote: POSShift[]) => {
+        const pending = new Set(useSyncStore.getState().pendingEntityIds);
+        set((state) => {
+          const merged = new Map(state.shifts.map((shift) => [shift.id, shift]));
+          remote.forEach((shift) => {
+            if (merged.get(shift.id)?.status !== 'closed' && !pending.has(shift.id)) {
+              merged.set(shift.id, shift);
+            }
+          });
+          return {
+            shifts: Array.from(merged.values()).sort((a, b) => b.openedAt.localeCompare(a.openedAt)),
+            error: null,
+          };
+        });
+      };
+
+      return {
+        shifts: [],
+        error: null,
+
+        hydrateFromBackend: async () => {
+          try {
+            mergeShifts(await posApi.fetchShifts());
+          } catch (error) {
+            set({ error: formatError(error, 'Failed to load POS shifts') });
+            throw error;
+          }
+        },
+
+        // One drawer per cashier; the shift is tagged with the login shift they signed in for
+        openShift: (openingFloat) => {
+          const { user, session } = useAuthStore.getState();
+          if (!user) {
+            throw new Error('Sign in to open a shift');
+          }
+          if (openingFloat < 0) {
+            throw new Error('Opening float cannot be negative');
+          }
+          if (get().getCurrentShift()) {
+            throw new Error('You already have an open shift');
+          }
+          const shift: POSShift = {
+            id: `SHF${nanoid(6)}`,
+            userId: user.id,
+            userName: user.name,
+            shift: session?.shift ?? user.currentShift ?? 'morning',
+            status: 'open',
+            openedAt: new Date().toISOString(),
+            openingFloat: round(openingFloat),
+            cashMovements: [],
+          };
+          return save(shift);
+        },
+
+        addCashMovement: (shiftId, movement) => {
+          const shift = getShift(shiftId);
+          requireOpen(shift);
+          if (!(movement.amount > 0)) {
+            throw new Error('Enter an amount above zero');
+          }
+          if (!movement.reason.trim()) {
+            throw new Error('Enter a reason for the cash movement');
+          }
+          const entry: POSCashMovement = {
+            ...movement,
+            id: nanoid(8),
+            amount: round(movement.amount),
+            reason: movement.reason.trim(),
+            createdAt: new Date().toISOString(),
+            createdBy: useAuthStore.getState().user?.name ?? 'System',
+          };
+          save({ ...shift, cashMovements: [...shift.cashMovements, entry] });
+          return entry;
+        },
+
+        // Managers can close a cashier's drawer for them, e.g. when it was left open before the night audit
+        closeShift: (shiftId, countedCash, notes) => {
+          const shift = getShift(shiftId);
+          requireOpen(shift);
+          const { user, hasRole } = useAuthStore.getState();
+          if (!user || (user.id !== shift.userId && !hasRole('admin') && !hasRole('manager'))) {
+            throw new Error('Only the cashier or a manager can close this shift');
+          }
+          if (countedCash < 0) {
+            throw new Error('Counted cash cannot be negative');
+          }
+          const closed: POSShift = {
+            ...shift,
+            status: 'closed',
+            closedAt: new Date().toISOString(),
+            closedBy: user.name,
+            closingNotes: notes?.trim() || undefined,
+            zReport: buildReport(shift, 'Z', round(countedCash)),
+          };
+          return save(closed);
+        },
+
+        getCurrentShift: () => {
+          const userId = useAuthStore.getState().user?.id;
+          return get().shifts.find((shift) => shift.status === 'open' && shift.userId === userId);
+        },
+
+        getOpenShifts: () => get().shifts.filter((shift) => shift.status === 'open'),
+
+        getXReport: (shiftId) => buildReport(getShift(shiftId), 'X'),
+
+        // Reconciled against every shift on the server, so a drawer closed on another terminal is closed here too
+        getAuditBlocker: async () => {
+          mergeShifts(await posApi.fetchShifts());
+          const open = get().getOpenShifts();
+          if (!open.length) {
+            return null;
+          }
+          return `Close the open POS shift${open.length > 1 ? 's' : ''} first (${open.map((shift) => shift.userName).join(', ')})`;
+        },
+      };
+    },
+    {
+      name: 'pos-shift-storage',
+      partialize: (state) => ({ shifts: state.shifts }),
+    }
+  )
+);
@@ -3,21 +3,38 @@ import { persist } from 'zustand/middleware';
 import { nanoid } from 'nanoid/non-secure';
 import type {
   POSMenuItem,
+  POSOutlet,
   POSOrder,
   POSOrderLine,
   POSPayment,
   POSTable,
   POSAppliedCharge,
+  POSLineModifier,
+  POSLineSelection,
+  KOTStation,
   KOTTicket,
+  KOTTicketItem,
 } from '../types';
+import { posApi } from '../services/posApi';
 import { useReservationStore } from './reservationStore';
+import { useFolioStore } from './folioStore';
+import { useInventoryStore } from './inventoryStore';
+import { calculatePosBill, posLineName } from '../utils/receipts';
 
 interface POSState {
+  outlets: POSOutlet[];
+  activeOutletId: string;
   menu: POSMenuItem[];
   tables: POSTable[];
   orders: POSOrder[];
   kotTickets: KOTTicket[];
 
+  // Outlets
+  addOutlet: (payload: Omit<POSOutlet, 'id' | 'kotSequence' | 'isActive'>) => POSOutlet;
+  updateOutlet: (outletId: string, updates: Partial<Omit<POSOutlet, 'id' | 'kotSequence'>>) => void;
+  setActiveOutlet: (outletId: string) => void;
+  getOutlet: (outletId?: string) => POSOutlet;
+
   // Menu management
   toggleMenuAvailability: (itemId: string) => void;
   addMenuItem: (payload: Omit<POSMenuItem, 'id'>) => POSMenuItem;
@@ -30,27 +47,93 @@ interface POSState {
   deleteTable: (tableId: string) => void;
   markTableStatus: (tableId: string, status: POSTable['status']) => void;
   detachOrderFromTable: (tableId: string) => void;
+  mergeTables: (tableId: string, intoTableId: string) => void;
+  splitTable: (tableId: string) => void;
+  moveOrderToTable: (orderId: string, tableId: string) => void;
+  assignServer: (tableId: string, server?: { id: string; name: string }) => void;
 
   // Order handling
   startOrder: (tableId?: string) => POSOrder;
-  addItemToOrder: (orderId: string, item: POSMenuItem) => void;
+  addItemToOrder: (orderId: string, item: POSMenuItem, selection?: POSLineSelection) => void;
   updateOrderLine: (orderId: string, lineId: string, updates: Partial<POSOrderLine>) => void;
   adjustQuantity: (orderId: string, lineId: string, delta: number) => void;
+  setCovers: (orderId: string, covers: number) => void;
   removeLine: (orderId: string, lineId: string) => void;
   addCharge: (orderId: string, charge: POSAppliedCharge) => void;
   clearOrder: (orderId: string) => void;
-  postToRoom: (orderId: string, roomNumber: string, guestName?: string) => void;
+  postToRoom: (orderId: string, roomNumber: string, guestName?: string, shiftId?: string) => void;
   closeOrder: (orderId: string) => void;
   recordPayment: (orderId: string, payment: Omit<POSPayment, 'id' | 'createdAt'>) => POSPayment;
 
   // Kitchen operations
   sendOrderToKitchen: (orderId: string) => KOTTicket | undefined;
   updateTicketStatus: (ticketId: string, status: KOTTicket['status']) => void;
+  bumpItem: (ticketId: string, itemIndex: number) => void;
+  bumpStation: (ticketId: string, station?: KOTStation) => void;
+  recallTicket: (ticketId: string, station?: KOTStation) => void;
+  markTicketPrinted: (ticketId: string) => void;
+  // Kitchen screens and POS terminals exchange tickets through the backend, one ticket at a time
+  hydrateTickets: () => Promise<void>;
+  mergeTickets: (tickets: KOTTicket[]) => void;
+  // Polls the backend and listens for other tabs on this device; returns the cleanup
+  watchTickets: () => () => void;
+  markBillPrinted: (orderId: string) => void;
 }
 
+export const DEFAULT_OUTLET_ID = 'OUT001';
+
+/**
+ * Outlet an item, table, order or ticket belongs to; anything saved before outlets existed is the first one
+ */
+export const outletIdOf = (entity: { outletId?: string }) => entity.outletId ?? DEFAULT_OUTLET_ID;
+
+export const DEFAULT_TABLE_SECTION = 'Main Hall';
+
+export const tableSectionOf = (table: POSTable) => table.section ?? DEFAULT_TABLE_SECTION;
+
+const DEFAULT_OUTLETS: POSOutlet[] = [
+  {
+    id: DEFAULT_OUTLET_ID,
+    name: 'Restaurant',
+    kind: 'restaurant',
+    kotPrefix: 'RST',
+    kotSequence: 0,
+    serviceChargePercent: 5,
+    taxPercent: 12,
+    pricesIncludeTax: false,
+    folioCategory: 'restaurant',
+    isActive: true,
+  },
+  {
+    id: 'OUT002',
+    name: 'Bar',
+    kind: 'bar',
+    kotPrefix: 'BAR',
+    kotSequence: 0,
+    serviceChargePercent: 10,
+    taxPercent: 18,
+    pricesIncludeTax: true,
+    folioCategory: 'restaurant',
+    isActive: true,
+  },
+  {
+    id: 'OUT003',
+    name: 'Room Service',
+    kind: 'room-service',
+    kotPrefix: 'IRD',
+    kotSequence: 0,
+    serviceChargePercent: 10,
+    taxPercent: 5,
+    pricesIncludeTax: false,
+    folioCategory: 'restaurant',
+    isActive: true,
+  },
+];
+
 const DEFAULT_MENU: POSMenuItem[] = [
   {
     id: 'MNU001',
+    outletId: DEFAULT_OUTLET_ID,
     name: 'Masala Dosa',
     category: 'food',
     price: 220,
@@ -58,9 +141,23 @@ const DEFAULT_MENU: POSMenuItem[] = [
     isAvailable: true,
     tags: ['south-indian', 'vegetarian'],
     printerRoute: 'main',
+    modifierGroups: [
+      {
+        id: 'MOD001',
+        name: 'Add-ons',
+        minChoices: 0,
+        maxChoices: 2,
+        options: [
+          { id: 'MOD001A', name: 'Extra butter', priceDelta: 30 },
+          { id: 'MOD001B', name: 'Cheese', priceDelta: 50 },
+          { id: 'MOD001C', name: 'Extra sambar', priceDelta: 0 },
+        ],
+      },
+    ],
   },
   {
     id: 'MNU002',
+    outletId: DEFAULT_OUTLET_ID,
     name: 'Paneer Tikka',
     category: 'food',
     price: 320,
@@ -68,58 +165,326 @@ const DEFAULT_MENU: POSMenuItem[] = [
     isAvailable: true,
     tags: ['starter', 'spicy'],
     printerRoute: 'main',
+    modifierGroups: [
+      {
+        id: 'MOD002',
+        name: 'Spice level',
+        minChoices: 1,
+        maxChoices: 1,
+        options: [
+          { id: 'MOD002A', name: 'Mild', priceDelta: 0 },
+          { id: 'MOD002B', name: 'Medium', priceDelta: 0 },
+          { id: 'MOD002C', name: 'Hot', priceDelta: 0 },
+        ],
+      },
+    ],
   },
   {
     id: 'MNU101',
+    outletId: DEFAULT_OUTLET_ID,
     name: 'Fresh Lime Soda',
     category: 'beverage',
     price: 140,
     isAvailable: true,
     tags: ['refreshing'],
     printerRoute: 'bar',
+    variants: [
+      { id: 'VAR101R', name: 'Regular', price: 140 },
+      { id: 'VAR101L', name: 'Large', price: 190 },
+    ],
   },
   {
     id: 'MNU201',
+    outletId: DEFAULT_OUTLET_ID,
     name: 'Gulab Jamun',
     category: 'dessert',
     price: 160,
     isAvailable: true,
     printerRoute: 'dessert',
   },
+  {
+    id: 'MNU501',
+    outletId: DEFAULT_OUTLET_ID,
+    name: 'South Indian Meal',
+    category: 'food',
+    price: 450,
+    description: 'Dosa or paneer tikka with a drink and dessert',
+    isAvailable: true,
+    tags: ['combo'],
+    printerRoute: 'main',
+    comboSlots: [
+      { id: 'CMB501M', name: 'main', itemIds: ['MNU001', 'MNU002'] },
+      { id: 'CMB501D', name: 'drink', itemIds: ['MNU101'] },
+      { id: 'CMB501S', name: 'dessert', itemIds: ['MNU201'] },
+    ],
+  },
+  {
+    id: 'MNU301',
+    outletId: 'OUT002',
+    name: 'Draught Beer',
+    category: 'beverage',
+    price: 350,
+    isAvailable: true,
+    printerRoute: 'bar',
+    variants: [
+      { id: 'VAR301P', name: 'Pint', price: 350 },
+      { id: 'VAR301J', name: 'Pitcher', price: 1200 },
+    ],
+  },
+  {
+    id: 'MNU302',
+    outletId: 'OUT002',
+    name: 'Masala Peanuts',
+    category: 'food',
+    price: 180,
+    isAvailable: true,
+    printerRoute: 'bar',
+  },
+  {
+    id: 'MNU401',
+    outletId: 'OUT003',
+    name: 'Club Sandwich',
+    category: 'food',
+    price: 380,
+    isAvailable: true,
+    tags: ['24x7'],
+    printerRoute: 'main',
+  },
 ];
 
 const DEFAULT_TABLES: POSTable[] = [
-  { id: 'TBL01', label: 'T1', seats: 2, status: 'vacant' },
-  { id: 'TBL02', label: 'T2', seats: 4, status: 'vacant' },
-  { id: 'TBL03', label: 'T3', seats: 4, status: 'reserved' },
-  { id: 'TBL04', label: 'T4', seats: 6, status: 'vacant' },
-  { id: 'TBL05', label: 'Patio 1', seats: 2, status: 'needs-assistance' },
+  { id: 'TBL01', outletId: DEFAULT_OUTLET_ID, label: 'T1', seats: 2, status: 'vacant', section: 'Main Hall', shape: 'round', x: 15, y: 25 },
+  { id: 'TBL02', outletId: DEFAULT_OUTLET_ID, label: 'T2', seats: 4, status: 'vacant', section: 'Main Hall', shape: 'square', x: 40, y: 25 },
+  { id: 'TBL03', outletId: DEFAULT_OUTLET_ID, label: 'T3', seats: 4, status: 'reserved', section: 'Main Hall', shape: 'square', x: 65, y: 25 },
+  { id: 'TBL04', outletId: DEFAULT_OUTLET_ID, label: 'T4', seats: 6, status: 'vacant', section: 'Main Hall', shape: 'rectangle', x: 40, y: 70 },
+  { id: 'TBL05', outletId: DEFAULT_OUTLET_ID, label: 'Patio 1', seats: 2, status: 'needs-assistance', section: 'Patio', shape: 'round', x: 25, y: 40 },
+  { id: 'TBL11', outletId: 'OUT002', label: 'Bar 1', seats: 2, status: 'vacant', section: 'Bar Counter', shape: 'round', x: 25, y: 40 },
+  { id: 'TBL12', outletId: 'OUT002', label: 'Bar 2', seats: 4, status: 'vacant', section: 'Bar Counter', shape: 'square', x: 55, y: 40 },
 ];
 
-const generateLine = (item: POSMenuItem): POSOrderLine => ({
-  id: nanoid(8),
-  itemId: item.id,
-  name: item.name,
-  quantity: 1,
-  unitPrice: item.price,
-  status: 'pending',
+// Prices a line from the chosen size and modifiers, and checks every required choice was made
+const buildLine = (item: POSMenuItem, selection: POSLineSelection, menu: POSMenuItem[]): POSOrderLine => {
+  const variant = item.variants?.find((entry) => entry.id === selection.variantId);
+  if (item.variants?.length && !variant) {
+    throw new Error(`Choose a size for ${item.name}`);
+  }
+
+  const chosen = new Set(selection.modifierOptionIds ?? []);
+  const modifiers = (item.modifierGroups ?? []).flatMap<POSLineModifier>((group) => {
+    const picks = group.options.filter((option) => chosen.has(option.id));
+    if (picks.length < group.minChoices) {
+      throw new Error(`Choose at least ${group.minChoices} for ${group.name}`);
+    }
+    if (picks.length > group.maxChoices) {
+      throw new Error(`Choose at most ${group.maxChoices} for ${group.name}`);
+    }
+    const soldOut = picks.find((option) => option.isAvailable === false);
+    if (soldOut) {
+      throw new Error(`${soldOut.name} is not available`);
+    }
+    return picks.map((option) => ({ groupId: group.id, optionId: option.id, name: option.name, priceDelta: option.priceDelta }));
+  });
+
+  const comboPicks = (item.comboSlots ?? []).map((slot) => {
+    const itemId = selection.comboPicks?.[slot.id] ?? (slot.itemIds.length === 1 ? slot.itemIds[0] : undefined);
+    const pick = menu.find((entry) => entry.id === itemId && slot.itemIds.includes(entry.id));
+    if (!pick) {
+      throw new Error(`Choose the ${slot.name} for ${item.name}`);
+    }
+    if (!pick.isAvailable) {
+      throw new Error(`${pick.name} is sold out`);
+    }
+    return { slotId: slot.id, itemId: pick.id, name: pick.name };
+  });
+
+  return {
+    id: nanoid(8),
+    itemId: item.id,
+    name: item.name,
+    quantity: 1,
+    unitPrice: (variant?.price ?? item.price) + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0),
+    variantId: variant?.id,
+    variantName: variant?.name,
+    modifiers: modifiers.length ? modifiers : undefined,
+    comboPicks: comboPicks.length ? comboPicks : undefined,
+    status: 'pending',
+  };
+};
+
+// Catches option setups that could never be ordered
+const assertMenuOptions = (item: Partial<POSMenuItem>) => {
+  item.modifierGroups?.forEach((group) => {
+    if (group.minChoices > group.maxChoices) {
+      throw new Error(`${group.name || 'A modifier group'} needs a minimum no higher than its maximum`);
+    }
+    if (group.options.length < group.minChoices) {
+      throw new Error(`${group.name || 'A modifier group'} needs at least ${group.minChoices} option(s)`);
+    }
+  });
+  item.comboSlots?.forEach((slot) => {
+    if (!slot.itemIds.length) {
+      throw new Error(`Pick the items offered for the ${slot.name || 'combo'} course`);
+    }
+  });
+};
+
+// Lines only merge when the guest made the same choices
+const choiceKey = (line: POSOrderLine) =>
+  [
+    line.variantId ?? '',
+    ...(line.modifiers ?? []).map((modifier) => modifier.optionId).sort(),
+    ...(line.comboPicks ?? []).map((pick) => pick.itemId),
+  ].join('|');
+
+const menuStation = (menu: POSMenuItem[], itemId: string): KOTStation =>
+  menu.find((item) => item.id === itemId)?.printerRoute ?? 'main';
+
+// A combo is split into its courses so each one is cooked and printed at its own station
+const toTicketItems = (line: POSOrderLine, menu: POSMenuItem[]): KOTTicketItem[] => {
+  const base = {
+    lineId: line.id,
+    quantity: line.quantity,
+    notes: line.notes,
+    modifiers: line.modifiers?.map((modifier) => modifier.name),
+  };
+  if (line.comboPicks?.length) {
+    return line.comboPicks.map((pick) => ({
+      ...base,
+      name: pick.name,
+      comboName: posLineName(line),
+      station: menuStation(menu, pick.itemId),
+    }));
+  }
+  return [{ ...base, name: posLineName(line), station: menuStation(menu, line.itemId) }];
+};
+
+// Frees every table seated with the order, including any joined to it
+const releaseTables = (tables: POSTable[], orderId: string) =>
+  tables.map<POSTable>((table) =>
+    table.activeOrderId === orderId
+      ? { ...table, status: 'vacant', activeOrderId: undefined, mergedInto: undefined }
+      : table
+  );
+
+const ORDER_PROGRESS: POSOrder['status'][] = ['draft', 'sent', 'ready', 'completed', 'posted'];
+
+// A merged order is only as far along as the less advanced of the two
+const lessAdvanced = (a: POSOrder['status'], b: POSOrder['status']) =>
+  ORDER_PROGRESS.indexOf(a) <= ORDER_PROGRESS.indexOf(b) ? a : b;
+
+const ticketStation = (item: KOTTicket['items'][number]): KOTStation => item.station ?? 'main';
+
+// Ticket status follows the items: untouched stays as set, partly bumped is in progress, all bumped is done
+const withDerivedStatus = (ticket: KOTTicket, items: KOTTicket['items'], fallback: KOTTicket['status']): KOTTicket => {
+  const bumped = items.filter((item) => item.bumpedAt).length;
+  const status = bumped === items.length ? 'completed' : bumped > 0 ? 'in-progress' : fallback;
+  const now = new Date().toISOString();
+  return {
+    ...ticket,
+    items,
+    status,
+    startedAt: status === 'queued' ? undefined : ticket.startedAt ?? now,
+    completedAt: status === 'completed' ? ticket.completedAt ?? now : undefined,
+    updatedAt: now,
+  };
+};
+
+// Mirrors the kitchen's progress onto the order lines and marks the order ready once everything is out
+const syncOrderLines = (order: POSOrder, ticket: KOTTicket): POSOrder => {
+  const lineStatus = new Map<string, POSOrderLine['status']>();
+  ticket.items.forEach((item) => {
+    if (item.lineId) {
+      const status = item.bumpedAt ? 'served' : ticket.status === 'queued' ? 'pending' : 'preparing';
+      // A combo line is served only once every course on it is out
+      const previous = lineStatus.get(item.lineId);
+      lineStatus.set(item.lineId, previous && previous !== 'served' ? previous : status);
+    }
+  });
+  if (!lineStatus.size) {
+    return order;
+  }
+  const items = order.items.map((line) => {
+    const status = lineStatus.get(line.id);
+    return status ? { ...line, status } : line;
+  });
+  const kitchenOpen = order.status === 'sent' || order.status === 'ready';
+  return {
+    ...order,
+    items,
+    status: kitchenOpen ? (items.every((line) => line.status === 'served') ? 'ready' : 'sent') : order.status,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+const applyTicket = (state: Pick<POSState, 'kotTickets' | 'orders'>, ticket: KOTTicket) => ({
+  kotTickets: state.kotTickets.map((entry) => (entry.id === ticket.id ? ticket : entry)),
+  orders: state.orders.map((order) => (order.id === ticket.orderId ? syncOrderLines(order, ticket) : order)),
 });
 
-const calculateTotals = (order: POSOrder) => {
-  const itemsTotal = order.items.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
-  const chargesTotal = order.charges.reduce((sum, entry) => sum + entry.amount, 0);
-  const paymentsTotal = order.payments.reduce((sum, entry) => sum + entry.amount, 0);
-  return { itemsTotal, chargesTotal, paymentsTotal };
+const TICKET_SYNC_MS = 5000;
+
+const ticketVersion = (ticket: KOTTicket) => ticket.updatedAt ?? ticket.createdAt;
+
+const pushTicket = (ticket: KOTTicket) => {
+  posApi.saveTicket(ticket).catch((error) => {
+    console.error('Failed to save kitchen ticket:', error);
+  });
 };
 
 export const usePOSStore = create<POSState>()(
   persist(
     (set, get) => ({
+      outlets: DEFAULT_OUTLETS,
+      activeOutletId: DEFAULT_OUTLET_ID,
       menu: DEFAULT_MENU,
       tables: DEFAULT_TABLES,
       orders: [],
       kotTickets: [],
 
+      addOutlet: (payload) => {
+        if (!payload.name.trim()) {
+          throw new Error('Outlet name is required');
+        }
+        const kotPrefix = payload.kotPrefix.trim().toUpperCase();
+        if (!kotPrefix) {
+          throw new Error('KOT prefix is required');
+        }
+        if (get().outlets.some((outlet) => outlet.kotPrefix === kotPrefix)) {
+          throw new Error(`KOT prefix ${kotPrefix} is already used by another outlet`);
+        }
+        const outlet: POSOutlet = {
+          ...payload,
+          id: `OUT${nanoid(6)}`,
+          name: payload.name.trim(),
+          kotPrefix,
+          kotSequence: 0,
+          isActive: true,
+        };
+        set((state) => ({ outlets: [...state.outlets, outlet] }));
+        return outlet;
+      },
+
+      updateOutlet: (outletId, updates) => {
+        const kotPrefix = updates.kotPrefix?.trim().toUpperCase();
+        if (kotPrefix && get().outlets.some((outlet) => outlet.id !== outletId && outlet.kotPrefix === kotPrefix)) {
+          throw new Error(`KOT prefix ${kotPrefix} is already used by another outlet`);
+        }
+        set((state) => ({
+          outlets: state.outlets.map((outlet) =>
+            outlet.id === outletId ? { ...outlet, ...updates, ...(kotPrefix ? { kotPrefix } : {}) } : outlet
+          ),
+        }));
+      },
+
+      setActiveOutlet: (outletId) => {
+        set({ activeOutletId: outletId });
+      },
+
+      getOutlet: (outletId) => {
+        const { outlets, activeOutletId } = get();
+        return outlets.find((outlet) => outlet.id === (outletId ?? activeOutletId)) ?? outlets[0] ?? DEFAULT_OUTLETS[0];
+      },
+
       toggleMenuAvailability: (itemId) => {
         set((state) => ({
           menu: state.menu.map((item) =>
@@ -129,12 +494,14 @@ export const usePOSStore = create<POSState>()(
       },
 
       addMenuItem: (payload) => {
+        assertMenuOptions(payload);
         const item: POSMenuItem = { id: nanoid(8), ...payload };
         set((state) => ({ menu: [...state.menu, item] }));
         return item;
       },
 
       updateMenuItem: (itemId, updates) => {
+        assertMenuOptions(updates);
         set((state) => ({
           menu: state.menu.map((item) =>
             item.id === itemId ? { ...item, ...updates } : item
@@ -183,15 +550,131 @@ export const usePOSStore = create<POSState>()(
       detachOrderFromTable: (tableId) => {
         set((state) => ({
           tables: state.tables.map((table) =>
-            table.id === tableId ? { ...table, activeOrderId: undefined, status: 'vacant' } : table
+            table.id === tableId ? { ...table, activeOrderId: undefined, mergedInto: undefined, status: 'vacant' } : table
+          ),
+        }));
+      },
+
+      // Pushes a table up to another for one party; if both already have orders they become one order
+      mergeTables: (tableId, intoTableId) => {
+        const { tables, orders } = get();
+        const table = tables.find((entry) => entry.id === tableId);
+        const target = tables.find((entry) => entry.id === intoTableId);
+        if (!table || !target) {
+          throw new Error('Table not found');
+        }
+        const primary = (target.mergedInto && tables.find((entry) => entry.id === target.mergedInto)) || target;
+        if (primary.id === table.id || table.mergedInto === primary.id) {
+          throw new Error(`${table.label} is already seated with ${primary.label}`);
+        }
+        if (table.mergedInto) {
+          throw new Error(`Split ${table.label} from its table first`);
+        }
+        if (outletIdOf(table) !== outletIdOf(primary)) {
+          throw new Error('Tables from different outlets cannot be joined');
+        }
+        const orderId = primary.activeOrderId ?? table.activeOrderId;
+        if (!orderId) {
+          throw new Error('Open an order on one of the tables first');
+        }
+        const joining =
+          table.activeOrderId && table.activeOrderId !== orderId
+            ? orders.find((order) => order.id === table.activeOrderId)
+            : undefined;
+
+        set((state) => ({
+          orders: state.orders
+            .filter((order) => order.id !== joining?.id)
+            .map((order) =>
+              order.id === orderId
+                ? {
+                    ...order,
+                    tableId: primary.id,
+                    items: [...order.items, ...(joining?.items ?? [])],
+                    charges: [...order.charges, ...(joining?.charges ?? [])],
+                    payments: [...order.payments, ...(joining?.payments ?? [])],
+                    covers: joining?.covers ? (order.covers ?? 0) + joining.covers : order.covers,
+                    status: joining ? lessAdvanced(order.status, joining.status) : order.status,
+                    updatedAt: new Date().toISOString(),
+                  }
+                : order
+            ),
+          kotTickets: joining
+            ? state.kotTickets.map((ticket) => (ticket.orderId === joining.id ? { ...ticket, orderId } : ticket))
+            : state.kotTickets,
+          tables: state.tables.map<POSTable>((entry) => {
+            if (entry.id === primary.id) {
+              return { ...entry, status: 'occupied', activeOrderId: orderId };
+            }
+            // Tables already joined to the one being merged move across with it
+            if (entry.id === table.id || entry.mergedInto === table.id) {
+              return { ...entry, status: 'occupied', activeOrderId: orderId, mergedInto: primary.id };
+            }
+            return entry;
+          }),
+        }));
+      },
+
+      splitTable: (tableId) => {
+        const table = get().tables.find((entry) => entry.id === tableId);
+        if (!table?.mergedInto) {
+          throw new Error(`${table?.label ?? 'This table'} is not joined to another table`);
+        }
+        set((state) => ({
+          tables: state.tables.map<POSTable>((entry) =>
+            entry.id === tableId ? { ...entry, status: 'vacant', activeOrderId: undefined, mergedInto: undefined } : entry
+          ),
+        }));
+      },
+
+      // The whole party moves, so tables joined to the old one are freed as well
+      moveOrderToTable: (orderId, tableId) => {
+        const order = get().orders.find((entry) => entry.id === orderId);
+        const target = get().tables.find((entry) => entry.id === tableId);
+        if (!order || !target) {
+          throw new Error('Order or table not found');
+        }
+        if (outletIdOf(target) !== outletIdOf(order)) {
+          throw new Error('Orders can only move to a table in the same outlet');
+        }
+        if (target.activeOrderId) {
+          throw new Error(`${target.label} already has an order; merge the tables instead`);
+        }
+        set((state) => ({
+          tables: releaseTables(state.tables, orderId).map<POSTable>((entry) =>
+            entry.id === tableId ? { ...entry, status: 'occupied', activeOrderId: orderId } : entry
+          ),
+          orders: state.orders.map((entry) =>
+            entry.id === orderId ? { ...entry, tableId, updatedAt: new Date().toISOString() } : entry
+          ),
+        }));
+      },
+
+      assignServer: (tableId, server) => {
+        const table = get().tables.find((entry) => entry.id === tableId);
+        if (!table) {
+          throw new Error('Table not found');
+        }
+        set((state) => ({
+          tables: state.tables.map((entry) =>
+            entry.id === tableId ? { ...entry, serverId: server?.id, serverName: server?.name } : entry
+          ),
+          orders: state.orders.map((order) =>
+            order.id === table.activeOrderId && order.tableId === tableId
+              ? { ...order, serverId: server?.id, serverName: server?.name }
+              : order
           ),
         }));
       },
 
       startOrder: (tableId) => {
+        const table = tableId ? get().tables.find((entry) => entry.id === tableId) : undefined;
         const order: POSOrder = {
           id: nanoid(10),
+          outletId: table ? outletIdOf(table) : get().activeOutletId,
           tableId,
+          serverId: table?.serverId,
+          serverName: table?.serverName,
           status: 'draft',
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -215,25 +698,37 @@ export const usePOSStore = create<POSState>()(
         return order;
       },
 
-      addItemToOrder: (orderId, item) => {
+      addItemToOrder: (orderId, item, selection = {}) => {
         if (!item.isAvailable) {
           return;
         }
+        const line = buildLine(item, selection, get().menu);
 
         set((state) => ({
           orders: state.orders.map((order) => {
-            if (order.id !== orderId) {
+            // Each outlet sells from its own menu
+            if (order.id !== orderId || outletIdOf(item) !== outletIdOf(order)) {
               return order;
             }
 
-            const existing = order.items.find((line) => line.itemId === item.id && line.status === 'pending');
+            // Lines already sent to the kitchen stay as ticketed; more of the same item starts a new line
+            const ticketed = new Set(
+              state.kotTickets.filter((ticket) => ticket.orderId === orderId).flatMap((ticket) => ticket.items.map((entry) => entry.lineId))
+            );
+            const existing = order.items.find(
+              (entry) =>
+                entry.itemId === item.id &&
+                entry.status === 'pending' &&
+                !ticketed.has(entry.id) &&
+                choiceKey(entry) === choiceKey(line)
+            );
             const items = existing
-              ? order.items.map((line) =>
-                  line.id === existing.id
-                    ? { ...line, quantity: line.quantity + 1 }
-                    : line
+              ? order.items.map((entry) =>
+                  entry.id === existing.id
+                    ? { ...entry, quantity: entry.quantity + 1 }
+                    : entry
                 )
-              : [...order.items, generateLine(item)];
+              : [...order.items, line];
 
             return {
               ...order,
@@ -279,6 +774,16 @@ export const usePOSStore = create<POSState>()(
         }));
       },
 
+      setCovers: (orderId, covers) => {
+        set((state) => ({
+          orders: state.orders.map((order) =>
+            order.id === orderId
+              ? { ...order, covers: Math.max(1, Math.round(covers)), updatedAt: new Date().toISOString() }
+              : order
+          ),
+        }));
+      },
+
       removeLine: (orderId, lineId) => {
         set((state) => ({
           orders: state.orders.map((order) =>
@@ -308,18 +813,18 @@ export const usePOSStore = create<POSState>()(
       },
 
       clearOrder: (orderId) => {
+        // Payments feed the cashier's shift report, so paid orders are closed rather than deleted
+        if (get().orders.find((order) => order.id === orderId)?.payments.length) {
+          throw new Error('This order has payments on it; close it instead');
+        }
         set((state) => ({
           orders: state.orders.filter((order) => order.id !== orderId),
-          tables: state.tables.map<POSTable>((table) =>
-            table.activeOrderId === orderId
-              ? { ...table, status: 'vacant', activeOrderId: undefined }
-              : table
-          ),
+          tables: releaseTables(state.tables, orderId),
           kotTickets: state.kotTickets.filter((ticket) => ticket.orderId !== orderId),
         }));
       },
 
-      postToRoom: (orderId, roomNumber, guestName) => {
+      postToRoom: (orderId, roomNumber, guestName, shiftId) => {
         set((state) => ({
           orders: state.orders.map((order) =>
             order.id === orderId
@@ -336,73 +841,111 @@ export const usePOSStore = create<POSState>()(
         const reservation = useReservationStore.getState().reservations.find((entry) =>
           entry.roomNumbers.includes(roomNumber) && entry.status === 'checked-in'
         );
+        const order = get().orders.find((entry) => entry.id === orderId);
+        const folio = useFolioStore.getState();
+        const alreadyPosted = folio.entries.some(
+          (entry) => entry.source === 'pos' && entry.sourceRef === orderId && entry.type === 'charge'
+        );
 
-        if (reservation) {
-          void useReservationStore
-            .getState()
-            .updateReservation(reservation.id, {
-              notes: `${reservation.notes || ''}\nPOS posting ${roomNumber} at ${new Date().toLocaleTimeString()}`.trim(),
-            })
-            .catch(() => undefined);
+        if (reservation && order && !alreadyPosted) {
+          const outlet = get().getOutlet(outletIdOf(order));
+          const bill = calculatePosBill(order, outlet);
+          const netCharges = order.charges
+            .filter((entry) => entry.type !== 'tax')
+            .reduce((sum, entry) => sum + (entry.type === 'discount' ? -Math.abs(entry.amount) : entry.amount), 0);
+          const taxAmount = Number(
+            (bill.tax + order.charges.filter((entry) => entry.type === 'tax').reduce((sum, entry) => sum + entry.amount, 0)).toFixed(2)
+          );
+          const amount = Math.max(Number((bill.taxable + netCharges).toFixed(2)), 0);
+
+          if (amount > 0) {
+            folio.postCharge(
+              reservation.id,
+              {
+                description: `${outlet.name} - ${order.items.length} item(s) (Order ${order.id})`,
+                amount,
+                category: outlet.folioCategory,
+                taxAmount,
+                taxRate: outlet.taxPercent,
+              },
+              { source: 'pos', sourceRef: order.id }
+            );
+            // The room charge settles the order, and shows on the cashier's shift report as a folio transfer
+            get().recordPayment(order.id, {
+              method: 'folio-transfer',
+              amount: Number((amount + taxAmount).toFixed(2)),
+              reference: `Room ${roomNumber}`,
+              shiftId,
+            });
+          }
+          useInventoryStore.getState().consumeOrder(order);
         }
       },
 
+      // Closing draws the recipe stock, unless a room posting already did
       closeOrder: (orderId) => {
+        const order = get().orders.find((entry) => entry.id === orderId);
+        if (order) {
+          useInventoryStore.getState().consumeOrder(order);
+        }
         set((state) => ({
           orders: state.orders.map((order) =>
             order.id === orderId
               ? { ...order, status: 'completed', updatedAt: new Date().toISOString() }
               : order
           ),
-          tables: state.tables.map<POSTable>((table) =>
-            table.activeOrderId === orderId
-              ? { ...table, status: 'vacant', activeOrderId: undefined }
-              : table
-          ),
+          tables: releaseTables(state.tables, orderId),
         }));
       },
 
       recordPayment: (orderId, payment) => {
         const entry: POSPayment = { id: nanoid(8), createdAt: new Date().toISOString(), ...payment };
         set((state) => ({
-          orders: state.orders.map((order) =>
-            order.id === orderId
-              ? {
-                  ...order,
-                  payments: [...order.payments, entry],
-                  updatedAt: new Date().toISOString(),
-                  status:
-                    calculateTotals({ ...order, payments: [...order.payments, entry] }).paymentsTotal >=
-                    calculateTotals({ ...order, payments: [...order.payments, entry] }).itemsTotal +
-                      calculateTotals({ ...order, payments: [...order.payments, entry] }).chargesTotal
-                      ? 'posted'
-                      : order.status,
-                }
-              : order
-          ),
+          orders: state.orders.map((order) => {
+            if (order.id !== orderId) {
+              return order;
+            }
+            const updated = { ...order, payments: [...order.payments, entry], updatedAt: new Date().toISOString() };
+            const bill = calculatePosBill(updated, get().getOutlet(outletIdOf(order)));
+            return { ...updated, status: bill.payments >= bill.grand ? 'posted' : order.status };
+          }),
         }));
         return entry;
       },
 
+      // Only lines not already on a ticket go to the kitchen, each tagged with its menu item's station
       sendOrderToKitchen: (orderId) => {
         const state = get();
         const order = state.orders.find((entry) => entry.id === orderId);
-        if (!order || !order.items.length) {
+        const ticketed = new Set(
+          state.kotTickets
+            .filter((ticket) => ticket.orderId === orderId)
+            .flatMap((ticket) => ticket.items.map((item) => item.lineId))
+        );
+        const lines = order?.items.filter((line) => !ticketed.has(line.id)) ?? [];
+        if (!order || !lines.length) {
           return undefined;
         }
 
+        // KOT numbers run in sequence per outlet so each kitchen can spot a missing ticket
+        const outlet = get().getOutlet(outletIdOf(order));
+        const sequence = outlet.kotSequence + 1;
+        const createdAt = new Date().toISOString();
         const ticket: KOTTicket = {
           id: nanoid(10),
-          kotNumber: `KOT-${Math.random().toString(36).slice(2, 6).toUpperCase()}`,
+          kotNumber: `${outlet.kotPrefix}-${String(sequence).padStart(4, '0')}`,
           orderId: order.id,
+          outletId: outlet.id,
           tableLabel: order.tableId ? state.tables.find((table) => table.id === order.tableId)?.label : undefined,
           roomNumber: order.roomNumber,
           status: 'queued',
-          createdAt: new Date().toISOString(),
-          items: order.items.map((line) => ({ name: line.name, quantity: line.quantity, notes: line.notes })),
+          createdAt,
+          updatedAt: createdAt,
+          items: lines.flatMap((line) => toTicketItems(line, state.menu)),
         };
 
         set((prev) => ({
+          outlets: prev.outlets.map((entry) => (entry.id === outlet.id ? { ...entry, kotSequence: sequence } : entry)),
           kotTickets: [ticket, ...prev.kotTickets],
           orders: prev.orders.map((entry) =>
             entry.id === orderId
@@ -410,14 +953,129 @@ export const usePOSStore = create<POSState>()(
               : entry
           ),
         }));
+        pushTicket(ticket);
 
         return ticket;
       },
 
       updateTicketStatus: (ticketId, status) => {
+        const ticket = get().kotTickets.find((entry) => entry.id === ticketId);
+        if (!ticket) {
+          return;
+        }
+        const now = new Date().toISOString();
+        const items = ticket.items.map((item) =>
+          status === 'completed' ? { ...item, bumpedAt: item.bumpedAt ?? now } : status === 'queued' ? { ...item, bumpedAt: undefined } : item
+        );
+        const updated = withDerivedStatus(ticket, items, status);
+        set((state) => applyTicket(state, updated));
+        pushTicket(updated);
+      },
+
+      bumpItem: (ticketId, itemIndex) => {
+        const ticket = get().kotTickets.find((entry) => entry.id === ticketId);
+        if (!ticket || !ticket.items[itemIndex]) {
+          return;
+        }
+        const now = new Date().toISOString();
+        const items = ticket.items.map((item, index) =>
+          index === itemIndex ? { ...item, bumpedAt: item.bumpedAt ? undefined : now } : item
+        );
+        const updated = withDerivedStatus(ticket, items, 'in-progress');
+        set((state) => applyTicket(state, updated));
+        pushTicket(updated);
+      },
+
+      bumpStation: (ticketId, station) => {
+        const ticket = get().kotTickets.find((entry) => entry.id === ticketId);
+        if (!ticket) {
+          return;
+        }
+        const now = new Date().toISOString();
+        const items = ticket.items.map((item) =>
+          !station || ticketStation(item) === station ? { ...item, bumpedAt: item.bumpedAt ?? now } : item
+        );
+        const updated = withDerivedStatus(ticket, items, 'in-progress');
+        set((state) => applyTicket(state, updated));
+        pushTicket(updated);
+      },
+
+      recallTicket: (ticketId, station) => {
+        const ticket = get().kotTickets.find((entry) => entry.id === ticketId);
+        if (!ticket) {
+          return;
+        }
+        const items = ticket.items.map((item) =>
+          !station || ticketStation(item) === station ? { ...item, bumpedAt: undefined } : item
+        );
+        const updated = withDerivedStatus(ticket, items, 'in-progress');
+        set((state) => applyTicket(state, updated));
+        pushTicket(updated);
+      },
+
+      markTicketPrinted: (ticketId) => {
+        const ticket = get().kotTickets.find((entry) => entry.id === ticketId);
+        if (!ticket) {
+          return;
+        }
+        const now = new Date().toISOString();
+        const updated = { ...ticket, printedAt: now, printCount: (ticket.printCount ?? 0) + 1, updatedAt: now };
         set((state) => ({
-          kotTickets: state.kotTickets.map((ticket) =>
-            ticket.id === ticketId ? { ...ticket, status, printedAt: status === 'completed' ? new Date().toISOString() : ticket.printedAt } : ticket
+          kotTickets: state.kotTickets.map((entry) => (entry.id === ticketId ? updated : entry)),
+        }));
+        pushTicket(updated);
+      },
+
+      hydrateTickets: async () => {
+        get().mergeTickets(await posApi.fetchTickets());
+      },
+
+      watchTickets: () => {
+        const sync = () => {
+          get()
+            .hydrateTickets()
+            .catch((error) => console.error('Failed to load kitchen tickets:', error));
+        };
+        // Another tab writes its whole store, so only its tickets are taken and merged one by one
+        const handleStorage = (event: StorageEvent) => {
+          if (event.key !== 'pos-storage' || !event.newValue) {
+            return;
+          }
+          try {
+            const stored = JSON.parse(event.newValue) as { state?: { kotTickets?: KOTTicket[] } };
+            get().mergeTickets(stored.state?.kotTickets ?? []);
+          } catch (error) {
+            console.error('Failed to read kitchen tickets from storage:', error);
+          }
+        };
+        const timer = window.setInterval(sync, TICKET_SYNC_MS);
+        sync();
+        window.addEventListener('storage', handleStorage);
+        return () => {
+          window.clearInterval(timer);
+          window.removeEventListener('storage', handleStorage);
+        };
+      },
+
+      // Keeps whichever copy of each ticket changed last, so a stale screen cannot undo another one's bumps
+      mergeTickets: (tickets) => {
+        set((state) =>
+          tickets.reduce((next, ticket) => {
+            const local = next.kotTickets.find((entry) => entry.id === ticket.id);
+            if (!local) {
+              return { ...next, kotTickets: [ticket, ...next.kotTickets] };
+            }
+            return ticketVersion(ticket) > ticketVersion(local) ? applyTicket(next, ticket) : next;
+          }, { kotTickets: state.kotTickets, orders: state.orders })
+        );
+      },
+
+      markBillPrinted: (orderId) => {
+        set((state) => ({
+          orders: state.orders.map((order) =>
+            order.id === orderId
+              ? { ...order, billPrintedAt: new Date().toISOString(), billPrintCount: (order.billPrintCount ?? 0) + 1 }
+              : order
           ),
         }));
       },
@@ -0,0 +1,175 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import type { KOTStation, POSShift, POSShiftReport, PrinterConfig } from '../types';
+import { getPrinterTransport, type PrintJob } from '../services/printerTransports';
+import { KOT_STATION_LABELS, renderBill, renderKot, renderShiftReport } from '../utils/receipts';
+import { createReceipt } from '../utils/escpos';
+import { outletIdOf, usePOSStore } from './posStore';
+import { usePropertyStore } from './propertyStore';
+
+interface PrinterState {
+  printers: PrinterConfig[];
+
+  addPrinter: (payload: Omit<PrinterConfig, 'id' | 'isActive'>) => PrinterConfig;
+  updatePrinter: (printerId: string, updates: Partial<Omit<PrinterConfig, 'id'>>) => void;
+  removePrinter: (printerId: string) => void;
+  printKot: (ticketId: string) => Promise<void>;
+  printBill: (orderId: string) => Promise<void>;
+  printShiftReport: (shift: POSShift, report: POSShiftReport) => Promise<void>;
+  testPrint: (printerId: string) => Promise<void>;
+}
+
+// Until real printers are set up, everything goes to an on-screen mock so the flow can be tried out
+const DEFAULT_PRINTERS: PrinterConfig[] = [
+  {
+    id: 'PRN001',
+    name: 'Counter (preview)',
+    paperWidth: 80,
+    transport: 'mock',
+    stations: ['main', 'bar', 'dessert'],
+    printsBills: true,
+    isActive: true,
+  },
+];
+
+const servesOutlet = (printer: PrinterConfig, outletId: string) =>
+  !printer.outletIds?.length || printer.outletIds.includes(outletId);
+
+const send = async (printer: PrinterConfig, job: PrintJob) => {
+  const transport = getPrinterTransport(printer.transport);
+  if (!transport) {
+    throw new Error(`No ${printer.transport} transport available for ${printer.name}`);
+  }
+  await transport.print(job, printer);
+};
+
+export const usePrinterStore = create<PrinterState>()(
+  persist(
+    (set, get) => ({
+      printers: DEFAULT_PRINTERS,
+
+      addPrinter: (payload) => {
+        if (!payload.name.trim()) {
+          throw new Error('Printer name is required');
+        }
+        if (payload.transport === 'network' && !payload.address?.trim()) {
+          throw new Error('Enter the print bridge URL');
+        }
+        const printer: PrinterConfig = { ...payload, id: nanoid(8), name: payload.name.trim(), isActive: true };
+        set((state) => ({ printers: [...state.printers, printer] }));
+        return printer;
+      },
+
+      updatePrinter: (printerId, updates) => {
+        set((state) => ({
+          printers: state.printers.map((printer) => (printer.id === printerId ? { ...printer, ...updates } : printer)),
+        }));
+      },
+
+      removePrinter: (printerId) => {
+        set((state) => ({ printers: state.printers.filter((printer) => printer.id !== printerId) }));
+      },
+
+      // Each printer gets the items for the stations it serves; printing again marks the copy as a duplicate
+      printKot: async (ticketId) => {
+        const pos = usePOSStore.getState();
+        const ticket = pos.kotTickets.find((entry) => entry.id === ticketId);
+        if (!ticket) {
+          throw new Error('KOT not found');
+        }
+        const ticketStations = Array.from(new Set(ticket.items.map((item) => item.station ?? 'main')));
+        const active = get().printers.filter((printer) => printer.isActive && servesOutlet(printer, outletIdOf(ticket)));
+        const duplicate = (ticket.printCount ?? 0) > 0;
+        const unrouted = new Set<KOTStation>(ticketStations);
+
+        for (const printer of active) {
+          const stations = ticketStations.filter((station) => printer.stations.includes(station));
+          if (!stations.length) continue;
+          const receipt = renderKot(ticket, { paperWidth: printer.paperWidth, stations, duplicate });
+          await send(printer, {
+            title: `${ticket.kotNumber}-${stations.join('-')}`,
+            bytes: receipt.toBytes(),
+            text: receipt.toText(),
+          });
+          stations.forEach((station) => unrouted.delete(station));
+        }
+
+        if (unrouted.size < ticketStations.length) {
+          pos.markTicketPrinted(ticketId);
+        }
+        if (unrouted.size) {
+          throw new Error(
+            `No printer set up for ${Array.from(unrouted)
+              .map((station) => KOT_STATION_LABELS[station])
+              .join(', ')} at ${pos.getOutlet(outletIdOf(ticket)).name}`
+          );
+        }
+      },
+
+      printBill: async (orderId) => {
+        const pos = usePOSStore.getState();
+        const order = pos.orders.find((entry) => entry.id === orderId);
+        if (!order) {
+          throw new Error('Order not found');
+        }
+        if (!order.items.length) {
+          throw new Error('Nothing to bill on this order');
+        }
+        const outlet = pos.getOutlet(outletIdOf(order));
+        const printer = get().printers.find(
+          (entry) => entry.isActive && entry.printsBills && servesOutlet(entry, outlet.id)
+        );
+        if (!printer) {
+          throw new Error(`No bill printer set up for ${outlet.name}`);
+        }
+        const receipt = renderBill(order, {
+          paperWidth: printer.paperWidth,
+          hotel: usePropertyStore.getState().hotelProfile,
+          outlet,
+          tableLabel: pos.tables.find((table) => table.id === order.tableId)?.label,
+          duplicate: (order.billPrintCount ?? 0) > 0,
+        });
+        await send(printer, { title: `bill-${order.id}`, bytes: receipt.toBytes(), text: receipt.toText() });
+        pos.markBillPrinted(orderId);
+      },
+
+      // Shift reports go to the first bill printer; a cashier's takings span every outlet
+      printShiftReport: async (shift, report) => {
+        const printer = get().printers.find((entry) => entry.isActive && entry.printsBills);
+        if (!printer) {
+          throw new Error('No bill printer set up');
+        }
+        const receipt = renderShiftReport(shift, report, {
+          paperWidth: printer.paperWidth,
+          hotel: usePropertyStore.getState().hotelProfile,
+        });
+        await send(printer, {
+          title: `${report.kind.toLowerCase()}-report-${shift.id}`,
+          bytes: receipt.toBytes(),
+          text: receipt.toText(),
+        });
+      },
+
+      testPrint: async (printerId) => {
+        const printer = get().printers.find((entry) => entry.id === printerId);
+        if (!printer) {
+          throw new Error('Printer not found');
+        }
+        const receipt = createReceipt(printer.paperWidth);
+        receipt
+          .text('TEST PRINT', { align: 'center', large: true, bold: true })
+          .text(printer.name, { align: 'center' })
+          .divider()
+          .pair(`${printer.paperWidth}mm paper`, printer.transport)
+          .text('1234567890'.repeat(5).slice(0, receipt.columns))
+          .feed(3)
+          .cut();
+        await send(printer, { title: `test-${printer.id}`, bytes: receipt.toBytes(), text: receipt.toText() });
+      },
+    }),
+    {
+      name: 'printer-storage',
+    }
+  )
+);
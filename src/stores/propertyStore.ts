@@ -278,15 +278,18 @@ export const usePropertyStore = create<PropertyState>()((set, get) => ({
         buildingId: floor?.buildingId,
         maxOccupancy: merged.maxOccupancy,
         hasExtraBed: merged.hasExtraBed,
-        isActive: merged.isActive
+        isActive: merged.isActive,
+        lastCleaned: merged.lastCleaned
       });
+      // Older backends do not echo lastCleanedAt; keep the value we sent
+      const saved = { ...updated, lastCleaned: updated.lastCleaned ?? merged.lastCleaned };
 
       set((prev) => ({
-        rooms: prev.rooms.map((room) => (room.id === id ? updated : room)),
+        rooms: prev.rooms.map((room) => (room.id === id ? saved : room)),
         error: null
       }));
 
-      return updated;
+      return saved;
     } catch (error) {
       const message = formatError(error, 'Failed to update room.');
       set({ error: message });
@@ -0,0 +1,262 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import { addDays, eachDayOfInterval, format, getDay, parseISO } from 'date-fns';
+import type { NightlyRate, RateCalendarEntry, RatePlan, RateRestrictions, RoomType, OTARoomMapping, SyncMutationKind } from '../types';
+import type { OTARateUpdate } from '../services/otaApi';
+import { rateCalendarApi, type RateCalendarRange } from '../services/rateCalendarApi';
+import { isNetworkError } from '../lib/offlineQueue';
+import { usePropertyStore } from './propertyStore';
+import { registerSyncHandler, useSyncStore } from './syncStore';
+
+interface RateRangeInput {
+  roomTypeId: string;
+  ratePlanId: string;
+  from: string;
+  to: string;
+  rate?: number;
+  restrictions?: Partial<RateRestrictions>;
+  // 0 = Sunday … 6 = Saturday; omit to apply to every day in the range
+  weekdays?: number[];
+}
+
+interface RateCalendarState {
+  entries: RateCalendarEntry[];
+  error: string | null;
+
+  // Rates and restrictions set on other terminals price and validate bookings here too
+  hydrateFromBackend: () => Promise<void>;
+  reset: () => void;
+  setRates: (input: RateRangeInput) => RateCalendarEntry[];
+  clearRates: (roomTypeId: string, ratePlanId: string, from: string, to: string) => void;
+  getEntry: (roomTypeId: string, ratePlanId: string, date: string) => RateCalendarEntry | undefined;
+  getNightlyRates: (roomType: RoomType, ratePlan: RatePlan, checkIn: string, checkOut: string) => NightlyRate[];
+  validateStay: (roomTypeId: string, ratePlanId: string, checkIn: string, checkOut: string) => string | null;
+  buildChannelRates: (mappings: OTARoomMapping[], ratePlans: RatePlan[], from: string, to: string) => OTARateUpdate[];
+}
+
+const toDateKey = (value: string | Date) =>
+  typeof value === 'string' ? value.slice(0, 10) : format(value, 'yyyy-MM-dd');
+
+const entryKey = (roomTypeId: string, ratePlanId: string, date: string) => `${roomTypeId}|${ratePlanId}|${date}`;
+
+// Nights are the dates from arrival up to (not including) departure
+const eachStayNight = (checkIn: string, checkOut: string): string[] => {
+  const start = parseISO(toDateKey(checkIn));
+  const end = addDays(parseISO(toDateKey(checkOut)), -1);
+  if (end < start) {
+    return [];
+  }
+  return eachDayOfInterval({ start, end }).map(toDateKey);
+};
+
+const eachRangeDate = (from: string, to: string): Date[] => {
+  const start = parseISO(toDateKey(from));
+  const end = parseISO(toDateKey(to));
+  return end < start ? [] : eachDayOfInterval({ start, end });
+};
+
+const formatError = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Every queued calendar change shares this id, so the local copy stands while any of them is waiting
+const CALENDAR_ENTITY_ID = 'rate-calendar';
+
+// Changes reach the server in the order they were made, so a clear never overtakes the rates set before it
+let pushQueue: Promise<void> = Promise.resolve();
+
+export const resolveDefaultRate = (roomType: Pick<RoomType, 'baseRate'>, ratePlan: Pick<RatePlan, 'baseRate' | 'discountPercentage'>) =>
+  Math.max(Math.round((roomType.baseRate || ratePlan.baseRate) * (1 - ratePlan.discountPercentage / 100)), 0);
+
+export const useRateCalendarStore = create<RateCalendarState>()(
+  persist(
+    (set, get) => {
+      // Sends a change to the backend, or queues it for replay while the backend is unreachable
+      const push = (kind: SyncMutationKind, payload: unknown, label: string, send: () => Promise<unknown>) => {
+        pushQueue = pushQueue
+          .then(async () => {
+            const sync = useSyncStore.getState();
+            if (!sync.shouldQueue()) {
+              try {
+                await send();
+                return;
+              } catch (error) {
+                if (!isNetworkError(error)) {
+                  throw error;
+                }
+              }
+            }
+            await sync.enqueue({ kind, entityId: CALENDAR_ENTITY_ID, payload, label });
+          })
+          .catch((error) => {
+            console.error('Failed to save rate calendar change:', error);
+            set({ error: formatError(error, `${label} was not saved on the server`) });
+          });
+      };
+
+      registerSyncHandler('rate-calendar.save', async (mutation) => {
+        await rateCalendarApi.saveEntries(mutation.payload as RateCalendarEntry[]);
+        return {};
+      });
+
+      registerSyncHandler('rate-calendar.clear', async (mutation) => {
+        await rateCalendarApi.clearRange(mutation.payload as RateCalendarRange);
+        return {};
+      });
+
+      return {
+        entries: [],
+        error: null,
+
+        reset: () => set({ entries: [], error: null }),
+
+        hydrateFromBackend: async () => {
+          try {
+            const remote = await rateCalendarApi.fetchEntries();
+            if (useSyncStore.getState().pendingEntityIds.includes(CALENDAR_ENTITY_ID)) {
+              return;
+            }
+            // The server copy is the calendar; ranges cleared elsewhere must disappear here as well
+            set({ entries: remote, error: null });
+          } catch (error) {
+            set({ error: formatError(error, 'Failed to load the rate calendar') });
+            throw error;
+          }
+        },
+
+        setRates: ({ roomTypeId, ratePlanId, from, to, rate, restrictions, weekdays }) => {
+          const dates = eachRangeDate(from, to)
+            .filter((date) => !weekdays || weekdays.includes(getDay(date)))
+            .map(toDateKey);
+
+          if (!dates.length) {
+            return [];
+          }
+
+          const roomType = usePropertyStore.getState().roomTypes.find((entry) => entry.id === roomTypeId);
+          const existing = new Map(get().entries.map((entry) => [entryKey(entry.roomTypeId, entry.ratePlanId, entry.date), entry]));
+          const now = new Date().toISOString();
+
+          const updated = dates.map<RateCalendarEntry>((date) => {
+            const current = existing.get(entryKey(roomTypeId, ratePlanId, date));
+            return {
+              id: current?.id ?? nanoid(10),
+              roomTypeId,
+              ratePlanId,
+              date,
+              rate: rate ?? current?.rate ?? roomType?.baseRate ?? 0,
+              minStay: restrictions && 'minStay' in restrictions ? restrictions.minStay : current?.minStay,
+              closedToArrival: restrictions?.closedToArrival ?? current?.closedToArrival ?? false,
+              closedToDeparture: restrictions?.closedToDeparture ?? current?.closedToDeparture ?? false,
+              updatedAt: now,
+            };
+          });
+
+          const updatedKeys = new Set(updated.map((entry) => entryKey(entry.roomTypeId, entry.ratePlanId, entry.date)));
+          set((state) => ({
+            entries: [
+              ...state.entries.filter((entry) => !updatedKeys.has(entryKey(entry.roomTypeId, entry.ratePlanId, entry.date))),
+              ...updated,
+            ],
+          }));
+          push('rate-calendar.save', updated, `Rates from ${dates[0]} to ${dates[dates.length - 1]}`, () =>
+            rateCalendarApi.saveEntries(updated)
+          );
+
+          return updated;
+        },
+
+        clearRates: (roomTypeId, ratePlanId, from, to) => {
+          const start = toDateKey(from);
+          const end = toDateKey(to);
+          set((state) => ({
+            entries: state.entries.filter(
+              (entry) =>
+                entry.roomTypeId !== roomTypeId ||
+                entry.ratePlanId !== ratePlanId ||
+                entry.date < start ||
+                entry.date > end
+            ),
+          }));
+          const range: RateCalendarRange = { roomTypeId, ratePlanId, from: start, to: end };
+          push('rate-calendar.clear', range, `Clearing rates from ${start} to ${end}`, () => rateCalendarApi.clearRange(range));
+        },
+
+        getEntry: (roomTypeId, ratePlanId, date) => {
+          const key = toDateKey(date);
+          return get().entries.find(
+            (entry) => entry.roomTypeId === roomTypeId && entry.ratePlanId === ratePlanId && entry.date === key
+          );
+        },
+
+        getNightlyRates: (roomType, ratePlan, checkIn, checkOut) => {
+          const fallback = resolveDefaultRate(roomType, ratePlan);
+          return eachStayNight(checkIn, checkOut).map((date) => {
+            const entry = get().getEntry(roomType.id, ratePlan.id, date);
+            return entry ? { date, rate: entry.rate, isOverride: true } : { date, rate: fallback, isOverride: false };
+          });
+        },
+
+        validateStay: (roomTypeId, ratePlanId, checkIn, checkOut) => {
+          const nights = eachStayNight(checkIn, checkOut);
+          if (!nights.length) {
+            return 'Check-out date must be after check-in date';
+          }
+
+          const arrival = get().getEntry(roomTypeId, ratePlanId, nights[0]);
+          if (arrival?.closedToArrival) {
+            return `Arrivals are closed on ${nights[0]} for this rate plan`;
+          }
+          if (arrival?.minStay && nights.length < arrival.minStay) {
+            return `A minimum stay of ${arrival.minStay} night(s) applies for arrivals on ${nights[0]}`;
+          }
+
+          const departureDate = toDateKey(checkOut);
+          const departure = get().getEntry(roomTypeId, ratePlanId, departureDate);
+          if (departure?.closedToDeparture) {
+            return `Departures are closed on ${departureDate} for this rate plan`;
+          }
+
+          return null;
+        },
+
+        buildChannelRates: (mappings, ratePlans, from, to) => {
+          const roomTypes = usePropertyStore.getState().roomTypes;
+          const dates = eachRangeDate(from, to).map(toDateKey);
+          const updates: OTARateUpdate[] = [];
+
+          mappings.forEach((mapping) => {
+            const roomType = roomTypes.find((entry) => entry.id === mapping.roomTypeId);
+            if (!roomType) {
+              return;
+            }
+
+            ratePlans
+              .filter((plan) => plan.isActive)
+              .forEach((plan) => {
+                const fallback = resolveDefaultRate(roomType, plan);
+                dates.forEach((date) => {
+                  const entry = get().getEntry(roomType.id, plan.id, date);
+                  updates.push({
+                    roomTypeId: roomType.id,
+                    otaRoomTypeId: mapping.otaRoomTypeId,
+                    ratePlanCode: plan.code,
+                    date,
+                    rate: entry?.rate ?? fallback,
+                    minStay: entry?.minStay,
+                    closedToArrival: entry?.closedToArrival ?? false,
+                    closedToDeparture: entry?.closedToDeparture ?? false,
+                  });
+                });
+              });
+          });
+
+          return updates;
+        },
+      };
+    },
+    {
+      name: 'rate-calendar-storage',
+      partialize: (state) => ({ entries: state.entries }),
+    }
+  )
+);
@@ -0,0 +1,303 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import { addDays, endOfMonth, format, getDate, getDay, setHours, setMinutes, startOfDay, startOfMonth, subDays, subMonths } from 'date-fns';
+import type { ReportDelivery, ReportSchedule, ReportScheduleFrequency } from '../types';
+import { buildReport, reportToCsv, reportToHtml, reportToText } from '../utils/reports';
+import { getReportTransport, type ReportAttachment } from '../services/reportTransports';
+import { reportScheduleApi } from '../services/reportScheduleApi';
+import { useReservationStore } from './reservationStore';
+import { usePropertyStore } from './propertyStore';
+import { useFolioStore } from './folioStore';
+import { useTransactionLogStore } from './transactionLogStore';
+
+export type ReportScheduleInput = Omit<ReportSchedule, 'id' | 'nextRunAt' | 'lastRunAt' | 'createdAt' | 'updatedAt'>;
+
+type ScheduleTiming = Pick<ReportSchedule, 'frequency' | 'sendTime' | 'dayOfWeek' | 'dayOfMonth'>;
+
+interface ReportScheduleState {
+  schedules: ReportSchedule[];
+  deliveries: ReportDelivery[];
+  isRunning: boolean;
+
+  // The server holds the schedules, so every terminal sees the same next run
+  hydrateFromBackend: () => Promise<void>;
+  initialize: () => () => void;
+  createSchedule: (input: ReportScheduleInput) => ReportSchedule;
+  updateSchedule: (id: string, updates: Partial<ReportScheduleInput>) => ReportSchedule;
+  deleteSchedule: (id: string) => void;
+  runSchedule: (id: string, runAt?: Date) => Promise<ReportDelivery[]>;
+  runDueSchedules: (now?: Date) => Promise<void>;
+}
+
+const CHECK_INTERVAL_MS = 60000;
+const MAX_DELIVERIES = 200;
+
+/**
+ * Next time a schedule should fire strictly after the given moment
+ */
+export const getNextRunAt = (timing: ScheduleTiming, after: Date = new Date()): string => {
+  const [hours, minutes] = timing.sendTime.split(':').map(Number);
+  const matchesDay = (date: Date) => {
+    if (timing.frequency === 'weekly') return getDay(date) === (timing.dayOfWeek ?? 1);
+    if (timing.frequency === 'monthly') return getDate(date) === (timing.dayOfMonth ?? 1);
+    return true;
+  };
+
+  let candidate = setMinutes(setHours(startOfDay(after), hours), minutes);
+  while (candidate <= after || !matchesDay(candidate)) {
+    candidate = addDays(candidate, 1);
+  }
+  return candidate.toISOString();
+};
+
+// Each run reports on the last completed period before it fires
+export const getScheduleRange = (frequency: ReportScheduleFrequency, runAt: Date) => {
+  const yesterday = subDays(runAt, 1);
+  if (frequency === 'monthly') {
+    const lastMonth = subMonths(runAt, 1);
+    return { from: format(startOfMonth(lastMonth), 'yyyy-MM-dd'), to: format(endOfMonth(lastMonth), 'yyyy-MM-dd') };
+  }
+  if (frequency === 'weekly') {
+    return { from: format(subDays(yesterday, 6), 'yyyy-MM-dd'), to: format(yesterday, 'yyyy-MM-dd') };
+  }
+  return { from: format(yesterday, 'yyyy-MM-dd'), to: format(yesterday, 'yyyy-MM-dd') };
+};
+
+const validateSchedule = (schedule: ReportScheduleInput) => {
+  if (!schedule.name.trim()) {
+    throw new Error('Schedule name is required');
+  }
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(schedule.sendTime)) {
+    throw new Error('Send time must be in HH:mm format');
+  }
+  if (schedule.frequency === 'monthly' && schedule.dayOfMonth !== undefined && (schedule.dayOfMonth < 1 || schedule.dayOfMonth > 28)) {
+    throw new Error('Monthly reports can go out on days 1 to 28');
+  }
+  if (!schedule.recipients.length) {
+    throw new Error('Add at least one recipient');
+  }
+  schedule.recipients.forEach((recipient) => {
+    if (!recipient.address.trim()) {
+      throw new Error(`${recipient.name || 'Recipient'} needs ${recipient.channel === 'email' ? 'an email address' : 'a phone number'}`);
+    }
+    if (!getReportTransport(recipient.channel)) {
+      throw new Error(`No ${recipient.channel} transport is configured for report delivery`);
+    }
+  });
+  if (schedule.recipients.some((recipient) => recipient.channel === 'whatsapp') && !schedule.whatsappTemplateId) {
+    throw new Error('Select a WhatsApp template for WhatsApp recipients');
+  }
+};
+
+export const useReportScheduleStore = create<ReportScheduleState>()(
+  persist(
+    (set, get) => {
+      const getSchedule = (id: string) => {
+        const schedule = get().schedules.find((item) => item.id === id);
+        if (!schedule) {
+          throw new Error('Report schedule not found');
+        }
+        return schedule;
+      };
+
+      const saveRemote = (schedule: ReportSchedule) => {
+        reportScheduleApi.saveSchedule(schedule).catch((error) => {
+          console.error('Failed to save report schedule:', error);
+        });
+      };
+
+      const replaceSchedule = (schedule: ReportSchedule) => {
+        set((state) => ({ schedules: state.schedules.map((item) => (item.id === schedule.id ? schedule : item)) }));
+      };
+
+      // Builds the report once and sends it to every recipient, logging each delivery
+      const deliver = async (schedule: ReportSchedule, runAt: Date) => {
+        const { reservations } = useReservationStore.getState();
+        const { rooms, roomTypes, hotelProfile } = usePropertyStore.getState();
+        const { entries } = useFolioStore.getState();
+
+        const report = buildReport(
+          schedule.reportType,
+          getScheduleRange(schedule.frequency, runAt),
+          { reservations, rooms, roomTypes, folioEntries: entries, today: format(runAt, 'yyyy-MM-dd') },
+          `Schedule: ${schedule.name}`
+        );
+        const hotelName = hotelProfile?.name || 'NexusNext';
+        const body = reportToText(report, hotelName);
+        const baseName = `${schedule.reportType}-${report.dateRange.from}-to-${report.dateRange.to}`;
+        const attachment: ReportAttachment | undefined =
+          schedule.format === 'csv'
+            ? { fileName: `${baseName}.csv`, mimeType: 'text/csv', content: reportToCsv(report) }
+            : schedule.format === 'html'
+              ? { fileName: `${baseName}.html`, mimeType: 'text/html', content: reportToHtml(report, hotelName) }
+              : undefined;
+
+        const deliveries: ReportDelivery[] = [];
+        for (const recipient of schedule.recipients) {
+          let error: string | undefined;
+          try {
+            const transport = getReportTransport(recipient.channel);
+            if (!transport) {
+              throw new Error(`No ${recipient.channel} transport is configured`);
+            }
+            await transport.send({
+              schedule,
+              report,
+              recipient,
+              subject: `${hotelName} - ${report.title}`,
+              body,
+              attachment,
+            });
+          } catch (err) {
+            error = err instanceof Error ? err.message : 'Delivery failed';
+          }
+
+          const delivery: ReportDelivery = {
+            id: nanoid(10),
+            scheduleId: schedule.id,
+            reportId: report.id,
+            reportTitle: report.title,
+            dateRange: report.dateRange,
+            recipientName: recipient.name,
+            channel: recipient.channel,
+            address: recipient.address,
+            status: error ? 'failed' : 'sent',
+            error,
+            deliveredAt: new Date().toISOString(),
+          };
+          deliveries.push(delivery);
+
+          await useTransactionLogStore.getState().logTransaction({
+            eventType: 'REPORT_GENERATED',
+            entityType: 'SYSTEM',
+            entityId: schedule.id,
+            description: error
+              ? `${report.title} to ${recipient.name} via ${recipient.channel} failed: ${error}`
+              : `${report.title} sent to ${recipient.name} via ${recipient.channel}`,
+            metadata: {
+              scheduleName: schedule.name,
+              reportType: report.type,
+              dateRange: report.dateRange,
+              channel: recipient.channel,
+              recipient: recipient.address,
+              format: schedule.format,
+              status: delivery.status,
+              summary: report.data.summary,
+            },
+          });
+        }
+
+        set((state) => ({ deliveries: [...deliveries, ...state.deliveries].slice(0, MAX_DELIVERIES) }));
+        return deliveries;
+      };
+
+      return {
+        schedules: [],
+        deliveries: [],
+        isRunning: false,
+
+        // Schedules set up before the server kept them are uploaded rather than dropped
+        hydrateFromBackend: async () => {
+          const remote = await reportScheduleApi.fetchSchedules();
+          const remoteIds = new Set(remote.map((schedule) => schedule.id));
+          const localOnly = get().schedules.filter((schedule) => !remoteIds.has(schedule.id));
+          localOnly.forEach(saveRemote);
+          set({ schedules: [...remote, ...localOnly] });
+        },
+
+        // Schedules only fire while a signed-in session has the app open; every open tab checks,
+        // and the server lease lets only one of them send each run
+        initialize: () => {
+          const check = () => {
+            get().runDueSchedules().catch(() => undefined);
+          };
+          const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+          get()
+            .hydrateFromBackend()
+            .catch(() => undefined)
+            .then(check);
+          return () => window.clearInterval(timer);
+        },
+
+        createSchedule: (input) => {
+          validateSchedule(input);
+          const now = new Date().toISOString();
+          const schedule: ReportSchedule = {
+            ...input,
+            id: nanoid(10),
+            name: input.name.trim(),
+            nextRunAt: getNextRunAt(input),
+            createdAt: now,
+            updatedAt: now,
+          };
+          set((state) => ({ schedules: [...state.schedules, schedule] }));
+          saveRemote(schedule);
+          return schedule;
+        },
+
+        updateSchedule: (id, updates) => {
+          const current = getSchedule(id);
+          const merged: ReportSchedule = { ...current, ...updates, updatedAt: new Date().toISOString() };
+          validateSchedule(merged);
+          // Timing changes move the next run; pausing and resuming does not resend missed runs
+          const schedule: ReportSchedule = { ...merged, nextRunAt: getNextRunAt(merged) };
+          replaceSchedule(schedule);
+          saveRemote(schedule);
+          return schedule;
+        },
+
+        deleteSchedule: (id) => {
+          set((state) => ({ schedules: state.schedules.filter((item) => item.id !== id) }));
+          reportScheduleApi.deleteSchedule(id).catch((error) => {
+            console.error('Failed to delete report schedule:', error);
+          });
+        },
+
+        // Sending by hand moves the next run on, the same as a scheduled send
+        runSchedule: async (id, runAt = new Date()) => {
+          const schedule = getSchedule(id);
+          const deliveries = await deliver(schedule, runAt);
+          const updated: ReportSchedule = {
+            ...getSchedule(id),
+            lastRunAt: runAt.toISOString(),
+            nextRunAt: getNextRunAt(schedule, runAt),
+          };
+          replaceSchedule(updated);
+          saveRemote(updated);
+          return deliveries;
+        },
+
+        runDueSchedules: async (now = new Date()) => {
+          if (get().isRunning) {
+            return;
+          }
+          set({ isRunning: true });
+          try {
+            // A run missed while the app was closed goes out once, not once per missed period
+            const due = get().schedules.filter((schedule) => schedule.isActive && new Date(schedule.nextRunAt) <= now);
+            for (const schedule of due) {
+              // A run that cannot be claimed, offline included, is left for whoever can reach the server
+              const claim = await reportScheduleApi
+                .claimRun(schedule.id, schedule.nextRunAt, getNextRunAt(schedule, now))
+                .catch(() => null);
+              if (!claim) {
+                continue;
+              }
+              replaceSchedule(claim.schedule);
+              if (claim.claimed) {
+                await deliver(schedule, now);
+              }
+            }
+          } finally {
+            set({ isRunning: false });
+          }
+        },
+      };
+    },
+    {
+      name: 'report-schedule-storage',
+      partialize: (state) => ({ schedules: state.schedules, deliveries: state.deliveries }),
+    }
+  )
+);
@@ -10,14 +10,26 @@ import type {
   ChargeItem,
   PaymentRecord,
   SettlementSummary,
+  PayerSettlement,
   LateCheckoutDetail,
   PaymentMethod,
   Guest,
-  BookingSource
+  BookingSource,
+  CancellationDetails,
+  NightlyRate
 } from '../types';
-import { reservationApi, type ReservationResponse, type RatePlanCode, type ReservationStatusCode, type ReservationSourceCode, type UpdateReservationRequest } from '../services/reservationApi';
+import { reservationApi, type CreateReservationRequest, type ReservationResponse, type RatePlanCode, type ReservationStatusCode, type ReservationSourceCode, type UpdateReservationRequest } from '../services/reservationApi';
+import { format } from 'date-fns';
 import { useGuestStore } from './guestStore';
 import { usePropertyStore } from './propertyStore';
+import { useRateCalendarStore } from './rateCalendarStore';
+import { useGroupStore } from './groupStore';
+import { useMaintenanceStore } from './maintenanceStore';
+import { useFolioStore } from './folioStore';
+import { createOfflineId, registerSyncHandler, useSyncStore } from './syncStore';
+import { isNetworkError } from '../lib/offlineQueue';
+import { calculateCancellationPenalty, getDepositRequirement } from '../utils/policies';
+import { resolveTaxRate } from '../utils/gst';
 
 type StoreContext = {
   hotelId: string;
@@ -67,12 +79,45 @@ interface SettlementInput {
 interface CheckOutPayload {
   reservationId: string;
   settlement: SettlementInput;
+  payers?: PayerSettlement[];
   lateCheckout?: LateCheckoutDetail;
   handledBy?: string;
   guestFeedback?: string;
   checkOutTime?: string;
 }
 
+interface MoveReservationTarget {
+  roomNumber: string;
+  checkIn: string;
+}
+
+export interface CancellationOptions {
+  waivePenalty?: boolean;
+  handledBy?: string;
+}
+
+export interface CancellationPreview {
+  penalty: number;
+  amountPaid: number;
+  refundDue: number;
+  outstanding: number;
+  policySummary: string;
+}
+
+export interface NoShowRun {
+  processed: Reservation[];
+  // Arrivals left untouched because marking them failed; the rest of the run still goes ahead
+  failures: Array<{ reservation: Reservation; error: string }>;
+}
+
+export interface DepositStatus {
+  amount: number;
+  dueDate: string;
+  paid: number;
+  outstanding: number;
+  isOverdue: boolean;
+}
+
 interface ReservationState {
   context: StoreContext | null;
   isHydrated: boolean;
@@ -86,12 +131,24 @@ interface ReservationState {
   // Reservation Actions
   createReservation: (input: ReservationInput) => Promise<Reservation>;
   updateReservation: (id: string, updates: Partial<Reservation>) => Promise<Reservation>;
-  cancelReservation: (id: string, reason?: string) => Promise<void>;
+  cancelReservation: (id: string, reason?: string, options?: CancellationOptions) => Promise<CancellationDetails>;
+  markNoShow: (id: string, options?: CancellationOptions) => Promise<CancellationDetails>;
+  reinstateNoShow: (id: string, handledBy?: string) => Promise<Reservation>;
+  processNoShows: (businessDate: string, handledBy?: string) => Promise<NoShowRun>;
   checkIn: (payload: CheckInPayload) => Promise<Reservation>;
   checkOut: (payload: CheckOutPayload) => Promise<Reservation>;
+  moveReservation: (id: string, target: MoveReservationTarget) => Promise<Reservation>;
+  pickUpGroupRooms: (groupId: string, entryIds?: string[]) => Promise<Reservation[]>;
   
   // Availability
-  checkAvailability: (roomTypeId: string, checkIn: string, checkOut: string) => Promise<AvailabilityCheck>;
+  findRoomConflicts: (roomNumber: string, checkIn: string, checkOut: string, excludeId?: string) => Reservation[];
+  checkAvailability: (roomTypeId: string, checkIn: string, checkOut: string, groupId?: string) => Promise<AvailabilityCheck>;
+
+  // Deposits and cancellation policy
+  previewCancellation: (id: string, kind: CancellationDetails['kind'], options?: CancellationOptions) => CancellationPreview;
+  getDepositStatus: (id: string) => DepositStatus | null;
+  // Rate calendar price for each night of the stay
+  getStayRates: (id: string) => NightlyRate[];
   
   // Rate Plans
   addRatePlan: (plan: Omit<RatePlan, 'id'>) => void;
@@ -112,7 +169,13 @@ const DEFAULT_RATE_PLANS: RatePlan[] = [
     baseRate: 7500,
     discountPercentage: 0,
     isActive: true,
-    description: 'Standard public rate'
+    description: 'Standard public rate',
+    cancellationPolicy: {
+      freeCancellationHours: 24,
+      nonRefundable: false,
+      penalty: 'first-night',
+      noShowPenalty: 'first-night'
+    }
   },
   {
     id: 'RP002',
@@ -122,7 +185,13 @@ const DEFAULT_RATE_PLANS: RatePlan[] = [
     baseRate: 7000,
     discountPercentage: 15,
     isActive: true,
-    description: '20% discount for corporate bookings'
+    description: '20% discount for corporate bookings',
+    cancellationPolicy: {
+      freeCancellationHours: 6,
+      nonRefundable: false,
+      penalty: 'none',
+      noShowPenalty: 'first-night'
+    }
   },
   {
     id: 'RP003',
@@ -132,7 +201,18 @@ const DEFAULT_RATE_PLANS: RatePlan[] = [
     baseRate: 6800,
     discountPercentage: 10,
     isActive: true,
-    description: 'Special weekend package with breakfast'
+    description: 'Special weekend package with breakfast',
+    depositPolicy: {
+      type: 'first-night',
+      dueDaysBeforeArrival: 3
+    },
+    cancellationPolicy: {
+      freeCancellationHours: 72,
+      nonRefundable: false,
+      penalty: 'percentage',
+      penaltyPercentage: 50,
+      noShowPenalty: 'full-stay'
+    }
   }
 ];
 
@@ -143,6 +223,19 @@ const calculateNights = (checkIn: string, checkOut: string): number => {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 };
 
+const toDateKey = (value: string) => value.slice(0, 10);
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const shiftDateKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return format(date, 'yyyy-MM-dd');
+};
+
+// Statuses that still hold a physical room for their date range
+const ROOM_HOLDING_STATUSES: ReservationStatus[] = ['pending', 'confirmed', 'checked-in'];
+
 const normalizeDocuments = (docs: CheckInDocumentInput[]): IdentityDocument[] =>
   docs.map((doc) => ({
     id: generateId(),
@@ -196,7 +289,8 @@ const STATUS_FROM_BACKEND: Record<ReservationStatusCode, ReservationStatus> = {
   CONFIRMED: 'confirmed',
   CHECKED_IN: 'checked-in',
   CHECKED_OUT: 'checked-out',
-  CANCELLED: 'cancelled'
+  CANCELLED: 'cancelled',
+  NO_SHOW: 'no-show'
 };
 
 const STATUS_TO_BACKEND: Record<ReservationStatus, ReservationStatusCode> = {
@@ -205,7 +299,7 @@ const STATUS_TO_BACKEND: Record<ReservationStatus, ReservationStatusCode> = {
   'checked-in': 'CHECKED_IN',
   'checked-out': 'CHECKED_OUT',
   cancelled: 'CANCELLED',
-  'no-show': 'CANCELLED'
+  'no-show': 'NO_SHOW'
 };
 
 const SOURCE_FROM_BACKEND: Record<ReservationSourceCode, BookingSource> = {
@@ -352,6 +446,189 @@ export const useReservationStore = create<ReservationState>()(
         return normalizeRatePlanCode(ratePlan?.code ?? 'BAR');
       };
 
+      // Sends an update, or queues it and returns null while the backend is unreachable
+      const sendUpdate = async (id: string, payload: UpdateReservationRequest, label: string): Promise<Reservation | null> => {
+        const sync = useSyncStore.getState();
+        if (!sync.shouldQueue()) {
+          try {
+            return mapFromBackend(await reservationApi.updateReservation(id, payload));
+          } catch (error) {
+            if (!isNetworkError(error)) {
+              throw error;
+            }
+          }
+        }
+
+        const existing = get().reservations.find((entry) => entry.id === id);
+        await sync.enqueue({ kind: 'reservation.update', entityId: id, payload, label, baseUpdatedAt: existing?.updatedAt });
+        return null;
+      };
+
+      // Without the backend, count active rooms of the type against overlapping bookings held locally
+      const countLocalAvailability = (roomTypeId: string, checkIn: string, checkOut: string) => {
+        const rooms = usePropertyStore.getState().rooms.filter((room) => room.roomTypeId === roomTypeId && room.isActive);
+        const start = toDateKey(checkIn);
+        const end = toDateKey(checkOut);
+        const booked = get().reservations.filter(
+          (entry) =>
+            entry.roomTypeId === roomTypeId &&
+            ROOM_HOLDING_STATUSES.includes(entry.status) &&
+            toDateKey(entry.checkIn) < end &&
+            start < toDateKey(entry.checkOut)
+        ).length;
+        return Math.max(rooms.length - booked, 0);
+      };
+
+      // Local-only details (documents, settlement) survive a refresh from the server copy
+      const applyServerRecord = (record: ReservationResponse) => {
+        const mapped = mapFromBackend(record);
+        set((state) => ({
+          reservations: state.reservations.map((entry) =>
+            entry.id === record.id
+              ? {
+                  ...mapped,
+                  checkInDetails: entry.checkInDetails,
+                  checkOutDetails: entry.checkOutDetails,
+                  cancellationDetails: entry.cancellationDetails
+                }
+              : entry
+          ),
+        }));
+        return mapped;
+      };
+
+      // Before any folio exists the backend's paid figure stands in for the folio
+      const accountOf = (reservation: Reservation) => {
+        const folio = useFolioStore.getState();
+        if (!folio.getLedger(reservation.id).length) {
+          return { paid: reservation.amountPaid, credit: reservation.amountPaid };
+        }
+        const paid = folio.getPayments(reservation.id).reduce((sum, payment) => sum + payment.amount, 0);
+        return { paid: round(paid), credit: round(-folio.getBalance(reservation.id)) };
+      };
+
+      const buildCancellationPreview = (
+        reservation: Reservation,
+        kind: CancellationDetails['kind'],
+        options?: CancellationOptions
+      ): CancellationPreview => {
+        const ratePlan = get().ratePlans.find((plan) => plan.id === reservation.ratePlanId);
+        const { penalty, summary } = calculateCancellationPenalty(reservation, ratePlan, kind);
+        const charged = options?.waivePenalty ? 0 : penalty;
+        const { paid, credit } = accountOf(reservation);
+        return {
+          penalty: charged,
+          amountPaid: paid,
+          refundDue: round(Math.max(credit - charged, 0)),
+          outstanding: round(Math.max(charged - Math.max(credit, 0), 0)),
+          policySummary: summary
+        };
+      };
+
+      // The penalty is charged to the folio so it is billed and settled like any other charge
+      const applyCancellationPolicy = async (
+        existing: Reservation,
+        kind: CancellationDetails['kind'],
+        updates: Partial<Reservation>,
+        reason?: string,
+        options?: CancellationOptions
+      ) => {
+        const folio = useFolioStore.getState();
+        // An empty ledger reads as "deposit not posted yet", so it must not be mistaken for one that failed to load
+        try {
+          await folio.hydrateFromBackend(existing.id);
+        } catch {
+          throw new Error('The folio could not be loaded from the server; try again once it is reachable');
+        }
+        const preview = buildCancellationPreview(existing, kind, options);
+        await get().updateReservation(existing.id, updates);
+
+        // A deposit the backend holds must be on the folio first, or the penalty alone would read as owed.
+        // The backend keeps only the amount, not how it was paid, so it goes on as a credit adjustment
+        if (!folio.getLedger(existing.id).length && existing.amountPaid > 0) {
+          folio.postAdjustment(existing.id, -existing.amountPaid, `Deposit held - ${existing.confirmationNumber}`, {
+            source: 'front-desk',
+            sourceRef: 'deposit',
+            postedBy: options?.handledBy
+          });
+        }
+
+        // The policy amount is tax-inclusive, so the GST is carved out of it at the slab the stay was booked in
+        const taxRate = resolveTaxRate(usePropertyStore.getState().taxConfig, 'room', existing.ratePerNight, existing.checkIn);
+        const taxAmount = round(preview.penalty - preview.penalty / (1 + taxRate / 100));
+        const penaltyEntry =
+          preview.penalty > 0
+            ? folio.postCharge(
+                existing.id,
+                {
+                  description: `${kind === 'no-show' ? 'No-show' : 'Cancellation'} fee - ${existing.confirmationNumber}`,
+                  amount: round(preview.penalty - taxAmount),
+                  category: 'other',
+                  quantity: 1,
+                  taxRate,
+                  taxAmount
+                },
+                { source: 'front-desk', sourceRef: kind, postedBy: options?.handledBy }
+              )
+            : undefined;
+
+        const details: CancellationDetails = {
+          kind,
+          reason,
+          penalty: preview.penalty,
+          amountPaid: preview.amountPaid,
+          refundDue: preview.refundDue,
+          outstanding: preview.outstanding,
+          policySummary: options?.waivePenalty ? `${preview.policySummary} (penalty waived)` : preview.policySummary,
+          penaltyEntryId: penaltyEntry?.id,
+          processedAt: new Date().toISOString(),
+          processedBy: options?.handledBy
+        };
+        set((state) => ({
+          reservations: state.reservations.map((entry) =>
+            entry.id === existing.id ? { ...entry, cancellationDetails: details } : entry
+          )
+        }));
+        return details;
+      };
+
+      registerSyncHandler('reservation.create', async (mutation) => {
+        const created = mapFromBackend(await reservationApi.createReservation(mutation.payload as CreateReservationRequest));
+        set((state) => ({
+          reservations: state.reservations.map((entry) =>
+            entry.id === mutation.entityId
+              ? {
+                  ...entry,
+                  id: created.id,
+                  confirmationNumber: created.confirmationNumber,
+                  guest: created.guest,
+                  createdAt: created.createdAt,
+                  updatedAt: created.updatedAt
+                }
+              : entry
+          )
+        }));
+        useFolioStore.getState().reassignReservation(mutation.entityId, created.id);
+        useGroupStore.getState().reassignReservation(mutation.entityId, created.id);
+        return { serverId: created.id, updatedAt: created.updatedAt };
+      });
+
+      registerSyncHandler('reservation.update', async (mutation) => {
+        const server = await reservationApi.fetchReservation(mutation.entityId);
+        if (mutation.baseUpdatedAt && new Date(server.updatedAt) > new Date(mutation.baseUpdatedAt)) {
+          // Someone changed the reservation after the offline edit was made; the server copy wins
+          const mapped = applyServerRecord(server);
+          return {
+            updatedAt: server.updatedAt,
+            conflict: `${mapped.confirmationNumber} was changed on the server at ${format(new Date(server.updatedAt), 'MMM d, h:mm a')}; the offline change was discarded`
+          };
+        }
+
+        const record = await reservationApi.updateReservation(mutation.entityId, mutation.payload as UpdateReservationRequest);
+        applyServerRecord(record);
+        return { updatedAt: record.updatedAt };
+      });
+
       return {
       context: null,
       isHydrated: false,
@@ -367,7 +644,19 @@ export const useReservationStore = create<ReservationState>()(
           console.log('[ReservationStore] Fetching reservations from backend...');
           const records = await reservationApi.fetchReservations();
           console.log('[ReservationStore] Received reservations:', records.length);
-          const reservations = records.map(mapFromBackend);
+          // Reservations with queued offline changes keep their local copy until the queue replays
+          const pending = new Set(useSyncStore.getState().pendingEntityIds);
+          // The penalty and refund worked out at cancellation are only held locally
+          const cancellations = new Map(
+            get().reservations.filter((entry) => entry.cancellationDetails).map((entry) => [entry.id, entry.cancellationDetails])
+          );
+          const reservations = [
+            ...records
+              .map(mapFromBackend)
+              .filter((entry) => !pending.has(entry.id))
+              .map((entry) => (cancellations.has(entry.id) ? { ...entry, cancellationDetails: cancellations.get(entry.id) } : entry)),
+            ...get().reservations.filter((entry) => pending.has(entry.id))
+          ];
           set({ reservations, isHydrated: true, error: null });
         } catch (error) {
           const message = formatError(error, 'Failed to load reservations.');
@@ -391,7 +680,7 @@ export const useReservationStore = create<ReservationState>()(
           throw new Error('Reservation context unavailable. Please login again.');
         }
 
-        const availability = await state.checkAvailability(input.roomTypeId, input.checkIn, input.checkOut);
+        const availability = await state.checkAvailability(input.roomTypeId, input.checkIn, input.checkOut, input.groupId);
         if (!availability.available) {
           throw new Error(availability.message || 'Room not available for the selected dates');
         }
@@ -407,13 +696,18 @@ export const useReservationStore = create<ReservationState>()(
           throw new Error('Unknown room type selected');
         }
 
-        const baseRate = roomType.baseRate || ratePlan.baseRate;
-        const nightlyRate = Math.max(
-          Math.round(baseRate * (1 - ratePlan.discountPercentage / 100)),
-          0
-        );
+        const rateCalendar = useRateCalendarStore.getState();
+        const restriction = rateCalendar.validateStay(roomType.id, ratePlan.id, input.checkIn, input.checkOut);
+        if (restriction) {
+          throw new Error(restriction);
+        }
+
+        // The backend stores a single nightly rate, so send the average of the calendar rates
+        const nightlyRates = rateCalendar.getNightlyRates(roomType, ratePlan, input.checkIn, input.checkOut);
+        const stayTotal = nightlyRates.reduce((sum, night) => sum + night.rate, 0);
+        const nightlyRate = nightlyRates.length ? Number((stayTotal / nightlyRates.length).toFixed(2)) : 0;
 
-        const payload = {
+        const payload: CreateReservationRequest = {
           hotelId: state.context.hotelId,
           hotelCode: state.context.hotelCode,
           guestId: input.guestId,
@@ -431,16 +725,47 @@ export const useReservationStore = create<ReservationState>()(
           currency: 'INR'
         };
 
-        try {
-          const created = await reservationApi.createReservation(payload);
-          const reservation = mapFromBackend(created);
-          set((prev) => ({ reservations: [...prev.reservations, reservation], error: null }));
-          return reservation;
-        } catch (error) {
-          const message = formatError(error, 'Failed to create reservation.');
-          set({ error: message });
-          throw error;
+        const sync = useSyncStore.getState();
+        if (!sync.shouldQueue()) {
+          try {
+            const created = await reservationApi.createReservation(payload);
+            const reservation = mapFromBackend(created);
+            set((prev) => ({ reservations: [...prev.reservations, reservation], error: null }));
+            return reservation;
+          } catch (error) {
+            if (!isNetworkError(error)) {
+              const message = formatError(error, 'Failed to create reservation.');
+              set({ error: message });
+              throw error;
+            }
+          }
         }
+
+        // Backend unreachable: book locally under a temporary id and create it on the server once back
+        const now = new Date().toISOString();
+        const nights = calculateNights(input.checkIn, input.checkOut);
+        const reservation = mapFromBackend({
+          ...payload,
+          id: createOfflineId('res'),
+          status: 'CONFIRMED',
+          isWalkIn: payload.isWalkIn ?? false,
+          billing: {
+            currency: 'INR',
+            totalAmount: nightlyRate * nights,
+            balanceDue: nightlyRate * nights,
+            charges: []
+          },
+          createdAt: now,
+          updatedAt: now
+        });
+        await sync.enqueue({
+          kind: 'reservation.create',
+          entityId: reservation.id,
+          payload,
+          label: `New reservation for ${reservation.guest.firstName} ${reservation.guest.lastName}`.trim()
+        });
+        set((prev) => ({ reservations: [...prev.reservations, reservation], error: null }));
+        return reservation;
       },
       
       updateReservation: async (id, updates) => {
@@ -502,14 +827,15 @@ export const useReservationStore = create<ReservationState>()(
           updated = { ...existing, ...updates, updatedAt: new Date().toISOString() };
         } else {
           try {
-            const record = await reservationApi.updateReservation(id, payload);
-            const mapped = mapFromBackend(record);
-            updated = {
-              ...mapped,
-              checkInDetails: updates.checkInDetails ?? existing.checkInDetails,
-              checkOutDetails: updates.checkOutDetails ?? existing.checkOutDetails,
-              notes: updates.notes ?? mapped.notes
-            };
+            const mapped = await sendUpdate(id, payload, `Update ${existing.confirmationNumber}`);
+            updated = mapped
+              ? {
+                  ...mapped,
+                  checkInDetails: updates.checkInDetails ?? existing.checkInDetails,
+                  checkOutDetails: updates.checkOutDetails ?? existing.checkOutDetails,
+                  notes: updates.notes ?? mapped.notes
+                }
+              : { ...existing, ...updates, updatedAt: new Date().toISOString() };
           } catch (error) {
             const message = formatError(error, 'Failed to update reservation.');
             set({ error: message });
@@ -525,34 +851,112 @@ export const useReservationStore = create<ReservationState>()(
         return updated;
       },
       
-      cancelReservation: async (id, reason) => {
+      cancelReservation: async (id, reason, options) => {
         const existing = get().reservations.find((entry) => entry.id === id);
         if (!existing) {
           throw new Error('Reservation not found');
         }
+        if (existing.status !== 'pending' && existing.status !== 'confirmed') {
+          throw new Error('Only reservations that have not checked in can be cancelled');
+        }
 
         const mergedNotes = reason
           ? `${existing.notes ? `${existing.notes}\n` : ''}Cancellation reason: ${reason}`.trim()
           : existing.notes;
 
-        await get().updateReservation(id, {
-          status: 'cancelled',
-          notes: mergedNotes
-        });
+        const details = await applyCancellationPolicy(
+          existing,
+          'cancellation',
+          { status: 'cancelled', notes: mergedNotes },
+          reason,
+          options
+        );
+        useGroupStore.getState().unlinkReservation(id);
+        return details;
+      },
+
+      markNoShow: async (id, options) => {
+        const existing = get().reservations.find((entry) => entry.id === id);
+        if (!existing) {
+          throw new Error('Reservation not found');
+        }
+        if (existing.status !== 'pending' && existing.status !== 'confirmed') {
+          throw new Error('Only reservations that have not checked in can be marked as a no-show');
+        }
+        if (toDateKey(existing.checkIn) > format(new Date(), 'yyyy-MM-dd')) {
+          throw new Error('A reservation can only be marked as a no-show from its arrival date');
+        }
+
+        return applyCancellationPolicy(existing, 'no-show', { status: 'no-show' }, undefined, options);
+      },
+
+      // A late arrival turning up after all: the booking is live again and its no-show fee is voided
+      reinstateNoShow: async (id, handledBy) => {
+        const existing = get().reservations.find((entry) => entry.id === id);
+        if (!existing) {
+          throw new Error('Reservation not found');
+        }
+        if (existing.status !== 'no-show') {
+          throw new Error('Only no-shows can be reinstated');
+        }
+        const roomNumber = existing.roomNumbers[0];
+        if (roomNumber && get().findRoomConflicts(roomNumber, existing.checkIn, existing.checkOut, id).length) {
+          throw new Error(`Room ${roomNumber} has been given to another booking since; move this reservation first`);
+        }
+
+        const updated = await get().updateReservation(id, { status: 'confirmed' });
+        const penaltyEntryId = existing.cancellationDetails?.penaltyEntryId;
+        const folio = useFolioStore.getState();
+        if (penaltyEntryId && !folio.entries.some((entry) => entry.voidsEntryId === penaltyEntryId)) {
+          folio.voidEntry(penaltyEntryId, 'No-show reinstated', handledBy);
+        }
+        set((state) => ({
+          reservations: state.reservations.map((entry) =>
+            entry.id === id ? { ...entry, cancellationDetails: undefined } : entry
+          )
+        }));
+        return { ...updated, cancellationDetails: undefined };
+      },
+
+      // Night audit: arrivals up to the business date that never checked in are charged the no-show fee
+      processNoShows: async (businessDate, handledBy) => {
+        // Guests checked in on another terminal must not be charged, so the run starts from the server's list
+        await get().hydrateFromBackend();
+        const arrivals = get().reservations.filter(
+          (entry) =>
+            (entry.status === 'pending' || entry.status === 'confirmed') && toDateKey(entry.checkIn) <= businessDate
+        );
+        const run: NoShowRun = { processed: [], failures: [] };
+        for (const reservation of arrivals) {
+          try {
+            await get().markNoShow(reservation.id, { handledBy });
+            run.processed.push(get().reservations.find((entry) => entry.id === reservation.id) ?? reservation);
+          } catch (error) {
+            run.failures.push({ reservation, error: formatError(error, 'Failed to mark the no-show') });
+          }
+        }
+        return run;
       },
       
       checkIn: async ({ reservationId, assignedRooms, documents, handledBy, checkInTime, earlyCheckIn, remarks }) => {
+        // The backend stores one room per reservation; groups book one reservation per room
+        if (assignedRooms.length > 1) {
+          throw new Error('Assign one room per reservation. Use a group booking for multiple rooms.');
+        }
+
+        const existing = get().reservations.find((entry) => entry.id === reservationId);
+        if (!existing) {
+          throw new Error('Reservation not found');
+        }
+
         const property = usePropertyStore.getState();
         const targetRoomNumber = assignedRooms[0];
         const room = targetRoomNumber ? property.rooms.find((entry) => entry.roomNumber === targetRoomNumber) : undefined;
 
         try {
-          const record = await reservationApi.updateReservation(reservationId, {
-            status: 'CHECKED_IN',
-            roomId: room?.id
-          });
-
-          const mapped = mapFromBackend(record);
+          const mapped =
+            (await sendUpdate(reservationId, { status: 'CHECKED_IN', roomId: room?.id }, `Check in ${existing.confirmationNumber}`)) ??
+            { ...existing, status: 'checked-in' as const, updatedAt: new Date().toISOString() };
           const normalizedDocs = normalizeDocuments(documents);
           const timestamp = checkInTime || new Date().toISOString();
 
@@ -582,16 +986,19 @@ export const useReservationStore = create<ReservationState>()(
         }
       },
       
-      checkOut: async ({ reservationId, settlement, lateCheckout, handledBy, guestFeedback, checkOutTime }) => {
+      checkOut: async ({ reservationId, settlement, payers, lateCheckout, handledBy, guestFeedback, checkOutTime }) => {
         const summary = buildSettlementSummary(settlement, handledBy);
         const paymentsTotal = summary.payments.reduce((sum, payment) => sum + payment.amount, 0);
 
-        try {
-          const record = await reservationApi.updateReservation(reservationId, {
-            status: 'CHECKED_OUT'
-          });
+        const existing = get().reservations.find((entry) => entry.id === reservationId);
+        if (!existing) {
+          throw new Error('Reservation not found');
+        }
 
-          const mapped = mapFromBackend(record);
+        try {
+          const mapped =
+            (await sendUpdate(reservationId, { status: 'CHECKED_OUT' }, `Check out ${existing.confirmationNumber}`)) ??
+            { ...existing, status: 'checked-out' as const, updatedAt: new Date().toISOString() };
           const updated: Reservation = {
             ...mapped,
             amountPaid: paymentsTotal,
@@ -603,6 +1010,7 @@ export const useReservationStore = create<ReservationState>()(
                   : 'paid',
             checkOutDetails: {
               settlement: summary,
+              payers,
               lateCheckout,
               checkOutTime: checkOutTime || new Date().toISOString(),
               handledBy,
@@ -623,7 +1031,103 @@ export const useReservationStore = create<ReservationState>()(
         }
       },
       
-      checkAvailability: async (roomTypeId, checkIn, checkOut) => {
+      moveReservation: async (id, { roomNumber, checkIn }) => {
+        const existing = get().reservations.find((entry) => entry.id === id);
+        if (!existing) {
+          throw new Error('Reservation not found');
+        }
+        if (!ROOM_HOLDING_STATUSES.includes(existing.status)) {
+          throw new Error('Only active reservations can be moved');
+        }
+
+        const room = usePropertyStore.getState().rooms.find((entry) => entry.roomNumber === roomNumber);
+        if (!room || !room.isActive) {
+          throw new Error(`Room ${roomNumber} is not available`);
+        }
+
+        // An in-house guest can change rooms but not their arrival date; as with check-in and check-out,
+        // the screen making the move turns the two rooms' statuses over
+        const targetCheckIn = existing.status === 'checked-in' ? toDateKey(existing.checkIn) : toDateKey(checkIn);
+        const targetCheckOut = shiftDateKey(targetCheckIn, existing.nights);
+
+        const conflicts = get().findRoomConflicts(roomNumber, targetCheckIn, targetCheckOut, id);
+        if (conflicts.length > 0) {
+          const labels = conflicts.map((entry) => entry.confirmationNumber).join(', ');
+          throw new Error(`Room ${roomNumber} is already booked for these dates (${labels})`);
+        }
+
+        const workOrders = useMaintenanceStore.getState().getOutOfOrderOrders(room.id, targetCheckIn, targetCheckOut);
+        if (workOrders.length > 0) {
+          const labels = workOrders.map((order) => order.number).join(', ');
+          throw new Error(`Room ${roomNumber} is out of order for these dates (${labels})`);
+        }
+
+        const updates: Partial<Reservation> = { roomNumbers: [roomNumber] };
+        if (targetCheckIn !== toDateKey(existing.checkIn)) {
+          updates.checkIn = targetCheckIn;
+          updates.checkOut = targetCheckOut;
+        }
+        if (room.roomTypeId !== existing.roomTypeId) {
+          updates.roomTypeId = room.roomTypeId;
+        }
+
+        return get().updateReservation(id, updates);
+      },
+      
+      // Creates a reservation for each rooming list entry that has not been picked up yet
+      pickUpGroupRooms: async (groupId, entryIds) => {
+        const groups = useGroupStore.getState();
+        const group = groups.groups.find((entry) => entry.id === groupId);
+        if (!group) {
+          throw new Error('Group booking not found');
+        }
+        if (group.status === 'cancelled') {
+          throw new Error('This group booking is cancelled');
+        }
+
+        const pending = group.roomingList.filter(
+          (entry) => !entry.reservationId && (!entryIds || entryIds.includes(entry.id))
+        );
+        const created: Reservation[] = [];
+
+        // Sequential so each pickup sees the availability left by the previous one
+        for (const entry of pending) {
+          const reservation = await get().createReservation({
+            guestId: entry.guestId,
+            roomTypeId: entry.roomTypeId,
+            checkIn: entry.checkIn,
+            checkOut: entry.checkOut,
+            adults: entry.adults,
+            children: entry.children,
+            ratePlanId: group.ratePlanId,
+            source: 'phone',
+            notes: [`Group ${group.code} - ${group.name}`, entry.notes].filter(Boolean).join('\n'),
+            groupId
+          });
+          groups.linkReservation(groupId, entry.id, reservation.id);
+
+          created.push(
+            entry.roomNumber ? await get().updateReservation(reservation.id, { roomNumbers: [entry.roomNumber] }) : reservation
+          );
+        }
+
+        return created;
+      },
+      
+      findRoomConflicts: (roomNumber, checkIn, checkOut, excludeId) => {
+        const start = toDateKey(checkIn);
+        const end = toDateKey(checkOut);
+        return get().reservations.filter(
+          (entry) =>
+            entry.id !== excludeId &&
+            ROOM_HOLDING_STATUSES.includes(entry.status) &&
+            entry.roomNumbers.includes(roomNumber) &&
+            toDateKey(entry.checkIn) < end &&
+            start < toDateKey(entry.checkOut)
+        );
+      },
+
+      checkAvailability: async (roomTypeId, checkIn, checkOut, groupId) => {
         const property = usePropertyStore.getState();
         const roomType = property.roomTypes.find((entry) => entry.id === roomTypeId);
 
@@ -635,42 +1139,108 @@ export const useReservationStore = create<ReservationState>()(
           };
         }
 
+        let baseAvailable: number;
+        let held: number;
+        let isEstimate = false;
         try {
+          // Group blocks are stored on the server, which holds them back for every terminal and channel
           const result = await reservationApi.checkAvailability({
             arrivalDate: checkIn,
             departureDate: checkOut,
-            roomType: roomType.shortCode
+            roomType: roomType.shortCode,
+            groupId
           });
-
-          if (result.totalAvailable <= 0) {
+          baseAvailable = result.totalAvailable;
+          held = result.heldForGroups ?? 0;
+        } catch (error) {
+          if (!isNetworkError(error)) {
             return {
               available: false,
               availableRooms: 0,
-              message: 'No rooms available for selected dates'
+              message: formatError(error, 'Failed to check availability')
             };
           }
+          // Unpicked group block rooms are held back from everyone but their own group
+          held = useGroupStore.getState().getHeldRooms(roomTypeId, checkIn, checkOut, groupId);
+          baseAvailable = countLocalAvailability(roomTypeId, checkIn, checkOut) - held;
+          isEstimate = true;
+        }
 
-          if (result.totalAvailable <= 2) {
-            return {
-              available: true,
-              availableRooms: result.totalAvailable,
-              message: `Only ${result.totalAvailable} room(s) remaining`
-            };
-          }
+        const outOfOrder = useMaintenanceStore.getState().getBlockedRooms(roomTypeId, checkIn, checkOut);
+        const totalAvailable = Math.max(baseAvailable - outOfOrder, 0);
+        const estimateNote = isEstimate ? ' (offline estimate)' : '';
 
-          return {
-            available: true,
-            availableRooms: result.totalAvailable
-          };
-        } catch (error) {
+        if (totalAvailable <= 0) {
+          const reasons = [
+            held > 0 ? `${held} held for group blocks` : '',
+            outOfOrder > 0 ? `${outOfOrder} out of order` : ''
+          ].filter(Boolean);
           return {
             available: false,
             availableRooms: 0,
-            message: formatError(error, 'Failed to check availability')
+            message: reasons.length
+              ? `No rooms available for selected dates (${reasons.join(', ')})${estimateNote}`
+              : `No rooms available for selected dates${estimateNote}`
+          };
+        }
+
+        if (totalAvailable <= 2 || isEstimate) {
+          return {
+            available: true,
+            availableRooms: totalAvailable,
+            message: totalAvailable <= 2
+              ? `Only ${totalAvailable} room(s) remaining${estimateNote}`
+              : 'Offline: availability estimated from local bookings'
           };
         }
+
+        return {
+          available: true,
+          availableRooms: totalAvailable
+        };
       },
       
+      previewCancellation: (id, kind, options) => {
+        const reservation = get().reservations.find((entry) => entry.id === id);
+        if (!reservation) {
+          throw new Error('Reservation not found');
+        }
+        return buildCancellationPreview(reservation, kind, options);
+      },
+
+      getDepositStatus: (id) => {
+        const reservation = get().reservations.find((entry) => entry.id === id);
+        if (!reservation) {
+          return null;
+        }
+        const ratePlan = get().ratePlans.find((plan) => plan.id === reservation.ratePlanId);
+        const requirement = getDepositRequirement(reservation, ratePlan);
+        if (!requirement) {
+          return null;
+        }
+        const { paid } = accountOf(reservation);
+        const outstanding = round(Math.max(requirement.amount - paid, 0));
+        return {
+          ...requirement,
+          paid,
+          outstanding,
+          isOverdue:
+            outstanding > 0 &&
+            (reservation.status === 'pending' || reservation.status === 'confirmed') &&
+            requirement.dueDate < format(new Date(), 'yyyy-MM-dd')
+        };
+      },
+
+      getStayRates: (id) => {
+        const reservation = get().reservations.find((entry) => entry.id === id);
+        const ratePlan = reservation && get().ratePlans.find((plan) => plan.id === reservation.ratePlanId);
+        const roomType = reservation && usePropertyStore.getState().roomTypes.find((entry) => entry.id === reservation.roomTypeId);
+        if (!reservation || !ratePlan || !roomType) {
+          return [];
+        }
+        return useRateCalendarStore.getState().getNightlyRates(roomType, ratePlan, reservation.checkIn, reservation.checkOut);
+      },
+
       addRatePlan: (plan) => {
         set((state) => ({
           ratePlans: [...state.ratePlans, { ...plan, id: generateId() }],
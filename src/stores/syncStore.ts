@@ -0,0 +1,249 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { nanoid } from 'nanoid/non-secure';
+import type { QueuedMutation, SyncConflict, SyncMutationKind } from '../types';
+import { isNetworkError, offlineQueue } from '../lib/offlineQueue';
+
+export interface SyncOutcome {
+  // Server id of a record that was created offline under a temporary id
+  serverId?: string;
+  // Server updatedAt after the mutation was applied
+  updatedAt?: string;
+  // Set when the server copy won and the queued change was discarded
+  conflict?: string;
+}
+
+type SyncHandler = (mutation: QueuedMutation) => Promise<SyncOutcome>;
+
+interface EnqueueInput {
+  kind: SyncMutationKind;
+  entityId: string;
+  payload: unknown;
+  label: string;
+  baseUpdatedAt?: string;
+}
+
+interface SyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  pendingEntityIds: string[];
+  lastSyncedAt?: string;
+  lastError: string | null;
+  conflicts: SyncConflict[];
+
+  initialize: () => () => void;
+  refreshQueue: () => Promise<void>;
+  shouldQueue: () => boolean;
+  enqueue: (input: EnqueueInput) => Promise<QueuedMutation>;
+  replay: () => Promise<void>;
+  dismissConflict: (id: string) => void;
+  // Changes queued in one session must never replay under the next user or hotel
+  clearQueue: () => Promise<void>;
+}
+
+const handlers = new Map<SyncMutationKind, SyncHandler>();
+
+/**
+ * Stores register how each queued mutation kind is replayed against the backend
+ */
+export const registerSyncHandler = (kind: SyncMutationKind, handler: SyncHandler) => {
+  handlers.set(kind, handler);
+};
+
+export const createOfflineId = (prefix: string) => `offline-${prefix}-${nanoid(8)}`;
+
+const RETRY_INTERVAL_MS = 30000;
+
+// Swaps temporary ids for server ids anywhere inside a queued payload
+const remapIds = (value: unknown, idMap: Map<string, string>): unknown => {
+  if (typeof value === 'string') {
+    return idMap.get(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => remapIds(item, idMap));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, remapIds(item, idMap)]));
+  }
+  return value;
+};
+
+const formatError = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+export const useSyncStore = create<SyncState>()(
+  persist(
+    (set, get) => {
+      const addConflict = (mutation: QueuedMutation, reason: SyncConflict['reason'], message: string) => {
+        const conflict: SyncConflict = {
+          id: nanoid(10),
+          kind: mutation.kind,
+          entityId: mutation.entityId,
+          label: mutation.label,
+          reason,
+          message,
+          queuedAt: mutation.queuedAt,
+          detectedAt: new Date().toISOString(),
+        };
+        set((state) => ({ conflicts: [conflict, ...state.conflicts].slice(0, 50) }));
+      };
+
+      return {
+        isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+        isSyncing: false,
+        pendingCount: 0,
+        pendingEntityIds: [],
+        lastError: null,
+        conflicts: [],
+
+        initialize: () => {
+          const handleOnline = () => {
+            set({ isOnline: true });
+            get().replay().catch(() => undefined);
+          };
+          const handleOffline = () => set({ isOnline: false });
+
+          window.addEventListener('online', handleOnline);
+          window.addEventListener('offline', handleOffline);
+          // navigator.onLine misses an unreachable backend, so keep retrying while work is queued
+          const timer = window.setInterval(() => {
+            if (get().pendingCount > 0 && navigator.onLine) {
+              get().replay().catch(() => undefined);
+            }
+          }, RETRY_INTERVAL_MS);
+
+          get()
+            .refreshQueue()
+            .then(() => (navigator.onLine ? get().replay() : undefined))
+            .catch(() => undefined);
+
+          return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+            window.clearInterval(timer);
+          };
+        },
+
+        refreshQueue: async () => {
+          const mutations = await offlineQueue.list();
+          set({
+            pendingCount: mutations.length,
+            pendingEntityIds: Array.from(new Set(mutations.map((mutation) => mutation.entityId))),
+          });
+        },
+
+        // Once anything is queued, later writes queue behind it so the server sees them in order
+        shouldQueue: () => !get().isOnline || get().pendingCount > 0,
+
+        enqueue: async ({ kind, entityId, payload, label, baseUpdatedAt }) => {
+          const queued = await offlineQueue.list();
+          // Chained offline edits all compare against the server copy the first edit started from
+          const earlier = queued.find((mutation) => mutation.entityId === entityId);
+          const mutation: QueuedMutation = {
+            id: nanoid(12),
+            sequence: (queued[queued.length - 1]?.sequence ?? 0) + 1,
+            kind,
+            entityId,
+            payload,
+            label,
+            baseUpdatedAt: earlier ? earlier.baseUpdatedAt : baseUpdatedAt,
+            queuedAt: new Date().toISOString(),
+            attempts: 0,
+          };
+          await offlineQueue.put(mutation);
+          await get().refreshQueue();
+          return mutation;
+        },
+
+        // Replays queued mutations oldest first, stopping at the first one the backend cannot be reached for
+        replay: async () => {
+          if (get().isSyncing) {
+            return;
+          }
+          set({ isSyncing: true, lastError: null });
+
+          const idMap = new Map<string, string>();
+          const serverVersions = new Map<string, string>();
+
+          try {
+            const mutations = await offlineQueue.list();
+            for (const queued of mutations) {
+              const handler = handlers.get(queued.kind);
+              if (!handler) {
+                continue;
+              }
+
+              const entityId = idMap.get(queued.entityId) ?? queued.entityId;
+              const mutation: QueuedMutation = {
+                ...queued,
+                entityId,
+                payload: remapIds(queued.payload, idMap),
+                baseUpdatedAt: serverVersions.get(entityId) ?? queued.baseUpdatedAt,
+                attempts: queued.attempts + 1,
+              };
+
+              try {
+                const outcome = await handler(mutation);
+                if (outcome.serverId) {
+                  idMap.set(queued.entityId, outcome.serverId);
+                }
+                if (outcome.updatedAt) {
+                  serverVersions.set(outcome.serverId ?? entityId, outcome.updatedAt);
+                }
+                if (outcome.conflict) {
+                  addConflict(mutation, 'server-newer', outcome.conflict);
+                }
+                await offlineQueue.remove(queued.id);
+              } catch (error) {
+                if (isNetworkError(error)) {
+                  await offlineQueue.put({ ...mutation, entityId: queued.entityId, lastError: formatError(error, 'Network error') });
+                  set({ isOnline: navigator.onLine, lastError: 'Backend unreachable; changes will sync when it is back' });
+                  break;
+                }
+                // The backend rejected the change outright; surface it instead of blocking the queue
+                addConflict(mutation, 'rejected', formatError(error, 'Rejected by the server'));
+                await offlineQueue.remove(queued.id);
+              }
+            }
+
+            // Ids created during this run must also reach mutations left in the queue
+            if (idMap.size) {
+              const remaining = await offlineQueue.list();
+              await Promise.all(
+                remaining.map((mutation) =>
+                  offlineQueue.put({
+                    ...mutation,
+                    entityId: idMap.get(mutation.entityId) ?? mutation.entityId,
+                    payload: remapIds(mutation.payload, idMap),
+                  })
+                )
+              );
+            }
+
+            await get().refreshQueue();
+            if (get().pendingCount === 0) {
+              set({ lastSyncedAt: new Date().toISOString(), isOnline: true });
+            }
+          } catch (error) {
+            set({ lastError: formatError(error, 'Sync failed') });
+          } finally {
+            set({ isSyncing: false });
+          }
+        },
+
+        dismissConflict: (id) => {
+          set((state) => ({ conflicts: state.conflicts.filter((conflict) => conflict.id !== id) }));
+        },
+
+        clearQueue: async () => {
+          await offlineQueue.clear();
+          set({ pendingCount: 0, pendingEntityIds: [], lastError: null, conflicts: [], lastSyncedAt: undefined });
+        },
+      };
+    },
+    {
+      name: 'sync-storage',
+      partialize: (state) => ({ conflicts: state.conflicts, lastSyncedAt: state.lastSyncedAt }),
+    }
+  )
+);
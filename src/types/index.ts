@@ -115,6 +115,18 @@ export interface TaxConfiguration {
   serviceChargePercentage: number;
   luxuryTaxEnabled: boolean;
   luxuryTaxPercentage: number;
+  taxRules?: TaxRule[];
+}
+
+// GST rate for a charge category within a tariff slab; the flat cgst + sgst applies when no rule matches
+export interface TaxRule {
+  id: string;
+  category: ChargeCategory | 'all';
+  minTariff: number;
+  maxTariff?: number;
+  rate: number;
+  effectiveFrom: string;
+  effectiveTo?: string;
 }
 
 export interface Guest {
@@ -200,6 +212,7 @@ export interface Reservation {
   notes?: string;
   checkInDetails?: CheckInDetails;
   checkOutDetails?: CheckOutDetails;
+  cancellationDetails?: CancellationDetails;
   createdAt: string;
   updatedAt: string;
   createdBy: string;
@@ -224,6 +237,61 @@ export interface RatePlan {
   discountPercentage: number;
   isActive: boolean;
   description?: string;
+  depositPolicy?: DepositPolicy;
+  cancellationPolicy?: CancellationPolicy;
+}
+
+// How a deposit or penalty is sized from the booking value
+export type PolicyChargeType = 'none' | 'first-night' | 'percentage' | 'full-stay';
+
+export interface DepositPolicy {
+  type: PolicyChargeType;
+  percentage?: number;
+  dueDaysBeforeArrival: number; // 0 means due on arrival day; never earlier than the booking date
+}
+
+export interface CancellationPolicy {
+  // Cancelling inside this many hours before arrival incurs the penalty
+  freeCancellationHours: number;
+  nonRefundable: boolean; // the penalty applies however early the booking is cancelled
+  penalty: PolicyChargeType;
+  penaltyPercentage?: number;
+  noShowPenalty: PolicyChargeType;
+  noShowPercentage?: number;
+}
+
+export interface CancellationDetails {
+  kind: 'cancellation' | 'no-show';
+  reason?: string;
+  penalty: number;
+  amountPaid: number;
+  refundDue: number;
+  outstanding: number; // penalty still owed after applying what was paid
+  policySummary: string;
+  penaltyEntryId?: string; // folio charge carrying the penalty
+  processedAt: string;
+  processedBy?: string;
+}
+
+export interface RateRestrictions {
+  minStay?: number;
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+}
+
+export interface RateCalendarEntry extends RateRestrictions {
+  id: string;
+  roomTypeId: string;
+  ratePlanId: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+  updatedAt: string;
+}
+
+export interface NightlyRate {
+  date: string;
+  rate: number;
+  isOverride: boolean; // false when falling back to the room type / rate plan default
 }
 
 export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'refunded';
@@ -259,12 +327,25 @@ export interface EarlyCheckInDetail {
   remarks?: string;
 }
 
+export type ChargeCategory =
+  | 'room'
+  | 'extra-bed'
+  | 'mini-bar'
+  | 'restaurant'
+  | 'laundry'
+  | 'transport'
+  | 'late-checkout'
+  | 'early-checkin'
+  | 'other';
+
 export interface ChargeItem {
   id: string;
   description: string;
-  amount: number;
-  category: 'room' | 'mini-bar' | 'restaurant' | 'laundry' | 'late-checkout' | 'early-checkin' | 'other';
+  amount: number; // pre-tax amount
+  category: ChargeCategory;
   taxAmount?: number;
+  quantity?: number;
+  taxRate?: number;
 }
 
 export interface PaymentRecord {
@@ -277,6 +358,61 @@ export interface PaymentRecord {
   notes?: string;
 }
 
+// ========================================
+// Payment Gateway Types
+// ========================================
+
+export type PaymentProviderKind = 'mock' | 'gateway';
+
+export type PaymentIntentMethod = 'upi' | 'card';
+
+// authorized is a card hold awaiting capture; captured is money received
+export type PaymentIntentStatus = 'pending' | 'authorized' | 'captured' | 'failed' | 'cancelled' | 'expired' | 'refunded';
+
+// Where a confirmed payment is written: a reservation's folio or a POS order
+export type PaymentTarget =
+  | { type: 'folio'; reservationId: string; folioId?: string; source?: FolioEntrySource }
+  | { type: 'pos'; orderId: string; shiftId?: string };
+
+export interface PaymentRefund {
+  id: string;
+  amount: number;
+  reason: string;
+  providerRef?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface PaymentIntent {
+  id: string;
+  provider: PaymentProviderKind;
+  providerRef?: string; // gateway order id
+  paymentRef?: string; // gateway payment id, written to the payment record once confirmed
+  method: PaymentIntentMethod;
+  captureMode: 'auto' | 'manual'; // manual places a card hold, e.g. for a deposit
+  status: PaymentIntentStatus;
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  description: string;
+  target: PaymentTarget;
+  upiUri?: string;
+  failureReason?: string;
+  refunds: PaymentRefund[];
+  postedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt?: string;
+  createdBy: string;
+}
+
+export interface PaymentGatewaySettings {
+  provider: PaymentProviderKind;
+  upiVpa: string;
+  payeeName: string;
+  qrExpiryMinutes: number;
+}
+
 export interface SettlementSummary {
   roomCharges: number;
   additionalCharges: ChargeItem[];
@@ -288,6 +424,105 @@ export interface SettlementSummary {
   notes?: string;
 }
 
+// ========================================
+// Folio Ledger Types
+// ========================================
+
+export type FolioEntryType = 'charge' | 'payment' | 'adjustment' | 'void';
+
+export type FolioEntrySource = 'front-desk' | 'billing' | 'checkout' | 'pos' | 'housekeeping' | 'system';
+
+export interface Folio {
+  id: string;
+  reservationId: string;
+  label: string;
+  payerName?: string;
+  // Set when a company pays this folio and needs a B2B invoice
+  payerGstin?: string;
+  isPrimary: boolean;
+  status: 'open' | 'closed';
+  createdAt: string;
+  closedAt?: string;
+}
+
+export interface FolioEntry {
+  id: string;
+  folioId: string;
+  reservationId: string;
+  type: FolioEntryType;
+  description: string;
+  // Signed effect on the balance: charges are positive, payments and credits negative
+  amount: number;
+  charge?: ChargeItem;
+  payment?: PaymentRecord;
+  voidsEntryId?: string;
+  reason?: string;
+  source: FolioEntrySource;
+  sourceRef?: string;
+  postedAt: string;
+  postedBy?: string;
+}
+
+export interface FolioRoutingRule {
+  id: string;
+  reservationId: string;
+  category: ChargeCategory;
+  folioId: string;
+}
+
+// ========================================
+// GST Tax Document Types
+// ========================================
+
+export type GstSupplyType = 'intra-state' | 'inter-state';
+
+export type TaxDocumentType = 'invoice' | 'credit-note' | 'debit-note';
+
+export interface TaxDocumentLine {
+  description: string;
+  category: ChargeCategory;
+  hsnSac: string;
+  quantity: number;
+  unitAmount: number;
+  taxableAmount: number;
+  taxRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  sourceEntryId?: string;
+}
+
+export interface TaxDocument {
+  id: string;
+  type: TaxDocumentType;
+  number: string;
+  series: string;
+  sequence: number;
+  financialYear: string;
+  hotelCode: string;
+  hotelGstin: string;
+  reservationId: string;
+  folioId?: string;
+  // Credit and debit notes always point at the invoice they amend
+  referenceDocumentId?: string;
+  referenceNumber?: string;
+  reason?: string;
+  issueDate: string;
+  billedTo: string;
+  buyerGstin?: string;
+  placeOfSupply: string;
+  supplyType: GstSupplyType;
+  lines: TaxDocumentLine[];
+  taxableTotal: number;
+  cgstTotal: number;
+  sgstTotal: number;
+  igstTotal: number;
+  grandTotal: number;
+  issuedBy?: string;
+  createdAt: string;
+}
+
 export interface CheckInDetails {
   documents: IdentityDocument[];
   assignedRooms: string[];
@@ -304,8 +539,21 @@ export interface LateCheckoutDetail {
   approvedBy?: string;
 }
 
+// What one payer owed and paid when a stay was split across folios
+export interface PayerSettlement {
+  folioId: string;
+  label: string;
+  payerName: string;
+  payerGstin?: string;
+  charges: number;
+  payments: PaymentRecord[];
+  balanceDue: number;
+  invoiceNumbers: string[];
+}
+
 export interface CheckOutDetails {
   settlement: SettlementSummary;
+  payers?: PayerSettlement[];
   lateCheckout?: LateCheckoutDetail;
   checkOutTime: string;
   handledBy?: string;
@@ -324,6 +572,60 @@ export interface ReservationInput {
   otaSource?: OTASource;
   specialRequests?: string;
   notes?: string;
+  // Picks up a room from this group's block instead of general inventory
+  groupId?: string;
+}
+
+export type GroupBookingType = 'wedding' | 'corporate' | 'tour' | 'conference' | 'other';
+
+export type GroupBookingStatus = 'tentative' | 'definite' | 'released' | 'cancelled';
+
+// Rooms held for one room type on one night
+export interface RoomBlock {
+  roomTypeId: string;
+  date: string;
+  rooms: number;
+  // Rooms returned to general inventory at or after the cutoff
+  released: number;
+}
+
+export interface RoomingListEntry {
+  id: string;
+  guestId: string;
+  roomTypeId: string;
+  checkIn: string;
+  checkOut: string;
+  adults: number;
+  children: number;
+  roomNumber?: string;
+  // Set once the entry has been picked up as a reservation
+  reservationId?: string;
+  notes?: string;
+}
+
+export interface GroupBooking {
+  id: string;
+  code: string;
+  name: string;
+  type: GroupBookingType;
+  contactName: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  ratePlanId: string;
+  checkIn: string;
+  checkOut: string;
+  // Unpicked rooms go back to general inventory after this date
+  cutoffDate: string;
+  status: GroupBookingStatus;
+  blocks: RoomBlock[];
+  roomingList: RoomingListEntry[];
+  // Shared charges are posted to a folio filed under masterLedgerKey(group id), not under any reservation
+  masterFolioId?: string;
+  // Members' charges in these categories are routed to the master folio
+  masterRouting?: ChargeCategory[];
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface Transaction {
@@ -364,19 +666,149 @@ export interface DashboardStats {
   expectedRevenue: number;
 }
 
+// departure is a full clean after checkout, stayover a service clean for an in-house guest
+export type HousekeepingTaskType = 'cleaning' | 'departure' | 'stayover' | 'maintenance' | 'inspection' | 'turndown';
+
+export type HousekeepingTaskStatus = 'pending' | 'in-progress' | 'completed' | 'inspected';
+
 export interface HousekeepingTask {
   id: string;
   roomId: string;
-  room: Room;
-  taskType: 'cleaning' | 'maintenance' | 'inspection' | 'turndown';
+  roomNumber: string;
+  reservationId?: string;
+  businessDate: string; // yyyy-MM-dd the task was planned for
+  taskType: HousekeepingTaskType;
   priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'pending' | 'in-progress' | 'completed';
-  assignedTo?: string;
-  assignedStaff?: User;
+  status: HousekeepingTaskStatus;
+  assignedTo?: string; // user id
+  assignedToName?: string;
+  maintenance: boolean;
   estimatedTime: number; // in minutes
   notes?: string;
   createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
   completedAt?: string;
+  inspectedAt?: string;
+  inspectedBy?: string;
+}
+
+export type WorkOrderCategory =
+  | 'plumbing'
+  | 'electrical'
+  | 'hvac'
+  | 'furniture'
+  | 'appliance'
+  | 'carpentry'
+  | 'painting'
+  | 'other';
+
+export type WorkOrderStatus = 'open' | 'in-progress' | 'on-hold' | 'closed';
+
+export interface WorkOrderNote {
+  id: string;
+  text: string;
+  author: string;
+  createdAt: string;
+}
+
+export interface WorkOrder {
+  id: string;
+  number: string; // WO-0001, allocated by the server
+  roomId: string;
+  roomNumber: string;
+  title: string;
+  description?: string;
+  category: WorkOrderCategory;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  status: WorkOrderStatus;
+  outOfOrder: boolean; // takes the room out of inventory from startDate until expectedReturnDate
+  startDate: string; // yyyy-MM-dd
+  expectedReturnDate?: string; // yyyy-MM-dd, first night the room can be sold again
+  assignedTo?: string; // user id
+  assignedToName?: string;
+  photos: string[]; // uploaded photo URLs
+  notes: WorkOrderNote[];
+  reportedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string;
+  closedBy?: string;
+  resolution?: string;
+}
+
+export type LostItemCategory =
+  | 'electronics'
+  | 'documents'
+  | 'jewellery'
+  | 'clothing'
+  | 'money'
+  | 'toiletries'
+  | 'other';
+
+export type LostItemStatus = 'stored' | 'claimed' | 'shipped' | 'disposed';
+
+export interface LostItemEvent {
+  id: string;
+  action: string;
+  by: string;
+  at: string;
+}
+
+export interface LostItem {
+  id: string;
+  number: string; // LF-0001
+  description: string;
+  category: LostItemCategory;
+  roomId: string;
+  roomNumber: string;
+  foundAt: string;
+  foundBy: string;
+  housekeepingTaskId?: string;
+  storageLocation?: string;
+  photo?: string; // uploaded photo URL
+  status: LostItemStatus;
+  guestId?: string;
+  guestName?: string;
+  guestPhone?: string;
+  reservationId?: string;
+  claimedBy?: string;
+  shippingCarrier?: string;
+  trackingNumber?: string;
+  shippingAddress?: string;
+  disposalMethod?: 'donated' | 'discarded' | 'handed-to-police';
+  lastNotifiedAt?: string;
+  history: LostItemEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AmenityCategory = Extract<ChargeCategory, 'mini-bar' | 'laundry'>;
+
+export interface AmenityItem {
+  id: string;
+  name: string;
+  category: AmenityCategory;
+  price: number; // pre-tax, per unit or piece
+  taxRate?: number; // falls back to the GST rules for the category
+  stock?: number; // minibar items only
+  parLevel?: number; // units stocked per room
+  isActive: boolean;
+}
+
+export interface AmenityPosting {
+  id: string;
+  itemId: string;
+  itemName: string;
+  category: AmenityCategory;
+  roomId: string;
+  roomNumber: string;
+  reservationId: string;
+  quantity: number;
+  unitPrice: number;
+  folioEntryId: string;
+  postedBy: string;
+  postedAt: string;
 }
 
 export interface Report {
@@ -389,7 +821,37 @@ export interface Report {
   };
   generatedAt: string;
   generatedBy: string;
-  data: unknown;
+  data: ReportData;
+}
+
+export type ReportValueFormat = 'text' | 'number' | 'currency' | 'percent';
+
+export type ReportCell = string | number;
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  format: ReportValueFormat;
+}
+
+export interface ReportMetric {
+  label: string;
+  value: number;
+  format: ReportValueFormat;
+}
+
+export interface ReportChart {
+  kind: 'line' | 'bar' | 'pie';
+  xKey: string;
+  series: Array<{ key: string; label: string }>;
+  data: Array<Record<string, ReportCell>>;
+}
+
+export interface ReportData {
+  summary: ReportMetric[];
+  columns: ReportColumn[];
+  rows: Array<Record<string, ReportCell>>;
+  chart?: ReportChart;
 }
 
 export type ReportType = 
@@ -398,13 +860,106 @@ export type ReportType =
   | 'guest-demographics'
   | 'housekeeping'
   | 'cancellations'
-  | 'no-shows';
+  | 'no-shows'
+  | 'manager-flash';
+
+export type ReportScheduleFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type ReportDeliveryChannel = 'whatsapp' | 'email';
+
+// text sends the summary only; csv and html also attach the detail rows
+export type ReportDeliveryFormat = 'text' | 'csv' | 'html';
+
+export interface ReportRecipient {
+  id: string;
+  name: string;
+  channel: ReportDeliveryChannel;
+  // Phone number for WhatsApp, address for email
+  address: string;
+}
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  reportType: ReportType;
+  frequency: ReportScheduleFrequency;
+  sendTime: string; // HH:mm, hotel local time
+  dayOfWeek?: number; // 0 = Sunday, weekly schedules
+  dayOfMonth?: number; // 1-28, monthly schedules
+  format: ReportDeliveryFormat;
+  recipients: ReportRecipient[];
+  whatsappTemplateId?: string;
+  isActive: boolean;
+  nextRunAt: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportDelivery {
+  id: string;
+  scheduleId: string;
+  reportId: string;
+  reportTitle: string;
+  dateRange: Report['dateRange'];
+  recipientName: string;
+  channel: ReportDeliveryChannel;
+  address: string;
+  status: 'sent' | 'failed';
+  error?: string;
+  deliveredAt: string;
+}
 
 // POS Types
+export type POSOutletKind = 'restaurant' | 'bar' | 'room-service' | 'cafe';
+
+export interface POSOutlet {
+  id: string;
+  name: string;
+  kind: POSOutletKind;
+  kotPrefix: string;
+  kotSequence: number; // last KOT number issued
+  serviceChargePercent: number;
+  taxPercent: number;
+  pricesIncludeTax: boolean;
+  folioCategory: ChargeCategory; // category used when the bill is charged to a room
+  isActive: boolean;
+}
+
 export type POSMenuCategory = 'food' | 'beverage' | 'dessert' | 'other';
 
+// Sizes are priced outright rather than as a difference from the base price
+export interface POSMenuVariant {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface POSModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number;
+  isAvailable?: boolean;
+}
+
+export interface POSModifierGroup {
+  id: string;
+  name: string;
+  minChoices: number; // above zero makes the group required
+  maxChoices: number;
+  options: POSModifierOption[];
+}
+
+// One course of a combo; the guest picks one of the listed menu items
+export interface POSComboSlot {
+  id: string;
+  name: string;
+  itemIds: string[];
+}
+
 export interface POSMenuItem {
   id: string;
+  outletId?: string; // records from before outlets belong to the first outlet
   name: string;
   category: POSMenuCategory;
   price: number;
@@ -412,16 +967,51 @@ export interface POSMenuItem {
   isAvailable: boolean;
   tags?: string[];
   printerRoute?: 'main' | 'bar' | 'dessert';
+  variants?: POSMenuVariant[];
+  modifierGroups?: POSModifierGroup[];
+  comboSlots?: POSComboSlot[]; // set on combo meals; each pick goes to its own item's station
 }
 
 export type POSTableStatus = 'vacant' | 'occupied' | 'reserved' | 'needs-assistance';
 
+export type POSTableShape = 'square' | 'round' | 'rectangle';
+
 export interface POSTable {
   id: string;
+  outletId?: string;
   label: string;
   seats: number;
   status: POSTableStatus;
-  activeOrderId?: string;
+  activeOrderId?: string; // joined tables carry the same order as the table they were merged into
+  section?: string;
+  shape?: POSTableShape;
+  x?: number; // centre on the floor plan, as a percentage of its width
+  y?: number; // and of its height
+  mergedInto?: string;
+  serverId?: string;
+  serverName?: string;
+}
+
+export interface POSLineModifier {
+  groupId: string;
+  optionId: string;
+  name: string;
+  priceDelta: number;
+}
+
+export interface POSComboPick {
+  slotId: string;
+  itemId: string;
+  name: string;
+}
+
+/**
+ * Choices made when adding an item that has sizes, modifiers or combo courses
+ */
+export interface POSLineSelection {
+  variantId?: string;
+  modifierOptionIds?: string[];
+  comboPicks?: Record<string, string>; // slot id to menu item id
 }
 
 export interface POSOrderLine {
@@ -429,7 +1019,11 @@ export interface POSOrderLine {
   itemId: string;
   name: string;
   quantity: number;
-  unitPrice: number;
+  unitPrice: number; // variant or base price plus modifier deltas
+  variantId?: string;
+  variantName?: string;
+  modifiers?: POSLineModifier[];
+  comboPicks?: POSComboPick[];
   notes?: string;
   status: 'pending' | 'preparing' | 'served';
 }
@@ -446,10 +1040,12 @@ export interface POSPayment {
   amount: number;
   createdAt: string;
   reference?: string;
+  shiftId?: string; // cashier shift the payment was taken in
 }
 
 export interface POSOrder {
   id: string;
+  outletId?: string;
   tableId?: string;
   roomNumber?: string;
   guestName?: string;
@@ -459,24 +1055,189 @@ export interface POSOrder {
   items: POSOrderLine[];
   kotNumber?: string;
   notes?: string;
+  covers?: number;
+  serverId?: string;
+  serverName?: string;
   charges: POSAppliedCharge[];
   payments: POSPayment[];
+  billPrintedAt?: string;
+  billPrintCount?: number;
+}
+
+export interface POSCashMovement {
+  id: string;
+  type: 'cash-in' | 'cash-out';
+  amount: number;
+  reason: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+/**
+ * Takings for a cashier shift; an X-report is a mid-shift snapshot, the Z-report is frozen at close
+ */
+export interface POSShiftReport {
+  kind: 'X' | 'Z';
+  generatedAt: string;
+  orderCount: number;
+  itemSales: number;
+  serviceCharge: number;
+  tax: number;
+  collected: number;
+  byMethod: Partial<Record<PaymentMethod, number>>;
+  byOutlet: Record<string, number>; // keyed by outlet name so closed reports survive renames
+  byCategory: Partial<Record<POSMenuCategory, number>>;
+  openingFloat: number;
+  cashIn: number;
+  cashOut: number;
+  cashSales: number;
+  expectedCash: number;
+  countedCash?: number;
+  variance?: number;
+}
+
+export interface POSShift {
+  id: string;
+  userId: string;
+  userName: string;
+  shift: Shift;
+  status: 'open' | 'closed';
+  openedAt: string;
+  openingFloat: number;
+  cashMovements: POSCashMovement[];
+  closedAt?: string;
+  closedBy?: string;
+  closingNotes?: string;
+  zReport?: POSShiftReport;
+}
+
+export type KOTStation = NonNullable<POSMenuItem['printerRoute']>;
+
+export interface KOTTicketItem {
+  lineId?: string;
+  name: string;
+  quantity: number;
+  modifiers?: string[];
+  comboName?: string;
+  notes?: string;
+  station?: KOTStation;
+  bumpedAt?: string;
 }
 
 export interface KOTTicket {
   id: string;
   kotNumber: string;
   orderId: string;
+  outletId?: string;
   tableLabel?: string;
   roomNumber?: string;
   status: 'queued' | 'in-progress' | 'completed';
-  items: Array<{ name: string; quantity: number; notes?: string }>;
+  items: KOTTicketItem[];
   createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
   printedAt?: string;
+  printCount?: number;
+  // Last change on any terminal; the newer copy of a ticket wins when screens sync
+  updatedAt?: string;
+}
+
+export type PaperWidth = 58 | 80;
+
+export type PrinterTransportKind = 'webusb' | 'network' | 'download' | 'mock';
+
+export interface PrinterConfig {
+  id: string;
+  name: string;
+  paperWidth: PaperWidth;
+  transport: PrinterTransportKind;
+  address?: string; // print bridge URL, or the USB product name to pick among paired devices
+  stations: KOTStation[];
+  outletIds?: string[]; // empty or missing prints for every outlet
+  printsBills: boolean;
+  isActive: boolean;
+}
+
+// F&B Inventory Types
+export type StockUnit = 'g' | 'kg' | 'ml' | 'l' | 'pcs';
+
+export interface StockItem {
+  id: string;
+  name: string;
+  unit: StockUnit;
+  onHand: number;
+  parLevel: number;
+  unitCost: number; // weighted average per unit, updated on each purchase
+  isActive: boolean;
+}
+
+// Recipe quantities may use a smaller unit than the stock item, e.g. grams of rice off a stock kept in kg
+export interface RecipeIngredient {
+  stockItemId: string;
+  quantity: number;
+  unit: StockUnit;
+}
+
+// A recipe for one size overrides the item's base recipe
+export interface MenuRecipe {
+  id: string;
+  menuItemId: string;
+  variantId?: string;
+  ingredients: RecipeIngredient[];
+  updatedAt: string;
+}
+
+export type StockMovementType = 'purchase' | 'sale' | 'wastage' | 'count';
+
+export interface StockMovement {
+  id: string;
+  stockItemId: string;
+  type: StockMovementType;
+  quantity: number; // in the stock item's unit; negative for stock going out
+  unitCost: number;
+  reference?: string; // POS order for sales, receipt for purchases
+  note?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export interface PurchaseReceiptLine {
+  stockItemId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseReceipt {
+  id: string;
+  supplier: string;
+  invoiceNumber?: string;
+  lines: PurchaseReceiptLine[];
+  total: number;
+  receivedAt: string;
+  receivedBy: string;
+}
+
+export interface StockVarianceLine {
+  stockItemId: string;
+  name: string;
+  unit: StockUnit;
+  purchased: number;
+  salesUsage: number; // what the recipes say the sales used
+  wastage: number;
+  wastageCost: number;
+  actualUsage: number; // sales usage plus whatever stock counts found missing
+  variance: number;
+  varianceCost: number;
 }
 
 // Alerts
-export type AlertCategory = 'late-checkout' | 'room-not-cleaned' | 'payment-pending' | 'overbooking';
+export type AlertCategory =
+  | 'late-checkout'
+  | 'room-not-cleaned'
+  | 'payment-pending'
+  | 'overbooking'
+  | 'low-stock'
+  | 'deposit-overdue';
 
 export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical';
 
@@ -732,3 +1493,48 @@ export interface WhatsAppConfig {
   updatedAt: string;
 }
 
+
+// ========================================
+// Offline Sync Types
+// ========================================
+
+export type SyncMutationKind =
+  | 'guest.create'
+  | 'reservation.create'
+  | 'reservation.update'
+  | 'folio.save'
+  | 'folio.entry'
+  | 'folio.routing'
+  | 'folio.routing-delete'
+  | 'group.save'
+  | 'rate-calendar.save'
+  | 'rate-calendar.clear'
+  | 'maintenance.save'
+  | 'pos.shift-save';
+
+export interface QueuedMutation {
+  id: string;
+  // Replay order; IndexedDB keys are not guaranteed to follow insertion time across tabs
+  sequence: number;
+  kind: SyncMutationKind;
+  // Local id of the record; temporary for records created offline
+  entityId: string;
+  payload: unknown;
+  label: string;
+  // Server updatedAt the offline change was based on, used to detect conflicting edits
+  baseUpdatedAt?: string;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  kind: SyncMutationKind;
+  entityId: string;
+  label: string;
+  reason: 'server-newer' | 'rejected';
+  message: string;
+  queuedAt: string;
+  detectedAt: string;
+}
@@ -0,0 +1,135 @@
+import type { PaperWidth } from '../types';
+
+/**
+ * Characters per line in the printer's default font
+ */
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+type Align = 'left' | 'center' | 'right';
+
+interface LineStyle {
+  align?: Align;
+  bold?: boolean;
+  large?: boolean;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+// Receipt printers only carry a basic code page, so anything outside ASCII is spelled out or dropped
+const toAscii = (value: string) =>
+  value
+    .replace(/₹/g, 'Rs.')
+    .replace(/[×]/g, 'x')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7e]/g, '');
+
+const wrap = (value: string, width: number): string[] => {
+  const rows: string[] = [];
+  // Leading spaces are kept so indented lines such as item notes stay indented
+  let current = value.match(/^ */)?.[0].slice(0, width - 1) ?? '';
+  value.trimStart().split(' ').forEach((word) => {
+    let remaining = word;
+    while (remaining.length > width) {
+      if (current.trim()) {
+        rows.push(current);
+        current = '';
+      }
+      rows.push(remaining.slice(0, width));
+      remaining = remaining.slice(width);
+    }
+    if (!current.trim()) {
+      current += remaining;
+    } else if (current.length + 1 + remaining.length <= width) {
+      current = `${current} ${remaining}`;
+    } else {
+      rows.push(current);
+      current = remaining;
+    }
+  });
+  rows.push(current);
+  return rows;
+};
+
+const alignText = (value: string, width: number, align: Align) => {
+  const gap = Math.max(width - value.length, 0);
+  if (align === 'right') return ' '.repeat(gap) + value;
+  if (align === 'center') return ' '.repeat(Math.floor(gap / 2)) + value;
+  return value;
+};
+
+export type Receipt = ReturnType<typeof createReceipt>;
+
+/**
+ * Builds ESC/POS output for a receipt printer alongside a plain-text copy for previews and downloads
+ */
+export function createReceipt(paperWidth: PaperWidth) {
+  const columns = PAPER_COLUMNS[paperWidth];
+  const bytes: number[] = [ESC, 0x40];
+  const preview: string[] = [];
+
+  const pushRow = (row: string, style: LineStyle) => {
+    bytes.push(ESC, 0x61, ALIGN_CODES[style.align ?? 'left']);
+    bytes.push(ESC, 0x45, style.bold ? 1 : 0);
+    bytes.push(GS, 0x21, style.large ? 0x11 : 0x00);
+    for (let index = 0; index < row.length; index += 1) {
+      bytes.push(row.charCodeAt(index));
+    }
+    bytes.push(LF);
+    preview.push(alignText(style.large ? row.split('').join(' ') : row, columns, style.align ?? 'left'));
+  };
+
+  const receipt = {
+    columns,
+
+    text(value: string, style: LineStyle = {}) {
+      // Double-size text takes two columns per character
+      const width = style.large ? Math.floor(columns / 2) : columns;
+      wrap(toAscii(value), width).forEach((row) => pushRow(row, style));
+      return receipt;
+    },
+
+    // Left text with a right-aligned value, e.g. an item and its amount
+    pair(left: string, right: string, style: Omit<LineStyle, 'align'> = {}) {
+      const width = style.large ? Math.floor(columns / 2) : columns;
+      const value = toAscii(right);
+      const rows = wrap(toAscii(left), Math.max(width - value.length - 1, 1));
+      rows.forEach((row, index) => {
+        const isLast = index === rows.length - 1;
+        pushRow(isLast ? row + ' '.repeat(Math.max(width - row.length - value.length, 1)) + value : row, style);
+      });
+      return receipt;
+    },
+
+    divider(char = '-') {
+      pushRow(char.repeat(columns), {});
+      return receipt;
+    },
+
+    feed(lines = 1) {
+      bytes.push(ESC, 0x64, lines);
+      for (let index = 0; index < lines; index += 1) {
+        preview.push('');
+      }
+      return receipt;
+    },
+
+    // Feeds past the tear bar before a partial cut
+    cut() {
+      bytes.push(GS, 0x56, 0x42, 0x03);
+      return receipt;
+    },
+
+    toBytes: () => Uint8Array.from(bytes),
+
+    toText: () => preview.join('\n'),
+  };
+
+  return receipt;
+}
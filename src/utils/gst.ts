@@ -0,0 +1,155 @@
+import type { ChargeCategory, GstSupplyType, TaxConfiguration, TaxRule } from '../types';
+
+/**
+ * GST state codes as used in the first two digits of a GSTIN
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+/**
+ * SAC codes printed against each folio charge category
+ */
+export const HSN_SAC_CODES: Record<ChargeCategory, string> = {
+  room: '996311',
+  'extra-bed': '996311',
+  'early-checkin': '996311',
+  'late-checkout': '996311',
+  restaurant: '996331',
+  'mini-bar': '996331',
+  laundry: '999712',
+  transport: '996601',
+  other: '999799',
+};
+
+const normalizeState = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Resolve a GST state code from a GSTIN, a two-digit code or a state name
+ */
+export function resolveStateCode(value?: string): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const prefix = trimmed.slice(0, 2);
+  if (/^\d{2}$/.test(prefix) && GST_STATE_CODES[prefix]) {
+    return prefix;
+  }
+
+  const target = normalizeState(trimmed);
+  return Object.keys(GST_STATE_CODES).find((code) => normalizeState(GST_STATE_CODES[code]) === target);
+}
+
+/**
+ * Intra-state supplies carry CGST + SGST; inter-state supplies carry IGST.
+ * Falls back to intra-state when either side's state cannot be determined.
+ */
+export function resolveSupplyType(supplierGstin: string | undefined, placeOfSupply: string | undefined): GstSupplyType {
+  const supplierState = resolveStateCode(supplierGstin);
+  const recipientState = resolveStateCode(placeOfSupply);
+  if (!supplierState || !recipientState) {
+    return 'intra-state';
+  }
+  return supplierState === recipientState ? 'intra-state' : 'inter-state';
+}
+
+export function splitGst(taxableAmount: number, taxRate: number, supplyType: GstSupplyType) {
+  const tax = Number(((taxableAmount * taxRate) / 100).toFixed(2));
+  if (supplyType === 'inter-state') {
+    return { cgst: 0, sgst: 0, igst: tax };
+  }
+  const cgst = Number((tax / 2).toFixed(2));
+  return { cgst, sgst: Number((tax - cgst).toFixed(2)), igst: 0 };
+}
+
+/**
+ * Indian financial year label (April to March), e.g. 2025-26
+ */
+export function getFinancialYear(date: string | Date): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  const startYear = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Standard Indian hotel GST slabs, offered as a starting point in tax configuration
+ */
+export const INDIAN_HOTEL_TAX_SLABS: Omit<TaxRule, 'id'>[] = [
+  { category: 'room', minTariff: 0, maxTariff: 1000, rate: 0, effectiveFrom: '2019-10-01', effectiveTo: '2022-07-17' },
+  { category: 'room', minTariff: 1000.01, maxTariff: 7500, rate: 12, effectiveFrom: '2019-10-01', effectiveTo: '2025-09-21' },
+  { category: 'room', minTariff: 0, maxTariff: 1000, rate: 12, effectiveFrom: '2022-07-18', effectiveTo: '2025-09-21' },
+  { category: 'room', minTariff: 0, maxTariff: 7500, rate: 5, effectiveFrom: '2025-09-22' },
+  { category: 'room', minTariff: 7500.01, rate: 18, effectiveFrom: '2019-10-01' },
+  { category: 'restaurant', minTariff: 0, rate: 5, effectiveFrom: '2017-11-15' },
+];
+
+const ruleMatches = (rule: TaxRule, category: ChargeCategory, tariff: number, dateKey: string) =>
+  (rule.category === category || rule.category === 'all') &&
+  tariff >= rule.minTariff &&
+  (rule.maxTariff === undefined || tariff <= rule.maxTariff) &&
+  rule.effectiveFrom <= dateKey &&
+  (!rule.effectiveTo || dateKey <= rule.effectiveTo);
+
+/**
+ * GST rate for a line item: the most specific rule matching the category, the per-unit
+ * tariff and the date wins; otherwise the flat CGST + SGST from the configuration applies
+ */
+export function resolveTaxRate(
+  config: TaxConfiguration | null | undefined,
+  category: ChargeCategory,
+  tariff: number,
+  date: string | Date = new Date()
+): number {
+  if (!config?.gstEnabled) {
+    return 0;
+  }
+
+  const dateKey = typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+  const [match] = (config.taxRules ?? [])
+    .filter((rule) => ruleMatches(rule, category, tariff, dateKey))
+    .sort((a, b) => {
+      if (a.category !== b.category) {
+        return a.category === 'all' ? 1 : -1;
+      }
+      return b.effectiveFrom.localeCompare(a.effectiveFrom);
+    });
+
+  return match ? match.rate : (config.cgst || 0) + (config.sgst || 0);
+}
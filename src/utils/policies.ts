@@ -0,0 +1,106 @@
+import { differenceInMinutes, format, parseISO, subDays } from 'date-fns';
+import type { CancellationPolicy, DepositPolicy, PolicyChargeType, RatePlan, Reservation } from '../types';
+
+export const POLICY_CHARGE_LABELS: Record<PolicyChargeType, string> = {
+  none: 'No charge',
+  'first-night': 'First night',
+  percentage: 'Percentage of stay',
+  'full-stay': 'Full stay',
+};
+
+export const DEFAULT_DEPOSIT_POLICY: DepositPolicy = {
+  type: 'none',
+  dueDaysBeforeArrival: 0,
+};
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancellationHours: 24,
+  nonRefundable: false,
+  penalty: 'first-night',
+  noShowPenalty: 'first-night',
+};
+
+// Penalty windows are counted back from the standard check-in time on the arrival day
+const ARRIVAL_TIME = 'T14:00:00';
+
+const round = (value: number) => Number(value.toFixed(2));
+
+type BookingValue = Pick<Reservation, 'totalAmount' | 'nights'>;
+
+/**
+ * Amount a deposit or penalty comes to for a booking; a night is the tax-inclusive average night
+ */
+export const resolvePolicyCharge = (type: PolicyChargeType, percentage: number | undefined, booking: BookingValue) => {
+  switch (type) {
+    case 'first-night':
+      return round(booking.totalAmount / Math.max(booking.nights, 1));
+    case 'percentage':
+      return round((booking.totalAmount * Math.min(Math.max(percentage ?? 0, 0), 100)) / 100);
+    case 'full-stay':
+      return round(booking.totalAmount);
+    default:
+      return 0;
+  }
+};
+
+const describeCharge = (type: PolicyChargeType, percentage?: number) =>
+  type === 'percentage' ? `${percentage ?? 0}% of the stay` : POLICY_CHARGE_LABELS[type].toLowerCase();
+
+export const describeDepositPolicy = (policy: DepositPolicy = DEFAULT_DEPOSIT_POLICY) => {
+  if (policy.type === 'none') {
+    return 'No deposit required';
+  }
+  const due = policy.dueDaysBeforeArrival > 0 ? `${policy.dueDaysBeforeArrival} day(s) before arrival` : 'on arrival';
+  return `Deposit of ${describeCharge(policy.type, policy.percentage)} due ${due}`;
+};
+
+export const describeCancellationPolicy = (policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY) => {
+  const penalty =
+    policy.penalty === 'none'
+      ? 'Free cancellation'
+      : policy.nonRefundable
+        ? `Non-refundable: ${describeCharge(policy.penalty, policy.penaltyPercentage)} charged on cancellation`
+        : `Free cancellation until ${policy.freeCancellationHours}h before arrival, then ${describeCharge(policy.penalty, policy.penaltyPercentage)}`;
+  const noShow =
+    policy.noShowPenalty === 'none' ? 'no no-show fee' : `no-show fee of ${describeCharge(policy.noShowPenalty, policy.noShowPercentage)}`;
+  return `${penalty}; ${noShow}`;
+};
+
+/**
+ * Deposit the rate plan asks for and the date it falls due, or null when none is required
+ */
+export const getDepositRequirement = (reservation: Reservation, ratePlan?: RatePlan) => {
+  const policy = ratePlan?.depositPolicy ?? DEFAULT_DEPOSIT_POLICY;
+  const amount = resolvePolicyCharge(policy.type, policy.percentage, reservation);
+  if (!(amount > 0)) {
+    return null;
+  }
+  const bookedOn = reservation.createdAt.slice(0, 10);
+  const dueBeforeArrival = format(subDays(parseISO(reservation.checkIn.slice(0, 10)), policy.dueDaysBeforeArrival), 'yyyy-MM-dd');
+  return { amount, dueDate: dueBeforeArrival < bookedOn ? bookedOn : dueBeforeArrival };
+};
+
+/**
+ * Penalty for cancelling at the given moment, or for not arriving at all
+ */
+export const calculateCancellationPenalty = (
+  reservation: Reservation,
+  ratePlan: RatePlan | undefined,
+  kind: 'cancellation' | 'no-show',
+  at: Date = new Date()
+) => {
+  const policy = ratePlan?.cancellationPolicy ?? DEFAULT_CANCELLATION_POLICY;
+  if (kind === 'no-show') {
+    return {
+      penalty: resolvePolicyCharge(policy.noShowPenalty, policy.noShowPercentage, reservation),
+      summary: describeCancellationPolicy(policy),
+    };
+  }
+
+  const minutesToArrival = differenceInMinutes(parseISO(`${reservation.checkIn.slice(0, 10)}${ARRIVAL_TIME}`), at);
+  const inPenaltyWindow = policy.nonRefundable || minutesToArrival < policy.freeCancellationHours * 60;
+  return {
+    penalty: inPenaltyWindow ? resolvePolicyCharge(policy.penalty, policy.penaltyPercentage, reservation) : 0,
+    summary: describeCancellationPolicy(policy),
+  };
+};
@@ -0,0 +1,314 @@
+/**
+ * Minimal QR code encoder for payment links: byte mode, error correction level M, versions 1-40
+ */
+
+// Per version, from the QR specification's capacity tables for level M
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37,
+  38, 40, 43, 45, 47, 49,
+];
+const FORMAT_BITS_LEVEL_M = 0;
+
+const bit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const rawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+};
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version];
+
+// Multiplication in GF(2^8) over the QR polynomial 0x11d
+const multiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = multiply(result[j], root);
+      if (j + 1 < result.length) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= multiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+const alignmentPositions = (version: number, size: number) => {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const encodeData = (bytes: Uint8Array) => {
+  for (let version = 1; version <= 40; version += 1) {
+    const countBits = version < 10 ? 8 : 16;
+    const capacity = dataCodewords(version) * 8;
+    const needed = 4 + countBits + bytes.length * 8;
+    if (needed > capacity) {
+      continue;
+    }
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i -= 1) {
+        bits.push((value >>> i) & 1);
+      }
+    };
+    append(0x4, 4);
+    append(bytes.length, countBits);
+    bytes.forEach((byte) => append(byte, 8));
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+      append(pad, 8);
+    }
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      codewords.push(bits.slice(i, i + 8).reduce((byte, value) => (byte << 1) | value, 0));
+    }
+    return { version, codewords };
+  }
+  throw new Error('Too much data for a QR code');
+};
+
+// Splits the data into blocks, adds error correction to each and interleaves them
+const addErrorCorrection = (version: number, data: number[]) => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i += 1) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlocks) {
+      block.push(0);
+    }
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+// Lower is easier to scan: long runs, 2x2 blocks and an uneven dark/light balance all cost points
+const penalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let score = 0;
+  let dark = 0;
+  for (let a = 0; a < size; a += 1) {
+    let rowRun = 1;
+    let columnRun = 1;
+    for (let b = 0; b < size; b += 1) {
+      if (modules[a][b]) {
+        dark += 1;
+      }
+      if (b > 0) {
+        rowRun = modules[a][b] === modules[a][b - 1] ? rowRun + 1 : 1;
+        columnRun = modules[b][a] === modules[b - 1][a] ? columnRun + 1 : 1;
+        score += (rowRun === 5 ? 3 : rowRun > 5 ? 1 : 0) + (columnRun === 5 ? 3 : columnRun > 5 ? 1 : 0);
+      }
+      if (a > 0 && b > 0) {
+        const color = modules[a][b];
+        if (color === modules[a - 1][b] && color === modules[a][b - 1] && color === modules[a - 1][b - 1]) {
+          score += 3;
+        }
+      }
+    }
+  }
+  const total = size * size;
+  return score + (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+};
+
+/**
+ * Module grid for the text, dark modules true, indexed [row][column]; draw with a four-module quiet zone
+ */
+export function encodeQr(text: string): boolean[][] {
+  const { version, codewords } = encodeData(new TextEncoder().encode(text));
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // Timing, finder and alignment patterns
+  for (let i = 0; i < size; i += 1) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  });
+  const positions = alignmentPositions(version, size);
+  positions.forEach((cy, i) =>
+    positions.forEach((cx, j) => {
+      const last = positions.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) {
+          setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    })
+  );
+
+  const drawFormatBits = (mask: number) => {
+    const data = (FORMAT_BITS_LEVEL_M << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i += 1) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    for (let i = 0; i <= 5; i += 1) setFunction(8, i, bit(bits, i));
+    setFunction(8, 7, bit(bits, 6));
+    setFunction(8, 8, bit(bits, 7));
+    setFunction(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i += 1) setFunction(14 - i, 8, bit(bits, i));
+    for (let i = 0; i < 8; i += 1) setFunction(size - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i += 1) setFunction(8, size - 15 + i, bit(bits, i));
+    setFunction(8, size - 8, true);
+  };
+
+  drawFormatBits(0);
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i += 1) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i += 1) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, bit(bits, i));
+      setFunction(b, a, bit(bits, i));
+    }
+  }
+
+  // Data runs in two-column zigzags from the bottom right, skipping the vertical timing column
+  const data = addErrorCorrection(version, codewords);
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!reserved[y][x] && index < data.length * 8) {
+          modules[y][x] = bit(data[index >>> 3], 7 - (index & 7));
+          index += 1;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y += 1) {
+      for (let x = 0; x < size; x += 1) {
+        if (!reserved[y][x] && MASKS[mask](x, y)) {
+          modules[y][x] = !modules[y][x];
+        }
+      }
+    }
+  };
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  MASKS.forEach((_, mask) => {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const score = penalty(modules);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    applyMask(mask);
+  });
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+  return modules;
+}
@@ -0,0 +1,240 @@
+import { format, parseISO } from 'date-fns';
+import type {
+  HotelProfile,
+  KOTStation,
+  KOTTicket,
+  PaperWidth,
+  PaymentMethod,
+  POSOrder,
+  POSOrderLine,
+  POSOutlet,
+  POSShift,
+  POSShiftReport,
+} from '../types';
+import { createReceipt } from './escpos';
+import { HSN_SAC_CODES } from './gst';
+
+export const KOT_STATION_LABELS: Record<KOTStation, string> = {
+  main: 'Main Kitchen',
+  bar: 'Bar',
+  dessert: 'Dessert',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  credit_card: 'Credit Card',
+  debit_card: 'Debit Card',
+  upi: 'UPI',
+  'bank-transfer': 'Bank Transfer',
+  bank_transfer: 'Bank Transfer',
+  'folio-transfer': 'Charged to Room',
+};
+
+/**
+ * Item name with the chosen size, e.g. "Fresh Lime Soda (Large)"
+ */
+export const posLineName = (line: Pick<POSOrderLine, 'name' | 'variantName'>) =>
+  line.variantName ? `${line.name} (${line.variantName})` : line.name;
+
+/**
+ * Modifiers and combo courses listed under an order line on screen and on the bill
+ */
+export const posLineDetails = (line: POSOrderLine) => [
+  ...(line.modifiers ?? []).map((modifier) =>
+    modifier.priceDelta ? `+ ${modifier.name} (${modifier.priceDelta > 0 ? '+' : ''}${modifier.priceDelta})` : `+ ${modifier.name}`
+  ),
+  ...(line.comboPicks ?? []).map((pick) => `- ${pick.name}`),
+];
+
+type OutletTaxRules = Pick<POSOutlet, 'serviceChargePercent' | 'taxPercent' | 'pricesIncludeTax'>;
+
+/**
+ * Bill totals for a POS order under its outlet's service charge and tax rules; the order screen,
+ * the printed bill and the room posting all use this
+ */
+export const calculatePosBill = (order: POSOrder, outlet: OutletTaxRules) => {
+  const items = order.items.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+  const service = Math.round((items * outlet.serviceChargePercent) / 100);
+  const gross = items + service;
+  // Bar and cafe menus are often priced with GST included, so the tax is carved out instead of added
+  const tax = outlet.pricesIncludeTax
+    ? Number((gross - gross / (1 + outlet.taxPercent / 100)).toFixed(2))
+    : Math.round((gross * outlet.taxPercent) / 100);
+  const taxable = outlet.pricesIncludeTax ? Number((gross - tax).toFixed(2)) : gross;
+  const payments = order.payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const manualCharges = order.charges.reduce((sum, charge) => sum + charge.amount, 0);
+  const grand = taxable + tax + manualCharges;
+  return { items, service, taxable, tax, grand, payments };
+};
+
+const money = (value: number) => value.toFixed(2);
+
+const stamp = (value: string) => format(parseISO(value), 'dd/MM/yyyy HH:mm');
+
+interface KotOptions {
+  paperWidth: PaperWidth;
+  stations: KOTStation[];
+  duplicate?: boolean;
+}
+
+/**
+ * Kitchen ticket with the items for the given stations; the rest print on their own printers
+ */
+export function renderKot(ticket: KOTTicket, { paperWidth, stations, duplicate }: KotOptions) {
+  const receipt = createReceipt(paperWidth);
+  const items = ticket.items.filter((item) => stations.includes(item.station ?? 'main'));
+
+  receipt.text('KOT', { align: 'center', large: true, bold: true });
+  if (duplicate) {
+    receipt.text('*** DUPLICATE ***', { align: 'center', bold: true });
+  }
+  receipt.text(stations.map((station) => KOT_STATION_LABELS[station]).join(' / '), { align: 'center' });
+  receipt
+    .divider()
+    .pair(ticket.kotNumber, stamp(ticket.createdAt), { bold: true })
+    .text(ticket.tableLabel ? `Table ${ticket.tableLabel}` : ticket.roomNumber ? `Room ${ticket.roomNumber}` : 'Takeaway', {
+      large: true,
+    })
+    .divider();
+
+  items.forEach((item) => {
+    receipt.text(`${item.quantity} x ${item.name}`, { bold: true, large: paperWidth === 80 });
+    if (item.comboName) {
+      receipt.text(`  [${item.comboName}]`);
+    }
+    item.modifiers?.forEach((modifier) => receipt.text(`  + ${modifier}`, { bold: true }));
+    if (item.notes) {
+      receipt.text(`  * ${item.notes}`);
+    }
+  });
+
+  return receipt.divider().feed(2).cut();
+}
+
+interface BillOptions {
+  paperWidth: PaperWidth;
+  hotel: HotelProfile | null;
+  outlet: POSOutlet;
+  tableLabel?: string;
+  duplicate?: boolean;
+}
+
+/**
+ * Customer bill with the CGST/SGST split required on a restaurant tax invoice
+ */
+export function renderBill(order: POSOrder, { paperWidth, hotel, outlet, tableLabel, duplicate }: BillOptions) {
+  const receipt = createReceipt(paperWidth);
+  const totals = calculatePosBill(order, outlet);
+  const cgst = Number((totals.tax / 2).toFixed(2));
+  const sgst = Number((totals.tax - cgst).toFixed(2));
+  const halfRate = outlet.taxPercent / 2;
+
+  receipt
+    .text(hotel?.name || 'NexusNext', { align: 'center', large: true, bold: true })
+    .text(outlet.name, { align: 'center', bold: true });
+  if (hotel) {
+    receipt
+      .text(hotel.address, { align: 'center' })
+      .text([hotel.city, hotel.state, hotel.pincode].filter(Boolean).join(', '), { align: 'center' });
+    if (hotel.phone) receipt.text(`Ph: ${hotel.phone}`, { align: 'center' });
+    if (hotel.gstin) receipt.text(`GSTIN: ${hotel.gstin}`, { align: 'center' });
+  }
+  receipt.divider().text('TAX INVOICE', { align: 'center', bold: true });
+  if (duplicate) {
+    receipt.text('*** DUPLICATE ***', { align: 'center', bold: true });
+  }
+  receipt
+    .pair(`Bill: ${order.id}`, stamp(order.updatedAt))
+    .text(
+      [tableLabel && `Table ${tableLabel}`, order.roomNumber && `Room ${order.roomNumber}`, order.guestName]
+        .filter(Boolean)
+        .join(' | ') || 'Takeaway'
+    );
+  if (order.covers || order.serverName) {
+    receipt.text([order.covers && `Covers: ${order.covers}`, order.serverName && `Server: ${order.serverName}`].filter(Boolean).join(' | '));
+  }
+  receipt
+    .text(`SAC: ${HSN_SAC_CODES.restaurant}`)
+    .divider();
+
+  order.items.forEach((line) => {
+    receipt.pair(`${line.quantity} x ${posLineName(line)}`, money(line.quantity * line.unitPrice));
+    posLineDetails(line).forEach((detail) => receipt.text(`    ${detail}`));
+  });
+
+  receipt
+    .divider()
+    .pair('Subtotal', money(totals.items))
+    .pair(`Service charge ${outlet.serviceChargePercent}%`, money(totals.service))
+    .pair('Taxable value', money(totals.taxable))
+    .pair(`CGST @ ${halfRate}%`, money(cgst))
+    .pair(`SGST @ ${halfRate}%`, money(sgst));
+  order.charges.forEach((charge) => receipt.pair(charge.label, money(charge.amount)));
+
+  receipt.divider().pair('TOTAL', `Rs.${money(totals.grand)}`, { bold: true, large: paperWidth === 80 });
+  if (totals.payments > 0) {
+    receipt.pair('Paid', money(totals.payments)).pair('Balance', money(Math.max(totals.grand - totals.payments, 0)));
+  }
+  if (outlet.pricesIncludeTax) {
+    receipt.text('Prices include GST');
+  }
+  if (order.roomNumber) {
+    receipt.text(`Charged to room ${order.roomNumber}`, { bold: true });
+  }
+
+  return receipt.divider().text('Thank you! Visit again.', { align: 'center' }).feed(3).cut();
+}
+
+interface ShiftReportOptions {
+  paperWidth: PaperWidth;
+  hotel: HotelProfile | null;
+}
+
+/**
+ * X or Z report for a cashier shift, with takings by payment method, outlet and category and the drawer count
+ */
+export function renderShiftReport(shift: POSShift, report: POSShiftReport, { paperWidth, hotel }: ShiftReportOptions) {
+  const receipt = createReceipt(paperWidth);
+  const section = (title: string, totals: Partial<Record<string, number>>, labels: Partial<Record<string, string>> = {}) => {
+    receipt.divider().text(title, { bold: true });
+    Object.entries(totals).forEach(([key, amount]) => receipt.pair(labels[key] ?? key, money(amount ?? 0)));
+  };
+
+  receipt
+    .text(hotel?.name || 'NexusNext', { align: 'center', bold: true })
+    .text(`${report.kind}-REPORT`, { align: 'center', large: true, bold: true })
+    .text(report.kind === 'X' ? 'Mid-shift - drawer stays open' : 'Shift closed', { align: 'center' })
+    .divider()
+    .pair('Cashier', shift.userName)
+    .pair('Shift', shift.shift)
+    .pair('Opened', stamp(shift.openedAt))
+    .pair(report.kind === 'Z' && shift.closedAt ? 'Closed' : 'Printed', stamp(shift.closedAt ?? report.generatedAt))
+    .divider()
+    .pair('Orders', String(report.orderCount))
+    .pair('Item sales', money(report.itemSales))
+    .pair('Service charge', money(report.serviceCharge))
+    .pair('Tax', money(report.tax))
+    .pair('Collected', money(report.collected), { bold: true });
+
+  section('BY PAYMENT METHOD', report.byMethod, PAYMENT_METHOD_LABELS);
+  section('BY OUTLET', report.byOutlet);
+  section('BY CATEGORY', report.byCategory);
+
+  receipt
+    .divider()
+    .text('CASH DRAWER', { bold: true })
+    .pair('Opening float', money(report.openingFloat))
+    .pair('Cash sales', money(report.cashSales))
+    .pair('Cash in', money(report.cashIn))
+    .pair('Cash out', `-${money(report.cashOut)}`)
+    .pair('Expected', money(report.expectedCash), { bold: true });
+  if (report.countedCash !== undefined) {
+    receipt.pair('Counted', money(report.countedCash)).pair('Over / short', money(report.variance ?? 0), { bold: true });
+  }
+  if (shift.closingNotes) {
+    receipt.text(`Note: ${shift.closingNotes}`);
+  }
+
+  return receipt.divider().feed(3).cut();
+}
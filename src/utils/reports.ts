@@ -0,0 +1,625 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import type {
+  FolioEntry,
+  Report,
+  ReportCell,
+  ReportColumn,
+  ReportData,
+  ReportType,
+  ReportValueFormat,
+  Reservation,
+  ReservationStatus,
+  RoomInventory,
+  RoomType,
+} from '../types';
+
+export interface ReportRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Everything the report engine reads; gathered from the stores by the caller
+ */
+export interface ReportSources {
+  reservations: Reservation[];
+  rooms: RoomInventory[];
+  roomTypes: RoomType[];
+  folioEntries: FolioEntry[];
+  today?: string;
+}
+
+export const REPORT_TITLES: Record<ReportType, string> = {
+  occupancy: 'Occupancy Report',
+  revenue: 'Revenue Report',
+  'guest-demographics': 'Guest Demographics',
+  housekeeping: 'Housekeeping Report',
+  cancellations: 'Cancellations Report',
+  'no-shows': 'No-Show Report',
+  'manager-flash': "Manager's Flash Report",
+};
+
+// Stays that consumed (or still hold) the room for their nights
+const STAYED_STATUSES: ReservationStatus[] = ['confirmed', 'checked-in', 'checked-out'];
+
+const round = (value: number) => Number(value.toFixed(2));
+
+const toDateKey = (value: string) => value.slice(0, 10);
+
+const rangeDays = (range: ReportRange) => {
+  const start = parseISO(toDateKey(range.from));
+  const end = parseISO(toDateKey(range.to));
+  return end < start ? [] : eachDayOfInterval({ start, end }).map((day) => format(day, 'yyyy-MM-dd'));
+};
+
+const inRange = (dateKey: string, range: ReportRange) =>
+  toDateKey(range.from) <= dateKey && dateKey <= toDateKey(range.to);
+
+const coversNight = (reservation: Reservation, date: string) =>
+  toDateKey(reservation.checkIn) <= date && date < toDateKey(reservation.checkOut);
+
+const nightlyRoomRevenue = (reservation: Reservation) =>
+  reservation.nights ? reservation.subtotal / reservation.nights : reservation.subtotal;
+
+const guestName = (reservation: Reservation) =>
+  `${reservation.guest.firstName} ${reservation.guest.lastName}`.trim() || 'Guest';
+
+const column = (key: string, label: string, valueFormat: ReportValueFormat = 'text'): ReportColumn => ({
+  key,
+  label,
+  format: valueFormat,
+});
+
+// Folio entries voided later should not count towards revenue
+const liveCharges = (entries: FolioEntry[]) => {
+  const voided = new Set(entries.map((entry) => entry.voidsEntryId).filter(Boolean));
+  return entries.filter((entry) => !voided.has(entry.id) && entry.type !== 'void');
+};
+
+// Rooms available on a night: active rooms that are not out of service
+const sellableRooms = (rooms: RoomInventory[]) =>
+  rooms.filter((room) => room.isActive && room.status !== 'oos' && room.status !== 'maintenance').length;
+
+function buildOccupancy(range: ReportRange, sources: ReportSources): ReportData {
+  const available = sellableRooms(sources.rooms);
+  const stays = sources.reservations.filter((reservation) => STAYED_STATUSES.includes(reservation.status));
+
+  const rows = rangeDays(range).map((date) => {
+    const inHouse = stays.filter((reservation) => coversNight(reservation, date));
+    const roomsSold = inHouse.reduce((sum, reservation) => sum + Math.max(reservation.roomNumbers.length, 1), 0);
+    const revenue = inHouse.reduce((sum, reservation) => sum + nightlyRoomRevenue(reservation), 0);
+    return {
+      date,
+      available,
+      sold: roomsSold,
+      occupancy: available ? round((roomsSold / available) * 100) : 0,
+      adr: roomsSold ? round(revenue / roomsSold) : 0,
+      revpar: available ? round(revenue / available) : 0,
+      arrivals: stays.filter((reservation) => toDateKey(reservation.checkIn) === date).length,
+      departures: stays.filter((reservation) => toDateKey(reservation.checkOut) === date).length,
+      revenue: round(revenue),
+    };
+  });
+
+  const totalAvailable = rows.reduce((sum, row) => sum + row.available, 0);
+  const totalSold = rows.reduce((sum, row) => sum + row.sold, 0);
+  const totalRevenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+
+  return {
+    summary: [
+      { label: 'Occupancy', value: totalAvailable ? round((totalSold / totalAvailable) * 100) : 0, format: 'percent' },
+      { label: 'Room Nights Sold', value: totalSold, format: 'number' },
+      { label: 'ADR', value: totalSold ? round(totalRevenue / totalSold) : 0, format: 'currency' },
+      { label: 'RevPAR', value: totalAvailable ? round(totalRevenue / totalAvailable) : 0, format: 'currency' },
+    ],
+    columns: [
+      column('date', 'Date'),
+      column('available', 'Available', 'number'),
+      column('sold', 'Sold', 'number'),
+      column('occupancy', 'Occupancy', 'percent'),
+      column('adr', 'ADR', 'currency'),
+      column('revpar', 'RevPAR', 'currency'),
+      column('arrivals', 'Arrivals', 'number'),
+      column('departures', 'Departures', 'number'),
+    ],
+    rows,
+    chart: {
+      kind: 'line',
+      xKey: 'date',
+      series: [{ key: 'occupancy', label: 'Occupancy %' }],
+      data: rows,
+    },
+  };
+}
+
+function buildRevenue(range: ReportRange, sources: ReportSources): ReportData {
+  const stays = sources.reservations.filter((reservation) => STAYED_STATUSES.includes(reservation.status));
+  const entries = liveCharges(sources.folioEntries);
+
+  const rows = rangeDays(range).map((date) => {
+    const roomRevenue = stays
+      .filter((reservation) => coversNight(reservation, date))
+      .reduce((sum, reservation) => sum + nightlyRoomRevenue(reservation), 0);
+    const posted = entries.filter((entry) => toDateKey(entry.postedAt) === date);
+    // Room nights come from the stays above; folio room postings would count them twice
+    const otherCharges = posted.filter((entry) => entry.type === 'charge' && entry.charge?.category !== 'room');
+    const otherRevenue = otherCharges.reduce((sum, entry) => sum + (entry.charge?.amount ?? entry.amount), 0);
+    const taxes = posted
+      .filter((entry) => entry.type === 'charge')
+      .reduce((sum, entry) => sum + (entry.charge?.taxAmount ?? 0), 0);
+    const collected = posted
+      .filter((entry) => entry.type === 'payment')
+      .reduce((sum, entry) => sum - entry.amount, 0);
+    const adjustments = posted
+      .filter((entry) => entry.type === 'adjustment')
+      .reduce((sum, entry) => sum + entry.amount, 0);
+
+    return {
+      date,
+      room: round(roomRevenue),
+      other: round(otherRevenue),
+      adjustments: round(adjustments),
+      taxes: round(taxes),
+      total: round(roomRevenue + otherRevenue + adjustments),
+      collected: round(collected),
+    };
+  });
+
+  const sum = (key: 'room' | 'other' | 'adjustments' | 'taxes' | 'total' | 'collected') =>
+    round(rows.reduce((total, row) => total + row[key], 0));
+
+  return {
+    summary: [
+      { label: 'Room Revenue', value: sum('room'), format: 'currency' },
+      { label: 'Other Revenue', value: sum('other'), format: 'currency' },
+      { label: 'Taxes Posted', value: sum('taxes'), format: 'currency' },
+      { label: 'Payments Collected', value: sum('collected'), format: 'currency' },
+    ],
+    columns: [
+      column('date', 'Date'),
+      column('room', 'Room', 'currency'),
+      column('other', 'F&B / Other', 'currency'),
+      column('adjustments', 'Adjustments', 'currency'),
+      column('total', 'Net Revenue', 'currency'),
+      column('taxes', 'Taxes', 'currency'),
+      column('collected', 'Collected', 'currency'),
+    ],
+    rows,
+    chart: {
+      kind: 'bar',
+      xKey: 'date',
+      series: [
+        { key: 'room', label: 'Room' },
+        { key: 'other', label: 'F&B / Other' },
+      ],
+      data: rows,
+    },
+  };
+}
+
+function buildGuestDemographics(range: ReportRange, sources: ReportSources): ReportData {
+  const stays = sources.reservations.filter(
+    (reservation) => STAYED_STATUSES.includes(reservation.status) && inRange(toDateKey(reservation.checkIn), range)
+  );
+  const staysPerGuest = sources.reservations.reduce<Record<string, number>>((counts, reservation) => {
+    counts[reservation.guest.id] = (counts[reservation.guest.id] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const segments = new Map<string, { dimension: string; segment: string; reservations: number; nights: number; revenue: number }>();
+  const add = (dimension: string, segment: string, reservation: Reservation) => {
+    const key = `${dimension}|${segment}`;
+    const current = segments.get(key) ?? { dimension, segment, reservations: 0, nights: 0, revenue: 0 };
+    segments.set(key, {
+      ...current,
+      reservations: current.reservations + 1,
+      nights: current.nights + reservation.nights,
+      revenue: round(current.revenue + reservation.totalAmount),
+    });
+  };
+
+  stays.forEach((reservation) => {
+    add('Nationality', reservation.guest.nationality || reservation.guest.address?.country || 'Unknown', reservation);
+    add('Booking Source', reservation.source, reservation);
+    add('Party', reservation.children > 0 ? 'Families' : reservation.adults > 1 ? 'Couples / Groups' : 'Solo', reservation);
+    add('Loyalty', (staysPerGuest[reservation.guest.id] ?? 0) > 1 ? 'Repeat guest' : 'First stay', reservation);
+  });
+
+  const rows = Array.from(segments.values()).sort(
+    (a, b) => a.dimension.localeCompare(b.dimension) || b.reservations - a.reservations
+  );
+  const nationalities = rows.filter((row) => row.dimension === 'Nationality');
+  const uniqueGuests = new Set(stays.map((reservation) => reservation.guest.id)).size;
+
+  return {
+    summary: [
+      { label: 'Guests', value: uniqueGuests, format: 'number' },
+      { label: 'Stays', value: stays.length, format: 'number' },
+      { label: 'Nationalities', value: nationalities.length, format: 'number' },
+      {
+        label: 'Repeat Guests',
+        value: stays.length
+          ? round((rows.find((row) => row.segment === 'Repeat guest')?.reservations ?? 0) / stays.length * 100)
+          : 0,
+        format: 'percent',
+      },
+    ],
+    columns: [
+      column('dimension', 'Dimension'),
+      column('segment', 'Segment'),
+      column('reservations', 'Stays', 'number'),
+      column('nights', 'Room Nights', 'number'),
+      column('revenue', 'Revenue', 'currency'),
+    ],
+    rows,
+    chart: {
+      kind: 'pie',
+      xKey: 'segment',
+      series: [{ key: 'reservations', label: 'Stays' }],
+      data: nationalities,
+    },
+  };
+}
+
+function buildHousekeeping(range: ReportRange, sources: ReportSources): ReportData {
+  const roomTypeName = (id: string) => sources.roomTypes.find((type) => type.id === id)?.name ?? 'Room';
+  const stays = sources.reservations.filter((reservation) => STAYED_STATUSES.includes(reservation.status));
+  const days = rangeDays(range);
+
+  const rows = sources.rooms
+    .filter((room) => room.isActive)
+    .map((room) => {
+      const roomStays = stays.filter((reservation) => reservation.roomNumbers.includes(room.roomNumber));
+      // Each departure needs a full clean; every other occupied night a stayover service
+      const departures = roomStays.filter((reservation) => inRange(toDateKey(reservation.checkOut), range)).length;
+      const stayovers = days.filter((date) =>
+        roomStays.some((reservation) => coversNight(reservation, date) && toDateKey(reservation.checkIn) !== date)
+      ).length;
+      return {
+        room: room.roomNumber,
+        type: roomTypeName(room.roomTypeId),
+        status: room.status,
+        lastCleaned: room.lastCleaned ? format(new Date(room.lastCleaned), 'yyyy-MM-dd HH:mm') : '-',
+        departures,
+        stayovers,
+        cleans: departures + stayovers,
+      };
+    })
+    .sort((a, b) => a.room.localeCompare(b.room, undefined, { numeric: true }));
+
+  const countStatus = (status: RoomInventory['status']) => sources.rooms.filter((room) => room.isActive && room.status === status).length;
+
+  return {
+    summary: [
+      { label: 'Departure Cleans', value: rows.reduce((sum, row) => sum + row.departures, 0), format: 'number' },
+      { label: 'Stayover Services', value: rows.reduce((sum, row) => sum + row.stayovers, 0), format: 'number' },
+      { label: 'Dirty Now', value: countStatus('dirty'), format: 'number' },
+      { label: 'Out of Order Now', value: countStatus('oos') + countStatus('maintenance'), format: 'number' },
+    ],
+    columns: [
+      column('room', 'Room'),
+      column('type', 'Type'),
+      column('status', 'Current Status'),
+      column('lastCleaned', 'Last Cleaned'),
+      column('departures', 'Departures', 'number'),
+      column('stayovers', 'Stayovers', 'number'),
+      column('cleans', 'Total Services', 'number'),
+    ],
+    rows,
+    chart: {
+      kind: 'bar',
+      xKey: 'date',
+      series: [
+        { key: 'departures', label: 'Departure cleans' },
+        { key: 'stayovers', label: 'Stayovers' },
+      ],
+      data: days.map((date) => ({
+        date,
+        departures: stays.filter((reservation) => toDateKey(reservation.checkOut) === date).length,
+        stayovers: stays.filter((reservation) => coversNight(reservation, date) && toDateKey(reservation.checkIn) !== date).length,
+      })),
+    },
+  };
+}
+
+const cancellationReason = (reservation: Reservation) => {
+  const match = reservation.notes?.match(/Cancellation reason:\s*(.+)/);
+  return match ? match[1].trim() : '-';
+};
+
+function buildCancellations(range: ReportRange, sources: ReportSources): ReportData {
+  // Reservations carry no cancellation timestamp, so the last update stands in for it
+  const cancelled = sources.reservations.filter(
+    (reservation) => reservation.status === 'cancelled' && inRange(toDateKey(reservation.updatedAt), range)
+  );
+  const rows = cancelled.map((reservation) => ({
+    cancelledOn: toDateKey(reservation.updatedAt),
+    confirmation: reservation.confirmationNumber,
+    guest: guestName(reservation),
+    arrival: toDateKey(reservation.checkIn),
+    nights: reservation.nights,
+    leadDays: Math.max(
+      Math.round((parseISO(toDateKey(reservation.checkIn)).getTime() - parseISO(toDateKey(reservation.updatedAt)).getTime()) / 86400000),
+      0
+    ),
+    source: reservation.source,
+    lostRevenue: round(reservation.totalAmount),
+    reason: cancellationReason(reservation),
+  }));
+
+  const bookedInRange = sources.reservations.filter((reservation) => inRange(toDateKey(reservation.createdAt), range)).length;
+  const bySource = rows.reduce<Record<string, number>>((counts, row) => {
+    counts[row.source] = (counts[row.source] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  return {
+    summary: [
+      { label: 'Cancellations', value: rows.length, format: 'number' },
+      { label: 'Room Nights Lost', value: rows.reduce((sum, row) => sum + row.nights, 0), format: 'number' },
+      { label: 'Revenue Lost', value: round(rows.reduce((sum, row) => sum + row.lostRevenue, 0)), format: 'currency' },
+      { label: 'Cancellation Rate', value: bookedInRange ? round((rows.length / bookedInRange) * 100) : 0, format: 'percent' },
+    ],
+    columns: [
+      column('cancelledOn', 'Cancelled On'),
+      column('confirmation', 'Confirmation'),
+      column('guest', 'Guest'),
+      column('arrival', 'Arrival'),
+      column('nights', 'Nights', 'number'),
+      column('leadDays', 'Days Before Arrival', 'number'),
+      column('source', 'Source'),
+      column('lostRevenue', 'Lost Revenue', 'currency'),
+      column('reason', 'Reason'),
+    ],
+    rows,
+    chart: {
+      kind: 'pie',
+      xKey: 'source',
+      series: [{ key: 'count', label: 'Cancellations' }],
+      data: Object.entries(bySource).map(([source, count]) => ({ source, count })),
+    },
+  };
+}
+
+function buildNoShows(range: ReportRange, sources: ReportSources): ReportData {
+  const today = sources.today ?? format(new Date(), 'yyyy-MM-dd');
+  // Flagged no-shows, plus arrivals whose date has passed without a check-in
+  const noShows = sources.reservations.filter((reservation) => {
+    const arrival = toDateKey(reservation.checkIn);
+    if (!inRange(arrival, range)) {
+      return false;
+    }
+    return (
+      reservation.status === 'no-show' ||
+      ((reservation.status === 'pending' || reservation.status === 'confirmed') && arrival < today)
+    );
+  });
+  const expectedArrivals = sources.reservations.filter(
+    (reservation) => inRange(toDateKey(reservation.checkIn), range) && reservation.status !== 'cancelled'
+  ).length;
+
+  const rows = noShows.map((reservation) => ({
+    arrival: toDateKey(reservation.checkIn),
+    confirmation: reservation.confirmationNumber,
+    guest: guestName(reservation),
+    phone: reservation.guest.phone || '-',
+    nights: reservation.nights,
+    source: reservation.source,
+    status: reservation.status === 'no-show' ? 'No-show' : 'Not arrived',
+    revenue: round(reservation.totalAmount),
+    paid: round(reservation.amountPaid),
+    fee: round(reservation.cancellationDetails?.kind === 'no-show' ? reservation.cancellationDetails.penalty : 0),
+  }));
+
+  return {
+    summary: [
+      { label: 'No-Shows', value: rows.length, format: 'number' },
+      { label: 'No-Show Rate', value: expectedArrivals ? round((rows.length / expectedArrivals) * 100) : 0, format: 'percent' },
+      { label: 'Revenue at Risk', value: round(rows.reduce((sum, row) => sum + row.revenue, 0)), format: 'currency' },
+      { label: 'Deposits Held', value: round(rows.reduce((sum, row) => sum + row.paid, 0)), format: 'currency' },
+      { label: 'No-Show Fees', value: round(rows.reduce((sum, row) => sum + row.fee, 0)), format: 'currency' },
+    ],
+    columns: [
+      column('arrival', 'Arrival'),
+      column('confirmation', 'Confirmation'),
+      column('guest', 'Guest'),
+      column('phone', 'Phone'),
+      column('nights', 'Nights', 'number'),
+      column('source', 'Source'),
+      column('status', 'Status'),
+      column('revenue', 'Booked Revenue', 'currency'),
+      column('paid', 'Paid', 'currency'),
+      column('fee', 'No-Show Fee', 'currency'),
+    ],
+    rows,
+    chart: {
+      kind: 'bar',
+      xKey: 'date',
+      series: [{ key: 'noShows', label: 'No-shows' }],
+      data: rangeDays(range).map((date) => ({
+        date,
+        noShows: rows.filter((row) => row.arrival === date).length,
+      })),
+    },
+  };
+}
+
+// The owners' daily snapshot: occupancy, rate and revenue side by side
+function buildManagerFlash(range: ReportRange, sources: ReportSources): ReportData {
+  const occupancy = buildOccupancy(range, sources);
+  const revenue = buildRevenue(range, sources);
+
+  const rows = occupancy.rows.map((row, index) => ({
+    date: row.date,
+    occupancy: row.occupancy,
+    sold: row.sold,
+    adr: row.adr,
+    revpar: row.revpar,
+    room: revenue.rows[index].room,
+    other: revenue.rows[index].other,
+    total: revenue.rows[index].total,
+    arrivals: row.arrivals,
+    departures: row.departures,
+  }));
+  const metric = (data: ReportData, label: string) => data.summary.find((item) => item.label === label)?.value ?? 0;
+
+  return {
+    summary: [
+      { label: 'Occupancy', value: metric(occupancy, 'Occupancy'), format: 'percent' },
+      { label: 'ADR', value: metric(occupancy, 'ADR'), format: 'currency' },
+      { label: 'RevPAR', value: metric(occupancy, 'RevPAR'), format: 'currency' },
+      { label: 'Total Revenue', value: round(rows.reduce((sum, row) => sum + Number(row.total), 0)), format: 'currency' },
+    ],
+    columns: [
+      column('date', 'Date'),
+      column('occupancy', 'Occupancy', 'percent'),
+      column('sold', 'Rooms Sold', 'number'),
+      column('adr', 'ADR', 'currency'),
+      column('revpar', 'RevPAR', 'currency'),
+      column('room', 'Room Revenue', 'currency'),
+      column('other', 'Other Revenue', 'currency'),
+      column('total', 'Net Revenue', 'currency'),
+      column('arrivals', 'Arrivals', 'number'),
+      column('departures', 'Departures', 'number'),
+    ],
+    rows,
+    chart: {
+      kind: 'bar',
+      xKey: 'date',
+      series: [
+        { key: 'room', label: 'Room' },
+        { key: 'other', label: 'Other' },
+      ],
+      data: rows,
+    },
+  };
+}
+
+const BUILDERS: Record<ReportType, (range: ReportRange, sources: ReportSources) => ReportData> = {
+  occupancy: buildOccupancy,
+  revenue: buildRevenue,
+  'guest-demographics': buildGuestDemographics,
+  housekeeping: buildHousekeeping,
+  cancellations: buildCancellations,
+  'no-shows': buildNoShows,
+  'manager-flash': buildManagerFlash,
+};
+
+export function buildReport(type: ReportType, range: ReportRange, sources: ReportSources, generatedBy: string): Report {
+  if (toDateKey(range.to) < toDateKey(range.from)) {
+    throw new Error('The report end date must be on or after the start date');
+  }
+
+  return {
+    id: `${type}-${Date.now().toString(36)}`,
+    type,
+    title: REPORT_TITLES[type],
+    dateRange: { from: toDateKey(range.from), to: toDateKey(range.to) },
+    generatedAt: new Date().toISOString(),
+    generatedBy,
+    data: BUILDERS[type](range, sources),
+  };
+}
+
+export function formatReportValue(value: ReportCell | undefined, valueFormat: ReportValueFormat): string {
+  if (value === undefined || value === '') {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  switch (valueFormat) {
+    case 'currency':
+      return value.toLocaleString('en-IN', { style: 'currency', currency: 'INR' });
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    case 'number':
+      return value.toLocaleString('en-IN');
+    default:
+      return String(value);
+  }
+}
+
+const escapeCsv = (value: ReportCell | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Raw numbers keep the CSV usable in spreadsheets
+export function reportToCsv(report: Report): string {
+  const { columns, rows } = report.data;
+  const header = columns.map((col) => escapeCsv(col.label)).join(',');
+  const body = rows.map((row) => columns.map((col) => escapeCsv(row[col.key])).join(','));
+  return [header, ...body].join('\n');
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function reportToHtml(report: Report, hotelName = 'NexusNext'): string {
+  const { summary, columns, rows } = report.data;
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${escapeHtml(report.title)} - ${report.dateRange.from} to ${report.dateRange.to}</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 24px; color: #18181b; font-size: 12px; }
+        h1 { font-size: 20px; margin: 0; }
+        .meta { color: #71717a; margin: 4px 0 16px; }
+        .summary { display: flex; gap: 12px; margin-bottom: 16px; }
+        .metric { border: 1px solid #e4e4e7; border-radius: 6px; padding: 8px 12px; flex: 1; }
+        .metric .label { color: #71717a; font-size: 11px; }
+        .metric .value { font-size: 16px; font-weight: bold; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { border-bottom: 1px solid #e4e4e7; padding: 6px; text-align: left; }
+        th { background: #f4f4f5; }
+        td.num { text-align: right; }
+      </style>
+    </head>
+    <body>
+      <h1>${escapeHtml(hotelName)} - ${escapeHtml(report.title)}</h1>
+      <div class="meta">
+        ${report.dateRange.from} to ${report.dateRange.to} · Generated ${format(new Date(report.generatedAt), 'MMM d, yyyy h:mm a')} by ${escapeHtml(report.generatedBy)}
+      </div>
+      <div class="summary">
+        ${summary
+          .map(
+            (metric) => `<div class="metric"><div class="label">${escapeHtml(metric.label)}</div><div class="value">${escapeHtml(formatReportValue(metric.value, metric.format))}</div></div>`
+          )
+          .join('')}
+      </div>
+      <table>
+        <thead><tr>${columns.map((col) => `<th>${escapeHtml(col.label)}</th>`).join('')}</tr></thead>
+        <tbody>
+          ${rows
+            .map(
+              (row) =>
+                `<tr>${columns
+                  .map(
+                    (col) =>
+                      `<td class="${col.format === 'text' ? '' : 'num'}">${escapeHtml(formatReportValue(row[col.key], col.format))}</td>`
+                  )
+                  .join('')}</tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </body>
+    </html>
+  `;
+}
+
+const formatPeriod = (report: Report) =>
+  report.dateRange.from === report.dateRange.to
+    ? report.dateRange.from
+    : `${report.dateRange.from} to ${report.dateRange.to}`;
+
+// Plain-text summary used as the message body for scheduled deliveries
+export function reportToText(report: Report, hotelName = 'NexusNext'): string {
+  return [
+    `${hotelName} - ${report.title}`,
+    formatPeriod(report),
+    ...report.data.summary.map((metric) => `${metric.label}: ${formatReportValue(metric.value, metric.format)}`),
+  ].join('\n');
+}
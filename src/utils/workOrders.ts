@@ -0,0 +1,46 @@
+import type { WorkOrder, WorkOrderCategory, WorkOrderStatus } from '../types';
+
+export const WORK_ORDER_CATEGORY_LABELS: Record<WorkOrderCategory, string> = {
+  plumbing: 'Plumbing',
+  electrical: 'Electrical',
+  hvac: 'AC / Heating',
+  furniture: 'Furniture',
+  appliance: 'Appliance',
+  carpentry: 'Carpentry',
+  painting: 'Painting',
+  other: 'Other',
+};
+
+export const WORK_ORDER_STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  open: 'Open',
+  'in-progress': 'In Progress',
+  'on-hold': 'On Hold',
+  closed: 'Closed',
+};
+
+export const WORK_ORDER_PRIORITY_OPTIONS: Array<{ value: WorkOrder['priority']; label: string }> = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'urgent', label: 'Urgent' },
+];
+
+const MAX_PHOTO_BYTES = 1024 * 1024;
+
+const checkPhoto = (file: File) => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+  if (file.size > MAX_PHOTO_BYTES) {
+    throw new Error(`${file.name} is larger than 1 MB`);
+  }
+};
+
+/**
+ * Uploads image files picked in a file input and returns their URLs; only the URLs are kept with the record
+ */
+export const uploadPhotos = async (files: FileList | null, upload: (file: File) => Promise<string>): Promise<string[]> => {
+  const picked = Array.from(files ?? []);
+  picked.forEach(checkPhoto);
+  return Promise.all(picked.map(upload));
+};